@@ -8,23 +8,33 @@ import {
   ErrorCode,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 
-import { ComputeManager, ComputeToolInputSchema } from './tools/compute';
-import { StorageNetworkManager, StorageNetworkToolInputSchema } from './tools/storage-network';
-import { DatabaseAnalyticsManager, DatabaseAnalyticsToolInputSchema } from './tools/database-analytics';
-import { MonitoringSecurityManager, MonitoringSecurityToolInputSchema } from './tools/monitoring-security';
-import { getOCIClient, resetOCIClient } from './utils/oci-client';
+import { ComputeManager, ComputeToolInputSchema } from './tools/compute.js';
+import { StorageNetworkManager, StorageNetworkToolInputSchema } from './tools/storage-network.js';
+import { DatabaseAnalyticsManager, DatabaseAnalyticsToolInputSchema } from './tools/database-analytics.js';
+import { MonitoringSecurityManager, MonitoringSecurityToolInputSchema } from './tools/monitoring-security.js';
+import { WorkRequestManager, WorkRequestToolInputSchema } from './tools/work-requests.js';
+import { getOCIClient, resetOCIClient } from './utils/oci-client.js';
+import { toOCIError } from './utils/errors.js';
+import {
+  OCIResourceListResponse,
+  OCIResourceDetailResponse,
+  OCIOperationResponse,
+  OCIErrorResponse
+} from './types/oci.js';
 
 /**
  * Oracle Cloud Infrastructure (OCI) MCP Server
  * 
  * This server provides a comprehensive interface to Oracle Cloud Infrastructure
- * through four unified tools that cover all major OCI services:
+ * through five unified tools that cover all major OCI services:
  * 
  * 1. oci-compute: Compute instances, volumes, shapes, images
  * 2. oci-storage-network: Object storage, VCNs, subnets, security, load balancers
  * 3. oci-database-analytics: Database systems, autonomous databases, backups
  * 4. oci-monitoring-security: Alarms, metrics, logs, security groups, IAM
+ * 5. oci-work-requests: Progress, errors and logs of long-running operations
  */
 
 class OCIMCPServer {
@@ -33,6 +43,7 @@ class OCIMCPServer {
   private storageNetworkManager: StorageNetworkManager;
   private databaseAnalyticsManager: DatabaseAnalyticsManager;
   private monitoringSecurityManager: MonitoringSecurityManager;
+  private workRequestManager: WorkRequestManager;
 
   constructor() {
     this.server = new Server(
@@ -51,6 +62,7 @@ class OCIMCPServer {
     this.storageNetworkManager = new StorageNetworkManager();
     this.databaseAnalyticsManager = new DatabaseAnalyticsManager();
     this.monitoringSecurityManager = new MonitoringSecurityManager();
+    this.workRequestManager = new WorkRequestManager();
 
     this.setupToolHandlers();
     this.setupErrorHandling();
@@ -63,18 +75,37 @@ class OCIMCPServer {
         tools: [
           {
             name: 'oci-compute',
-            description: 'Manage OCI compute resources including instances, volumes, shapes, and images. Supports listing, creating, managing (start/stop/reboot), and volume operations.',
+            description: 'Manage OCI compute resources including instances, block and boot volumes, volume groups, backups, backup policies, shapes, and images. Supports listing, creating, managing (start/stop/reboot/resize), volume operations, backups and restores, boot volume replacement, custom image creation, export and import, serial console history and console connections, instance configurations, instance pools and autoscaling, running scripts inside instances through the Oracle Cloud Agent, launching instances with cloud-init user data or from named launch profiles, and secondary VNICs.',
             inputSchema: {
               type: 'object',
               properties: {
                 action: {
                   type: 'string',
-                  enum: ['list', 'get', 'create', 'start', 'stop', 'reboot', 'terminate', 'attach-volume', 'detach-volume'],
+                  enum: [
+                    'list', 'get', 'create', 'start', 'stop', 'reboot', 'terminate', 'resize', 'attach-volume', 'detach-volume',
+                    'backup-boot-volume', 'clone-boot-volume', 'restore-boot-volume', 'replace-boot-volume',
+                    'backup-volume', 'restore-volume', 'copy-volume-backup', 'update-volume', 'assign-backup-policy', 'remove-backup-policy',
+                    'update-volume-group', 'delete-volume-group', 'backup-volume-group',
+                    'create-image', 'export-image', 'import-image', 'delete-image', 'add-image-shape', 'remove-image-shape',
+                    'capture-console-history', 'create-console-connection', 'delete-console-connection',
+                    'start-pool', 'stop-pool', 'resize-pool', 'terminate-pool', 'delete-instance-configuration',
+                    'update-autoscaling-configuration', 'delete-autoscaling-configuration', 'run-command',
+                    'attach-vnic', 'detach-vnic'
+                  ],
                   description: 'The action to perform on compute resources'
                 },
                 resourceType: {
                   type: 'string',
-                  enum: ['instances', 'instance', 'images', 'image', 'shapes', 'volumes', 'volume', 'volume-attachments', 'volume-attachment'],
+                  enum: [
+                    'instances', 'instance', 'images', 'image', 'shapes', 'volumes', 'volume', 'volume-attachments', 'volume-attachment',
+                    'boot-volumes', 'boot-volume', 'boot-volume-backups', 'boot-volume-backup', 'boot-volume-attachments', 'boot-volume-attachment',
+                    'volume-backups', 'volume-backup', 'volume-backup-policies', 'volume-backup-policy', 'volume-backup-policy-assignment',
+                    'volume-groups', 'volume-group', 'volume-group-backups', 'volume-group-backup', 'image-shapes',
+                    'console-histories', 'console-history', 'console-connections', 'console-connection',
+                    'instance-configurations', 'instance-configuration', 'instance-pools', 'instance-pool', 'instance-pool-instances',
+                    'autoscaling-configurations', 'autoscaling-configuration', 'command-execution', 'launch-profiles',
+                    'vnic-attachments', 'vnic-attachment', 'vnics', 'vnic'
+                  ],
                   description: 'The type of compute resource to work with'
                 },
                 resourceId: {
@@ -83,11 +114,268 @@ class OCIMCPServer {
                 },
                 compartmentId: {
                   type: 'string',
-                  description: 'The compartment OCID (optional, defaults to tenancy root)'
+                  description: 'The compartment OCID (optional, defaults to tenancy root). For volume-backup-policies, lists custom policies instead of the Oracle-defined ones'
+                },
+                region: {
+                  type: 'string',
+                  description: 'OCI region for this call (e.g. eu-frankfurt-1); defaults to the configured region'
+                },
+                profile: {
+                  type: 'string',
+                  description: 'OCI config file profile for this call, e.g. to reach another tenancy; defaults to the configured profile'
+                },
+                page: {
+                  type: 'string',
+                  description: 'Page token from a previous list response (nextPage) to continue from'
+                },
+                fetchAll: {
+                  type: 'boolean',
+                  description: 'For list actions, follow pages until the list ends (up to maxItems)'
+                },
+                maxItems: {
+                  type: 'number',
+                  description: 'For list actions, maximum number of items to return across pages (default 1000 with fetchAll)'
+                },
+                waitForState: {
+                  type: 'string',
+                  description: 'For create and lifecycle actions, wait until the resource reaches this lifecycle state (e.g. RUNNING, STOPPED, AVAILABLE, TERMINATED, ATTACHED) and return its final snapshot'
+                },
+                waitTimeoutSeconds: {
+                  type: 'number',
+                  description: 'Maximum time to wait for waitForState (default 1200); for run-command, how long to poll for the results (default the execution timeout plus 60, 0 to return at once)'
+                },
+                shape: {
+                  type: 'string',
+                  description: 'For resize, the new shape (checked against the shapes available in the instance\'s availability domain); for add-image-shape and remove-image-shape, the shape'
+                },
+                shapeConfig: {
+                  type: 'object',
+                  description: 'For resize (and data.shapeConfig on create), flexible shape sizing: ocpus, memoryInGBs, baselineOcpuUtilization (BASELINE_1_8, BASELINE_1_2, BASELINE_1_1)'
+                },
+                availabilityDomain: {
+                  type: 'string',
+                  description: 'Availability domain filter for list actions (required for boot-volume-attachments); target availability domain for clone-boot-volume (defaults to the source\'s), restore-boot-volume and restore-volume (required)'
+                },
+                instanceId: {
+                  type: 'string',
+                  description: 'Instance OCID for attach-volume, detach-volume and for getting a command-execution, or to filter volume-attachments, boot-volume-attachments, console-histories and console-connections'
+                },
+                bootVolumeId: {
+                  type: 'string',
+                  description: 'For replace-boot-volume, the replacement boot volume (same availability domain, not attached); filter for boot-volume-backups and boot-volume-attachments lists'
+                },
+                imageId: {
+                  type: 'string',
+                  description: 'For replace-boot-volume, build the replacement boot volume from this image instead; required for listing image-shapes'
+                },
+                uri: {
+                  type: 'string',
+                  description: 'For export-image and import-image, an Object Storage object URL or pre-authenticated request URL (instead of bucketName and objectName)'
+                },
+                bucketName: {
+                  type: 'string',
+                  description: 'For export-image and import-image, the bucket holding the image'
+                },
+                objectName: {
+                  type: 'string',
+                  description: 'For export-image and import-image, the object holding the image'
+                },
+                namespaceName: {
+                  type: 'string',
+                  description: 'For export-image, import-image and run-command output, the Object Storage namespace (defaults to the tenancy\'s)'
+                },
+                exportFormat: {
+                  type: 'string',
+                  enum: ['OCI', 'QCOW2', 'VMDK', 'VHD', 'VDI'],
+                  description: 'For export-image (default OCI, which keeps the image metadata for import-image)'
+                },
+                sourceImageType: {
+                  type: 'string',
+                  enum: ['QCOW2', 'VMDK'],
+                  description: 'For import-image of a QCOW2 or VMDK file; leave out for images exported in the OCI format'
+                },
+                operatingSystem: {
+                  type: 'string',
+                  description: 'For import-image, the image\'s operating system'
+                },
+                operatingSystemVersion: {
+                  type: 'string',
+                  description: 'For import-image, the operating system version'
+                },
+                launchMode: {
+                  type: 'string',
+                  enum: ['NATIVE', 'EMULATED', 'PARAVIRTUALIZED', 'CUSTOM'],
+                  description: 'For import-image of QCOW2 or VMDK files (default PARAVIRTUALIZED)'
+                },
+                preserveBootVolume: {
+                  type: 'boolean',
+                  description: 'For replace-boot-volume, keep the old boot volume (default true)'
+                },
+                backupType: {
+                  type: 'string',
+                  enum: ['FULL', 'INCREMENTAL'],
+                  description: 'For backup-boot-volume, backup-volume and backup-volume-group (default INCREMENTAL)'
+                },
+                volumeId: {
+                  type: 'string',
+                  description: 'Volume OCID for attach-volume and detach-volume, or to filter volume-backups and volume-attachments'
+                },
+                volumeAttachmentId: {
+                  type: 'string',
+                  description: 'For detach-volume, the attachment to remove (instead of instanceId and volumeId)'
+                },
+                attachmentType: {
+                  type: 'string',
+                  enum: ['iscsi', 'paravirtualized', 'emulated', 'service-determined'],
+                  description: 'For attach-volume (default iscsi). iSCSI attachments return the iscsiadm commands to run on the instance in data.iscsiCommands'
+                },
+                device: {
+                  type: 'string',
+                  description: 'For attach-volume, a consistent device path such as /dev/oracleoci/oraclevdb'
+                },
+                isReadOnly: {
+                  type: 'boolean',
+                  description: 'For attach-volume, attach the volume read-only'
+                },
+                isShareable: {
+                  type: 'boolean',
+                  description: 'For attach-volume, let other instances attach the volume at the same time'
+                },
+                useChap: {
+                  type: 'boolean',
+                  description: 'For iscsi attach-volume, require CHAP authentication'
+                },
+                encryptionInTransitType: {
+                  type: 'string',
+                  enum: ['NONE', 'BM_ENCRYPTION_IN_TRANSIT'],
+                  description: 'For iscsi attach-volume on bare metal instances, in-transit encryption'
+                },
+                isAgentAutoIscsiLoginEnabled: {
+                  type: 'boolean',
+                  description: 'For iscsi attach-volume, let the Oracle Cloud Agent run the iSCSI login and logout'
+                },
+                isPvEncryptionInTransitEnabled: {
+                  type: 'boolean',
+                  description: 'For paravirtualized attach-volume, encrypt data in transit'
+                },
+                vnicAttachmentId: {
+                  type: 'string',
+                  description: 'For detach-vnic, the attachment of the secondary VNIC to remove'
+                },
+                subnetId: {
+                  type: 'string',
+                  description: 'For attach-vnic, the subnet of the new VNIC'
+                },
+                nsgIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'For attach-vnic, up to 5 network security groups'
+                },
+                assignPublicIp: {
+                  type: 'boolean',
+                  description: 'For attach-vnic, whether the VNIC gets an ephemeral public IP (default the subnet\'s setting)'
+                },
+                hostnameLabel: {
+                  type: 'string',
+                  description: 'For attach-vnic, the VNIC\'s hostname in the subnet\'s DNS'
+                },
+                privateIp: {
+                  type: 'string',
+                  description: 'For attach-vnic, a free address in the subnet (OCI picks one otherwise)'
+                },
+                skipSourceDestCheck: {
+                  type: 'boolean',
+                  description: 'For attach-vnic, let the VNIC forward traffic, e.g. for NAT or firewall instances'
+                },
+                nicIndex: {
+                  type: 'number',
+                  description: 'For attach-vnic on bare metal shapes with two physical NICs, which one to use'
+                },
+                maxBytes: {
+                  type: 'number',
+                  description: 'For capture-console-history, how much output to return from the end of the console history (default 65536, up to 1048576)'
+                },
+                tailLines: {
+                  type: 'number',
+                  description: 'For capture-console-history, return only the last lines of the output'
+                },
+                publicKey: {
+                  type: 'string',
+                  description: 'For create-console-connection, the OpenSSH public key (e.g. the contents of ~/.ssh/id_rsa.pub) whose private key will open the connection'
+                },
+                volumeGroupId: {
+                  type: 'string',
+                  description: 'Filter for volume-group-backups'
+                },
+                instanceIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'For run-command, the instances to run the script on (up to 20), instead of resourceId'
+                },
+                script: {
+                  type: 'string',
+                  description: 'For run-command, the shell script to run through the Oracle Cloud Agent'
+                },
+                executionTimeoutSeconds: {
+                  type: 'number',
+                  description: 'For run-command, how long the script may run on each instance (default 600)'
+                },
+                separateStderr: {
+                  type: 'boolean',
+                  description: 'For run-command, run the script under bash to return stderr apart from stdout (default true; set false for Windows instances)'
+                },
+                outputBucketName: {
+                  type: 'string',
+                  description: 'For run-command, write each instance\'s output to this bucket instead of returning it'
+                },
+                outputPrefix: {
+                  type: 'string',
+                  description: 'For run-command with outputBucketName, the object name prefix (default run-command/<displayName>/); objects are named by instance OCID'
+                },
+                instancePoolId: {
+                  type: 'string',
+                  description: 'Instance pool OCID, required to list instance-pool-instances; filter for autoscaling-configurations'
+                },
+                size: {
+                  type: 'number',
+                  description: 'For resize-pool, the new number of instances'
+                },
+                isEnabled: {
+                  type: 'boolean',
+                  description: 'For update-autoscaling-configuration, turn autoscaling on or off'
+                },
+                coolDownInSeconds: {
+                  type: 'number',
+                  description: 'For update-autoscaling-configuration, the minimum time between scaling actions (at least 300)'
+                },
+                vpusPerGB: {
+                  type: 'number',
+                  description: 'For update-volume and restore-volume, performance in VPUs per GB: 0 (Lower Cost), 10 (Balanced), 20 (Higher Performance), 30-120 (Ultra High)'
+                },
+                destinationRegion: {
+                  type: 'string',
+                  description: 'For copy-volume-backup, the region to copy the backup to'
+                },
+                backupPolicy: {
+                  type: 'string',
+                  description: 'For assign-backup-policy on a volume, boot-volume or volume-group: bronze, silver, gold, a custom policy name (in compartmentId) or a policy OCID'
+                },
+                volumeIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'For update-volume-group, the complete new list of member volumes'
+                },
+                displayName: {
+                  type: 'string',
+                  description: 'Name for backups, clones, restores and updates; name filter for list actions'
+                },
+                sizeInGBs: {
+                  type: 'number',
+                  description: 'For update-volume, the new (larger) size; for clones, restores and replace-boot-volume from an image, the volume size (not smaller than the source)'
                 },
                 data: {
                   type: 'object',
-                  description: 'Data for resource creation (required for create action)'
+                  description: 'Data for resource creation (required for create action). instance takes subnetId with assignPublicIp, hostnameLabel, privateIp and nsgIds for its primary VNIC, userData (cloud-init text, base64-encoded for you) or userDataFile, freeformTags and definedTags; or profile (a launch profile from the launch profiles file) with displayName and template variables. instance-configuration takes instanceId or launchDetails (an instance create spec); instance-pool takes instanceConfigurationId, size and placementConfigurations; autoscaling-configuration takes instancePoolId and threshold or scheduled policies'
                 }
               },
               required: ['action', 'resourceType']
@@ -95,31 +383,268 @@ class OCIMCPServer {
           },
           {
             name: 'oci-storage-network',
-            description: 'Manage OCI storage and networking resources including object storage, VCNs, subnets, security lists, gateways, and load balancers.',
+            description: 'Manage OCI storage and networking resources including object storage, VCNs, subnets, security lists, gateways, load balancers, pre-authenticated requests, lifecycle policies, retention rules, object versioning, VNICs, secondary private IPs and reserved public IPs.',
             inputSchema: {
               type: 'object',
               properties: {
                 action: {
                   type: 'string',
-                  enum: ['list', 'get', 'create', 'upload-object', 'download-object', 'delete-object', 'delete-bucket', 'delete-vcn', 'update-security-list'],
+                  enum: [
+                    'list', 'get', 'create', 'upload-object', 'download-object', 'delete-object', 'abort-multipart-upload', 'create-par', 'delete-par',
+                    'restore-object-version', 'restore-archived-object', 'put-lifecycle-policy', 'delete-lifecycle-policy',
+                    'create-retention-rule', 'update-retention-rule', 'delete-retention-rule', 'set-versioning', 'sync',
+                    'delete-bucket', 'delete-vcn', 'update-security-list',
+                    'add-private-ip', 'move-private-ip', 'delete-private-ip', 'assign-public-ip', 'unassign-public-ip', 'delete-public-ip'
+                  ],
                   description: 'The action to perform on storage/network resources'
                 },
                 resourceType: {
                   type: 'string',
-                  enum: ['buckets', 'bucket', 'objects', 'object', 'vcns', 'vcn', 'subnets', 'subnet', 'security-lists', 'security-list', 'route-tables', 'route-table', 'internet-gateways', 'internet-gateway', 'nat-gateways', 'nat-gateway', 'load-balancers', 'load-balancer'],
+                  enum: [
+                    'buckets', 'bucket', 'objects', 'object', 'object-versions', 'multipart-uploads', 'multipart-upload',
+                    'preauthenticated-requests', 'preauthenticated-request', 'lifecycle-policy', 'retention-rules', 'retention-rule', 'vcns', 'vcn', 'subnets', 'subnet', 'security-lists', 'security-list', 'route-tables', 'route-table',
+                    'internet-gateways', 'internet-gateway', 'nat-gateways', 'nat-gateway', 'load-balancers', 'load-balancer',
+                    'vnic', 'private-ips', 'private-ip', 'public-ips', 'public-ip'
+                  ],
                   description: 'The type of storage/network resource to work with'
                 },
                 resourceId: {
                   type: 'string',
-                  description: 'The OCID or name of the resource'
+                  description: 'The OCID or name of the resource (for get on public-ip, the OCID or the address; for get and delete-par, the PAR ID; for get on lifecycle-policy, the bucket name; for retention rules, the rule ID)'
                 },
                 compartmentId: {
                   type: 'string',
                   description: 'The compartment OCID (optional, defaults to tenancy root)'
                 },
+                region: {
+                  type: 'string',
+                  description: 'OCI region for this call (e.g. eu-frankfurt-1); defaults to the configured region'
+                },
+                profile: {
+                  type: 'string',
+                  description: 'OCI config file profile for this call, e.g. to reach another tenancy; defaults to the configured profile'
+                },
+                page: {
+                  type: 'string',
+                  description: 'Page token from a previous list response (nextPage) to continue from'
+                },
+                fetchAll: {
+                  type: 'boolean',
+                  description: 'For list actions, follow pages until the list ends (up to maxItems)'
+                },
+                maxItems: {
+                  type: 'number',
+                  description: 'For list actions, maximum number of items to return across pages (default 1000 with fetchAll)'
+                },
+                namespaceName: {
+                  type: 'string',
+                  description: 'Object Storage namespace (defaults to the tenancy\'s)'
+                },
+                bucketName: {
+                  type: 'string',
+                  description: 'Bucket for object, lifecycle, retention and versioning actions and for objects lists'
+                },
+                objectName: {
+                  type: 'string',
+                  description: 'Object name for upload-object, download-object, delete-object, the restore actions and get on object; for create-par, the one object the link gives access to; filter for multipart-uploads and object-versions lists'
+                },
+                objectContent: {
+                  type: 'string',
+                  description: 'For upload-object, the content as text, or as base64 with encoding base64'
+                },
+                localPath: {
+                  type: 'string',
+                  description: 'For upload-object, a local file to upload; for download-object, the local file to write; for sync, the local directory'
+                },
+                direction: {
+                  type: 'string',
+                  enum: ['upload', 'download'],
+                  description: 'For sync, upload (local directory to bucket, default) or download (bucket to local directory)'
+                },
+                delete: {
+                  type: 'boolean',
+                  description: 'For sync, delete files or objects at the destination that the source does not have'
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'For sync, only return the plan of transfers and deletions (default true); pass false to apply it'
+                },
+                overwrite: {
+                  type: 'boolean',
+                  description: 'For download-object to localPath, replace an existing file'
+                },
+                encoding: {
+                  type: 'string',
+                  enum: ['auto', 'text', 'base64'],
+                  description: 'Encoding of objectContent (upload) or of the returned content (download). auto (default) returns text for text content types and base64 otherwise'
+                },
+                contentType: {
+                  type: 'string',
+                  description: 'For upload-object, the content type (default from the file extension, text/plain for text, application/octet-stream for base64)'
+                },
+                rangeStart: {
+                  type: 'number',
+                  description: 'For download-object, the first byte to read'
+                },
+                rangeEnd: {
+                  type: 'number',
+                  description: 'For download-object, the last byte to read (inclusive)'
+                },
+                versionId: {
+                  type: 'string',
+                  description: 'An object version (from object-versions lists) for get, download-object, restore-object-version, restore-archived-object, or delete-object to delete that version permanently'
+                },
+                storageTier: {
+                  type: 'string',
+                  enum: ['Standard', 'InfrequentAccess', 'Archive'],
+                  description: 'For upload-object, the storage tier (default the bucket\'s)'
+                },
+                hours: {
+                  type: 'number',
+                  description: 'For restore-archived-object, how many hours the object stays readable once restored (1-240, default 24)'
+                },
+                rules: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string' },
+                      action: { type: 'string', enum: ['ARCHIVE', 'INFREQUENT_ACCESS', 'DELETE', 'ABORT'] },
+                      timeAmount: { type: 'number' },
+                      timeUnit: { type: 'string', enum: ['DAYS', 'YEARS'] },
+                      target: { type: 'string', enum: ['objects', 'previous-object-versions', 'multipart-uploads'] },
+                      prefixes: { type: 'array', items: { type: 'string' } },
+                      inclusionPatterns: { type: 'array', items: { type: 'string' } },
+                      exclusionPatterns: { type: 'array', items: { type: 'string' } },
+                      isEnabled: { type: 'boolean' }
+                    },
+                    required: ['name', 'action', 'timeAmount']
+                  },
+                  description: 'For put-lifecycle-policy, every rule of the policy (it replaces the current one). target defaults to objects, timeUnit to DAYS; ABORT is for multipart-uploads'
+                },
+                timeAmount: {
+                  type: 'number',
+                  description: 'For retention rules, how long objects are kept'
+                },
+                timeUnit: {
+                  type: 'string',
+                  enum: ['DAYS', 'YEARS'],
+                  description: 'For retention rules, the unit of timeAmount (default DAYS)'
+                },
+                indefinite: {
+                  type: 'boolean',
+                  description: 'For retention rules, keep objects until the rule is deleted, instead of timeAmount'
+                },
+                timeRuleLocked: {
+                  type: 'string',
+                  description: 'For retention rules, when the rule locks (ISO 8601, at least 14 days ahead). A locked rule can never be deleted or shortened'
+                },
+                versioning: {
+                  type: 'string',
+                  enum: ['Enabled', 'Suspended'],
+                  description: 'For set-versioning, turn object versioning on or suspend it'
+                },
+                maxBytes: {
+                  type: 'number',
+                  description: 'For download-object, refuse to read more than this many bytes (default 1048576 inline, no limit with localPath)'
+                },
+                name: {
+                  type: 'string',
+                  description: 'For create-par, the PAR name (default one naming the scope and access)'
+                },
+                prefix: {
+                  type: 'string',
+                  description: 'For create-par, give access to the objects whose names start with this (instead of objectName for one object, or neither for the whole bucket); filter for preauthenticated-requests lists; for sync, the bucket "directory" to sync with'
+                },
+                access: {
+                  type: 'string',
+                  enum: ['read', 'write', 'read-write'],
+                  description: 'For create-par, what the link allows (default read)'
+                },
+                allowListing: {
+                  type: 'boolean',
+                  description: 'For create-par with read access to a bucket or prefix, let the link list the objects'
+                },
+                expiresInHours: {
+                  type: 'number',
+                  description: 'For create-par, hours until the link expires'
+                },
+                timeExpires: {
+                  type: 'string',
+                  description: 'For create-par, when the link expires (ISO 8601), instead of expiresInHours'
+                },
+                allowNoExpiry: {
+                  type: 'boolean',
+                  description: 'For create-par, allow a link that never expires when no expiry is given (refused otherwise)'
+                },
+                multipart: {
+                  type: 'boolean',
+                  description: 'For upload-object from localPath, force or avoid a multipart upload (by default files over 128 MiB are uploaded in parts)'
+                },
+                partSizeMiB: {
+                  type: 'number',
+                  description: 'For multipart uploads, the part size in MiB (10-1024; default 128, raised to stay within 10,000 parts)'
+                },
+                concurrency: {
+                  type: 'number',
+                  description: 'For multipart uploads, how many parts to upload at once, lowered to keep at most 1 GiB of parts in memory; for sync, how many files to transfer at once (1-16, default 4)'
+                },
+                uploadId: {
+                  type: 'string',
+                  description: 'For upload-object, a multipart upload to resume; for abort-multipart-upload, the upload to abort'
+                },
+                keepOnFailure: {
+                  type: 'boolean',
+                  description: 'For multipart uploads, keep the uploaded parts when the upload fails so it can be resumed (default abort, or keep when resuming with uploadId)'
+                },
+                olderThanHours: {
+                  type: 'number',
+                  description: 'For multipart-uploads lists and abort-multipart-upload without uploadId, only uploads started at least this many hours ago'
+                },
+                vnicId: {
+                  type: 'string',
+                  description: 'VNIC OCID for add-private-ip, the destination of move-private-ip, or for assign-public-ip the VNIC whose primary private IP gets it; filter for private-ips lists'
+                },
+                privateIpId: {
+                  type: 'string',
+                  description: 'For assign-public-ip, the private IP to assign the public IP to'
+                },
+                subnetId: {
+                  type: 'string',
+                  description: 'Filter for private-ips lists'
+                },
+                ipAddress: {
+                  type: 'string',
+                  description: 'For add-private-ip, a free address in the VNIC\'s subnet; filter for private-ips lists'
+                },
+                hostnameLabel: {
+                  type: 'string',
+                  description: 'For add-private-ip and move-private-ip, the address\'s hostname in the subnet\'s DNS'
+                },
+                displayName: {
+                  type: 'string',
+                  description: 'Display name for private and public IPs and retention rules; filter for list actions'
+                },
+                lifetime: {
+                  type: 'string',
+                  enum: ['RESERVED', 'EPHEMERAL'],
+                  description: 'Filter for public-ips lists'
+                },
+                availabilityDomain: {
+                  type: 'string',
+                  description: 'For public-ips lists, list the ephemeral public IPs of instances in this availability domain instead of the regional ones'
+                },
+                waitForState: {
+                  type: 'string',
+                  description: 'For public IP create, assign, unassign and delete, wait until the public IP reaches this lifecycle state (e.g. ASSIGNED, AVAILABLE, TERMINATED)'
+                },
+                waitTimeoutSeconds: {
+                  type: 'number',
+                  description: 'Maximum time to wait for waitForState (default 1200)'
+                },
                 data: {
                   type: 'object',
-                  description: 'Data for resource creation (required for create action)'
+                  description: 'Data for resource creation (required for create action). public-ip creates a reserved public IP from compartmentId, displayName, and optionally privateIpId to assign it to and publicIpPoolId'
                 }
               },
               required: ['action', 'resourceType']
@@ -149,6 +674,34 @@ class OCIMCPServer {
                   type: 'string',
                   description: 'The compartment OCID (optional, defaults to tenancy root)'
                 },
+                region: {
+                  type: 'string',
+                  description: 'OCI region for this call (e.g. eu-frankfurt-1); defaults to the configured region'
+                },
+                profile: {
+                  type: 'string',
+                  description: 'OCI config file profile for this call, e.g. to reach another tenancy; defaults to the configured profile'
+                },
+                page: {
+                  type: 'string',
+                  description: 'Page token from a previous list response (nextPage) to continue from'
+                },
+                fetchAll: {
+                  type: 'boolean',
+                  description: 'For list actions, follow pages until the list ends (up to maxItems)'
+                },
+                maxItems: {
+                  type: 'number',
+                  description: 'For list actions, maximum number of items to return across pages (default 1000 with fetchAll)'
+                },
+                waitForState: {
+                  type: 'string',
+                  description: 'For create and lifecycle actions, wait until the resource reaches this lifecycle state (e.g. RUNNING, STOPPED, AVAILABLE, TERMINATED) and return its final snapshot'
+                },
+                waitTimeoutSeconds: {
+                  type: 'number',
+                  description: 'Maximum time to wait for waitForState (default 1200)'
+                },
                 data: {
                   type: 'object',
                   description: 'Data for resource creation (required for create action)'
@@ -181,6 +734,26 @@ class OCIMCPServer {
                   type: 'string',
                   description: 'The compartment OCID (optional, defaults to tenancy root)'
                 },
+                region: {
+                  type: 'string',
+                  description: 'OCI region for this call (e.g. eu-frankfurt-1); defaults to the configured region'
+                },
+                profile: {
+                  type: 'string',
+                  description: 'OCI config file profile for this call, e.g. to reach another tenancy; defaults to the configured profile'
+                },
+                page: {
+                  type: 'string',
+                  description: 'Page token from a previous list response (nextPage) to continue from'
+                },
+                fetchAll: {
+                  type: 'boolean',
+                  description: 'For list actions, follow pages until the list ends (up to maxItems)'
+                },
+                maxItems: {
+                  type: 'number',
+                  description: 'For list actions, maximum number of items to return across pages (default 1000 with fetchAll)'
+                },
                 data: {
                   type: 'object',
                   description: 'Data for resource creation (required for create action)'
@@ -188,6 +761,67 @@ class OCIMCPServer {
               },
               required: ['action', 'resourceType']
             }
+          },
+          {
+            name: 'oci-work-requests',
+            description: 'Follow long-running OCI operations. Mutating actions of the other tools return a workRequestId; use it here to check progress and read errors and log entries.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                action: {
+                  type: 'string',
+                  enum: ['list', 'get'],
+                  description: 'list work requests or their errors/logs, or get one work request'
+                },
+                resourceType: {
+                  type: 'string',
+                  enum: ['work-requests', 'work-request', 'work-request-errors', 'work-request-logs'],
+                  description: 'work-requests and work-request-errors/logs for list, work-request for get'
+                },
+                service: {
+                  type: 'string',
+                  enum: ['compute', 'database', 'network', 'load-balancer', 'network-load-balancer', 'logging'],
+                  description: 'Service that owns the work request (default compute; compute, database and network share one work request API)'
+                },
+                resourceId: {
+                  type: 'string',
+                  description: 'For get, the work request OCID. For list, only work requests affecting this resource (required for load-balancer: the load balancer OCID)'
+                },
+                workRequestId: {
+                  type: 'string',
+                  description: 'The work request OCID (for work-request-errors and work-request-logs)'
+                },
+                since: {
+                  type: 'string',
+                  description: 'For errors and logs, only entries after this ISO 8601 time; pass the last timestamp seen to follow a running operation'
+                },
+                compartmentId: {
+                  type: 'string',
+                  description: 'The compartment OCID (optional, defaults to tenancy root)'
+                },
+                region: {
+                  type: 'string',
+                  description: 'OCI region for this call (e.g. eu-frankfurt-1); defaults to the configured region'
+                },
+                profile: {
+                  type: 'string',
+                  description: 'OCI config file profile for this call, e.g. to reach another tenancy; defaults to the configured profile'
+                },
+                page: {
+                  type: 'string',
+                  description: 'Page token from a previous list response (nextPage) to continue from'
+                },
+                fetchAll: {
+                  type: 'boolean',
+                  description: 'For list actions, follow pages until the list ends (up to maxItems)'
+                },
+                maxItems: {
+                  type: 'number',
+                  description: 'For list actions, maximum number of items to return across pages (default 1000 with fetchAll)'
+                }
+              },
+              required: ['action', 'resourceType']
+            }
           }
         ]
       };
@@ -207,6 +841,8 @@ class OCIMCPServer {
             return await this.handleDatabaseAnalyticsTool(args);
           case 'oci-monitoring-security':
             return await this.handleMonitoringSecurityTool(args);
+          case 'oci-work-requests':
+            return await this.handleWorkRequestTool(args);
           default:
             throw new McpError(
               ErrorCode.MethodNotFound,
@@ -228,87 +864,67 @@ class OCIMCPServer {
   }
 
   private async handleComputeTool(args: any) {
-    try {
-      const validatedInput = ComputeToolInputSchema.parse(args);
-      const result = await this.computeManager.execute(validatedInput);
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2)
-          }
-        ]
-      };
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        `Invalid compute tool input: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-    }
+    const validatedInput = this.parseInput(ComputeToolInputSchema, args, 'compute');
+    const result = await this.computeManager.execute(validatedInput);
+    return this.toolResult('oci-compute', result);
   }
 
   private async handleStorageNetworkTool(args: any) {
-    try {
-      const validatedInput = StorageNetworkToolInputSchema.parse(args);
-      const result = await this.storageNetworkManager.execute(validatedInput);
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2)
-          }
-        ]
-      };
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        `Invalid storage/network tool input: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-    }
+    const validatedInput = this.parseInput(StorageNetworkToolInputSchema, args, 'storage/network');
+    const result = await this.storageNetworkManager.execute(validatedInput);
+    return this.toolResult('oci-storage-network', result);
   }
 
   private async handleDatabaseAnalyticsTool(args: any) {
-    try {
-      const validatedInput = DatabaseAnalyticsToolInputSchema.parse(args);
-      const result = await this.databaseAnalyticsManager.execute(validatedInput);
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2)
-          }
-        ]
-      };
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        `Invalid database/analytics tool input: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
-    }
+    const validatedInput = this.parseInput(DatabaseAnalyticsToolInputSchema, args, 'database/analytics');
+    const result = await this.databaseAnalyticsManager.execute(validatedInput);
+    return this.toolResult('oci-database-analytics', result);
   }
 
   private async handleMonitoringSecurityTool(args: any) {
-    try {
-      const validatedInput = MonitoringSecurityToolInputSchema.parse(args);
-      const result = await this.monitoringSecurityManager.execute(validatedInput);
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2)
-          }
-        ]
-      };
-    } catch (error) {
-      throw new McpError(
-        ErrorCode.InvalidParams,
-        `Invalid monitoring/security tool input: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+    const validatedInput = this.parseInput(MonitoringSecurityToolInputSchema, args, 'monitoring/security');
+    const result = await this.monitoringSecurityManager.execute(validatedInput);
+    return this.toolResult('oci-monitoring-security', result);
+  }
+
+  private async handleWorkRequestTool(args: any) {
+    const validatedInput = this.parseInput(WorkRequestToolInputSchema, args, 'work request');
+    const result = await this.workRequestManager.execute(validatedInput);
+    return this.toolResult('oci-work-requests', result);
+  }
+
+  /**
+   * Schema violations are the caller's fault and surface as InvalidParams,
+   * with the structured validation error attached as data
+   */
+  private parseInput<T extends z.ZodTypeAny>(schema: T, args: unknown, label: string): z.infer<T> {
+    const parsed = schema.safeParse(args);
+    if (!parsed.success) {
+      const detail = toOCIError(parsed.error);
+      throw new McpError(ErrorCode.InvalidParams, `Invalid ${label} tool input: ${detail.message}`, detail);
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Failures reported by a manager (OCI service, network or configuration
+   * errors) are returned as tool results flagged with isError, so the caller
+   * sees the structured error instead of a protocol error
+   */
+  private toolResult(tool: string, result: OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse | OCIErrorResponse) {
+    if ('error' in result && result.error) {
+      console.error(`[${tool}] ${result.error.type} error:`, JSON.stringify(result.error));
     }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }
+      ],
+      ...(result.success ? {} : { isError: true })
+    };
   }
 
   private setupErrorHandling(): void {
@@ -317,7 +933,7 @@ class OCIMCPServer {
     };
 
     process.on('SIGINT', async () => {
-      console.log('Shutting down OCI MCP Server...');
+      console.error('Shutting down OCI MCP Server...');
       resetOCIClient();
       await this.server.close();
       process.exit(0);
@@ -334,7 +950,7 @@ class OCIMCPServer {
         console.warn('Warning: OCI connection test failed. Please check your authentication configuration.');
         console.warn('Server will start but OCI operations may fail.');
       } else {
-        console.log('OCI connection test passed successfully.');
+        console.error('OCI connection test passed successfully.');
       }
     } catch (error) {
       console.warn('Warning: Could not test OCI connection:', error instanceof Error ? error.message : 'Unknown error');
@@ -343,7 +959,7 @@ class OCIMCPServer {
 
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
-    console.log('OCI MCP Server running on stdio');
+    console.error('OCI MCP Server running on stdio');
   }
 }
 
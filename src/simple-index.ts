@@ -8,16 +8,66 @@ import {
   ErrorCode,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
+import { ZodError } from 'zod';
+
+import { ComputeManager, ComputeToolInputSchema } from './tools/compute.js';
+import { StorageNetworkManager, StorageNetworkToolInputSchema } from './tools/storage-network.js';
+import { DatabaseAnalyticsManager, DatabaseAnalyticsToolInputSchema } from './tools/database-analytics.js';
+import { MonitoringSecurityManager, MonitoringSecurityToolInputSchema } from './tools/monitoring-security.js';
+import { WorkRequestManager, WorkRequestToolInputSchema } from './tools/work-requests.js';
+import { resolveConfigFilePath } from './utils/oci-config-file.js';
+import { OCIConfigurationError, toOCIError } from './utils/errors.js';
+import {
+  OCIResourceListResponse,
+  OCIResourceDetailResponse,
+  OCIOperationResponse,
+  OCIErrorResponse
+} from './types/oci.js';
 
 /**
  * Oracle Cloud Infrastructure (OCI) MCP Server
  * 
- * A simplified implementation that provides basic OCI functionality
- * through a single unified tool interface
+ * A simplified implementation that exposes OCI functionality through a
+ * single unified tool interface. Each call is routed to the same tool
+ * managers used by the full server (see index.ts).
  */
 
+type OCIService = 'compute' | 'storage' | 'network' | 'database' | 'monitoring' | 'identity' | 'work-requests';
+
+// Generic actions accepted by oci-manage in addition to each manager's own actions
+const GENERIC_ACTIONS = ['list', 'get', 'create', 'update', 'delete', 'start', 'stop'];
+
+const SERVICE_ACTIONS = [
+  'reboot', 'terminate', 'resize', 'attach-volume', 'detach-volume',
+  'backup-boot-volume', 'clone-boot-volume', 'restore-boot-volume', 'replace-boot-volume',
+  'backup-volume', 'restore-volume', 'copy-volume-backup', 'update-volume', 'assign-backup-policy', 'remove-backup-policy',
+  'update-volume-group', 'delete-volume-group', 'backup-volume-group',
+  'create-image', 'export-image', 'import-image', 'delete-image', 'add-image-shape', 'remove-image-shape',
+  'capture-console-history', 'create-console-connection', 'delete-console-connection',
+  'start-pool', 'stop-pool', 'resize-pool', 'terminate-pool', 'delete-instance-configuration',
+  'update-autoscaling-configuration', 'delete-autoscaling-configuration', 'run-command', 'attach-vnic', 'detach-vnic',
+  'upload-object', 'download-object', 'delete-object', 'abort-multipart-upload', 'create-par', 'delete-par', 'delete-bucket', 'delete-vcn', 'update-security-list',
+  'restore-object-version', 'restore-archived-object', 'put-lifecycle-policy', 'delete-lifecycle-policy',
+  'create-retention-rule', 'update-retention-rule', 'delete-retention-rule', 'set-versioning', 'sync',
+  'add-private-ip', 'move-private-ip', 'delete-private-ip', 'assign-public-ip', 'unassign-public-ip', 'delete-public-ip',
+  'start-database', 'stop-database', 'restart-database', 'start-autonomous-db', 'stop-autonomous-db',
+  'scale-autonomous-db', 'restore-database', 'clone-database', 'delete-backup',
+  'enable-alarm', 'disable-alarm', 'update-alarm', 'delete-alarm', 'add-security-rule', 'remove-security-rule',
+  'add-user-to-group', 'remove-user-from-group', 'attach-policy', 'detach-policy'
+];
+
+// oci-manage arguments passed through to the managers alongside parameters
+const TOP_LEVEL_ARGUMENTS = ['resourceId', 'compartmentId', 'region', 'profile', 'waitForState', 'waitTimeoutSeconds'];
+
 class OCIMCPServer {
   private server: Server;
+  private managers: {
+    compute: ComputeManager;
+    storageNetwork: StorageNetworkManager;
+    databaseAnalytics: DatabaseAnalyticsManager;
+    monitoringSecurity: MonitoringSecurityManager;
+    workRequests: WorkRequestManager;
+  } | null = null;
 
   constructor() {
     this.server = new Server(
@@ -49,13 +99,13 @@ class OCIMCPServer {
               properties: {
                 service: {
                   type: 'string',
-                  enum: ['compute', 'storage', 'network', 'database', 'monitoring', 'identity'],
-                  description: 'The OCI service to interact with'
+                  enum: ['compute', 'storage', 'network', 'database', 'monitoring', 'identity', 'work-requests'],
+                  description: 'The OCI service to interact with. work-requests follows the workRequestId returned by mutating actions (pass the owning service, e.g. load-balancer, as parameters.service)'
                 },
                 action: {
                   type: 'string',
-                  enum: ['list', 'get', 'create', 'update', 'delete', 'start', 'stop'],
-                  description: 'The action to perform'
+                  enum: [...GENERIC_ACTIONS, ...SERVICE_ACTIONS],
+                  description: 'The action to perform. Generic actions (list, get, create, update, delete, start, stop) are mapped to the matching service-specific action based on resourceType'
                 },
                 resourceType: {
                   type: 'string',
@@ -69,9 +119,25 @@ class OCIMCPServer {
                   type: 'string',
                   description: 'The compartment OCID (optional, defaults to tenancy)'
                 },
+                region: {
+                  type: 'string',
+                  description: 'OCI region for this call (e.g. eu-frankfurt-1); defaults to the configured region'
+                },
+                profile: {
+                  type: 'string',
+                  description: 'OCI config file profile for this call, e.g. to reach another tenancy; defaults to the configured profile'
+                },
+                waitForState: {
+                  type: 'string',
+                  description: 'For create and lifecycle actions on instances, volumes and autonomous databases, wait until the resource reaches this lifecycle state (e.g. RUNNING, STOPPED, AVAILABLE, TERMINATED)'
+                },
+                waitTimeoutSeconds: {
+                  type: 'number',
+                  description: 'Maximum time to wait for waitForState (default 1200)'
+                },
                 parameters: {
                   type: 'object',
-                  description: 'Additional parameters for the operation'
+                  description: 'Additional parameters for the operation. For create actions these are passed as the resource data; otherwise they are merged into the request (e.g. bucketName, instanceId, limit, and page/fetchAll/maxItems for list actions)'
                 }
               },
               required: ['service', 'action', 'resourceType']
@@ -127,7 +193,13 @@ class OCIMCPServer {
       'OCI_REGION'
     ];
 
-    const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
+    // The in-memory backend (OCI_BACKEND=fake) and principal authentication run
+    // without credentials, and an OCI config file supplies them itself
+    // (validated when the client is created)
+    const principalAuth = process.env.OCI_AUTH_TYPE === 'instance_principal' || process.env.OCI_AUTH_TYPE === 'resource_principal';
+    const missingVars = process.env.OCI_BACKEND === 'fake' || principalAuth || resolveConfigFilePath()
+      ? []
+      : requiredEnvVars.filter(varName => !process.env[varName]);
     
     if (missingVars.length > 0) {
       return {
@@ -136,9 +208,17 @@ class OCIMCPServer {
             type: 'text',
             text: JSON.stringify({
               success: false,
-              message: `OCI credentials not configured. Please set the following environment variables: ${missingVars.join(', ')}`,
+              message: `OCI credentials not configured. Please create ~/.oci/config or set the following environment variables: ${missingVars.join(', ')}`,
+              error: toOCIError(new OCIConfigurationError(`Missing environment variables: ${missingVars.join(', ')}`)),
               help: {
-                setup: 'Configure OCI authentication by setting environment variables',
+                setup: 'Configure OCI authentication with an OCI config file (~/.oci/config), by setting environment variables, or with OCI_AUTH_TYPE=instance_principal|resource_principal when running inside OCI',
+                authType: {
+                  OCI_AUTH_TYPE: 'api_key (default), security_token, instance_principal or resource_principal'
+                },
+                configFile: {
+                  OCI_CONFIG_FILE: 'Path to the OCI config file (defaults to ~/.oci/config)',
+                  OCI_CLI_PROFILE: 'Profile to use from the config file (defaults to DEFAULT)'
+                },
                 variables: {
                   OCI_TENANCY_ID: 'Your OCI tenancy OCID',
                   OCI_USER_ID: 'Your OCI user OCID', 
@@ -155,41 +235,177 @@ class OCIMCPServer {
               }
             }, null, 2)
           }
-        ]
+        ],
+        isError: true
       };
     }
 
-    // For now, return a mock response indicating the operation would be performed
-    const response = {
-      success: true,
-      service: args.service,
-      action: args.action,
+    const service = args.service as OCIService;
+    const action = this.resolveAction(service, args.action, args.resourceType);
+    const parameters = args.parameters || {};
+    // Top-level arguments take precedence over parameters, but only when given
+    const topLevel = Object.fromEntries(
+      TOP_LEVEL_ARGUMENTS.filter(key => args[key] !== undefined).map(key => [key, args[key]])
+    );
+    // Create data comes from parameters, in the top-level compartment unless they name one
+    const data = parameters.compartmentId === undefined && args.compartmentId !== undefined
+      ? { ...parameters, compartmentId: args.compartmentId }
+      : parameters;
+    const input = {
+      ...parameters,
+      ...topLevel,
+      action,
       resourceType: args.resourceType,
-      resourceId: args.resourceId,
-      compartmentId: args.compartmentId || process.env.OCI_COMPARTMENT_ID || process.env.OCI_TENANCY_ID,
-      message: `Would ${args.action} ${args.resourceType} in ${args.service} service`,
-      note: 'This is a placeholder response. Full OCI integration requires the complete implementation.',
-      credentials_configured: true,
-      region: process.env.OCI_REGION
+      ...(action === 'create' ? { data } : {})
     };
 
+    let result: OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse | OCIErrorResponse;
+    try {
+      const managers = this.getManagers();
+
+      switch (service) {
+        case 'compute':
+          result = await managers.compute.execute(ComputeToolInputSchema.parse(input));
+          break;
+        case 'storage':
+        case 'network':
+          result = await managers.storageNetwork.execute(StorageNetworkToolInputSchema.parse(input));
+          break;
+        case 'database':
+          result = await managers.databaseAnalytics.execute(DatabaseAnalyticsToolInputSchema.parse(input));
+          break;
+        case 'monitoring':
+        case 'identity':
+          result = await managers.monitoringSecurity.execute(MonitoringSecurityToolInputSchema.parse(input));
+          break;
+        case 'work-requests':
+          result = await managers.workRequests.execute(WorkRequestToolInputSchema.parse(input));
+          break;
+        default:
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Unsupported service: ${args.service}`
+          );
+      }
+    } catch (error) {
+      // Bad input is a protocol-level InvalidParams error; everything else the
+      // managers report comes back below as a structured tool error
+      if (error instanceof ZodError) {
+        const detail = toOCIError(error);
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid ${service} input for action '${action}' on '${args.resourceType}': ${detail.message}`,
+          detail
+        );
+      }
+      throw error;
+    }
+
+    if ('error' in result && result.error) {
+      console.error(`[oci-manage] ${result.error.type} error:`, JSON.stringify(result.error));
+    }
+
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(response, null, 2)
+          text: JSON.stringify(result, null, 2)
         }
-      ]
+      ],
+      ...(result.success ? {} : { isError: true })
     };
   }
 
+  /**
+   * Map a generic action (start, stop, update, delete) onto the service-specific
+   * action name expected by the managers. Anything else is passed through as-is
+   * and validated by the manager's input schema.
+   */
+  private resolveAction(service: OCIService, action: string, resourceType: string): string {
+    switch (service) {
+      case 'compute':
+        if (action === 'delete' && resourceType === 'instance') return 'terminate';
+        if (action === 'delete' && resourceType === 'volume-group') return 'delete-volume-group';
+        if (action === 'delete' && resourceType === 'image') return 'delete-image';
+        if (action === 'delete' && resourceType === 'console-connection') return 'delete-console-connection';
+        if (action === 'delete' && resourceType === 'volume-attachment') return 'detach-volume';
+        if (action === 'delete' && resourceType === 'vnic-attachment') return 'detach-vnic';
+        if (action === 'delete' && resourceType === 'instance-pool') return 'terminate-pool';
+        if (action === 'delete' && resourceType === 'instance-configuration') return 'delete-instance-configuration';
+        if (action === 'delete' && resourceType === 'autoscaling-configuration') return 'delete-autoscaling-configuration';
+        if (action === 'start' && resourceType === 'instance-pool') return 'start-pool';
+        if (action === 'stop' && resourceType === 'instance-pool') return 'stop-pool';
+        if (action === 'resize' && resourceType === 'instance-pool') return 'resize-pool';
+        if (action === 'update' && resourceType === 'autoscaling-configuration') return 'update-autoscaling-configuration';
+        if (action === 'update' && resourceType === 'volume') return 'update-volume';
+        if (action === 'update' && resourceType === 'volume-group') return 'update-volume-group';
+        break;
+      case 'storage':
+      case 'network':
+        if (action === 'delete') {
+          if (resourceType === 'object') return 'delete-object';
+          if (resourceType === 'multipart-upload') return 'abort-multipart-upload';
+          if (resourceType === 'preauthenticated-request') return 'delete-par';
+          if (resourceType === 'lifecycle-policy') return 'delete-lifecycle-policy';
+          if (resourceType === 'retention-rule') return 'delete-retention-rule';
+          if (resourceType === 'bucket') return 'delete-bucket';
+          if (resourceType === 'vcn') return 'delete-vcn';
+          if (resourceType === 'private-ip') return 'delete-private-ip';
+          if (resourceType === 'public-ip') return 'delete-public-ip';
+        }
+        if (action === 'create' && resourceType === 'preauthenticated-request') return 'create-par';
+        if (action === 'create' && resourceType === 'retention-rule') return 'create-retention-rule';
+        if (action === 'update' && resourceType === 'retention-rule') return 'update-retention-rule';
+        if (action === 'update' && resourceType === 'lifecycle-policy') return 'put-lifecycle-policy';
+        if (action === 'update' && resourceType === 'security-list') return 'update-security-list';
+        break;
+      case 'database':
+        if (resourceType === 'autonomous-database') {
+          if (action === 'start') return 'start-autonomous-db';
+          if (action === 'stop') return 'stop-autonomous-db';
+          if (action === 'update') return 'scale-autonomous-db';
+        }
+        if (resourceType === 'database') {
+          if (action === 'start') return 'start-database';
+          if (action === 'stop') return 'stop-database';
+        }
+        if (action === 'delete' && resourceType === 'backup') return 'delete-backup';
+        break;
+      case 'monitoring':
+      case 'identity':
+        if (resourceType === 'alarm') {
+          if (action === 'update') return 'update-alarm';
+          if (action === 'delete') return 'delete-alarm';
+        }
+        break;
+    }
+    return action;
+  }
+
+  /**
+   * Managers are created lazily so the server can start (and report missing
+   * credentials) before an OCI client is constructed.
+   */
+  private getManagers() {
+    if (!this.managers) {
+      this.managers = {
+        compute: new ComputeManager(),
+        storageNetwork: new StorageNetworkManager(),
+        databaseAnalytics: new DatabaseAnalyticsManager(),
+        monitoringSecurity: new MonitoringSecurityManager(),
+        workRequests: new WorkRequestManager()
+      };
+    }
+    return this.managers;
+  }
+
   private setupErrorHandling(): void {
     this.server.onerror = (error) => {
       console.error('[MCP Error]', error);
     };
 
     process.on('SIGINT', async () => {
-      console.log('Shutting down OCI MCP Server...');
+      console.error('Shutting down OCI MCP Server...');
       await this.server.close();
       process.exit(0);
     });
@@ -198,7 +414,7 @@ class OCIMCPServer {
   public async start(): Promise<void> {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
-    console.log('OCI MCP Server running on stdio');
+    console.error('OCI MCP Server running on stdio');
   }
 }
 
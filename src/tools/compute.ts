@@ -1,67 +1,363 @@
 import { z } from 'zod';
-import { getOCIClient } from '../utils/oci-client';
+import * as oci from 'oci-sdk';
+import { randomBytes } from 'crypto';
+import { getOCIClient, OCIClientManager } from '../utils/oci-client.js';
+import { readFileSync } from 'fs';
+import { OCIValidationError, toErrorResponse } from '../utils/errors.js';
+import { LaunchProfile, loadLaunchProfile, loadLaunchProfiles, renderTemplate } from '../utils/launch-profiles.js';
+import { expandHome } from '../utils/oci-config-file.js';
+import { withRetryCount } from '../utils/retry.js';
+import { fetchPages, toListResponse } from '../utils/pagination.js';
+import { completeOperation, planWait, rejectWait, waitForCommandExecutions } from '../utils/waiters.js';
 import { 
   OCIResourceListResponse, 
   OCIResourceDetailResponse, 
   OCIOperationResponse,
+  OCIErrorResponse,
   OCIListQuerySchema,
-  CreateInstanceRequestSchema 
-} from '../types/oci';
+  CreateInstanceRequestSchema,
+  HostnameLabelSchema,
+  OCIShapeConfig,
+  OCIShapeConfigSchema,
+  OCIPaginationSchema,
+  OCITargetSchema,
+  OCIWaitSchema,
+  refineCreateData
+} from '../types/oci.js';
+
+// Block volume performance: 0 (Lower Cost) to 120 (Ultra High) in steps of 10
+const VpusPerGBSchema = z.number().int().min(0).max(120).multipleOf(10);
+
+// OCI captures at most the last megabyte of serial console output
+const MAX_CONSOLE_HISTORY_BYTES = 1024 * 1024;
+const DEFAULT_CONSOLE_HISTORY_BYTES = 64 * 1024;
+
+// An OpenSSH public key line, e.g. the contents of ~/.ssh/id_rsa.pub
+const SshPublicKeySchema = z.string().trim().regex(
+  /^(ssh-rsa|ssh-ed25519|ecdsa-sha2-nistp(256|384|521)) [A-Za-z0-9+/]+={0,3}( .*)?$/,
+  'Expected an OpenSSH public key such as "ssh-rsa AAAA... user@host"'
+);
+
+// Run command through the Oracle Cloud Agent: one command per instance
+const MAX_RUN_COMMAND_INSTANCES = 20;
+const DEFAULT_COMMAND_TIMEOUT_SECONDS = 600;
+const RUN_COMMAND_PLUGIN = 'Compute Instance Run Command';
+
+// OCI limits an instance's metadata, user_data included once base64-encoded, to 32,000 bytes
+const MAX_INSTANCE_METADATA_BYTES = 32000;
 
 // Compute Tool Input Schemas
-const ComputeListInputSchema = z.object({
-  action: z.literal('list'),
-  resourceType: z.enum(['instances', 'images', 'shapes', 'volumes', 'volume-attachments']),
+const VolumeCreateSchema = z.object({
+  availabilityDomain: z.string().min(1, "Availability domain is required"),
+  compartmentId: z.string().min(1, "Compartment ID is required"),
+  sizeInGBs: z.number().min(50, "Volume size must be at least 50 GB"),
+  displayName: z.string().optional(),
+  volumeType: z.enum(['iscsi', 'paravirtualized']).optional(),
+  vpusPerGB: VpusPerGBSchema.optional()
+});
+
+// Where an image is exported to or imported from: an Object Storage URI
+// (which may be a pre-authenticated request) or a bucket and object name
+const ObjectLocationSchema = z.object({
+  uri: z.string().url().optional(),
+  bucketName: z.string().optional(),
+  objectName: z.string().optional(),
+  namespaceName: z.string().optional()  // Defaults to the tenancy's namespace
+});
+
+// Block and boot volumes of one availability domain
+const VolumeGroupCreateSchema = z.object({
+  availabilityDomain: z.string().min(1, "Availability domain is required"),
+  compartmentId: z.string().min(1, "Compartment ID is required"),
+  volumeIds: z.array(z.string()).min(1, "At least one volume is required"),
+  displayName: z.string().optional()
+});
+
+// Launch settings of an instance configuration: the fields of an instance
+// launch, with the availability domain and compartment left to the pool
+const InstanceLaunchSpecSchema = CreateInstanceRequestSchema.partial({ availabilityDomain: true, compartmentId: true });
+
+// Launch from a named launch profile (see launch-profiles.ts); fields given here override the profile's
+const ProfileLaunchSchema = z.object({
+  profile: z.string().min(1, "Launch profile name is required"),
+  displayName: z.string().optional(),
+  variables: z.record(z.string()).optional(),  // Values for the profile's cloud-init template
   compartmentId: z.string().optional(),
   availabilityDomain: z.string().optional(),
+  subnetId: z.string().optional(),
+  shapeConfig: OCIShapeConfigSchema.optional(),
+  assignPublicIp: z.boolean().optional(),
+  hostnameLabel: HostnameLabelSchema.optional()
+});
+
+const InstanceConfigurationCreateSchema = z.object({
+  compartmentId: z.string().min(1, "Compartment ID is required"),
+  displayName: z.string().optional(),
+  instanceId: z.string().optional(),                  // Copy the settings of an existing instance
+  launchDetails: InstanceLaunchSpecSchema.optional()  // Or give them explicitly
+});
+
+const InstancePoolCreateSchema = z.object({
+  compartmentId: z.string().min(1, "Compartment ID is required"),
+  instanceConfigurationId: z.string().min(1, "Instance configuration ID is required"),
+  size: z.number().int().min(0),
+  placementConfigurations: z.array(z.object({
+    availabilityDomain: z.string().min(1, "Availability domain is required"),
+    primarySubnetId: z.string().min(1, "Subnet ID is required"),
+    faultDomains: z.array(z.string()).optional()
+  })).min(1, "At least one placement configuration is required"),
+  loadBalancers: z.array(z.object({
+    loadBalancerId: z.string().min(1),
+    backendSetName: z.string().min(1),
+    port: z.number().int().min(1).max(65535),
+    vnicSelection: z.string().default('PrimaryVnic')
+  })).optional(),
+  displayName: z.string().optional()
+});
+
+const AutoScalingCapacitySchema = z.object({
+  min: z.number().int().min(0),
+  max: z.number().int().min(0),
+  initial: z.number().int().min(0)
+});
+
+// Add or remove instances when the pool's average CPU or memory utilization crosses a threshold
+const ThresholdPolicySchema = z.object({
+  policyType: z.literal('threshold'),
+  displayName: z.string().optional(),
+  capacity: AutoScalingCapacitySchema,
+  metricType: z.enum(['CPU_UTILIZATION', 'MEMORY_UTILIZATION']),
+  scaleOutThreshold: z.number().int().min(0).max(100),   // Percent above which instances are added
+  scaleInThreshold: z.number().int().min(0).max(100),    // Percent below which instances are removed
+  scaleOutCount: z.number().int().min(1).default(1),
+  scaleInCount: z.number().int().min(1).default(1)
+});
+
+// Resize the pool, or change the power state of its instances, on a cron schedule
+const ScheduledPolicySchema = z.object({
+  policyType: z.literal('scheduled'),
+  displayName: z.string().optional(),
+  cronExpression: z.string().min(1, "Cron expression is required"),  // Quartz format starting with seconds, e.g. "0 0 8 ? * MON-FRI"
+  timezone: z.string().default('UTC'),
+  poolSize: z.number().int().min(0).optional(),
+  powerAction: z.enum(['START', 'STOP', 'SOFTSTOP', 'RESET', 'SOFTRESET']).optional()
+});
+
+const AutoScalingConfigurationCreateSchema = z.object({
+  compartmentId: z.string().min(1, "Compartment ID is required"),
+  instancePoolId: z.string().min(1, "Instance pool ID is required"),
+  policies: z.array(z.discriminatedUnion('policyType', [ThresholdPolicySchema, ScheduledPolicySchema])).min(1, "At least one policy is required"),
+  coolDownInSeconds: z.number().int().min(300).optional(),
+  isEnabled: z.boolean().optional(),
+  displayName: z.string().optional()
+});
+
+type AutoScalingPolicyInput = z.infer<typeof AutoScalingConfigurationCreateSchema>['policies'][number];
+
+const ComputeListInputSchema = z.object({
+  action: z.literal('list'),
+  resourceType: z.enum([
+    'instances', 'images', 'shapes', 'volumes', 'volume-attachments',
+    'boot-volumes', 'boot-volume-backups', 'boot-volume-attachments',
+    'volume-backups', 'volume-backup-policies', 'volume-groups', 'volume-group-backups', 'image-shapes',
+    'console-histories', 'console-connections',
+    'instance-configurations', 'instance-pools', 'instance-pool-instances', 'autoscaling-configurations', 'launch-profiles',
+    'vnic-attachments', 'vnics'
+  ]),
+  compartmentId: z.string().optional(),       // For volume-backup-policies: custom policies; without it the Oracle-defined ones
+  availabilityDomain: z.string().optional(), // Required for boot-volume-attachments
+  instanceId: z.string().optional(),         // Required for vnics; filter for volume-, boot-volume- and vnic-attachments, console-histories and console-connections
+  bootVolumeId: z.string().optional(),       // For boot-volume-backups and boot-volume-attachments
+  volumeId: z.string().optional(),           // For volume-backups and volume-attachments
+  volumeGroupId: z.string().optional(),      // For volume-group-backups
+  imageId: z.string().optional(),            // Required for image-shapes
+  instancePoolId: z.string().optional(),     // Required for instance-pool-instances; filter for autoscaling-configurations
   limit: z.number().min(1).max(100).optional(),
   displayName: z.string().optional(),
   lifecycleState: z.string().optional()
-});
+}).merge(OCIPaginationSchema).merge(OCITargetSchema);
 
 const ComputeGetInputSchema = z.object({
   action: z.literal('get'),
-  resourceType: z.enum(['instance', 'image', 'volume', 'volume-attachment']),
-  resourceId: z.string().min(1, "Resource ID is required")
-});
+  resourceType: z.enum([
+    'instance', 'image', 'volume', 'volume-attachment', 'boot-volume', 'boot-volume-backup', 'boot-volume-attachment',
+    'volume-backup', 'volume-backup-policy', 'volume-backup-policy-assignment', 'volume-group', 'volume-group-backup',
+    'console-history', 'console-connection', 'instance-configuration', 'instance-pool', 'autoscaling-configuration',
+    'command-execution', 'vnic-attachment', 'vnic'
+  ]),
+  resourceId: z.string().min(1, "Resource ID is required"),
+  instanceId: z.string().optional()  // For command-execution: the instance the command ran on
+}).merge(OCITargetSchema);
+
+const CREATE_DATA_SCHEMAS = {
+  'volume': VolumeCreateSchema,
+  'volume-group': VolumeGroupCreateSchema,
+  'instance-configuration': InstanceConfigurationCreateSchema,
+  'instance-pool': InstancePoolCreateSchema,
+  'autoscaling-configuration': AutoScalingConfigurationCreateSchema
+};
 
 const ComputeCreateInputSchema = z.object({
   action: z.literal('create'),
-  resourceType: z.enum(['instance', 'volume']),
-  data: z.union([
-    CreateInstanceRequestSchema,
-    z.object({
-      availabilityDomain: z.string().min(1, "Availability domain is required"),
-      compartmentId: z.string().min(1, "Compartment ID is required"),
-      sizeInGBs: z.number().min(50, "Volume size must be at least 50 GB"),
-      displayName: z.string().optional(),
-      volumeType: z.enum(['iscsi', 'paravirtualized']).optional()
-    })
-  ])
-});
+  resourceType: z.enum(['instance', 'volume', 'volume-group', 'instance-configuration', 'instance-pool', 'autoscaling-configuration']),
+  data: z.record(z.any())
+}).merge(OCIWaitSchema).merge(OCITargetSchema)
+  .superRefine(refineCreateData(input => input.resourceType === 'instance'
+    ? ('profile' in input.data ? ProfileLaunchSchema : CreateInstanceRequestSchema)
+    : CREATE_DATA_SCHEMAS[input.resourceType]));
 
 const ComputeManageInputSchema = z.object({
-  action: z.enum(['start', 'stop', 'reboot', 'terminate', 'attach-volume', 'detach-volume']),
-  resourceType: z.enum(['instance', 'volume']),
+  action: z.enum([
+    'start', 'stop', 'reboot', 'terminate', 'resize',
+    'backup-boot-volume', 'clone-boot-volume', 'restore-boot-volume', 'replace-boot-volume',
+    'backup-volume', 'restore-volume', 'copy-volume-backup', 'update-volume', 'assign-backup-policy', 'remove-backup-policy',
+    'update-volume-group', 'delete-volume-group', 'backup-volume-group',
+    'create-image', 'export-image', 'delete-image', 'add-image-shape', 'remove-image-shape',
+    'capture-console-history', 'create-console-connection', 'delete-console-connection',
+    'start-pool', 'stop-pool', 'resize-pool', 'terminate-pool',
+    'delete-instance-configuration', 'update-autoscaling-configuration', 'delete-autoscaling-configuration'
+  ]),
+  resourceType: z.enum([
+    'instance', 'image', 'volume', 'boot-volume', 'boot-volume-backup', 'volume-backup', 'volume-group', 'console-connection',
+    'instance-pool', 'instance-configuration', 'autoscaling-configuration'
+  ]),
   resourceId: z.string().min(1, "Resource ID is required"),
-  instanceId: z.string().optional(), // For volume operations
-  volumeId: z.string().optional()     // For volume operations
-});
+  shape: z.string().optional(),                   // For resize, add-image-shape and remove-image-shape
+  shapeConfig: OCIShapeConfigSchema.optional(),   // For resize
+  backupType: z.enum(['FULL', 'INCREMENTAL']).optional(),          // For backup-boot-volume, backup-volume and backup-volume-group
+  availabilityDomain: z.string().optional(),                       // For clones and restores
+  compartmentId: z.string().optional(),                            // For clones and restores; custom backup policies by name
+  displayName: z.string().optional(),                              // For backups, clones, restores and updates
+  sizeInGBs: z.number().int().min(50).max(32768).optional(),       // For clones, restores, update-volume and replace-boot-volume from an image
+  vpusPerGB: VpusPerGBSchema.optional(),                           // For restore-volume and update-volume
+  destinationRegion: z.string().optional(),                        // For copy-volume-backup
+  backupPolicy: z.string().optional(),                             // For assign-backup-policy: bronze, silver, gold, a custom policy name or an OCID
+  volumeIds: z.array(z.string()).min(1).optional(),                // For update-volume-group: the group's new members
+  bootVolumeId: z.string().optional(),                             // For replace-boot-volume: the replacement
+  imageId: z.string().optional(),                                  // For replace-boot-volume: build the replacement from an image
+  preserveBootVolume: z.boolean().optional(),                      // For replace-boot-volume: keep the old boot volume (default true)
+  exportFormat: z.enum(['OCI', 'QCOW2', 'VMDK', 'VHD', 'VDI']).optional(), // For export-image (default OCI)
+  maxBytes: z.number().int().min(1).max(MAX_CONSOLE_HISTORY_BYTES).optional(), // For capture-console-history: returned bytes from the end (default 64 KB)
+  tailLines: z.number().int().min(1).optional(),                   // For capture-console-history: only the last lines
+  publicKey: SshPublicKeySchema.optional(),                        // For create-console-connection
+  size: z.number().int().min(0).optional(),                        // For resize-pool
+  isEnabled: z.boolean().optional(),                               // For update-autoscaling-configuration
+  coolDownInSeconds: z.number().int().min(300).optional()          // For update-autoscaling-configuration
+}).merge(ObjectLocationSchema).merge(OCIWaitSchema).merge(OCITargetSchema);
+
+const ComputeImportImageInputSchema = z.object({
+  action: z.literal('import-image'),
+  resourceType: z.literal('image'),
+  compartmentId: z.string().optional(),
+  displayName: z.string().optional(),
+  sourceImageType: z.enum(['QCOW2', 'VMDK']).optional(), // Leave out for images exported in the OCI format
+  operatingSystem: z.string().optional(),
+  operatingSystemVersion: z.string().optional(),
+  launchMode: z.enum(['NATIVE', 'EMULATED', 'PARAVIRTUALIZED', 'CUSTOM']).optional()
+}).merge(ObjectLocationSchema).merge(OCIWaitSchema).merge(OCITargetSchema);
+
+// The instance and volume can be given as instanceId and volumeId, or as the resourceId of that resource type
+const ComputeVolumeAttachmentInputSchema = z.object({
+  action: z.enum(['attach-volume', 'detach-volume']),
+  resourceType: z.enum(['volume', 'instance', 'volume-attachment']),
+  resourceId: z.string().optional(),
+  instanceId: z.string().optional(),
+  volumeId: z.string().optional(),
+  volumeAttachmentId: z.string().optional(),  // For detach-volume, instead of the instance and volume
+  // For attach-volume
+  attachmentType: z.enum(['iscsi', 'paravirtualized', 'emulated', 'service-determined']).default('iscsi'),
+  device: z.string().optional(),              // Consistent device path such as /dev/oracleoci/oraclevdb
+  displayName: z.string().optional(),
+  isReadOnly: z.boolean().optional(),
+  isShareable: z.boolean().optional(),        // Let several instances attach the volume at once
+  useChap: z.boolean().optional(),                                          // iscsi only
+  encryptionInTransitType: z.enum(['NONE', 'BM_ENCRYPTION_IN_TRANSIT']).optional(), // iscsi only, bare metal instances
+  isAgentAutoIscsiLoginEnabled: z.boolean().optional(),                     // iscsi only: the Cloud Agent logs in and out
+  isPvEncryptionInTransitEnabled: z.boolean().optional()                    // paravirtualized only
+}).merge(OCIWaitSchema).merge(OCITargetSchema);
+
+// Secondary VNICs; the primary VNIC comes and goes with its instance
+const ComputeVnicAttachmentInputSchema = z.object({
+  action: z.enum(['attach-vnic', 'detach-vnic']),
+  resourceType: z.enum(['instance', 'vnic-attachment']),
+  resourceId: z.string().optional(),
+  instanceId: z.string().optional(),        // For attach-vnic, or as resourceId with resourceType instance
+  vnicAttachmentId: z.string().optional(),  // For detach-vnic, or as resourceId with resourceType vnic-attachment
+  // For attach-vnic
+  subnetId: z.string().optional(),
+  nsgIds: z.array(z.string()).max(5).optional(),
+  assignPublicIp: z.boolean().optional(),
+  hostnameLabel: HostnameLabelSchema.optional(),
+  privateIp: z.string().optional(),
+  skipSourceDestCheck: z.boolean().optional(),  // For VNICs that route traffic, such as NAT instances
+  nicIndex: z.number().int().min(0).optional(), // Physical NIC on bare metal shapes with two
+  displayName: z.string().optional()
+}).merge(OCIWaitSchema).merge(OCITargetSchema);
+
+const ComputeRunCommandInputSchema = z.object({
+  action: z.literal('run-command'),
+  resourceType: z.literal('instance'),
+  resourceId: z.string().optional(),                                                          // A single instance
+  instanceIds: z.array(z.string().min(1)).min(1).max(MAX_RUN_COMMAND_INSTANCES).optional(),   // Or several
+  script: z.string().min(1, "Script is required"),
+  executionTimeoutSeconds: z.number().int().min(1).default(DEFAULT_COMMAND_TIMEOUT_SECONDS),
+  separateStderr: z.boolean().default(true),       // Wrap the script in bash to return stderr apart from stdout
+  compartmentId: z.string().optional(),            // Defaults to the first instance's
+  displayName: z.string().optional(),
+  outputBucketName: z.string().optional(),         // Write each instance's output to this bucket instead of returning it
+  outputPrefix: z.string().optional(),             // Object name prefix, default run-command/<displayName>/
+  namespaceName: z.string().optional(),
+  waitTimeoutSeconds: z.number().int().min(0).max(7200).optional() // Default: the execution timeout plus a minute; 0 returns at once
+}).merge(OCITargetSchema);
 
 export const ComputeToolInputSchema = z.union([
   ComputeListInputSchema,
   ComputeGetInputSchema,
   ComputeCreateInputSchema,
-  ComputeManageInputSchema
+  ComputeManageInputSchema,
+  ComputeImportImageInputSchema,
+  ComputeVolumeAttachmentInputSchema,
+  ComputeVnicAttachmentInputSchema,
+  ComputeRunCommandInputSchema
 ]);
 
 export type ComputeToolInput = z.infer<typeof ComputeToolInputSchema>;
 
+type ComputeManageInput = z.infer<typeof ComputeManageInputSchema>;
+type ComputeVolumeAttachmentInput = z.infer<typeof ComputeVolumeAttachmentInputSchema>;
+type ComputeVnicAttachmentInput = z.infer<typeof ComputeVnicAttachmentInputSchema>;
+
+// Outcome of a run command on one instance
+interface CommandResult {
+  instanceId: string;
+  instanceAgentCommandId: string;
+  state: string;
+  deliveryState: string;
+  exitCode?: number;
+  stdout?: string;
+  stderr?: string;
+  outputObject?: { namespaceName: string; bucketName: string; objectName: string };
+  message?: string;
+}
+
 export class ComputeManager {
-  private ociClient = getOCIClient();
+  constructor(private ociClient: OCIClientManager = getOCIClient()) {}
+
+  async execute(input: ComputeToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse | OCIErrorResponse> {
+    // Responses report how many OCI requests were retried while serving the call
+    return withRetryCount(() => this.run(input));
+  }
 
-  async execute(input: ComputeToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse> {
+  private async run(input: ComputeToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse | OCIErrorResponse> {
     try {
+      // Calls for another profile or region run on that target's clients
+      const target = this.ociClient.forTarget(input);
+      if (target !== this.ociClient) {
+        return await new ComputeManager(target).execute(input);
+      }
+
+      await this.ociClient.ready();
+
       switch (input.action) {
         case 'list':
           return await this.listResources(input);
@@ -74,18 +370,62 @@ export class ComputeManager {
         case 'reboot':
         case 'terminate':
           return await this.manageInstance(input);
+        case 'resize':
+          return await this.resizeInstance(input);
         case 'attach-volume':
         case 'detach-volume':
           return await this.manageVolume(input);
+        case 'attach-vnic':
+        case 'detach-vnic':
+          return await this.manageVnic(input);
+        case 'backup-boot-volume':
+        case 'clone-boot-volume':
+        case 'restore-boot-volume':
+          return await this.manageBootVolume(input);
+        case 'replace-boot-volume':
+          return await this.replaceBootVolume(input);
+        case 'backup-volume':
+        case 'restore-volume':
+        case 'copy-volume-backup':
+          return await this.manageVolumeBackup(input);
+        case 'update-volume':
+          return await this.updateVolume(input);
+        case 'assign-backup-policy':
+        case 'remove-backup-policy':
+          return await this.manageBackupPolicy(input);
+        case 'update-volume-group':
+        case 'delete-volume-group':
+        case 'backup-volume-group':
+          return await this.manageVolumeGroup(input);
+        case 'create-image':
+        case 'export-image':
+        case 'delete-image':
+        case 'add-image-shape':
+        case 'remove-image-shape':
+          return await this.manageImage(input);
+        case 'import-image':
+          return await this.importImage(input);
+        case 'run-command':
+          return await this.runCommand(input);
+        case 'capture-console-history':
+          return await this.captureConsoleHistory(input);
+        case 'create-console-connection':
+        case 'delete-console-connection':
+          return await this.manageConsoleConnection(input);
+        case 'start-pool':
+        case 'stop-pool':
+        case 'resize-pool':
+        case 'terminate-pool':
+          return await this.manageInstancePool(input);
+        case 'delete-instance-configuration':
+        case 'update-autoscaling-configuration':
+        case 'delete-autoscaling-configuration':
+          return await this.managePoolConfiguration(input);
         default:
-          throw new Error(`Unsupported action: ${(input as any).action}`);
+          throw new OCIValidationError(`Unsupported action: ${(input as any).action}`);
       }
     } catch (error) {
-      const errorMessage = this.ociClient.handleOCIError(error);
-      return {
-        success: false,
-        message: errorMessage
-      };
+      return toErrorResponse(error);
     }
   }
 
@@ -102,13 +442,8 @@ export class ComputeManager {
           lifecycleState: input.lifecycleState
         };
         
-        const instancesResponse = await this.ociClient.computeClient.listInstances(instancesRequest);
-        return {
-          success: true,
-          data: instancesResponse.items,
-          count: instancesResponse.items.length,
-          message: `Found ${instancesResponse.items.length} compute instances`
-        };
+        const instancesPage = await fetchPages(request => this.ociClient.computeClient.listInstances(request), instancesRequest, input);
+        return toListResponse(instancesPage, 'compute instances');
 
       case 'images':
         const imagesRequest = {
@@ -117,13 +452,8 @@ export class ComputeManager {
           lifecycleState: input.lifecycleState
         };
         
-        const imagesResponse = await this.ociClient.computeClient.listImages(imagesRequest);
-        return {
-          success: true,
-          data: imagesResponse.items,
-          count: imagesResponse.items.length,
-          message: `Found ${imagesResponse.items.length} compute images`
-        };
+        const imagesPage = await fetchPages(request => this.ociClient.computeClient.listImages(request), imagesRequest, input);
+        return toListResponse(imagesPage, 'compute images');
 
       case 'shapes':
         const shapesRequest = {
@@ -132,13 +462,8 @@ export class ComputeManager {
           limit: input.limit || 50
         };
         
-        const shapesResponse = await this.ociClient.computeClient.listShapes(shapesRequest);
-        return {
-          success: true,
-          data: shapesResponse.items,
-          count: shapesResponse.items.length,
-          message: `Found ${shapesResponse.items.length} compute shapes`
-        };
+        const shapesPage = await fetchPages(request => this.ociClient.computeClient.listShapes(request), shapesRequest, input);
+        return toListResponse(shapesPage, 'compute shapes');
 
       case 'volumes':
         const volumesRequest = {
@@ -149,31 +474,212 @@ export class ComputeManager {
           lifecycleState: input.lifecycleState
         };
         
-        const volumesResponse = await this.ociClient.blockstorageClient.listVolumes(volumesRequest);
-        return {
-          success: true,
-          data: volumesResponse.items,
-          count: volumesResponse.items.length,
-          message: `Found ${volumesResponse.items.length} block volumes`
-        };
+        const volumesPage = await fetchPages(request => this.ociClient.blockstorageClient.listVolumes(request), volumesRequest, input);
+        return toListResponse(volumesPage, 'block volumes');
 
       case 'volume-attachments':
         const attachmentsRequest = {
           compartmentId,
           availabilityDomain: input.availabilityDomain,
+          instanceId: input.instanceId,
+          volumeId: input.volumeId,
           limit: input.limit || 50
         };
         
-        const attachmentsResponse = await this.ociClient.computeClient.listVolumeAttachments(attachmentsRequest);
-        return {
-          success: true,
-          data: attachmentsResponse.items,
-          count: attachmentsResponse.items.length,
-          message: `Found ${attachmentsResponse.items.length} volume attachments`
+        const attachmentsPage = await fetchPages(request => this.ociClient.computeClient.listVolumeAttachments(request), attachmentsRequest, input);
+        return toListResponse(attachmentsPage, 'volume attachments');
+
+      case 'boot-volumes':
+        const bootVolumesRequest = {
+          compartmentId,
+          availabilityDomain: input.availabilityDomain,
+          limit: input.limit || 50
+        };
+
+        const bootVolumesPage = await fetchPages(request => this.ociClient.blockstorageClient.listBootVolumes(request), bootVolumesRequest, input);
+        return toListResponse(bootVolumesPage, 'boot volumes');
+
+      case 'boot-volume-backups':
+        const bootVolumeBackupsRequest = {
+          compartmentId,
+          bootVolumeId: input.bootVolumeId,
+          limit: input.limit || 50,
+          displayName: input.displayName,
+          lifecycleState: input.lifecycleState
+        };
+
+        const bootVolumeBackupsPage = await fetchPages(request => this.ociClient.blockstorageClient.listBootVolumeBackups(request), bootVolumeBackupsRequest, input);
+        return toListResponse(bootVolumeBackupsPage, 'boot volume backups');
+
+      case 'boot-volume-attachments':
+        if (!input.availabilityDomain) {
+          throw new OCIValidationError('availabilityDomain is required to list boot volume attachments', 'availabilityDomain');
+        }
+        const bootAttachmentsRequest = {
+          compartmentId,
+          availabilityDomain: input.availabilityDomain,
+          instanceId: input.instanceId,
+          bootVolumeId: input.bootVolumeId,
+          limit: input.limit || 50
+        };
+
+        const bootAttachmentsPage = await fetchPages(request => this.ociClient.computeClient.listBootVolumeAttachments(request), bootAttachmentsRequest, input);
+        return toListResponse(bootAttachmentsPage, 'boot volume attachments');
+
+      case 'volume-backups':
+        const volumeBackupsRequest = {
+          compartmentId,
+          volumeId: input.volumeId,
+          limit: input.limit || 50,
+          displayName: input.displayName,
+          lifecycleState: input.lifecycleState
+        };
+
+        const volumeBackupsPage = await fetchPages(request => this.ociClient.blockstorageClient.listVolumeBackups(request), volumeBackupsRequest, input);
+        return toListResponse(volumeBackupsPage, 'volume backups');
+
+      case 'volume-backup-policies':
+        const policiesRequest = {
+          compartmentId: input.compartmentId,
+          limit: input.limit || 50
+        };
+
+        const policiesPage = await fetchPages(request => this.ociClient.blockstorageClient.listVolumeBackupPolicies(request), policiesRequest, input);
+        return toListResponse(policiesPage, input.compartmentId ? 'custom backup policies' : 'Oracle-defined backup policies');
+
+      case 'volume-groups':
+        const volumeGroupsRequest = {
+          compartmentId,
+          availabilityDomain: input.availabilityDomain,
+          limit: input.limit || 50,
+          displayName: input.displayName,
+          lifecycleState: input.lifecycleState
+        };
+
+        const volumeGroupsPage = await fetchPages(request => this.ociClient.blockstorageClient.listVolumeGroups(request), volumeGroupsRequest, input);
+        return toListResponse(volumeGroupsPage, 'volume groups');
+
+      case 'volume-group-backups':
+        const groupBackupsRequest = {
+          compartmentId,
+          volumeGroupId: input.volumeGroupId,
+          limit: input.limit || 50,
+          displayName: input.displayName
+        };
+
+        const groupBackupsPage = await fetchPages(request => this.ociClient.blockstorageClient.listVolumeGroupBackups(request), groupBackupsRequest, input);
+        return toListResponse(groupBackupsPage, 'volume group backups');
+
+      case 'image-shapes':
+        if (!input.imageId) {
+          throw new OCIValidationError('imageId is required to list the shapes an image is compatible with', 'imageId');
+        }
+        const imageShapesRequest = {
+          imageId: input.imageId,
+          limit: input.limit || 50
+        };
+
+        const imageShapesPage = await fetchPages(request => this.ociClient.computeClient.listImageShapeCompatibilityEntries(request), imageShapesRequest, input);
+        return toListResponse(imageShapesPage, `shapes compatible with image ${input.imageId}`);
+
+      case 'console-histories':
+        const historiesRequest = {
+          compartmentId,
+          availabilityDomain: input.availabilityDomain,
+          instanceId: input.instanceId,
+          limit: input.limit || 50,
+          lifecycleState: input.lifecycleState
+        };
+
+        const historiesPage = await fetchPages(request => this.ociClient.computeClient.listConsoleHistories(request), historiesRequest, input);
+        return toListResponse(historiesPage, 'console histories');
+
+      case 'console-connections':
+        const connectionsRequest = {
+          compartmentId,
+          instanceId: input.instanceId,
+          limit: input.limit || 50
+        };
+
+        const connectionsPage = await fetchPages(request => this.ociClient.computeClient.listInstanceConsoleConnections(request), connectionsRequest, input);
+        return toListResponse(connectionsPage, 'console connections');
+
+      case 'instance-configurations':
+        const configurationsRequest = {
+          compartmentId,
+          limit: input.limit || 50
+        };
+
+        const configurationsPage = await fetchPages(request => this.ociClient.computeManagementClient.listInstanceConfigurations(request), configurationsRequest, input);
+        return toListResponse(configurationsPage, 'instance configurations');
+
+      case 'instance-pools':
+        const poolsRequest = {
+          compartmentId,
+          limit: input.limit || 50,
+          displayName: input.displayName,
+          lifecycleState: input.lifecycleState as oci.core.models.InstancePoolSummary.LifecycleState | undefined
+        };
+
+        const poolsPage = await fetchPages(request => this.ociClient.computeManagementClient.listInstancePools(request), poolsRequest, input);
+        return toListResponse(poolsPage, 'instance pools');
+
+      case 'instance-pool-instances':
+        if (!input.instancePoolId) {
+          throw new OCIValidationError('instancePoolId is required to list the instances of a pool', 'instancePoolId');
+        }
+        const poolInstancesRequest = {
+          compartmentId,
+          instancePoolId: input.instancePoolId,
+          limit: input.limit || 50,
+          displayName: input.displayName
+        };
+
+        const poolInstancesPage = await fetchPages(request => this.ociClient.computeManagementClient.listInstancePoolInstances(request), poolInstancesRequest, input);
+        return toListResponse(poolInstancesPage, `instances in pool ${input.instancePoolId}`);
+
+      case 'autoscaling-configurations':
+        const autoScalingRequest = {
+          compartmentId,
+          limit: input.limit || 50,
+          displayName: input.displayName
+        };
+
+        const autoScalingPage = await fetchPages(request => this.ociClient.autoScalingClient.listAutoScalingConfigurations(request), autoScalingRequest, input);
+        // The list cannot be filtered by pool server-side
+        return toListResponse(
+          input.instancePoolId
+            ? { ...autoScalingPage, items: autoScalingPage.items.filter(configuration => configuration.resource.id === input.instancePoolId) }
+            : autoScalingPage,
+          'autoscaling configurations'
+        );
+
+      case 'vnic-attachments':
+        const vnicAttachmentsRequest = {
+          compartmentId,
+          availabilityDomain: input.availabilityDomain,
+          instanceId: input.instanceId,
+          limit: input.limit || 50
         };
 
+        const vnicAttachmentsPage = await fetchPages(request => this.ociClient.computeClient.listVnicAttachments(request), vnicAttachmentsRequest, input);
+        return toListResponse(vnicAttachmentsPage, 'VNIC attachments');
+
+      case 'vnics':
+        if (!input.instanceId) {
+          throw new OCIValidationError('instanceId is required to list VNICs', 'instanceId');
+        }
+        const vnics = await this.instanceVnics(input.instanceId);
+        return toListResponse({ items: vnics, truncated: false }, `VNICs of instance ${input.instanceId}`);
+
+      case 'launch-profiles':
+        // Read from the local launch profiles file, not from OCI
+        const { filePath, profiles } = loadLaunchProfiles();
+        const profileItems = Object.entries(profiles).map(([name, profile]) => ({ name, ...profile }));
+        return toListResponse({ items: profileItems, truncated: false }, `launch profiles in ${filePath}`);
+
       default:
-        throw new Error(`Unsupported resource type: ${input.resourceType}`);
+        throw new OCIValidationError(`Unsupported resource type: ${input.resourceType}`);
     }
   }
 
@@ -219,167 +725,2023 @@ export class ComputeManager {
         
         return {
           success: true,
-          data: attachmentResponse.volumeAttachment,
+          data: withIscsiCommands(attachmentResponse.volumeAttachment),
           message: `Retrieved volume attachment details for ${input.resourceId}`
         };
 
-      default:
-        throw new Error(`Unsupported resource type: ${input.resourceType}`);
-    }
-  }
+      case 'vnic-attachment':
+        const vnicAttachmentResponse = await this.ociClient.computeClient.getVnicAttachment({
+          vnicAttachmentId: input.resourceId
+        });
 
-  private async createResource(input: z.infer<typeof ComputeCreateInputSchema>): Promise<OCIOperationResponse> {
-    switch (input.resourceType) {
-      case 'instance':
-        const instanceData = input.data as z.infer<typeof CreateInstanceRequestSchema>;
-        const createInstanceRequest = {
-          launchInstanceDetails: {
-            availabilityDomain: instanceData.availabilityDomain,
-            compartmentId: instanceData.compartmentId,
-            shape: instanceData.shape,
-            displayName: instanceData.displayName || `instance-${Date.now()}`,
-            sourceDetails: {
-              sourceType: "image",
-              imageId: instanceData.imageId
-            },
-            createVnicDetails: instanceData.subnetId ? {
-              subnetId: instanceData.subnetId
-            } : undefined,
-            metadata: {
-              ...instanceData.metadata,
-              ...(instanceData.sshAuthorizedKeys ? { ssh_authorized_keys: instanceData.sshAuthorizedKeys.join('\n') } : {})
-            }
-          }
+        return {
+          success: true,
+          data: vnicAttachmentResponse.vnicAttachment,
+          message: `Retrieved VNIC attachment details for ${input.resourceId}`
         };
 
-        const instanceResult = await this.ociClient.computeClient.launchInstance(createInstanceRequest);
-        
+      case 'vnic':
+        const vnicResponse = await this.ociClient.virtualNetworkClient.getVnic({ vnicId: input.resourceId });
+
         return {
           success: true,
-          data: instanceResult.instance,
-          message: `Instance creation initiated: ${instanceResult.instance.displayName}`,
-          operationId: instanceResult.instance.id
+          data: vnicResponse.vnic,
+          message: `Retrieved VNIC details for ${input.resourceId}: ${describeVnic(vnicResponse.vnic)}`
         };
 
-      case 'volume':
-        const volumeData = input.data as any; // Volume creation schema
-        const createVolumeRequest = {
-          createVolumeDetails: {
-            availabilityDomain: volumeData.availabilityDomain,
-            compartmentId: volumeData.compartmentId,
-            sizeInGBs: volumeData.sizeInGBs,
-            displayName: volumeData.displayName || `volume-${Date.now()}`,
-            volumeType: volumeData.volumeType || 'iscsi'
-          }
-        };
+      case 'boot-volume':
+        const bootVolumeResponse = await this.ociClient.blockstorageClient.getBootVolume({
+          bootVolumeId: input.resourceId
+        });
 
-        const volumeResult = await this.ociClient.blockstorageClient.createVolume(createVolumeRequest);
-        
         return {
           success: true,
-          data: volumeResult.volume,
-          message: `Volume creation initiated: ${volumeResult.volume.displayName}`,
-          operationId: volumeResult.volume.id
+          data: bootVolumeResponse.bootVolume,
+          message: `Retrieved boot volume details for ${input.resourceId}`
         };
 
-      default:
-        throw new Error(`Unsupported resource type: ${input.resourceType}`);
-    }
-  }
-
-  private async manageInstance(input: ComputeManageInputSchema['_type']): Promise<OCIOperationResponse> {
-    const request = { instanceId: input.resourceId };
-    
-    switch (input.action) {
-      case 'start':
-        const startResult = await this.ociClient.computeClient.instanceAction({
-          ...request,
-          action: 'START'
+      case 'boot-volume-backup':
+        const bootVolumeBackupResponse = await this.ociClient.blockstorageClient.getBootVolumeBackup({
+          bootVolumeBackupId: input.resourceId
         });
-        
+
         return {
           success: true,
-          data: startResult.instance,
-          message: `Instance start initiated: ${input.resourceId}`,
-          operationId: input.resourceId
+          data: bootVolumeBackupResponse.bootVolumeBackup,
+          message: `Retrieved boot volume backup details for ${input.resourceId}`
         };
 
-      case 'stop':
-        const stopResult = await this.ociClient.computeClient.instanceAction({
-          ...request,
-          action: 'STOP'
+      case 'boot-volume-attachment':
+        const bootAttachmentResponse = await this.ociClient.computeClient.getBootVolumeAttachment({
+          bootVolumeAttachmentId: input.resourceId
         });
-        
+
         return {
           success: true,
-          data: stopResult.instance,
-          message: `Instance stop initiated: ${input.resourceId}`,
-          operationId: input.resourceId
+          data: bootAttachmentResponse.bootVolumeAttachment,
+          message: `Retrieved boot volume attachment details for ${input.resourceId}`
         };
 
-      case 'reboot':
-        const rebootResult = await this.ociClient.computeClient.instanceAction({
-          ...request,
-          action: 'RESET'
+      case 'volume-backup':
+        const volumeBackupResponse = await this.ociClient.blockstorageClient.getVolumeBackup({
+          volumeBackupId: input.resourceId
         });
-        
+
         return {
           success: true,
-          data: rebootResult.instance,
-          message: `Instance reboot initiated: ${input.resourceId}`,
-          operationId: input.resourceId
+          data: volumeBackupResponse.volumeBackup,
+          message: `Retrieved volume backup details for ${input.resourceId}`
         };
 
-      case 'terminate':
-        const terminateResult = await this.ociClient.computeClient.terminateInstance(request);
-        
+      case 'volume-backup-policy':
+        const policyResponse = await this.ociClient.blockstorageClient.getVolumeBackupPolicy({
+          policyId: input.resourceId
+        });
+
         return {
           success: true,
-          message: `Instance termination initiated: ${input.resourceId}`,
-          operationId: input.resourceId
+          data: policyResponse.volumeBackupPolicy,
+          message: `Retrieved backup policy details for ${input.resourceId}`
         };
 
-      default:
-        throw new Error(`Unsupported instance action: ${input.action}`);
-    }
-  }
+      case 'volume-backup-policy-assignment':
+        // resourceId is the volume, boot volume or volume group the policy is assigned to
+        const assignment = await this.backupPolicyAssignment(input.resourceId);
 
-  private async manageVolume(input: ComputeManageInputSchema['_type']): Promise<OCIOperationResponse> {
-    switch (input.action) {
-      case 'attach-volume':
-        if (!input.instanceId || !input.volumeId) {
-          throw new Error('Both instanceId and volumeId are required for volume attachment');
-        }
+        return {
+          success: true,
+          data: assignment ?? { assetId: input.resourceId, policyId: null },
+          message: assignment
+            ? `Backup policy ${assignment.policyId} is assigned to ${input.resourceId}`
+            : `No backup policy is assigned to ${input.resourceId}`
+        };
 
-        const attachRequest = {
-          attachVolumeDetails: {
-            instanceId: input.instanceId,
-            type: 'iscsi',
-            volumeId: input.volumeId
+      case 'volume-group':
+        const volumeGroupResponse = await this.ociClient.blockstorageClient.getVolumeGroup({
+          volumeGroupId: input.resourceId
+        });
+
+        return {
+          success: true,
+          data: volumeGroupResponse.volumeGroup,
+          message: `Retrieved volume group details for ${input.resourceId}`
+        };
+
+      case 'volume-group-backup':
+        const groupBackupResponse = await this.ociClient.blockstorageClient.getVolumeGroupBackup({
+          volumeGroupBackupId: input.resourceId
+        });
+
+        return {
+          success: true,
+          data: groupBackupResponse.volumeGroupBackup,
+          message: `Retrieved volume group backup details for ${input.resourceId}`
+        };
+
+      case 'console-history':
+        const historyResponse = await this.ociClient.computeClient.getConsoleHistory({
+          instanceConsoleHistoryId: input.resourceId
+        });
+
+        return {
+          success: true,
+          data: historyResponse.consoleHistory,
+          message: `Retrieved console history details for ${input.resourceId}`
+        };
+
+      case 'console-connection':
+        const connectionResponse = await this.ociClient.computeClient.getInstanceConsoleConnection({
+          instanceConsoleConnectionId: input.resourceId
+        });
+
+        return {
+          success: true,
+          data: connectionResponse.instanceConsoleConnection,
+          message: `Retrieved console connection details for ${input.resourceId}`
+        };
+
+      case 'command-execution':
+        if (!input.instanceId) {
+          throw new OCIValidationError('instanceId is required to get a command execution', 'instanceId');
+        }
+        const { instanceAgentCommand } = await this.ociClient.instanceAgentClient.getInstanceAgentCommand({
+          instanceAgentCommandId: input.resourceId
+        });
+        const { instanceAgentCommandExecution } = await this.ociClient.instanceAgentClient.getInstanceAgentCommandExecution({
+          instanceAgentCommandId: input.resourceId,
+          instanceId: input.instanceId
+        });
+        const commandResult = toCommandResult(instanceAgentCommandExecution, stderrMarker(instanceAgentCommand));
+
+        return {
+          success: true,
+          data: commandResult,
+          message: `Command ${input.resourceId} on ${input.instanceId}: ${describeCommandResult(commandResult)}`
+        };
+
+      case 'instance-configuration':
+        const configurationResponse = await this.ociClient.computeManagementClient.getInstanceConfiguration({
+          instanceConfigurationId: input.resourceId
+        });
+
+        return {
+          success: true,
+          data: configurationResponse.instanceConfiguration,
+          message: `Retrieved instance configuration details for ${input.resourceId}`
+        };
+
+      case 'instance-pool':
+        const poolResponse = await this.ociClient.computeManagementClient.getInstancePool({
+          instancePoolId: input.resourceId
+        });
+
+        return {
+          success: true,
+          data: poolResponse.instancePool,
+          message: `Retrieved instance pool details for ${input.resourceId}`
+        };
+
+      case 'autoscaling-configuration':
+        const autoScalingResponse = await this.ociClient.autoScalingClient.getAutoScalingConfiguration({
+          autoScalingConfigurationId: input.resourceId
+        });
+
+        return {
+          success: true,
+          data: autoScalingResponse.autoScalingConfiguration,
+          message: `Retrieved autoscaling configuration details for ${input.resourceId}`
+        };
+
+      default:
+        throw new OCIValidationError(`Unsupported resource type: ${input.resourceType}`);
+    }
+  }
+
+  private async createResource(input: z.infer<typeof ComputeCreateInputSchema>): Promise<OCIOperationResponse> {
+    if ('profile' in input.data && input.resourceType !== 'instance') {
+      throw new OCIValidationError('Launch profiles only create instances', 'resourceType');
+    }
+    switch (input.resourceType) {
+      case 'instance-configuration':
+        return this.createInstanceConfiguration(input);
+      case 'instance-pool':
+        return this.createInstancePool(input);
+      case 'autoscaling-configuration':
+        return this.createAutoScalingConfiguration(input);
+    }
+    const wait = planWait(input.resourceType, input);
+
+    switch (input.resourceType) {
+      case 'instance':
+        const instanceData = 'profile' in input.data
+          ? await this.fromLaunchProfile(ProfileLaunchSchema.parse(input.data))
+          : CreateInstanceRequestSchema.parse(input.data);
+        // Only shapes the image is compatible with are listed
+        const shapes = await this.listShapes(instanceData.compartmentId, instanceData.availabilityDomain, instanceData.imageId);
+        checkShapeConfig(findShape(shapes, instanceData.shape, instanceData.availabilityDomain), instanceData.shapeConfig);
+
+        const createInstanceRequest = {
+          launchInstanceDetails: {
+            availabilityDomain: instanceData.availabilityDomain,
+            compartmentId: instanceData.compartmentId,
+            shape: instanceData.shape,
+            shapeConfig: instanceData.shapeConfig as oci.core.models.LaunchInstanceShapeConfigDetails | undefined,
+            displayName: instanceData.displayName || `instance-${Date.now()}`,
+            sourceDetails: {
+              sourceType: "image",
+              imageId: instanceData.imageId
+            },
+            createVnicDetails: primaryVnicDetails(instanceData),
+            metadata: launchMetadata(instanceData),
+            freeformTags: instanceData.freeformTags,
+            definedTags: instanceData.definedTags
+          }
+        };
+
+        const instanceResult = await this.ociClient.computeClient.launchInstance(createInstanceRequest);
+        
+        return completeOperation(this.ociClient, wait, instanceResult.instance.id, {
+          success: true,
+          data: instanceResult.instance,
+          message: `Instance creation initiated: ${instanceResult.instance.displayName}` +
+            ('profile' in input.data ? ` from launch profile ${input.data.profile}` : ''),
+          operationId: instanceResult.instance.id,
+          workRequestId: instanceResult.opcWorkRequestId
+        });
+
+      case 'volume':
+        const volumeData = VolumeCreateSchema.parse(input.data);
+        const createVolumeRequest = {
+          createVolumeDetails: {
+            availabilityDomain: volumeData.availabilityDomain,
+            compartmentId: volumeData.compartmentId,
+            sizeInGBs: volumeData.sizeInGBs,
+            vpusPerGB: volumeData.vpusPerGB,
+            displayName: volumeData.displayName || `volume-${Date.now()}`,
+            volumeType: volumeData.volumeType || 'iscsi'
+          }
+        };
+
+        const volumeResult = await this.ociClient.blockstorageClient.createVolume(createVolumeRequest);
+        
+        return completeOperation(this.ociClient, wait, volumeResult.volume.id, {
+          success: true,
+          data: volumeResult.volume,
+          message: `Volume creation initiated: ${volumeResult.volume.displayName}`,
+          operationId: volumeResult.volume.id
+        });
+
+      case 'volume-group':
+        const groupData = VolumeGroupCreateSchema.parse(input.data);
+        const groupResult = await this.ociClient.blockstorageClient.createVolumeGroup({
+          createVolumeGroupDetails: {
+            availabilityDomain: groupData.availabilityDomain,
+            compartmentId: groupData.compartmentId,
+            displayName: groupData.displayName || `volume-group-${Date.now()}`,
+            sourceDetails: { type: 'volumeIds', volumeIds: groupData.volumeIds }
+          }
+        });
+
+        return completeOperation(this.ociClient, wait, groupResult.volumeGroup.id, {
+          success: true,
+          data: groupResult.volumeGroup,
+          message: `Volume group creation initiated: ${groupResult.volumeGroup.displayName} with ${groupData.volumeIds.length} volumes`,
+          operationId: groupResult.volumeGroup.id
+        });
+
+      default:
+        throw new OCIValidationError(`Unsupported resource type: ${input.resourceType}`);
+    }
+  }
+
+  private async manageInstance(input: ComputeManageInput): Promise<OCIOperationResponse> {
+    const request = { instanceId: input.resourceId };
+    const wait = planWait('instance', input);
+
+    switch (input.action) {
+      case 'start':
+        const startResult = await this.ociClient.computeClient.instanceAction({
+          ...request,
+          action: 'START'
+        });
+        
+        return completeOperation(this.ociClient, wait, input.resourceId, {
+          success: true,
+          data: startResult.instance,
+          message: `Instance start initiated: ${input.resourceId}`,
+          operationId: input.resourceId
+        });
+
+      case 'stop':
+        const stopResult = await this.ociClient.computeClient.instanceAction({
+          ...request,
+          action: 'STOP'
+        });
+        
+        return completeOperation(this.ociClient, wait, input.resourceId, {
+          success: true,
+          data: stopResult.instance,
+          message: `Instance stop initiated: ${input.resourceId}`,
+          operationId: input.resourceId
+        });
+
+      case 'reboot':
+        const rebootResult = await this.ociClient.computeClient.instanceAction({
+          ...request,
+          action: 'RESET'
+        });
+        
+        return completeOperation(this.ociClient, wait, input.resourceId, {
+          success: true,
+          data: rebootResult.instance,
+          message: `Instance reboot initiated: ${input.resourceId}`,
+          operationId: input.resourceId
+        });
+
+      case 'terminate':
+        const terminateResult = await this.ociClient.computeClient.terminateInstance(request);
+        
+        return completeOperation(this.ociClient, wait, input.resourceId, {
+          success: true,
+          message: `Instance termination initiated: ${input.resourceId}`,
+          operationId: input.resourceId,
+          workRequestId: terminateResult.opcWorkRequestId
+        });
+
+      default:
+        throw new OCIValidationError(`Unsupported instance action: ${input.action}`);
+    }
+  }
+
+  private async resizeInstance(input: ComputeManageInput): Promise<OCIOperationResponse> {
+    if (!input.shape && !input.shapeConfig) {
+      throw new OCIValidationError('shape or shapeConfig is required for resize');
+    }
+    const wait = planWait('instance', input);
+
+    const { instance } = await this.ociClient.computeClient.getInstance({ instanceId: input.resourceId });
+    const shapes = await this.listShapes(instance.compartmentId, instance.availabilityDomain, instance.imageId);
+    const currentShape = shapes.find(shape => shape.shape === instance.shape);
+    const targetShape = findShape(shapes, input.shape || instance.shape, instance.availabilityDomain);
+
+    if (targetShape.shape !== instance.shape && currentShape?.resizeCompatibleShapes
+      && !currentShape.resizeCompatibleShapes.includes(targetShape.shape)) {
+      throw new OCIValidationError(
+        `${instance.shape} cannot be resized to ${targetShape.shape}; compatible shapes: ${currentShape.resizeCompatibleShapes.join(', ') || 'none'}`,
+        'shape'
+      );
+    }
+    // Moving between flexible shapes keeps the current OCPUs and memory unless new ones are given
+    checkShapeConfig(targetShape, input.shapeConfig, Boolean(currentShape?.isFlexible));
+
+    const resizeResult = await this.ociClient.computeClient.updateInstance({
+      instanceId: input.resourceId,
+      updateInstanceDetails: {
+        shape: input.shape,
+        shapeConfig: input.shapeConfig as oci.core.models.UpdateInstanceShapeConfigDetails | undefined
+      }
+    });
+
+    return completeOperation(this.ociClient, wait, input.resourceId, {
+      success: true,
+      data: resizeResult.instance,
+      message: `Instance resize initiated: ${input.resourceId} to ${describeShape(targetShape.shape, input.shapeConfig)}`,
+      operationId: input.resourceId,
+      workRequestId: resizeResult.opcWorkRequestId
+    });
+  }
+
+  // Launch details from a named profile, with the image resolved and the cloud-init template rendered
+  private async fromLaunchProfile(data: z.infer<typeof ProfileLaunchSchema>): Promise<z.infer<typeof CreateInstanceRequestSchema>> {
+    const { name, profile, userDataTemplate } = loadLaunchProfile(data.profile);
+    const compartmentId = data.compartmentId || profile.compartmentId || this.ociClient.getDefaultCompartmentId();
+    const displayName = data.displayName || `${name}-${Date.now()}`;
+    // displayName and profile are always available to the template
+    const variables = { ...profile.variables, ...data.variables, displayName, profile: name };
+
+    return {
+      compartmentId,
+      availabilityDomain: data.availabilityDomain || profile.availabilityDomain || await this.firstAvailabilityDomain(),
+      displayName,
+      shape: profile.shape,
+      shapeConfig: data.shapeConfig ?? profile.shapeConfig,
+      imageId: profile.imageId || await this.newestImage(compartmentId, profile.image!, profile.shape, name),
+      subnetId: data.subnetId || profile.subnetId,
+      nsgIds: profile.nsgIds,
+      assignPublicIp: data.assignPublicIp ?? profile.assignPublicIp,
+      hostnameLabel: data.hostnameLabel,
+      sshAuthorizedKeys: profile.sshAuthorizedKeys,
+      freeformTags: profile.freeformTags,
+      definedTags: profile.definedTags,
+      userData: userDataTemplate !== undefined ? renderTemplate(userDataTemplate, variables) : undefined
+    };
+  }
+
+  private async newestImage(
+    compartmentId: string,
+    filter: NonNullable<LaunchProfile['image']>,
+    shape: string,
+    profileName: string
+  ): Promise<string> {
+    const page = await fetchPages(
+      request => this.ociClient.computeClient.listImages(request),
+      {
+        compartmentId,
+        operatingSystem: filter.operatingSystem,
+        operatingSystemVersion: filter.operatingSystemVersion,
+        shape,
+        lifecycleState: oci.core.models.Image.LifecycleState.Available,
+        sortBy: oci.core.requests.ListImagesRequest.SortBy.Timecreated,
+        sortOrder: oci.core.requests.ListImagesRequest.SortOrder.Desc
+      },
+      { fetchAll: true }
+    );
+    const pattern = filter.displayNamePattern ? new RegExp(filter.displayNamePattern) : undefined;
+    const image = page.items.find(candidate => !pattern || pattern.test(candidate.displayName || ''));
+    if (!image) {
+      const wanted = [filter.operatingSystem, filter.operatingSystemVersion].filter(Boolean).join(' ');
+      throw new OCIValidationError(
+        `No available ${wanted} image for ${shape}${pattern ? ` matching /${filter.displayNamePattern}/` : ''} (launch profile ${profileName})`,
+        'profile'
+      );
+    }
+    return image.id;
+  }
+
+  private async firstAvailabilityDomain(): Promise<string> {
+    const response = await this.ociClient.identityClient.listAvailabilityDomains({ compartmentId: this.ociClient.getTenancyId() });
+    const availabilityDomain = response.items[0];
+    if (!availabilityDomain?.name) {
+      throw new OCIValidationError(`No availability domains found in ${this.ociClient.getRegion()}`, 'availabilityDomain');
+    }
+    return availabilityDomain.name;
+  }
+
+  // Shapes available in an availability domain (or the region), optionally limited to those compatible with an image
+  private async listShapes(compartmentId: string, availabilityDomain: string | undefined, imageId?: string): Promise<oci.core.models.Shape[]> {
+    const page = await fetchPages(
+      request => this.ociClient.computeClient.listShapes(request),
+      { compartmentId, availabilityDomain, imageId },
+      { fetchAll: true }
+    );
+    return page.items;
+  }
+
+  private async manageVolume(input: ComputeVolumeAttachmentInput): Promise<OCIOperationResponse> {
+    const wait = planWait('volume-attachment', input);
+    const instanceId = input.instanceId || (input.resourceType === 'instance' ? input.resourceId : undefined);
+    const volumeId = input.volumeId || (input.resourceType === 'volume' ? input.resourceId : undefined);
+
+    switch (input.action) {
+      case 'attach-volume':
+        if (!instanceId || !volumeId) {
+          throw new OCIValidationError('Both instanceId and volumeId are required for volume attachment');
+        }
+        checkAttachmentOptions(input);
+
+        const attachResult = await this.ociClient.computeClient.attachVolume({
+          attachVolumeDetails: {
+            type: input.attachmentType === 'service-determined' ? 'service_determined' : input.attachmentType,
+            instanceId,
+            volumeId,
+            device: input.device,
+            displayName: input.displayName,
+            isReadOnly: input.isReadOnly,
+            isShareable: input.isShareable,
+            useChap: input.useChap,
+            encryptionInTransitType: input.encryptionInTransitType,
+            isAgentAutoIscsiLoginEnabled: input.isAgentAutoIscsiLoginEnabled,
+            isPvEncryptionInTransitEnabled: input.isPvEncryptionInTransitEnabled
+          } as oci.core.models.AttachVolumeDetails
+        });
+        const attachment = attachResult.volumeAttachment;
+
+        const attached = await completeOperation(this.ociClient, wait, attachment.id, {
+          success: true,
+          data: attachment,
+          message: `Volume attachment initiated: ${volumeId} to ${instanceId} (${attachment.attachmentType}` +
+            (attachment.device ? ` at ${attachment.device}` : '') + ')',
+          operationId: attachment.id,
+          workRequestId: attachResult.opcWorkRequestId
+        });
+        const withCommands = withIscsiCommands(attached.data ?? attachment);
+        return {
+          ...attached,
+          data: withCommands,
+          message: attached.message + (withCommands.iscsiCommands ? '; run iscsiCommands.attach on the instance to connect the volume' : '')
+        };
+
+      case 'detach-volume':
+        const volumeAttachmentId = input.volumeAttachmentId
+          || (input.resourceType === 'volume-attachment' ? input.resourceId : undefined)
+          || await this.findVolumeAttachment(instanceId, volumeId);
+        const detachResult = await this.ociClient.computeClient.detachVolume({ volumeAttachmentId });
+
+        return completeOperation(this.ociClient, wait, volumeAttachmentId, {
+          success: true,
+          message: `Volume detachment initiated: ${volumeAttachmentId}`,
+          operationId: volumeAttachmentId,
+          workRequestId: detachResult.opcWorkRequestId
+        });
+
+      default:
+        throw new OCIValidationError(`Unsupported volume action: ${input.action}`);
+    }
+  }
+
+  /**
+   * The live attachment of a volume to an instance
+   */
+  private async findVolumeAttachment(instanceId: string | undefined, volumeId: string | undefined): Promise<string> {
+    if (!instanceId || !volumeId) {
+      throw new OCIValidationError(
+        'Pass volumeAttachmentId (or resourceType volume-attachment with its OCID), or the instanceId and volumeId of the attachment',
+        'volumeAttachmentId'
+      );
+    }
+
+    const instance = (await this.ociClient.computeClient.getInstance({ instanceId })).instance;
+    const page = await fetchPages(
+      request => this.ociClient.computeClient.listVolumeAttachments(request),
+      { compartmentId: instance.compartmentId, instanceId, volumeId },
+      { fetchAll: true }
+    );
+    const attachment = page.items.find(item =>
+      item.lifecycleState === oci.core.models.VolumeAttachment.LifecycleState.Attached
+      || item.lifecycleState === oci.core.models.VolumeAttachment.LifecycleState.Attaching
+    );
+    if (!attachment) {
+      throw new OCIValidationError(`Volume ${volumeId} is not attached to instance ${instanceId}`, 'volumeId');
+    }
+    return attachment.id;
+  }
+
+  private async manageVnic(input: ComputeVnicAttachmentInput): Promise<OCIOperationResponse> {
+    const wait = planWait('vnic-attachment', input);
+
+    switch (input.action) {
+      case 'attach-vnic':
+        const instanceId = input.instanceId || (input.resourceType === 'instance' ? input.resourceId : undefined);
+        if (!instanceId || !input.subnetId) {
+          throw new OCIValidationError('Both instanceId and subnetId are required to attach a VNIC');
+        }
+
+        const attachResult = await this.ociClient.computeClient.attachVnic({
+          attachVnicDetails: {
+            instanceId,
+            displayName: input.displayName,
+            nicIndex: input.nicIndex,
+            createVnicDetails: {
+              subnetId: input.subnetId,
+              nsgIds: input.nsgIds,
+              assignPublicIp: input.assignPublicIp,
+              hostnameLabel: input.hostnameLabel,
+              privateIp: input.privateIp,
+              skipSourceDestCheck: input.skipSourceDestCheck,
+              displayName: input.displayName
+            }
+          }
+        });
+        const attachment = attachResult.vnicAttachment;
+
+        const attached = await completeOperation(this.ociClient, wait, attachment.id, {
+          success: true,
+          data: attachment,
+          message: `VNIC attachment initiated: ${instanceId} in subnet ${input.subnetId}`,
+          operationId: attachment.id
+        });
+        // The VNIC's addresses are known once it is attached
+        const vnicId = attached.data?.vnicId;
+        if (!wait || !vnicId) {
+          return attached;
+        }
+        const vnic = (await this.ociClient.virtualNetworkClient.getVnic({ vnicId })).vnic;
+        return {
+          ...attached,
+          data: { ...attached.data, vnic },
+          message: `${attached.message}; ${describeVnic(vnic)}`
+        };
+
+      case 'detach-vnic':
+        const vnicAttachmentId = input.vnicAttachmentId || (input.resourceType === 'vnic-attachment' ? input.resourceId : undefined);
+        if (!vnicAttachmentId) {
+          throw new OCIValidationError('Pass vnicAttachmentId, or resourceType vnic-attachment with its OCID', 'vnicAttachmentId');
+        }
+
+        const current = (await this.ociClient.computeClient.getVnicAttachment({ vnicAttachmentId })).vnicAttachment;
+        if (current.vnicId && (await this.ociClient.virtualNetworkClient.getVnic({ vnicId: current.vnicId })).vnic.isPrimary) {
+          throw new OCIValidationError(`${vnicAttachmentId} attaches the primary VNIC of ${current.instanceId}, which only goes away with the instance`, 'vnicAttachmentId');
+        }
+
+        await this.ociClient.computeClient.detachVnic({ vnicAttachmentId });
+        return completeOperation(this.ociClient, wait, vnicAttachmentId, {
+          success: true,
+          message: `VNIC detachment initiated: ${vnicAttachmentId}`,
+          operationId: vnicAttachmentId
+        });
+
+      default:
+        throw new OCIValidationError(`Unsupported VNIC action: ${input.action}`);
+    }
+  }
+
+  /**
+   * The attached VNICs of an instance with their attachment, primary first
+   */
+  private async instanceVnics(instanceId: string): Promise<Array<oci.core.models.Vnic & { vnicAttachmentId: string; nicIndex?: number }>> {
+    const instance = (await this.ociClient.computeClient.getInstance({ instanceId })).instance;
+    const page = await fetchPages(
+      request => this.ociClient.computeClient.listVnicAttachments(request),
+      { compartmentId: instance.compartmentId, instanceId },
+      { fetchAll: true }
+    );
+
+    const attached = page.items.filter(attachment =>
+      attachment.vnicId && attachment.lifecycleState === oci.core.models.VnicAttachment.LifecycleState.Attached
+    );
+    const vnics = await Promise.all(attached.map(async attachment => {
+      const vnic = (await this.ociClient.virtualNetworkClient.getVnic({ vnicId: attachment.vnicId! })).vnic;
+      return { ...vnic, vnicAttachmentId: attachment.id, nicIndex: attachment.nicIndex };
+    }));
+    return vnics.sort((a, b) => Number(Boolean(b.isPrimary)) - Number(Boolean(a.isPrimary)));
+  }
+
+  private async manageBootVolume(input: ComputeManageInput): Promise<OCIOperationResponse> {
+    switch (input.action) {
+      case 'backup-boot-volume':
+        requireResourceType(input, 'boot-volume');
+        const backupWait = planWait('boot-volume-backup', input);
+
+        const backupResult = await this.ociClient.blockstorageClient.createBootVolumeBackup({
+          createBootVolumeBackupDetails: {
+            bootVolumeId: input.resourceId,
+            displayName: input.displayName || `boot-volume-backup-${Date.now()}`,
+            type: input.backupType as oci.core.models.CreateBootVolumeBackupDetails.Type | undefined
+          }
+        });
+
+        return completeOperation(this.ociClient, backupWait, backupResult.bootVolumeBackup.id, {
+          success: true,
+          data: backupResult.bootVolumeBackup,
+          message: `Boot volume backup initiated: ${backupResult.bootVolumeBackup.displayName} of ${input.resourceId}`,
+          operationId: backupResult.bootVolumeBackup.id
+        });
+
+      case 'clone-boot-volume':
+        requireResourceType(input, 'boot-volume');
+        const cloneWait = planWait('boot-volume', input);
+
+        const { bootVolume: source } = await this.ociClient.blockstorageClient.getBootVolume({ bootVolumeId: input.resourceId });
+        checkRestoreSize(input.sizeInGBs, source.sizeInGBs, `boot volume ${source.id}`);
+        // Without an availability domain the clone stays next to its source
+        const cloneResult = await this.ociClient.blockstorageClient.createBootVolume({
+          createBootVolumeDetails: {
+            availabilityDomain: input.availabilityDomain || source.availabilityDomain,
+            compartmentId: input.compartmentId || source.compartmentId,
+            displayName: input.displayName || `${source.displayName} (Clone)`,
+            sizeInGBs: input.sizeInGBs,
+            sourceDetails: { type: 'bootVolume', id: source.id }
+          }
+        });
+
+        return completeOperation(this.ociClient, cloneWait, cloneResult.bootVolume.id, {
+          success: true,
+          data: cloneResult.bootVolume,
+          message: `Boot volume clone initiated: ${cloneResult.bootVolume.displayName} from ${source.id} in ${cloneResult.bootVolume.availabilityDomain}`,
+          operationId: cloneResult.bootVolume.id
+        });
+
+      case 'restore-boot-volume':
+        requireResourceType(input, 'boot-volume-backup');
+        // Backups are regional, so the restored volume needs a home
+        if (!input.availabilityDomain) {
+          throw new OCIValidationError('availabilityDomain is required to restore a boot volume backup', 'availabilityDomain');
+        }
+        const restoreWait = planWait('boot-volume', input);
+
+        const { bootVolumeBackup: backup } = await this.ociClient.blockstorageClient.getBootVolumeBackup({ bootVolumeBackupId: input.resourceId });
+        checkRestoreSize(input.sizeInGBs, backup.sizeInGBs, `backup ${backup.id}`);
+        const restoreResult = await this.ociClient.blockstorageClient.createBootVolume({
+          createBootVolumeDetails: {
+            availabilityDomain: input.availabilityDomain,
+            compartmentId: input.compartmentId || backup.compartmentId,
+            displayName: input.displayName || `${backup.displayName} (Restored)`,
+            sizeInGBs: input.sizeInGBs,
+            sourceDetails: { type: 'bootVolumeBackup', id: backup.id }
+          }
+        });
+
+        return completeOperation(this.ociClient, restoreWait, restoreResult.bootVolume.id, {
+          success: true,
+          data: restoreResult.bootVolume,
+          message: `Boot volume restore initiated: ${restoreResult.bootVolume.displayName} from ${backup.id} in ${input.availabilityDomain}`,
+          operationId: restoreResult.bootVolume.id
+        });
+
+      default:
+        throw new OCIValidationError(`Unsupported boot volume action: ${input.action}`);
+    }
+  }
+
+  /**
+   * Swap an instance's boot volume for another boot volume or a fresh one
+   * built from an image. OCI stops the instance, swaps the volume and starts
+   * it again; the old boot volume is kept unless preserveBootVolume is false.
+   */
+  private async replaceBootVolume(input: ComputeManageInput): Promise<OCIOperationResponse> {
+    requireResourceType(input, 'instance');
+    if (Boolean(input.bootVolumeId) === Boolean(input.imageId)) {
+      throw new OCIValidationError('Exactly one of bootVolumeId or imageId is required for replace-boot-volume', 'bootVolumeId');
+    }
+    if (input.sizeInGBs !== undefined && !input.imageId) {
+      throw new OCIValidationError('sizeInGBs only applies when replacing the boot volume from an image', 'sizeInGBs');
+    }
+    const wait = planWait('instance', input);
+
+    const { instance } = await this.ociClient.computeClient.getInstance({ instanceId: input.resourceId });
+    if (instance.lifecycleState === 'TERMINATING' || instance.lifecycleState === 'TERMINATED') {
+      throw new OCIValidationError(`Instance ${instance.id} is ${instance.lifecycleState}`, 'resourceId');
+    }
+    const current = await this.attachedBootVolume(instance.compartmentId, instance.availabilityDomain, { instanceId: instance.id });
+
+    if (input.bootVolumeId) {
+      const { bootVolume } = await this.ociClient.blockstorageClient.getBootVolume({ bootVolumeId: input.bootVolumeId });
+      if (bootVolume.availabilityDomain !== instance.availabilityDomain) {
+        throw new OCIValidationError(
+          `Boot volume ${bootVolume.id} is in ${bootVolume.availabilityDomain} but the instance is in ${instance.availabilityDomain}; clone it there first`,
+          'bootVolumeId'
+        );
+      }
+      if (bootVolume.lifecycleState !== 'AVAILABLE') {
+        throw new OCIValidationError(`Boot volume ${bootVolume.id} is ${bootVolume.lifecycleState}`, 'bootVolumeId');
+      }
+      const attachment = await this.attachedBootVolume(instance.compartmentId, instance.availabilityDomain, { bootVolumeId: bootVolume.id });
+      if (attachment) {
+        throw new OCIValidationError(`Boot volume ${bootVolume.id} is attached to instance ${attachment.instanceId}`, 'bootVolumeId');
+      }
+    }
+
+    const preserveBootVolume = input.preserveBootVolume ?? true;
+    const sourceDetails: oci.core.models.UpdateInstanceSourceViaBootVolumeDetails | oci.core.models.UpdateInstanceSourceViaImageDetails = input.bootVolumeId
+      ? { sourceType: 'bootVolume', bootVolumeId: input.bootVolumeId, isPreserveBootVolumeEnabled: preserveBootVolume }
+      : { sourceType: 'image', imageId: input.imageId!, bootVolumeSizeInGBs: input.sizeInGBs, isPreserveBootVolumeEnabled: preserveBootVolume };
+
+    const replaceResult = await this.ociClient.computeClient.updateInstance({
+      instanceId: instance.id,
+      updateInstanceDetails: { sourceDetails }
+    });
+
+    const previous = current
+      ? `; previous boot volume ${current.bootVolumeId} ${preserveBootVolume ? 'kept' : 'deleted'}`
+      : '';
+    return completeOperation(this.ociClient, wait, instance.id, {
+      success: true,
+      data: replaceResult.instance,
+      message: `Boot volume replacement initiated: ${instance.id} from ${input.bootVolumeId ? `boot volume ${input.bootVolumeId}` : `image ${input.imageId}`}${previous}`,
+      operationId: instance.id,
+      workRequestId: replaceResult.opcWorkRequestId
+    });
+  }
+
+  // Attachments are listed per compartment and AD; only attached ones count
+  private async attachedBootVolume(
+    compartmentId: string,
+    availabilityDomain: string,
+    filter: { instanceId?: string; bootVolumeId?: string }
+  ): Promise<oci.core.models.BootVolumeAttachment | undefined> {
+    const page = await fetchPages(
+      request => this.ociClient.computeClient.listBootVolumeAttachments(request),
+      { compartmentId, availabilityDomain, ...filter },
+      { fetchAll: true }
+    );
+    return page.items.find(attachment => attachment.lifecycleState === 'ATTACHED');
+  }
+
+  private async manageVolumeBackup(input: ComputeManageInput): Promise<OCIOperationResponse> {
+    switch (input.action) {
+      case 'backup-volume':
+        requireResourceType(input, 'volume');
+        const backupWait = planWait('volume-backup', input);
+
+        const backupResult = await this.ociClient.blockstorageClient.createVolumeBackup({
+          createVolumeBackupDetails: {
+            volumeId: input.resourceId,
+            displayName: input.displayName || `volume-backup-${Date.now()}`,
+            type: input.backupType as oci.core.models.CreateVolumeBackupDetails.Type | undefined
+          }
+        });
+
+        return completeOperation(this.ociClient, backupWait, backupResult.volumeBackup.id, {
+          success: true,
+          data: backupResult.volumeBackup,
+          message: `Volume backup initiated: ${backupResult.volumeBackup.displayName} of ${input.resourceId}`,
+          operationId: backupResult.volumeBackup.id
+        });
+
+      case 'restore-volume':
+        requireResourceType(input, 'volume-backup');
+        if (!input.availabilityDomain) {
+          throw new OCIValidationError('availabilityDomain is required to restore a volume backup', 'availabilityDomain');
+        }
+        const restoreWait = planWait('volume', input);
+
+        const { volumeBackup: backup } = await this.ociClient.blockstorageClient.getVolumeBackup({ volumeBackupId: input.resourceId });
+        checkRestoreSize(input.sizeInGBs, backup.sizeInGBs, `backup ${backup.id}`);
+        const restoreResult = await this.ociClient.blockstorageClient.createVolume({
+          createVolumeDetails: {
+            availabilityDomain: input.availabilityDomain,
+            compartmentId: input.compartmentId || backup.compartmentId,
+            displayName: input.displayName || `${backup.displayName} (Restored)`,
+            sizeInGBs: input.sizeInGBs,
+            vpusPerGB: input.vpusPerGB,
+            sourceDetails: { type: 'volumeBackup', id: backup.id }
+          }
+        });
+
+        return completeOperation(this.ociClient, restoreWait, restoreResult.volume.id, {
+          success: true,
+          data: restoreResult.volume,
+          message: `Volume restore initiated: ${restoreResult.volume.displayName} from ${backup.id} in ${input.availabilityDomain}`,
+          operationId: restoreResult.volume.id
+        });
+
+      case 'copy-volume-backup':
+        requireResourceType(input, 'volume-backup');
+        if (!input.destinationRegion) {
+          throw new OCIValidationError('destinationRegion is required to copy a volume backup', 'destinationRegion');
+        }
+        if (input.destinationRegion === this.ociClient.getRegion()) {
+          throw new OCIValidationError(`The backup is already in ${input.destinationRegion}; choose another destinationRegion`, 'destinationRegion');
+        }
+        const copyWait = planWait('volume-backup', input);
+
+        const copyResult = await this.ociClient.blockstorageClient.copyVolumeBackup({
+          volumeBackupId: input.resourceId,
+          copyVolumeBackupDetails: {
+            destinationRegion: input.destinationRegion,
+            displayName: input.displayName
+          }
+        });
+
+        // The copy lives in the destination region, so that is where to wait for it
+        return completeOperation(this.ociClient.forTarget({ region: input.destinationRegion }), copyWait, copyResult.volumeBackup.id, {
+          success: true,
+          data: copyResult.volumeBackup,
+          message: `Volume backup copy initiated: ${input.resourceId} to ${input.destinationRegion} as ${copyResult.volumeBackup.id}`,
+          operationId: copyResult.volumeBackup.id,
+          workRequestId: copyResult.opcWorkRequestId
+        });
+
+      default:
+        throw new OCIValidationError(`Unsupported volume backup action: ${input.action}`);
+    }
+  }
+
+  private async updateVolume(input: ComputeManageInput): Promise<OCIOperationResponse> {
+    requireResourceType(input, 'volume');
+    if (input.sizeInGBs === undefined && input.vpusPerGB === undefined && !input.displayName) {
+      throw new OCIValidationError('sizeInGBs, vpusPerGB or displayName is required for update-volume');
+    }
+    const wait = planWait('volume', input);
+
+    const { volume } = await this.ociClient.blockstorageClient.getVolume({ volumeId: input.resourceId });
+    if (input.sizeInGBs !== undefined && input.sizeInGBs < volume.sizeInGBs!) {
+      throw new OCIValidationError(`Block volumes can only grow; ${volume.id} is already ${volume.sizeInGBs} GB`, 'sizeInGBs');
+    }
+
+    const updateResult = await this.ociClient.blockstorageClient.updateVolume({
+      volumeId: volume.id,
+      updateVolumeDetails: {
+        sizeInGBs: input.sizeInGBs,
+        vpusPerGB: input.vpusPerGB,
+        displayName: input.displayName
+      }
+    });
+
+    const changes = [
+      input.sizeInGBs !== undefined ? `${volume.sizeInGBs} -> ${input.sizeInGBs} GB` : undefined,
+      input.vpusPerGB !== undefined ? `${volume.vpusPerGB} -> ${input.vpusPerGB} VPUs/GB` : undefined
+    ].filter(Boolean);
+    // A larger volume needs a rescan and filesystem resize on the instance before the space is usable
+    const grown = input.sizeInGBs !== undefined && input.sizeInGBs > volume.sizeInGBs!
+      ? '; rescan the disk on attached instances to use the new space'
+      : '';
+    return completeOperation(this.ociClient, wait, volume.id, {
+      success: true,
+      data: updateResult.volume,
+      message: `Volume update initiated: ${volume.id}${changes.length ? ` (${changes.join(', ')})` : ''}${grown}`,
+      operationId: volume.id
+    });
+  }
+
+  private async manageBackupPolicy(input: ComputeManageInput): Promise<OCIOperationResponse> {
+    requireResourceType(input, 'volume', 'boot-volume', 'volume-group');
+    rejectWait(input.action, input);
+    const current = await this.backupPolicyAssignment(input.resourceId);
+
+    switch (input.action) {
+      case 'assign-backup-policy':
+        if (!input.backupPolicy) {
+          throw new OCIValidationError('backupPolicy is required for assign-backup-policy', 'backupPolicy');
+        }
+        const policy = await this.resolveBackupPolicy(input.backupPolicy, input.compartmentId);
+        if (current?.policyId === policy.id) {
+          return {
+            success: true,
+            data: current,
+            message: `Backup policy ${policy.displayName} is already assigned to ${input.resourceId}`,
+            operationId: current.id
+          };
+        }
+
+        // An asset has at most one policy, so a different one is replaced
+        if (current) {
+          await this.ociClient.blockstorageClient.deleteVolumeBackupPolicyAssignment({ policyAssignmentId: current.id });
+        }
+        const assignResult = await this.ociClient.blockstorageClient.createVolumeBackupPolicyAssignment({
+          createVolumeBackupPolicyAssignmentDetails: { assetId: input.resourceId, policyId: policy.id }
+        });
+
+        return {
+          success: true,
+          data: assignResult.volumeBackupPolicyAssignment,
+          message: `Backup policy ${policy.displayName} assigned to ${input.resourceId}` +
+            (current ? ` (replacing ${current.policyId})` : ''),
+          operationId: assignResult.volumeBackupPolicyAssignment.id
+        };
+
+      case 'remove-backup-policy':
+        if (!current) {
+          return {
+            success: true,
+            message: `No backup policy is assigned to ${input.resourceId}`
+          };
+        }
+
+        await this.ociClient.blockstorageClient.deleteVolumeBackupPolicyAssignment({ policyAssignmentId: current.id });
+
+        return {
+          success: true,
+          message: `Backup policy ${current.policyId} removed from ${input.resourceId}; existing backups are kept`,
+          operationId: current.id
+        };
+
+      default:
+        throw new OCIValidationError(`Unsupported backup policy action: ${input.action}`);
+    }
+  }
+
+  private async backupPolicyAssignment(assetId: string): Promise<oci.core.models.VolumeBackupPolicyAssignment | undefined> {
+    const response = await this.ociClient.blockstorageClient.getVolumeBackupPolicyAssetAssignment({ assetId });
+    return response.items[0];
+  }
+
+  /**
+   * Find a backup policy by OCID or by name. Names match the Oracle-defined
+   * policies (bronze, silver, gold) first, then custom policies in the compartment.
+   */
+  private async resolveBackupPolicy(nameOrId: string, compartmentId?: string): Promise<oci.core.models.VolumeBackupPolicy> {
+    if (nameOrId.startsWith('ocid1.')) {
+      const { volumeBackupPolicy } = await this.ociClient.blockstorageClient.getVolumeBackupPolicy({ policyId: nameOrId });
+      return volumeBackupPolicy;
+    }
+
+    const listPolicies = async (policyCompartmentId?: string) => (await fetchPages(
+      request => this.ociClient.blockstorageClient.listVolumeBackupPolicies(request),
+      { compartmentId: policyCompartmentId },
+      { fetchAll: true }
+    )).items;
+    const name = nameOrId.toLowerCase();
+    const oracleDefined = await listPolicies();
+    const policy = oracleDefined.find(candidate => candidate.displayName.toLowerCase() === name)
+      ?? (await listPolicies(compartmentId || this.ociClient.getDefaultCompartmentId()))
+        .find(candidate => candidate.displayName.toLowerCase() === name);
+    if (!policy) {
+      throw new OCIValidationError(
+        `Unknown backup policy "${nameOrId}"; use ${oracleDefined.map(candidate => candidate.displayName).join(', ')}, a custom policy name or an OCID`,
+        'backupPolicy'
+      );
+    }
+    return policy;
+  }
+
+  private async manageVolumeGroup(input: ComputeManageInput): Promise<OCIOperationResponse> {
+    requireResourceType(input, 'volume-group');
+
+    switch (input.action) {
+      case 'update-volume-group':
+        if (!input.volumeIds && !input.displayName) {
+          throw new OCIValidationError('volumeIds or displayName is required for update-volume-group', 'volumeIds');
+        }
+        const updateWait = planWait('volume-group', input);
+
+        // volumeIds is the complete new membership, not a list to add
+        const updateResult = await this.ociClient.blockstorageClient.updateVolumeGroup({
+          volumeGroupId: input.resourceId,
+          updateVolumeGroupDetails: {
+            volumeIds: input.volumeIds,
+            displayName: input.displayName
+          }
+        });
+
+        return completeOperation(this.ociClient, updateWait, input.resourceId, {
+          success: true,
+          data: updateResult.volumeGroup,
+          message: `Volume group update initiated: ${input.resourceId}` +
+            (input.volumeIds ? ` now with ${input.volumeIds.length} volumes` : ''),
+          operationId: input.resourceId
+        });
+
+      case 'delete-volume-group':
+        const deleteWait = planWait('volume-group', input);
+        await this.ociClient.blockstorageClient.deleteVolumeGroup({ volumeGroupId: input.resourceId });
+
+        return completeOperation(this.ociClient, deleteWait, input.resourceId, {
+          success: true,
+          message: `Volume group deletion initiated: ${input.resourceId}; its volumes are kept`,
+          operationId: input.resourceId
+        });
+
+      case 'backup-volume-group':
+        const backupWait = planWait('volume-group-backup', input);
+
+        const backupResult = await this.ociClient.blockstorageClient.createVolumeGroupBackup({
+          createVolumeGroupBackupDetails: {
+            volumeGroupId: input.resourceId,
+            displayName: input.displayName || `volume-group-backup-${Date.now()}`,
+            type: input.backupType as oci.core.models.CreateVolumeGroupBackupDetails.Type | undefined
+          }
+        });
+
+        return completeOperation(this.ociClient, backupWait, backupResult.volumeGroupBackup.id, {
+          success: true,
+          data: backupResult.volumeGroupBackup,
+          message: `Volume group backup initiated: ${backupResult.volumeGroupBackup.displayName} of ${input.resourceId}`,
+          operationId: backupResult.volumeGroupBackup.id
+        });
+
+      default:
+        throw new OCIValidationError(`Unsupported volume group action: ${input.action}`);
+    }
+  }
+
+  private async manageImage(input: ComputeManageInput): Promise<OCIOperationResponse> {
+    switch (input.action) {
+      case 'create-image':
+        requireResourceType(input, 'instance');
+        const createWait = planWait('image', input);
+
+        const { instance } = await this.ociClient.computeClient.getInstance({ instanceId: input.resourceId });
+        const createResult = await this.ociClient.computeClient.createImage({
+          createImageDetails: {
+            compartmentId: input.compartmentId || instance.compartmentId,
+            instanceId: instance.id,
+            displayName: input.displayName || `${instance.displayName}-image-${Date.now()}`
           }
+        });
+
+        return completeOperation(this.ociClient, createWait, createResult.image.id, {
+          success: true,
+          data: createResult.image,
+          message: `Image creation initiated: ${createResult.image.displayName} from ${instance.id}; the instance is unavailable until the image is captured`,
+          operationId: createResult.image.id,
+          workRequestId: createResult.opcWorkRequestId
+        });
+
+      case 'export-image':
+        requireResourceType(input, 'image');
+        const exportWait = planWait('image', input);
+
+        const destination = await this.objectLocation(input);
+        const exportFormat = input.exportFormat as oci.core.models.ExportImageDetails.ExportFormat | undefined;
+        const exportResult = await this.ociClient.computeClient.exportImage({
+          imageId: input.resourceId,
+          exportImageDetails: 'uri' in destination
+            ? { destinationType: 'objectStorageUri', destinationUri: destination.uri, exportFormat }
+            : { destinationType: 'objectStorageTuple', ...destination, exportFormat }
+        });
+
+        // import-image takes this URI, through a pre-authenticated request when importing into another tenancy
+        const exportedTo = 'uri' in destination ? destination.uri : this.objectUri(destination);
+        return completeOperation(this.ociClient, exportWait, input.resourceId, {
+          success: true,
+          data: exportResult.image,
+          message: `Image export initiated: ${input.resourceId} to ${exportedTo}`,
+          operationId: input.resourceId,
+          workRequestId: exportResult.opcWorkRequestId
+        });
+
+      case 'delete-image':
+        requireResourceType(input, 'image');
+        const deleteWait = planWait('image', input);
+
+        const { image } = await this.ociClient.computeClient.getImage({ imageId: input.resourceId });
+        if (!image.compartmentId) {
+          throw new OCIValidationError(`${image.displayName} is a platform image and cannot be deleted`, 'resourceId');
+        }
+        await this.ociClient.computeClient.deleteImage({ imageId: image.id });
+
+        return completeOperation(this.ociClient, deleteWait, image.id, {
+          success: true,
+          message: `Image deletion initiated: ${image.displayName} (${image.id}); instances launched from it are not affected`,
+          operationId: image.id
+        });
+
+      case 'add-image-shape':
+      case 'remove-image-shape':
+        requireResourceType(input, 'image');
+        rejectWait(input.action, input);
+        if (!input.shape) {
+          throw new OCIValidationError(`shape is required for ${input.action}`, 'shape');
+        }
+
+        if (input.action === 'add-image-shape') {
+          const addResult = await this.ociClient.computeClient.addImageShapeCompatibilityEntry({
+            imageId: input.resourceId,
+            shapeName: input.shape
+          });
+
+          return {
+            success: true,
+            data: addResult.imageShapeCompatibilityEntry,
+            message: `Image ${input.resourceId} is now compatible with ${input.shape}`,
+            operationId: input.resourceId
+          };
+        }
+
+        await this.ociClient.computeClient.removeImageShapeCompatibilityEntry({
+          imageId: input.resourceId,
+          shapeName: input.shape
+        });
+
+        return {
+          success: true,
+          message: `Image ${input.resourceId} is no longer compatible with ${input.shape}`,
+          operationId: input.resourceId
         };
 
-        const attachResult = await this.ociClient.computeClient.attachVolume(attachRequest);
-        
+      default:
+        throw new OCIValidationError(`Unsupported image action: ${input.action}`);
+    }
+  }
+
+  private async importImage(input: z.infer<typeof ComputeImportImageInputSchema>): Promise<OCIOperationResponse> {
+    const wait = planWait('image', input);
+    const source = await this.objectLocation(input);
+    const sourceFormat = {
+      sourceImageType: input.sourceImageType as oci.core.models.ImageSourceDetails.SourceImageType | undefined,
+      operatingSystem: input.operatingSystem,
+      operatingSystemVersion: input.operatingSystemVersion
+    };
+
+    const importResult = await this.ociClient.computeClient.createImage({
+      createImageDetails: {
+        compartmentId: input.compartmentId || this.ociClient.getDefaultCompartmentId(),
+        displayName: input.displayName || `imported-image-${Date.now()}`,
+        launchMode: input.launchMode as oci.core.models.CreateImageDetails.LaunchMode | undefined,
+        imageSourceDetails: 'uri' in source
+          ? { sourceType: 'objectStorageUri', sourceUri: source.uri, ...sourceFormat }
+          : { sourceType: 'objectStorageTuple', ...source, ...sourceFormat }
+      }
+    });
+
+    const importedFrom = 'uri' in source ? source.uri : this.objectUri(source);
+    return completeOperation(this.ociClient, wait, importResult.image.id, {
+      success: true,
+      data: importResult.image,
+      message: `Image import initiated: ${importResult.image.displayName} from ${importedFrom}; list image-shapes to see the shapes it can launch on`,
+      operationId: importResult.image.id,
+      workRequestId: importResult.opcWorkRequestId
+    });
+  }
+
+  private async captureConsoleHistory(input: ComputeManageInput): Promise<OCIOperationResponse> {
+    requireResourceType(input, 'instance');
+    // The content can only be read once the capture has succeeded, so the capture is always waited for
+    if (input.waitForState && input.waitForState !== 'SUCCEEDED') {
+      throw new OCIValidationError('capture-console-history always waits for SUCCEEDED; use waitTimeoutSeconds to bound the wait', 'waitForState');
+    }
+    const wait = planWait('console-history', { waitForState: 'SUCCEEDED', waitTimeoutSeconds: input.waitTimeoutSeconds });
+
+    const captureResult = await this.ociClient.computeClient.captureConsoleHistory({
+      captureConsoleHistoryDetails: {
+        instanceId: input.resourceId,
+        displayName: input.displayName
+      }
+    });
+    const historyId = captureResult.consoleHistory.id;
+    const captured = await completeOperation(this.ociClient, wait, historyId, {
+      success: true,
+      data: captureResult.consoleHistory,
+      message: `Console history captured for ${input.resourceId}`,
+      operationId: historyId
+    });
+
+    const output = await this.consoleHistoryTail(historyId, input.maxBytes ?? DEFAULT_CONSOLE_HISTORY_BYTES, input.tailLines);
+    return {
+      ...captured,
+      data: { ...captured.data, ...output },
+      message: `${captured.message}; returning ${output.returnedBytes} of ${output.totalBytes} bytes` +
+        (output.truncated ? ' from the end (raise maxBytes or tailLines for more)' : '')
+    };
+  }
+
+  /**
+   * Read the end of a captured console history: the last maxBytes, cut down
+   * to whole lines and to the last tailLines lines when given
+   */
+  private async consoleHistoryTail(
+    instanceConsoleHistoryId: string,
+    maxBytes: number,
+    tailLines?: number
+  ): Promise<{ content: string; totalBytes: number; returnedBytes: number; truncated: boolean }> {
+    const computeClient = this.ociClient.computeClient;
+    let response = await computeClient.getConsoleHistoryContent({ instanceConsoleHistoryId, offset: 0, length: maxBytes });
+    const totalBytes = Buffer.byteLength(response.value) + (response.opcBytesRemaining || 0);
+    let truncated = totalBytes > maxBytes;
+    if (truncated) {
+      response = await computeClient.getConsoleHistoryContent({ instanceConsoleHistoryId, offset: totalBytes - maxBytes, length: maxBytes });
+    }
+
+    let lines = response.value.split(/\r?\n/);
+    if (truncated && lines.length > 1) {
+      // The read started mid-line
+      lines = lines.slice(1);
+    }
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    if (tailLines !== undefined && lines.length > tailLines) {
+      lines = lines.slice(-tailLines);
+      truncated = true;
+    }
+
+    const content = lines.join('\n');
+    return { content, totalBytes, returnedBytes: Buffer.byteLength(content), truncated };
+  }
+
+  private async manageConsoleConnection(input: ComputeManageInput): Promise<OCIOperationResponse> {
+    const wait = planWait('console-connection', input);
+
+    switch (input.action) {
+      case 'create-console-connection':
+        requireResourceType(input, 'instance');
+        if (!input.publicKey) {
+          throw new OCIValidationError('publicKey is required for create-console-connection', 'publicKey');
+        }
+
+        const { instance } = await this.ociClient.computeClient.getInstance({ instanceId: input.resourceId });
+        // An instance has at most one console connection
+        const existing = await fetchPages(
+          request => this.ociClient.computeClient.listInstanceConsoleConnections(request),
+          { compartmentId: instance.compartmentId, instanceId: instance.id },
+          { fetchAll: true }
+        );
+        const current = existing.items.find(connection => connection.lifecycleState === 'ACTIVE' || connection.lifecycleState === 'CREATING');
+        if (current) {
+          throw new OCIValidationError(
+            `${instance.displayName} already has console connection ${current.id}; delete it first to connect with another key`,
+            'resourceId'
+          );
+        }
+
+        const createResult = await this.ociClient.computeClient.createInstanceConsoleConnection({
+          createInstanceConsoleConnectionDetails: {
+            instanceId: instance.id,
+            publicKey: input.publicKey
+          }
+        });
+        const connectionId = createResult.instanceConsoleConnection.id!;
+        const created = await completeOperation(this.ociClient, wait, connectionId, {
+          success: true,
+          data: createResult.instanceConsoleConnection,
+          message: `Console connection created for ${instance.displayName}`,
+          operationId: connectionId
+        });
+
+        return { ...created, message: `${created.message}; ${connectionHint(created.data)}` };
+
+      case 'delete-console-connection':
+        requireResourceType(input, 'console-connection');
+        await this.ociClient.computeClient.deleteInstanceConsoleConnection({ instanceConsoleConnectionId: input.resourceId });
+
+        return completeOperation(this.ociClient, wait, input.resourceId, {
+          success: true,
+          message: `Console connection deletion initiated: ${input.resourceId}`,
+          operationId: input.resourceId
+        });
+
+      default:
+        throw new OCIValidationError(`Unsupported console connection action: ${input.action}`);
+    }
+  }
+
+  private async runCommand(input: z.infer<typeof ComputeRunCommandInputSchema>): Promise<OCIOperationResponse> {
+    const instanceIds = Array.from(new Set([...(input.resourceId ? [input.resourceId] : []), ...(input.instanceIds || [])]));
+    if (!instanceIds.length) {
+      throw new OCIValidationError('resourceId or instanceIds is required for run-command', 'instanceIds');
+    }
+    if (instanceIds.length > MAX_RUN_COMMAND_INSTANCES) {
+      throw new OCIValidationError(`run-command takes at most ${MAX_RUN_COMMAND_INSTANCES} instances at a time`, 'instanceIds');
+    }
+
+    const instances = await Promise.all(instanceIds.map(async instanceId =>
+      (await this.ociClient.computeClient.getInstance({ instanceId })).instance
+    ));
+    for (const instance of instances) {
+      if (instance.lifecycleState !== 'RUNNING') {
+        throw new OCIValidationError(`Instance ${instance.displayName} (${instance.id}) is ${instance.lifecycleState}; run-command needs a RUNNING instance`, 'instanceIds');
+      }
+      checkRunCommandPlugin(instance);
+    }
+
+    const displayName = input.displayName || `run-command-${Date.now()}`;
+    // Output written to a bucket is left exactly as the agent captured it
+    const marker = input.separateStderr && !input.outputBucketName ? `OCI_STDERR_${randomBytes(8).toString('hex')}` : undefined;
+    const text = marker ? wrapScript(input.script, marker) : input.script;
+    const namespaceName = input.outputBucketName ? input.namespaceName || await this.ociClient.getNamespace() : undefined;
+    const outputPrefix = input.outputPrefix ?? `run-command/${displayName}/`;
+
+    const commands = await Promise.all(instances.map(async instance => {
+      const result = await this.ociClient.instanceAgentClient.createInstanceAgentCommand({
+        createInstanceAgentCommandDetails: {
+          compartmentId: input.compartmentId || instance.compartmentId,
+          displayName,
+          executionTimeOutInSeconds: input.executionTimeoutSeconds,
+          target: { instanceId: instance.id },
+          content: {
+            source: { sourceType: 'TEXT', text },
+            output: input.outputBucketName
+              ? { outputType: 'OBJECT_STORAGE_TUPLE', namespaceName: namespaceName!, bucketName: input.outputBucketName, objectName: `${outputPrefix}${instance.id}` }
+              : { outputType: 'TEXT' }
+          }
+        }
+      });
+      return { instanceAgentCommandId: result.instanceAgentCommand.id, instanceId: instance.id };
+    }));
+
+    // The agent picks commands up on its next poll, so give it a minute on top of the run time
+    const waitTimeoutSeconds = input.waitTimeoutSeconds ?? Math.min(input.executionTimeoutSeconds + 60, 7200);
+    const executions = await waitForCommandExecutions(this.ociClient, commands, waitTimeoutSeconds);
+    const results = executions.map(execution => toCommandResult(execution, marker));
+
+    const pending = results.filter(result => isPending(result.state));
+    let message = `Ran ${displayName} on ${results.length} instance${results.length === 1 ? '' : 's'}: ${summarizeCommandResults(results)}`;
+    if (pending.length) {
+      message += `; get command-execution with the command ID and instanceId to follow up`;
+      if (pending.some(result => result.deliveryState === 'VISIBLE')) {
+        message += `. Commands still VISIBLE were not picked up: check that the ${RUN_COMMAND_PLUGIN} plugin is enabled ` +
+          'and a policy lets the instance use instance-agent-command-execution-family';
+      }
+    }
+
+    return {
+      success: true,
+      data: { results },
+      message,
+      operationId: commands.length === 1 ? commands[0]!.instanceAgentCommandId : undefined
+    };
+  }
+
+  private async createInstanceConfiguration(input: z.infer<typeof ComputeCreateInputSchema>): Promise<OCIOperationResponse> {
+    rejectWait('instance configurations', input);
+    const data = InstanceConfigurationCreateSchema.parse(input.data);
+    if (Boolean(data.instanceId) === Boolean(data.launchDetails)) {
+      throw new OCIValidationError('Pass either instanceId or launchDetails for an instance configuration', 'data');
+    }
+    const displayName = data.displayName || `instance-configuration-${Date.now()}`;
+    let details: oci.core.models.CreateInstanceConfigurationFromInstanceDetails | oci.core.models.CreateInstanceConfigurationDetails;
+
+    if (data.instanceId) {
+      details = { source: 'INSTANCE', compartmentId: data.compartmentId, displayName, instanceId: data.instanceId };
+    } else {
+      const spec = data.launchDetails!;
+      if (spec.hostnameLabel || spec.privateIp) {
+        throw new OCIValidationError('Every instance launched from a configuration needs its own hostnameLabel and privateIp; leave them out', 'launchDetails');
+      }
+      const shapes = await this.listShapes(spec.compartmentId || data.compartmentId, spec.availabilityDomain, spec.imageId);
+      checkShapeConfig(findShape(shapes, spec.shape, spec.availabilityDomain || this.ociClient.getRegion()), spec.shapeConfig);
+
+      const launchDetails: oci.core.models.InstanceConfigurationLaunchInstanceDetails = {
+        compartmentId: spec.compartmentId,
+        availabilityDomain: spec.availabilityDomain,
+        displayName: spec.displayName,
+        shape: spec.shape,
+        shapeConfig: spec.shapeConfig as oci.core.models.InstanceConfigurationLaunchInstanceShapeConfigDetails | undefined,
+        sourceDetails: { sourceType: 'image', imageId: spec.imageId },
+        createVnicDetails: primaryVnicDetails(spec),
+        metadata: launchMetadata(spec),
+        freeformTags: spec.freeformTags,
+        definedTags: spec.definedTags
+      };
+      details = {
+        source: 'NONE',
+        compartmentId: data.compartmentId,
+        displayName,
+        instanceDetails: { instanceType: 'compute', launchDetails } as oci.core.models.ComputeInstanceDetails
+      };
+    }
+
+    const result = await this.ociClient.computeManagementClient.createInstanceConfiguration({ createInstanceConfiguration: details });
+    return {
+      success: true,
+      data: result.instanceConfiguration,
+      message: `Instance configuration created: ${result.instanceConfiguration.displayName}` +
+        (data.instanceId ? ` from ${data.instanceId}` : ''),
+      operationId: result.instanceConfiguration.id
+    };
+  }
+
+  private async createInstancePool(input: z.infer<typeof ComputeCreateInputSchema>): Promise<OCIOperationResponse> {
+    const wait = planWait('instance-pool', input);
+    const data = InstancePoolCreateSchema.parse(input.data);
+    const availabilityDomains = data.placementConfigurations.map(placement => placement.availabilityDomain);
+    if (new Set(availabilityDomains).size !== availabilityDomains.length) {
+      throw new OCIValidationError('Each placement configuration needs a different availability domain', 'placementConfigurations');
+    }
+
+    const result = await this.ociClient.computeManagementClient.createInstancePool({
+      createInstancePoolDetails: {
+        compartmentId: data.compartmentId,
+        displayName: data.displayName || `instance-pool-${Date.now()}`,
+        instanceConfigurationId: data.instanceConfigurationId,
+        size: data.size,
+        placementConfigurations: data.placementConfigurations as oci.core.models.CreateInstancePoolPlacementConfigurationDetails[],
+        loadBalancers: data.loadBalancers as oci.core.models.AttachLoadBalancerDetails[] | undefined
+      }
+    });
+
+    return completeOperation(this.ociClient, wait, result.instancePool.id, {
+      success: true,
+      data: result.instancePool,
+      message: `Instance pool creation initiated: ${result.instancePool.displayName} with ${data.size} instances ` +
+        `across ${availabilityDomains.join(', ')}`,
+      operationId: result.instancePool.id
+    });
+  }
+
+  private async createAutoScalingConfiguration(input: z.infer<typeof ComputeCreateInputSchema>): Promise<OCIOperationResponse> {
+    rejectWait('autoscaling configurations', input);
+    const data = AutoScalingConfigurationCreateSchema.parse(input.data);
+    checkAutoScalingPolicies(data.policies);
+
+    const result = await this.ociClient.autoScalingClient.createAutoScalingConfiguration({
+      createAutoScalingConfigurationDetails: {
+        compartmentId: data.compartmentId,
+        displayName: data.displayName || `autoscaling-${Date.now()}`,
+        coolDownInSeconds: data.coolDownInSeconds,
+        isEnabled: data.isEnabled,
+        resource: { type: 'instancePool', id: data.instancePoolId },
+        policies: data.policies.map(toAutoScalingPolicy)
+      }
+    });
+
+    return {
+      success: true,
+      data: result.autoScalingConfiguration,
+      message: `Autoscaling configuration created: ${result.autoScalingConfiguration.displayName} for instance pool ${data.instancePoolId} ` +
+        `(${data.policies.map(describePolicy).join('; ')})`,
+      operationId: result.autoScalingConfiguration.id
+    };
+  }
+
+  private async manageInstancePool(input: ComputeManageInput): Promise<OCIOperationResponse> {
+    requireResourceType(input, 'instance-pool');
+    const instancePoolId = input.resourceId;
+    const wait = planWait('instance-pool', input);
+    const computeManagementClient = this.ociClient.computeManagementClient;
+
+    switch (input.action) {
+      case 'start-pool':
+        const startResult = await computeManagementClient.startInstancePool({ instancePoolId });
+
+        return completeOperation(this.ociClient, wait, instancePoolId, {
+          success: true,
+          data: startResult.instancePool,
+          message: `Instance pool start initiated: ${instancePoolId}`,
+          operationId: instancePoolId
+        });
+
+      case 'stop-pool':
+        const stopResult = await computeManagementClient.stopInstancePool({ instancePoolId });
+
+        return completeOperation(this.ociClient, wait, instancePoolId, {
+          success: true,
+          data: stopResult.instancePool,
+          message: `Instance pool stop initiated: ${instancePoolId}`,
+          operationId: instancePoolId
+        });
+
+      case 'resize-pool':
+        if (input.size === undefined) {
+          throw new OCIValidationError('size is required for resize-pool', 'size');
+        }
+        const { instancePool } = await computeManagementClient.getInstancePool({ instancePoolId });
+        const resizeResult = await computeManagementClient.updateInstancePool({
+          instancePoolId,
+          updateInstancePoolDetails: { size: input.size }
+        });
+
+        // An enabled autoscaling configuration keeps adjusting the size on its own
+        const autoScaling = await this.poolAutoScaling(instancePool);
+        return completeOperation(this.ociClient, wait, instancePoolId, {
+          success: true,
+          data: resizeResult.instancePool,
+          message: `Instance pool resize initiated: ${instancePool.displayName} from ${instancePool.size} to ${input.size} instances` +
+            (autoScaling?.isEnabled ? `; autoscaling configuration ${autoScaling.id} is enabled and may change the size again` : ''),
+          operationId: instancePoolId
+        });
+
+      case 'terminate-pool':
+        await computeManagementClient.terminateInstancePool({ instancePoolId });
+
+        return completeOperation(this.ociClient, wait, instancePoolId, {
+          success: true,
+          message: `Instance pool termination initiated: ${instancePoolId}; its instances are terminated with it`,
+          operationId: instancePoolId
+        });
+
+      default:
+        throw new OCIValidationError(`Unsupported instance pool action: ${input.action}`);
+    }
+  }
+
+  private async managePoolConfiguration(input: ComputeManageInput): Promise<OCIOperationResponse> {
+    rejectWait(input.action, input);
+
+    switch (input.action) {
+      case 'delete-instance-configuration':
+        requireResourceType(input, 'instance-configuration');
+        await this.ociClient.computeManagementClient.deleteInstanceConfiguration({ instanceConfigurationId: input.resourceId });
+
         return {
           success: true,
-          data: attachResult.volumeAttachment,
-          message: `Volume attachment initiated: ${input.volumeId} to ${input.instanceId}`,
-          operationId: attachResult.volumeAttachment.id
+          message: `Instance configuration deleted: ${input.resourceId}`,
+          operationId: input.resourceId
         };
 
-      case 'detach-volume':
-        const detachRequest = { volumeAttachmentId: input.resourceId };
-        await this.ociClient.computeClient.detachVolume(detachRequest);
-        
+      case 'update-autoscaling-configuration':
+        requireResourceType(input, 'autoscaling-configuration');
+        if (input.isEnabled === undefined && input.coolDownInSeconds === undefined && input.displayName === undefined) {
+          throw new OCIValidationError('isEnabled, coolDownInSeconds or displayName is required for update-autoscaling-configuration');
+        }
+        const updateResult = await this.ociClient.autoScalingClient.updateAutoScalingConfiguration({
+          autoScalingConfigurationId: input.resourceId,
+          updateAutoScalingConfigurationDetails: {
+            isEnabled: input.isEnabled,
+            coolDownInSeconds: input.coolDownInSeconds,
+            displayName: input.displayName
+          }
+        });
+        const updated = updateResult.autoScalingConfiguration;
+
+        return {
+          success: true,
+          data: updated,
+          message: `Autoscaling configuration updated: ${updated.displayName} is ${updated.isEnabled ? 'enabled' : 'disabled'}, ` +
+            `cool down ${updated.coolDownInSeconds}s`,
+          operationId: input.resourceId
+        };
+
+      case 'delete-autoscaling-configuration':
+        requireResourceType(input, 'autoscaling-configuration');
+        await this.ociClient.autoScalingClient.deleteAutoScalingConfiguration({ autoScalingConfigurationId: input.resourceId });
+
         return {
           success: true,
-          message: `Volume detachment initiated: ${input.resourceId}`,
+          message: `Autoscaling configuration deleted: ${input.resourceId}; the pool keeps its current size`,
           operationId: input.resourceId
         };
 
       default:
-        throw new Error(`Unsupported volume action: ${input.action}`);
+        throw new OCIValidationError(`Unsupported configuration action: ${input.action}`);
+    }
+  }
+
+  private async poolAutoScaling(pool: oci.core.models.InstancePool): Promise<oci.autoscaling.models.AutoScalingConfigurationSummary | undefined> {
+    const page = await fetchPages(
+      request => this.ociClient.autoScalingClient.listAutoScalingConfigurations(request),
+      { compartmentId: pool.compartmentId },
+      { fetchAll: true }
+    );
+    return page.items.find(configuration => configuration.resource.id === pool.id);
+  }
+
+  // Either a URI or a bucket and object, with the namespace filled in
+  private async objectLocation(
+    input: z.infer<typeof ObjectLocationSchema>
+  ): Promise<{ uri: string } | { namespaceName: string; bucketName: string; objectName: string }> {
+    if (input.uri) {
+      if (input.bucketName || input.objectName) {
+        throw new OCIValidationError('Pass either uri or bucketName and objectName, not both', 'uri');
+      }
+      return { uri: input.uri };
+    }
+    if (!input.bucketName || !input.objectName) {
+      throw new OCIValidationError('uri, or bucketName and objectName, is required', input.bucketName ? 'objectName' : 'bucketName');
+    }
+    return {
+      namespaceName: input.namespaceName || await this.ociClient.getNamespace(),
+      bucketName: input.bucketName,
+      objectName: input.objectName
+    };
+  }
+
+  private objectUri(location: { namespaceName: string; bucketName: string; objectName: string }): string {
+    return `https://objectstorage.${this.ociClient.getRegion()}.oraclecloud.com` +
+      `/n/${location.namespaceName}/b/${location.bucketName}/o/${encodeURIComponent(location.objectName)}`;
+  }
+}
+
+function requireResourceType(input: ComputeManageInput, ...resourceTypes: Array<ComputeManageInput['resourceType']>): void {
+  if (!resourceTypes.includes(input.resourceType)) {
+    throw new OCIValidationError(`${input.action} applies to resourceType ${resourceTypes.join(' or ')}, got ${input.resourceType}`, 'resourceType');
+  }
+}
+
+/**
+ * Write the script to a temporary file and run it under bash with its stderr
+ * collected in another, then print a marker line and the collected stderr,
+ * keeping the script's exit code
+ */
+function wrapScript(script: string, marker: string): string {
+  return [
+    '#!/bin/bash',
+    'script_file=$(mktemp)',
+    'stderr_file=$(mktemp)',
+    `cat >"$script_file" <<'${marker}'`,
+    script.replace(/\n$/, ''),
+    marker,
+    'bash "$script_file" 2>"$stderr_file" </dev/null',
+    'status=$?',
+    `printf '\\n%s\\n' '${marker}'`,
+    'cat "$stderr_file"',
+    'rm -f "$script_file" "$stderr_file"',
+    'exit $status',
+    ''
+  ].join('\n');
+}
+
+// The marker of a command sent through wrapScript, if it was
+function stderrMarker(command: oci.computeinstanceagent.models.InstanceAgentCommand): string | undefined {
+  const source = command.content.source as oci.computeinstanceagent.models.InstanceAgentCommandSourceViaTextDetails;
+  return source.sourceType === 'TEXT' ? /<<'(OCI_STDERR_[0-9a-f]{16})'/.exec(source.text)?.[1] : undefined;
+}
+
+function toCommandResult(
+  execution: oci.computeinstanceagent.models.InstanceAgentCommandExecution,
+  marker: string | undefined
+): CommandResult {
+  const result: CommandResult = {
+    instanceId: execution.instanceId,
+    instanceAgentCommandId: execution.instanceAgentCommandId,
+    state: execution.lifecycleState,
+    deliveryState: execution.deliveryState
+  };
+  const content = execution.content;
+  if (!content || isPending(execution.lifecycleState)) {
+    return result;
+  }
+
+  result.exitCode = content.exitCode;
+  result.message = content.message;
+  if (content.outputType === 'TEXT') {
+    const text = (content as oci.computeinstanceagent.models.InstanceAgentCommandExecutionOutputViaTextDetails).text || '';
+    // Without the marker (a truncated output) everything is reported as stdout
+    const at = marker ? text.lastIndexOf(`\n${marker}\n`) : -1;
+    result.stdout = at < 0 ? text : text.slice(0, at);
+    result.stderr = at < 0 ? undefined : text.slice(at + marker!.length + 2);
+  } else if (content.outputType === 'OBJECT_STORAGE_TUPLE') {
+    const { namespaceName, bucketName, objectName } = content as oci.computeinstanceagent.models.InstanceAgentCommandExecutionOutputViaObjectStorageTupleDetails;
+    result.outputObject = { namespaceName, bucketName, objectName };
+  }
+  return result;
+}
+
+function isPending(state: string): boolean {
+  return state === 'ACCEPTED' || state === 'IN_PROGRESS';
+}
+
+function describeCommandResult(result: CommandResult): string {
+  if (isPending(result.state)) {
+    return `still ${result.state}`;
+  }
+  const exit = result.exitCode !== undefined ? `exit code ${result.exitCode}` : 'no exit code';
+  return result.state === 'SUCCEEDED' ? exit : `${result.state} (${exit})`;
+}
+
+// e.g. "2 exit code 0, 1 exit code 1, 1 still IN_PROGRESS"
+function summarizeCommandResults(results: CommandResult[]): string {
+  const counts = new Map<string, number>();
+  for (const result of results) {
+    const outcome = describeCommandResult(result);
+    counts.set(outcome, (counts.get(outcome) ?? 0) + 1);
+  }
+  return Array.from(counts, ([outcome, count]) => `${count} ${outcome}`).join(', ');
+}
+
+// Only an explicit opt-out is visible; plugins left at their image default are not listed
+function checkRunCommandPlugin(instance: oci.core.models.Instance): void {
+  const agent = instance.agentConfig;
+  const plugin = agent?.pluginsConfig?.find(config => config.name === RUN_COMMAND_PLUGIN);
+  if (agent?.areAllPluginsDisabled || agent?.isManagementDisabled || plugin?.desiredState === 'DISABLED') {
+    throw new OCIValidationError(
+      `The ${RUN_COMMAND_PLUGIN} plugin of the Oracle Cloud Agent is disabled on ${instance.displayName} (${instance.id})`,
+      'instanceIds'
+    );
+  }
+}
+
+/**
+ * The primary VNIC of a launch. Its options need the subnet to place it in.
+ */
+function primaryVnicDetails(spec: {
+  subnetId?: string;
+  nsgIds?: string[];
+  assignPublicIp?: boolean;
+  hostnameLabel?: string;
+  privateIp?: string;
+}): { subnetId: string; nsgIds?: string[]; assignPublicIp?: boolean; hostnameLabel?: string; privateIp?: string } | undefined {
+  if (!spec.subnetId) {
+    const options = (['nsgIds', 'assignPublicIp', 'hostnameLabel', 'privateIp'] as const).filter(option => spec[option] !== undefined);
+    if (options.length > 0) {
+      throw new OCIValidationError(`${options.join(', ')} ${options.length === 1 ? 'needs' : 'need'} subnetId`, 'subnetId');
+    }
+    return undefined;
+  }
+  return {
+    subnetId: spec.subnetId,
+    nsgIds: spec.nsgIds,
+    assignPublicIp: spec.assignPublicIp,
+    hostnameLabel: spec.hostnameLabel,
+    privateIp: spec.privateIp
+  };
+}
+
+function launchMetadata(data: {
+  metadata?: Record<string, string>;
+  sshAuthorizedKeys?: string[];
+  userData?: string;
+  userDataFile?: string;
+}): Record<string, string> {
+  const userData = readUserData(data);
+  if (userData !== undefined && data.metadata?.user_data) {
+    throw new OCIValidationError('Pass userData or metadata.user_data, not both', 'userData');
+  }
+
+  const metadata = {
+    ...data.metadata,
+    ...(data.sshAuthorizedKeys ? { ssh_authorized_keys: data.sshAuthorizedKeys.join('\n') } : {}),
+    ...(userData !== undefined ? { user_data: Buffer.from(userData, 'utf8').toString('base64') } : {})
+  };
+  const size = Object.entries(metadata).reduce((total, [key, value]) => total + Buffer.byteLength(key) + Buffer.byteLength(value), 0);
+  if (size > MAX_INSTANCE_METADATA_BYTES) {
+    throw new OCIValidationError(
+      `Instance metadata is ${size} bytes` +
+      (metadata.user_data ? ` (user_data is ${metadata.user_data.length} bytes once base64-encoded)` : '') +
+      `; OCI allows at most ${MAX_INSTANCE_METADATA_BYTES}`,
+      metadata.user_data ? 'userData' : 'metadata'
+    );
+  }
+  return metadata;
+}
+
+function readUserData(data: { userData?: string; userDataFile?: string }): string | undefined {
+  if (data.userData !== undefined && data.userDataFile) {
+    throw new OCIValidationError('Pass either userData or userDataFile, not both', 'userDataFile');
+  }
+  if (!data.userDataFile) {
+    return data.userData;
+  }
+  try {
+    return readFileSync(expandHome(data.userDataFile), 'utf8');
+  } catch (error) {
+    throw new OCIValidationError(`Cannot read userDataFile ${data.userDataFile}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'userDataFile');
+  }
+}
+
+/**
+ * OCI allows one threshold policy or any number of scheduled policies per
+ * configuration; the capacity and thresholds have to be consistent
+ */
+function checkAutoScalingPolicies(policies: AutoScalingPolicyInput[]): void {
+  const thresholdPolicies = policies.filter(policy => policy.policyType === 'threshold');
+  if (thresholdPolicies.length && thresholdPolicies.length !== policies.length) {
+    throw new OCIValidationError('Threshold and scheduled policies cannot be combined in one autoscaling configuration', 'policies');
+  }
+  if (thresholdPolicies.length > 1) {
+    throw new OCIValidationError('An autoscaling configuration takes a single threshold policy', 'policies');
+  }
+
+  policies.forEach((policy, index) => {
+    const field = `policies.${index}`;
+    if (policy.policyType === 'threshold') {
+      const { min, max, initial } = policy.capacity;
+      if (min > initial || initial > max) {
+        throw new OCIValidationError(`Capacity must satisfy min <= initial <= max, got ${min}, ${initial}, ${max}`, `${field}.capacity`);
+      }
+      if (policy.scaleInThreshold >= policy.scaleOutThreshold) {
+        throw new OCIValidationError('scaleInThreshold must be lower than scaleOutThreshold', `${field}.scaleInThreshold`);
+      }
+      return;
+    }
+
+    if ((policy.poolSize === undefined) === (policy.powerAction === undefined)) {
+      throw new OCIValidationError('A scheduled policy takes either poolSize or powerAction', field);
+    }
+    const cronFields = policy.cronExpression.trim().split(/\s+/);
+    if (cronFields.length < 6 || cronFields.length > 7 || cronFields[0] !== '0') {
+      throw new OCIValidationError(
+        `cronExpression must be a Quartz expression of 6 or 7 fields starting with 0 seconds, e.g. "0 0 8 ? * MON-FRI"; got "${policy.cronExpression}"`,
+        `${field}.cronExpression`
+      );
+    }
+  });
+}
+
+function toAutoScalingPolicy(policy: AutoScalingPolicyInput): oci.autoscaling.models.CreateThresholdPolicyDetails | oci.autoscaling.models.CreateScheduledPolicyDetails {
+  if (policy.policyType === 'threshold') {
+    const rule = (name: string, operator: string, value: number, change: number) => ({
+      displayName: name,
+      action: { type: 'CHANGE_COUNT_BY', value: change },
+      metric: { metricSource: 'COMPUTE_AGENT', metricType: policy.metricType, threshold: { operator, value } }
+    }) as oci.autoscaling.models.CreateConditionDetails;
+
+    return {
+      policyType: 'threshold',
+      displayName: policy.displayName,
+      capacity: policy.capacity,
+      rules: [
+        rule('scale-out', 'GT', policy.scaleOutThreshold, policy.scaleOutCount),
+        rule('scale-in', 'LT', policy.scaleInThreshold, -policy.scaleInCount)
+      ]
+    };
+  }
+
+  return {
+    policyType: 'scheduled',
+    displayName: policy.displayName,
+    executionSchedule: { type: 'cron', expression: policy.cronExpression, timezone: policy.timezone as oci.autoscaling.models.ExecutionSchedule.Timezone },
+    capacity: policy.poolSize !== undefined ? { initial: policy.poolSize } : undefined,
+    resourceAction: policy.powerAction
+      ? { actionType: 'power', action: policy.powerAction as oci.autoscaling.models.ResourcePowerAction.Action }
+      : undefined
+  };
+}
+
+function describePolicy(policy: AutoScalingPolicyInput): string {
+  if (policy.policyType === 'threshold') {
+    const metric = policy.metricType === 'CPU_UTILIZATION' ? 'CPU' : 'memory';
+    return `${policy.capacity.min}-${policy.capacity.max} instances starting at ${policy.capacity.initial}, ` +
+      `+${policy.scaleOutCount} above ${policy.scaleOutThreshold}% ${metric}, -${policy.scaleInCount} below ${policy.scaleInThreshold}%`;
+  }
+  const effect = policy.powerAction ? policy.powerAction.toLowerCase() : `resize to ${policy.poolSize}`;
+  return `${effect} at "${policy.cronExpression}" ${policy.timezone}`;
+}
+
+/**
+ * Reject options that do not apply to the attachment type, which OCI would
+ * otherwise ignore without a word
+ */
+function checkAttachmentOptions(input: ComputeVolumeAttachmentInput): void {
+  const iscsiOnly = (['useChap', 'encryptionInTransitType', 'isAgentAutoIscsiLoginEnabled'] as const)
+    .filter(option => input[option] !== undefined);
+  if (input.attachmentType !== 'iscsi' && iscsiOnly.length > 0) {
+    throw new OCIValidationError(`${iscsiOnly.join(', ')} ${iscsiOnly.length === 1 ? 'applies' : 'apply'} only to iscsi attachments`, iscsiOnly[0]);
+  }
+  if (input.attachmentType !== 'paravirtualized' && input.isPvEncryptionInTransitEnabled !== undefined) {
+    throw new OCIValidationError('isPvEncryptionInTransitEnabled only applies to paravirtualized attachments', 'isPvEncryptionInTransitEnabled');
+  }
+  if (input.device && !input.device.startsWith('/dev/oracleoci/')) {
+    throw new OCIValidationError(`Device ${input.device} is not a consistent device path such as /dev/oracleoci/oraclevdb`, 'device');
+  }
+}
+
+/**
+ * Add the iscsiadm commands that log an instance in to (and out of) an iSCSI
+ * attachment, one target per path for multipath attachments. Other
+ * attachment types are returned as they are.
+ */
+function withIscsiCommands<T extends Record<string, any>>(attachment: T): T & { iscsiCommands?: { attach: string[]; detach: string[] } } {
+  if (!isIscsiAttachment(attachment) || !attachment.iqn || !attachment.ipv4) {
+    return attachment;
+  }
+
+  const targets: Array<{ iqn: string; ipv4: string; port?: number }> = [attachment, ...(attachment.multipathDevices || [])];
+  const attach: string[] = [];
+  const detach: string[] = [];
+  for (const target of targets) {
+    const node = `-m node -T ${target.iqn} -p ${target.ipv4}:${target.port || 3260}`;
+    attach.push(`sudo iscsiadm ${node} -o new`);
+    attach.push(`sudo iscsiadm ${node} -o update -n node.startup -v automatic`);
+    if (attachment.chapUsername) {
+      attach.push(`sudo iscsiadm ${node} -o update -n node.session.auth.authmethod -v CHAP`);
+      attach.push(`sudo iscsiadm ${node} -o update -n node.session.auth.username -v ${attachment.chapUsername}`);
+      attach.push(`sudo iscsiadm ${node} -o update -n node.session.auth.password -v ${attachment.chapSecret}`);
+    }
+    attach.push(`sudo iscsiadm ${node} -l`);
+    detach.push(`sudo iscsiadm ${node} -u`);
+    detach.push(`sudo iscsiadm ${node} -o delete`);
+  }
+  return { ...attachment, iscsiCommands: { attach, detach } };
+}
+
+function isIscsiAttachment(attachment: Record<string, any>): attachment is oci.core.models.IScsiVolumeAttachment {
+  return attachment.attachmentType === 'iscsi';
+}
+
+function describeVnic(vnic: oci.core.models.Vnic): string {
+  return `${vnic.isPrimary ? 'primary' : 'secondary'} VNIC ${vnic.privateIp || 'without a private IP'}` +
+    (vnic.publicIp ? ` (public ${vnic.publicIp})` : '') +
+    (vnic.hostnameLabel ? `, hostname ${vnic.hostnameLabel}` : '');
+}
+
+function connectionHint(connection: { connectionString?: string; vncConnectionString?: string } | undefined): string {
+  if (!connection?.connectionString) {
+    return 'the SSH connection strings are available once the connection is ACTIVE';
+  }
+  return `serial console: ${connection.connectionString}` +
+    (connection.vncConnectionString ? `; VNC tunnel: ${connection.vncConnectionString}` : '') +
+    ' (authenticate with the private key matching publicKey)';
+}
+
+function checkRestoreSize(sizeInGBs: number | undefined, sourceSizeInGBs: number | undefined, source: string): void {
+  if (sizeInGBs !== undefined && sourceSizeInGBs !== undefined && sizeInGBs < sourceSizeInGBs) {
+    throw new OCIValidationError(`sizeInGBs cannot be smaller than the ${sourceSizeInGBs} GB of ${source}`, 'sizeInGBs');
+  }
+}
+
+function findShape(shapes: oci.core.models.Shape[], name: string, availabilityDomain: string): oci.core.models.Shape {
+  const shape = shapes.find(candidate => candidate.shape === name);
+  if (!shape) {
+    throw new OCIValidationError(
+      `Shape ${name} is not available in ${availabilityDomain} for this image; available: ${shapes.map(candidate => candidate.shape).join(', ') || 'none'}`,
+      'shape'
+    );
+  }
+  return shape;
+}
+
+/**
+ * Check a flexible shape configuration against the limits listShapes reports
+ * for the shape. Fixed shapes take no configuration; flexible shapes need
+ * OCPUs unless the instance already has them (resizing between flexible shapes).
+ */
+function checkShapeConfig(shape: oci.core.models.Shape, config: OCIShapeConfig | undefined, hasCurrentConfig = false): void {
+  if (!shape.isFlexible) {
+    if (config) {
+      throw new OCIValidationError(`${shape.shape} is not a flexible shape and takes no shapeConfig`, 'shapeConfig');
+    }
+    return;
+  }
+  if (!config?.ocpus && !hasCurrentConfig) {
+    throw new OCIValidationError(`${shape.shape} is a flexible shape; shapeConfig.ocpus is required`, 'shapeConfig.ocpus');
+  }
+  if (!config) {
+    return;
+  }
+
+  const { ocpuOptions, memoryOptions } = shape;
+  if (config.ocpus !== undefined && ocpuOptions && !within(config.ocpus, ocpuOptions.min, ocpuOptions.max)) {
+    throw new OCIValidationError(
+      `${shape.shape} supports ${ocpuOptions.min}-${ocpuOptions.max} OCPUs, got ${config.ocpus}`,
+      'shapeConfig.ocpus'
+    );
+  }
+  if (config.memoryInGBs !== undefined && memoryOptions) {
+    if (!within(config.memoryInGBs, memoryOptions.minInGBs, memoryOptions.maxInGBs)) {
+      throw new OCIValidationError(
+        `${shape.shape} supports ${memoryOptions.minInGBs}-${memoryOptions.maxInGBs} GB of memory, got ${config.memoryInGBs}`,
+        'shapeConfig.memoryInGBs'
+      );
     }
+    if (config.ocpus !== undefined
+      && !within(config.memoryInGBs / config.ocpus, memoryOptions.minPerOcpuInGBs, memoryOptions.maxPerOcpuInGBs)) {
+      throw new OCIValidationError(
+        `${shape.shape} supports ${memoryOptions.minPerOcpuInGBs}-${memoryOptions.maxPerOcpuInGBs} GB of memory per OCPU, ` +
+        `got ${config.memoryInGBs} GB for ${config.ocpus} OCPUs`,
+        'shapeConfig.memoryInGBs'
+      );
+    }
+  }
+  if (config.baselineOcpuUtilization && !shape.baselineOcpuUtilizations?.includes(config.baselineOcpuUtilization as oci.core.models.Shape.BaselineOcpuUtilizations)) {
+    throw new OCIValidationError(
+      `${shape.shape} does not support burstable baseline ${config.baselineOcpuUtilization}` +
+      (shape.baselineOcpuUtilizations?.length ? `; supported: ${shape.baselineOcpuUtilizations.join(', ')}` : ''),
+      'shapeConfig.baselineOcpuUtilization'
+    );
   }
 }
+
+function within(value: number, min: number | undefined, max: number | undefined): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+function describeShape(shape: string, config: OCIShapeConfig | undefined): string {
+  const sizing = [
+    config?.ocpus !== undefined ? `${config.ocpus} OCPUs` : undefined,
+    config?.memoryInGBs !== undefined ? `${config.memoryInGBs} GB` : undefined,
+    config?.baselineOcpuUtilization
+  ].filter(Boolean);
+  return sizing.length ? `${shape} (${sizing.join(', ')})` : shape;
+}
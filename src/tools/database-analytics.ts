@@ -1,10 +1,18 @@
 import { z } from 'zod';
-import { getOCIClient } from '../utils/oci-client';
+import { getOCIClient, OCIClientManager } from '../utils/oci-client.js';
+import { OCIValidationError, toErrorResponse } from '../utils/errors.js';
+import { withRetryCount } from '../utils/retry.js';
+import { fetchPages, toListResponse } from '../utils/pagination.js';
+import { completeOperation, planWait, rejectWait } from '../utils/waiters.js';
 import { 
   OCIResourceListResponse, 
   OCIResourceDetailResponse, 
-  OCIOperationResponse 
-} from '../types/oci';
+  OCIOperationResponse,
+  OCIErrorResponse,
+  OCIPaginationSchema,
+  OCITargetSchema,
+  OCIWaitSchema
+} from '../types/oci.js';
 
 // Database & Analytics Tool Input Schemas
 const DatabaseAnalyticsListInputSchema = z.object({
@@ -19,7 +27,7 @@ const DatabaseAnalyticsListInputSchema = z.object({
   limit: z.number().min(1).max(100).optional(),
   displayName: z.string().optional(),
   lifecycleState: z.string().optional()
-});
+}).merge(OCIPaginationSchema).merge(OCITargetSchema);
 
 const DatabaseAnalyticsGetInputSchema = z.object({
   action: z.literal('get'),
@@ -28,7 +36,7 @@ const DatabaseAnalyticsGetInputSchema = z.object({
     'backup', 'data-safe-target', 'analytics-instance'
   ]),
   resourceId: z.string().min(1, "Resource ID is required")
-});
+}).merge(OCITargetSchema);
 
 const DatabaseAnalyticsCreateInputSchema = z.object({
   action: z.literal('create'),
@@ -67,7 +75,7 @@ const DatabaseAnalyticsCreateInputSchema = z.object({
       type: z.enum(['INCREMENTAL', 'FULL']).optional()
     })
   ])
-});
+}).merge(OCIWaitSchema).merge(OCITargetSchema);
 
 const DatabaseAnalyticsManageInputSchema = z.object({
   action: z.enum([
@@ -86,7 +94,7 @@ const DatabaseAnalyticsManageInputSchema = z.object({
   // Clone parameters
   cloneName: z.string().optional(),
   targetCompartmentId: z.string().optional()
-});
+}).merge(OCIWaitSchema).merge(OCITargetSchema);
 
 export const DatabaseAnalyticsToolInputSchema = z.union([
   DatabaseAnalyticsListInputSchema,
@@ -98,10 +106,23 @@ export const DatabaseAnalyticsToolInputSchema = z.union([
 export type DatabaseAnalyticsToolInput = z.infer<typeof DatabaseAnalyticsToolInputSchema>;
 
 export class DatabaseAnalyticsManager {
-  private ociClient = getOCIClient();
+  constructor(private ociClient: OCIClientManager = getOCIClient()) {}
 
-  async execute(input: DatabaseAnalyticsToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse> {
+  async execute(input: DatabaseAnalyticsToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse | OCIErrorResponse> {
+    // Responses report how many OCI requests were retried while serving the call
+    return withRetryCount(() => this.run(input));
+  }
+
+  private async run(input: DatabaseAnalyticsToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse | OCIErrorResponse> {
     try {
+      // Calls for another profile or region run on that target's clients
+      const target = this.ociClient.forTarget(input);
+      if (target !== this.ociClient) {
+        return await new DatabaseAnalyticsManager(target).execute(input);
+      }
+
+      await this.ociClient.ready();
+
       switch (input.action) {
         case 'list':
           return await this.listResources(input);
@@ -120,18 +141,14 @@ export class DatabaseAnalyticsManager {
         case 'delete-backup':
           return await this.manageResource(input);
         default:
-          throw new Error(`Unsupported action: ${(input as any).action}`);
+          throw new OCIValidationError(`Unsupported action: ${(input as any).action}`);
       }
     } catch (error) {
-      const errorMessage = this.ociClient.handleOCIError(error);
-      return {
-        success: false,
-        message: errorMessage
-      };
+      return toErrorResponse(error);
     }
   }
 
-  private async listResources(input: DatabaseAnalyticsListInputSchema['_type']): Promise<OCIResourceListResponse> {
+  private async listResources(input: z.infer<typeof DatabaseAnalyticsListInputSchema>): Promise<OCIResourceListResponse> {
     const compartmentId = input.compartmentId || this.ociClient.getDefaultCompartmentId();
     
     switch (input.resourceType) {
@@ -143,13 +160,8 @@ export class DatabaseAnalyticsManager {
           lifecycleState: input.lifecycleState
         };
         
-        const dbSystemsResponse = await this.ociClient.databaseClient.listDbSystems(dbSystemsRequest);
-        return {
-          success: true,
-          data: dbSystemsResponse.items,
-          count: dbSystemsResponse.items.length,
-          message: `Found ${dbSystemsResponse.items.length} DB systems`
-        };
+        const dbSystemsPage = await fetchPages(request => this.ociClient.databaseClient.listDbSystems(request), dbSystemsRequest, input);
+        return toListResponse(dbSystemsPage, 'DB systems');
 
       case 'autonomous-databases':
         const adbRequest = {
@@ -159,34 +171,24 @@ export class DatabaseAnalyticsManager {
           lifecycleState: input.lifecycleState
         };
         
-        const adbResponse = await this.ociClient.databaseClient.listAutonomousDatabases(adbRequest);
-        return {
-          success: true,
-          data: adbResponse.items,
-          count: adbResponse.items.length,
-          message: `Found ${adbResponse.items.length} autonomous databases`
-        };
+        const adbPage = await fetchPages(request => this.ociClient.databaseClient.listAutonomousDatabases(request), adbRequest, input);
+        return toListResponse(adbPage, 'autonomous databases');
 
       case 'databases':
         if (!input.dbSystemId && !input.dbHomeId) {
-          throw new Error('Either dbSystemId or dbHomeId is required for listing databases');
+          throw new OCIValidationError('Either dbSystemId or dbHomeId is required for listing databases');
         }
         
         const databasesRequest = input.dbSystemId 
           ? { compartmentId, dbSystemId: input.dbSystemId, limit: input.limit || 50 }
           : { compartmentId, dbHomeId: input.dbHomeId, limit: input.limit || 50 };
         
-        const databasesResponse = await this.ociClient.databaseClient.listDatabases(databasesRequest);
-        return {
-          success: true,
-          data: databasesResponse.items,
-          count: databasesResponse.items.length,
-          message: `Found ${databasesResponse.items.length} databases`
-        };
+        const databasesPage = await fetchPages(request => this.ociClient.databaseClient.listDatabases(request), databasesRequest, input);
+        return toListResponse(databasesPage, 'databases');
 
       case 'db-homes':
         if (!input.dbSystemId) {
-          throw new Error('dbSystemId is required for listing DB homes');
+          throw new OCIValidationError('dbSystemId is required for listing DB homes', 'dbSystemId');
         }
         
         const dbHomesRequest = {
@@ -197,17 +199,12 @@ export class DatabaseAnalyticsManager {
           lifecycleState: input.lifecycleState
         };
         
-        const dbHomesResponse = await this.ociClient.databaseClient.listDbHomes(dbHomesRequest);
-        return {
-          success: true,
-          data: dbHomesResponse.items,
-          count: dbHomesResponse.items.length,
-          message: `Found ${dbHomesResponse.items.length} DB homes`
-        };
+        const dbHomesPage = await fetchPages(request => this.ociClient.databaseClient.listDbHomes(request), dbHomesRequest, input);
+        return toListResponse(dbHomesPage, 'DB homes');
 
       case 'db-nodes':
         if (!input.dbSystemId) {
-          throw new Error('dbSystemId is required for listing DB nodes');
+          throw new OCIValidationError('dbSystemId is required for listing DB nodes', 'dbSystemId');
         }
         
         const dbNodesRequest = {
@@ -217,13 +214,8 @@ export class DatabaseAnalyticsManager {
           lifecycleState: input.lifecycleState
         };
         
-        const dbNodesResponse = await this.ociClient.databaseClient.listDbNodes(dbNodesRequest);
-        return {
-          success: true,
-          data: dbNodesResponse.items,
-          count: dbNodesResponse.items.length,
-          message: `Found ${dbNodesResponse.items.length} DB nodes`
-        };
+        const dbNodesPage = await fetchPages(request => this.ociClient.databaseClient.listDbNodes(request), dbNodesRequest, input);
+        return toListResponse(dbNodesPage, 'DB nodes');
 
       case 'backups':
         const backupsRequest = {
@@ -232,20 +224,15 @@ export class DatabaseAnalyticsManager {
           lifecycleState: input.lifecycleState
         };
         
-        const backupsResponse = await this.ociClient.databaseClient.listBackups(backupsRequest);
-        return {
-          success: true,
-          data: backupsResponse.items,
-          count: backupsResponse.items.length,
-          message: `Found ${backupsResponse.items.length} database backups`
-        };
+        const backupsPage = await fetchPages(request => this.ociClient.databaseClient.listBackups(request), backupsRequest, input);
+        return toListResponse(backupsPage, 'database backups');
 
       default:
-        throw new Error(`Unsupported resource type: ${input.resourceType}`);
+        throw new OCIValidationError(`Unsupported resource type: ${input.resourceType}`);
     }
   }
 
-  private async getResource(input: DatabaseAnalyticsGetInputSchema['_type']): Promise<OCIResourceDetailResponse> {
+  private async getResource(input: z.infer<typeof DatabaseAnalyticsGetInputSchema>): Promise<OCIResourceDetailResponse> {
     switch (input.resourceType) {
       case 'db-system':
         const dbSystemResponse = await this.ociClient.databaseClient.getDbSystem({
@@ -303,16 +290,18 @@ export class DatabaseAnalyticsManager {
         };
 
       default:
-        throw new Error(`Unsupported resource type: ${input.resourceType}`);
+        throw new OCIValidationError(`Unsupported resource type: ${input.resourceType}`);
     }
   }
 
-  private async createResource(input: DatabaseAnalyticsCreateInputSchema['_type']): Promise<OCIOperationResponse> {
+  private async createResource(input: z.infer<typeof DatabaseAnalyticsCreateInputSchema>): Promise<OCIOperationResponse> {
     switch (input.resourceType) {
       case 'autonomous-database':
+        const createWait = planWait('autonomous-database', input);
         const adbData = input.data as any;
         const createAdbRequest = {
           createAutonomousDatabaseDetails: {
+            source: 'NONE',
             compartmentId: adbData.compartmentId,
             dbName: adbData.dbName,
             cpuCoreCount: adbData.cpuCoreCount,
@@ -331,25 +320,30 @@ export class DatabaseAnalyticsManager {
 
         const adbResult = await this.ociClient.databaseClient.createAutonomousDatabase(createAdbRequest);
         
-        return {
+        return completeOperation(this.ociClient, createWait, adbResult.autonomousDatabase.id, {
           success: true,
           data: adbResult.autonomousDatabase,
           message: `Autonomous database creation initiated: ${adbResult.autonomousDatabase.displayName}`,
-          operationId: adbResult.autonomousDatabase.id
-        };
+          operationId: adbResult.autonomousDatabase.id,
+          workRequestId: adbResult.opcWorkRequestId
+        });
 
       case 'database':
+        rejectWait('database creation', input);
         const dbData = input.data as any;
         const createDbRequest = {
-          createDatabaseDetails: {
-            dbName: dbData.dbName,
-            adminPassword: dbData.adminPassword,
-            dbVersion: dbData.dbVersion,
-            characterSet: dbData.characterSet || 'AL32UTF8',
-            ncharacterSet: dbData.ncharacterSet || 'AL16UTF16',
-            pdbName: dbData.pdbName
-          },
-          dbHomeId: dbData.dbSystemId // This should be dbHomeId in practice
+          createNewDatabaseDetails: {
+            source: 'NONE',
+            dbHomeId: dbData.dbSystemId, // This should be dbHomeId in practice
+            database: {
+              dbName: dbData.dbName,
+              adminPassword: dbData.adminPassword,
+              characterSet: dbData.characterSet || 'AL32UTF8',
+              ncharacterSet: dbData.ncharacterSet || 'AL16UTF16',
+              pdbName: dbData.pdbName
+            },
+            dbVersion: dbData.dbVersion
+          }
         };
 
         const dbResult = await this.ociClient.databaseClient.createDatabase(createDbRequest);
@@ -358,10 +352,12 @@ export class DatabaseAnalyticsManager {
           success: true,
           data: dbResult.database,
           message: `Database creation initiated: ${dbResult.database.dbName}`,
-          operationId: dbResult.database.id
+          operationId: dbResult.database.id,
+          workRequestId: dbResult.opcWorkRequestId
         };
 
       case 'backup':
+        rejectWait('backup creation', input);
         const backupData = input.data as any;
         const createBackupRequest = {
           createBackupDetails: {
@@ -377,47 +373,53 @@ export class DatabaseAnalyticsManager {
           success: true,
           data: backupResult.backup,
           message: `Database backup creation initiated: ${backupResult.backup.displayName}`,
-          operationId: backupResult.backup.id
+          operationId: backupResult.backup.id,
+          workRequestId: backupResult.opcWorkRequestId
         };
 
       default:
-        throw new Error(`Unsupported resource type: ${input.resourceType}`);
+        throw new OCIValidationError(`Unsupported resource type: ${input.resourceType}`);
     }
   }
 
-  private async manageResource(input: DatabaseAnalyticsManageInputSchema['_type']): Promise<OCIOperationResponse> {
+  private async manageResource(input: z.infer<typeof DatabaseAnalyticsManageInputSchema>): Promise<OCIOperationResponse> {
     switch (input.action) {
       case 'start-autonomous-db':
+        const startAdbWait = planWait('autonomous-database', input);
         const startAdbRequest = {
           autonomousDatabaseId: input.resourceId
         };
         
         const startAdbResult = await this.ociClient.databaseClient.startAutonomousDatabase(startAdbRequest);
         
-        return {
+        return completeOperation(this.ociClient, startAdbWait, input.resourceId, {
           success: true,
           data: startAdbResult.autonomousDatabase,
           message: `Autonomous database start initiated: ${input.resourceId}`,
-          operationId: input.resourceId
-        };
+          operationId: input.resourceId,
+          workRequestId: startAdbResult.opcWorkRequestId
+        });
 
       case 'stop-autonomous-db':
+        const stopAdbWait = planWait('autonomous-database', input);
         const stopAdbRequest = {
           autonomousDatabaseId: input.resourceId
         };
         
         const stopAdbResult = await this.ociClient.databaseClient.stopAutonomousDatabase(stopAdbRequest);
         
-        return {
+        return completeOperation(this.ociClient, stopAdbWait, input.resourceId, {
           success: true,
           data: stopAdbResult.autonomousDatabase,
           message: `Autonomous database stop initiated: ${input.resourceId}`,
-          operationId: input.resourceId
-        };
+          operationId: input.resourceId,
+          workRequestId: stopAdbResult.opcWorkRequestId
+        });
 
       case 'scale-autonomous-db':
+        const scaleAdbWait = planWait('autonomous-database', input);
         if (!input.cpuCoreCount && !input.dataStorageSizeInTBs) {
-          throw new Error('Either cpuCoreCount or dataStorageSizeInTBs is required for scaling');
+          throw new OCIValidationError('Either cpuCoreCount or dataStorageSizeInTBs is required for scaling');
         }
         
         const scaleAdbRequest = {
@@ -430,17 +432,20 @@ export class DatabaseAnalyticsManager {
 
         const scaleAdbResult = await this.ociClient.databaseClient.updateAutonomousDatabase(scaleAdbRequest);
         
-        return {
+        return completeOperation(this.ociClient, scaleAdbWait, input.resourceId, {
           success: true,
           data: scaleAdbResult.autonomousDatabase,
           message: `Autonomous database scaling initiated: ${input.resourceId}`,
-          operationId: input.resourceId
-        };
+          operationId: input.resourceId,
+          workRequestId: scaleAdbResult.opcWorkRequestId
+        });
 
       case 'clone-database':
         if (input.resourceType === 'autonomous-database') {
+          const cloneAdbWait = planWait('autonomous-database', input);
           const cloneAdbRequest = {
-            createAutonomousDatabaseCloneDetails: {
+            createAutonomousDatabaseDetails: {
+              source: 'DATABASE',
               sourceId: input.resourceId,
               cloneType: 'FULL',
               displayName: input.cloneName || `clone-${Date.now()}`,
@@ -448,32 +453,35 @@ export class DatabaseAnalyticsManager {
             }
           };
 
-          const cloneAdbResult = await this.ociClient.databaseClient.createAutonomousDatabaseClone(cloneAdbRequest);
+          const cloneAdbResult = await this.ociClient.databaseClient.createAutonomousDatabase(cloneAdbRequest);
           
-          return {
+          return completeOperation(this.ociClient, cloneAdbWait, cloneAdbResult.autonomousDatabase.id, {
             success: true,
             data: cloneAdbResult.autonomousDatabase,
             message: `Autonomous database clone initiated: ${cloneAdbResult.autonomousDatabase.displayName}`,
-            operationId: cloneAdbResult.autonomousDatabase.id
-          };
+            operationId: cloneAdbResult.autonomousDatabase.id,
+            workRequestId: cloneAdbResult.opcWorkRequestId
+          });
         }
-        throw new Error('Clone operation only supported for autonomous databases');
+        throw new OCIValidationError('Clone operation only supported for autonomous databases');
 
       case 'delete-backup':
+        rejectWait(input.action, input);
         const deleteBackupRequest = {
           backupId: input.resourceId
         };
 
-        await this.ociClient.databaseClient.deleteBackup(deleteBackupRequest);
+        const deleteBackupResult = await this.ociClient.databaseClient.deleteBackup(deleteBackupRequest);
         
         return {
           success: true,
           message: `Backup deletion initiated: ${input.resourceId}`,
-          operationId: input.resourceId
+          operationId: input.resourceId,
+          workRequestId: deleteBackupResult.opcWorkRequestId
         };
 
       default:
-        throw new Error(`Unsupported management action: ${input.action}`);
+        throw new OCIValidationError(`Unsupported management action: ${input.action}`);
     }
   }
 }
@@ -1,10 +1,17 @@
 import { z } from 'zod';
-import { getOCIClient } from '../utils/oci-client';
+import * as oci from 'oci-sdk';
+import { getOCIClient, OCIClientManager } from '../utils/oci-client.js';
+import { OCIValidationError, toErrorResponse } from '../utils/errors.js';
+import { withRetryCount } from '../utils/retry.js';
+import { fetchPages, toListResponse } from '../utils/pagination.js';
 import { 
   OCIResourceListResponse, 
   OCIResourceDetailResponse, 
-  OCIOperationResponse 
-} from '../types/oci';
+  OCIOperationResponse,
+  OCIErrorResponse,
+  OCIPaginationSchema,
+  OCITargetSchema
+} from '../types/oci.js';
 
 // Monitoring & Security Tool Input Schemas
 const MonitoringSecurityListInputSchema = z.object({
@@ -23,7 +30,7 @@ const MonitoringSecurityListInputSchema = z.object({
   endTime: z.string().optional(),            // For metric data
   limit: z.number().min(1).max(100).optional(),
   displayName: z.string().optional()
-});
+}).merge(OCIPaginationSchema).merge(OCITargetSchema);
 
 const MonitoringSecurityGetInputSchema = z.object({
   action: z.literal('get'),
@@ -35,7 +42,7 @@ const MonitoringSecurityGetInputSchema = z.object({
   resourceId: z.string().min(1, "Resource ID is required"),
   logGroupId: z.string().optional(),  // For log operations
   secretName: z.string().optional()   // For secret operations
-});
+}).merge(OCITargetSchema);
 
 const MonitoringSecurityCreateInputSchema = z.object({
   action: z.literal('create'),
@@ -100,7 +107,7 @@ const MonitoringSecurityCreateInputSchema = z.object({
       members: z.array(z.string()).optional()     // For groups
     })
   ])
-});
+}).merge(OCITargetSchema);
 
 const MonitoringSecurityManageInputSchema = z.object({
   action: z.enum([
@@ -131,7 +138,7 @@ const MonitoringSecurityManageInputSchema = z.object({
   query: z.string().optional(),
   severity: z.enum(['CRITICAL', 'ERROR', 'WARNING', 'INFO']).optional(),
   isEnabled: z.boolean().optional()
-});
+}).merge(OCITargetSchema);
 
 export const MonitoringSecurityToolInputSchema = z.union([
   MonitoringSecurityListInputSchema,
@@ -143,10 +150,23 @@ export const MonitoringSecurityToolInputSchema = z.union([
 export type MonitoringSecurityToolInput = z.infer<typeof MonitoringSecurityToolInputSchema>;
 
 export class MonitoringSecurityManager {
-  private ociClient = getOCIClient();
+  constructor(private ociClient: OCIClientManager = getOCIClient()) {}
 
-  async execute(input: MonitoringSecurityToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse> {
+  async execute(input: MonitoringSecurityToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse | OCIErrorResponse> {
+    // Responses report how many OCI requests were retried while serving the call
+    return withRetryCount(() => this.run(input));
+  }
+
+  private async run(input: MonitoringSecurityToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse | OCIErrorResponse> {
     try {
+      // Calls for another profile or region run on that target's clients
+      const target = this.ociClient.forTarget(input);
+      if (target !== this.ociClient) {
+        return await new MonitoringSecurityManager(target).execute(input);
+      }
+
+      await this.ociClient.ready();
+
       switch (input.action) {
         case 'list':
           return await this.listResources(input);
@@ -168,18 +188,14 @@ export class MonitoringSecurityManager {
         case 'detach-policy':
           return await this.manageResource(input);
         default:
-          throw new Error(`Unsupported action: ${(input as any).action}`);
+          throw new OCIValidationError(`Unsupported action: ${(input as any).action}`);
       }
     } catch (error) {
-      const errorMessage = this.ociClient.handleOCIError(error);
-      return {
-        success: false,
-        message: errorMessage
-      };
+      return toErrorResponse(error);
     }
   }
 
-  private async listResources(input: MonitoringSecurityListInputSchema['_type']): Promise<OCIResourceListResponse> {
+  private async listResources(input: z.infer<typeof MonitoringSecurityListInputSchema>): Promise<OCIResourceListResponse> {
     const compartmentId = input.compartmentId || this.ociClient.getDefaultCompartmentId();
     
     switch (input.resourceType) {
@@ -190,43 +206,38 @@ export class MonitoringSecurityManager {
           displayName: input.displayName
         };
         
-        const alarmsResponse = await this.ociClient.monitoringClient.listAlarms(alarmsRequest);
-        return {
-          success: true,
-          data: alarmsResponse.items,
-          count: alarmsResponse.items.length,
-          message: `Found ${alarmsResponse.items.length} alarms`
-        };
+        const alarmsPage = await fetchPages(request => this.ociClient.monitoringClient.listAlarms(request), alarmsRequest, input);
+        return toListResponse(alarmsPage, 'alarms');
 
       case 'metrics':
         if (!input.metricNamespace) {
-          throw new Error('Metric namespace is required for listing metrics');
+          throw new OCIValidationError('Metric namespace is required for listing metrics', 'metricNamespace');
         }
         
         const metricsRequest = {
           compartmentId,
-          namespace: input.metricNamespace,
+          listMetricsDetails: {
+            namespace: input.metricNamespace
+          },
           limit: input.limit || 50
         };
         
-        const metricsResponse = await this.ociClient.monitoringClient.listMetrics(metricsRequest);
-        return {
-          success: true,
-          data: metricsResponse.items,
-          count: metricsResponse.items.length,
-          message: `Found ${metricsResponse.items.length} metrics in namespace ${input.metricNamespace}`
-        };
+        const metricsPage = await fetchPages(request => this.ociClient.monitoringClient.listMetrics(request), metricsRequest, input);
+        return toListResponse(metricsPage, `metrics in namespace ${input.metricNamespace}`);
 
       case 'metric-data':
         if (!input.metricNamespace || !input.startTime || !input.endTime) {
-          throw new Error('Metric namespace, start time, and end time are required for metric data');
+          throw new OCIValidationError('Metric namespace, start time, and end time are required for metric data');
         }
         
         const metricDataRequest = {
           compartmentId,
-          query: `${input.metricNamespace}[]`,
-          startTime: new Date(input.startTime),
-          endTime: new Date(input.endTime)
+          summarizeMetricsDataDetails: {
+            namespace: input.metricNamespace,
+            query: `${input.metricNamespace}[]`,
+            startTime: new Date(input.startTime),
+            endTime: new Date(input.endTime)
+          }
         };
         
         const metricDataResponse = await this.ociClient.monitoringClient.summarizeMetricsData(metricDataRequest);
@@ -244,13 +255,8 @@ export class MonitoringSecurityManager {
           displayName: input.displayName
         };
         
-        const logGroupsResponse = await this.ociClient.loggingClient.listLogGroups(logGroupsRequest);
-        return {
-          success: true,
-          data: logGroupsResponse.items,
-          count: logGroupsResponse.items.length,
-          message: `Found ${logGroupsResponse.items.length} log groups`
-        };
+        const logGroupsPage = await fetchPages(request => this.ociClient.loggingClient.listLogGroups(request), logGroupsRequest, input);
+        return toListResponse(logGroupsPage, 'log groups');
 
       case 'network-security-groups':
         const nsgRequest = {
@@ -260,13 +266,8 @@ export class MonitoringSecurityManager {
           displayName: input.displayName
         };
         
-        const nsgResponse = await this.ociClient.virtualNetworkClient.listNetworkSecurityGroups(nsgRequest);
-        return {
-          success: true,
-          data: nsgResponse.items,
-          count: nsgResponse.items.length,
-          message: `Found ${nsgResponse.items.length} network security groups`
-        };
+        const nsgPage = await fetchPages(request => this.ociClient.virtualNetworkClient.listNetworkSecurityGroups(request), nsgRequest, input);
+        return toListResponse(nsgPage, 'network security groups');
 
       case 'security-lists':
         const securityListsRequest = {
@@ -276,13 +277,8 @@ export class MonitoringSecurityManager {
           displayName: input.displayName
         };
         
-        const securityListsResponse = await this.ociClient.virtualNetworkClient.listSecurityLists(securityListsRequest);
-        return {
-          success: true,
-          data: securityListsResponse.items,
-          count: securityListsResponse.items.length,
-          message: `Found ${securityListsResponse.items.length} security lists`
-        };
+        const securityListsPage = await fetchPages(request => this.ociClient.virtualNetworkClient.listSecurityLists(request), securityListsRequest, input);
+        return toListResponse(securityListsPage, 'security lists');
 
       case 'users':
         const usersRequest = {
@@ -290,13 +286,8 @@ export class MonitoringSecurityManager {
           limit: input.limit || 50
         };
         
-        const usersResponse = await this.ociClient.identityClient.listUsers(usersRequest);
-        return {
-          success: true,
-          data: usersResponse.items,
-          count: usersResponse.items.length,
-          message: `Found ${usersResponse.items.length} users`
-        };
+        const usersPage = await fetchPages(request => this.ociClient.identityClient.listUsers(request), usersRequest, input);
+        return toListResponse(usersPage, 'users');
 
       case 'groups':
         const groupsRequest = {
@@ -304,13 +295,8 @@ export class MonitoringSecurityManager {
           limit: input.limit || 50
         };
         
-        const groupsResponse = await this.ociClient.identityClient.listGroups(groupsRequest);
-        return {
-          success: true,
-          data: groupsResponse.items,
-          count: groupsResponse.items.length,
-          message: `Found ${groupsResponse.items.length} groups`
-        };
+        const groupsPage = await fetchPages(request => this.ociClient.identityClient.listGroups(request), groupsRequest, input);
+        return toListResponse(groupsPage, 'groups');
 
       case 'policies':
         const policiesRequest = {
@@ -318,20 +304,15 @@ export class MonitoringSecurityManager {
           limit: input.limit || 50
         };
         
-        const policiesResponse = await this.ociClient.identityClient.listPolicies(policiesRequest);
-        return {
-          success: true,
-          data: policiesResponse.items,
-          count: policiesResponse.items.length,
-          message: `Found ${policiesResponse.items.length} policies`
-        };
+        const policiesPage = await fetchPages(request => this.ociClient.identityClient.listPolicies(request), policiesRequest, input);
+        return toListResponse(policiesPage, 'policies');
 
       default:
-        throw new Error(`Unsupported resource type: ${input.resourceType}`);
+        throw new OCIValidationError(`Unsupported resource type: ${input.resourceType}`);
     }
   }
 
-  private async getResource(input: MonitoringSecurityGetInputSchema['_type']): Promise<OCIResourceDetailResponse> {
+  private async getResource(input: z.infer<typeof MonitoringSecurityGetInputSchema>): Promise<OCIResourceDetailResponse> {
     switch (input.resourceType) {
       case 'alarm':
         const alarmResponse = await this.ociClient.monitoringClient.getAlarm({
@@ -411,11 +392,11 @@ export class MonitoringSecurityManager {
         };
 
       default:
-        throw new Error(`Unsupported resource type: ${input.resourceType}`);
+        throw new OCIValidationError(`Unsupported resource type: ${input.resourceType}`);
     }
   }
 
-  private async createResource(input: MonitoringSecurityCreateInputSchema['_type']): Promise<OCIOperationResponse> {
+  private async createResource(input: z.infer<typeof MonitoringSecurityCreateInputSchema>): Promise<OCIOperationResponse> {
     switch (input.resourceType) {
       case 'alarm':
         const alarmData = input.data as any;
@@ -454,12 +435,19 @@ export class MonitoringSecurityManager {
         };
 
         const logGroupResult = await this.ociClient.loggingClient.createLogGroup(createLogGroupRequest);
+        // The response carries only a work request; log group names are unique within a compartment
+        const createdLogGroups = await this.ociClient.loggingClient.listLogGroups({
+          compartmentId: logGroupData.compartmentId,
+          displayName: logGroupData.displayName
+        });
+        const logGroup = createdLogGroups.items[0];
         
         return {
           success: true,
-          data: logGroupResult.logGroup,
-          message: `Log group created successfully: ${logGroupResult.logGroup.displayName}`,
-          operationId: logGroupResult.logGroup.id
+          data: logGroup,
+          message: `Log group creation initiated: ${logGroupData.displayName}`,
+          operationId: logGroup?.id ?? logGroupResult.opcWorkRequestId,
+          workRequestId: logGroupResult.opcWorkRequestId
         };
 
       case 'network-security-group':
@@ -553,11 +541,11 @@ export class MonitoringSecurityManager {
         };
 
       default:
-        throw new Error(`Unsupported resource type: ${input.resourceType}`);
+        throw new OCIValidationError(`Unsupported resource type: ${input.resourceType}`);
     }
   }
 
-  private async manageResource(input: MonitoringSecurityManageInputSchema['_type']): Promise<OCIOperationResponse> {
+  private async manageResource(input: z.infer<typeof MonitoringSecurityManageInputSchema>): Promise<OCIOperationResponse> {
     switch (input.action) {
       case 'enable-alarm':
         const enableAlarmRequest = {
@@ -627,13 +615,13 @@ export class MonitoringSecurityManager {
 
       case 'add-security-rule':
         if (!input.securityRule) {
-          throw new Error('Security rule is required for adding security rule');
+          throw new OCIValidationError('Security rule is required for adding security rule', 'securityRule');
         }
 
         const addRuleRequest = {
           networkSecurityGroupId: input.resourceId,
           addNetworkSecurityGroupSecurityRulesDetails: {
-            securityRules: [input.securityRule]
+            securityRules: [input.securityRule as oci.core.models.AddSecurityRuleDetails]
           }
         };
 
@@ -647,7 +635,7 @@ export class MonitoringSecurityManager {
 
       case 'add-user-to-group':
         if (!input.userId || !input.groupId) {
-          throw new Error('Both userId and groupId are required for adding user to group');
+          throw new OCIValidationError('Both userId and groupId are required for adding user to group');
         }
 
         const addUserRequest = {
@@ -680,7 +668,7 @@ export class MonitoringSecurityManager {
         };
 
       default:
-        throw new Error(`Unsupported management action: ${input.action}`);
+        throw new OCIValidationError(`Unsupported management action: ${input.action}`);
     }
   }
 }
@@ -1,81 +1,193 @@
+import * as oci from 'oci-sdk';
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, existsSync } from 'fs';
+import { mkdir, rename, rm, stat, utimes } from 'fs/promises';
+import { dirname, extname } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ReadableStream } from 'stream/web';
 import { z } from 'zod';
-import { getOCIClient } from '../utils/oci-client';
+import { getOCIClient, OCIClientManager } from '../utils/oci-client.js';
+import { OCISyncError, OCIValidationError, toErrorResponse } from '../utils/errors.js';
+import { withRetryCount } from '../utils/retry.js';
+import { fetchPages, toListResponse } from '../utils/pagination.js';
+import { completeOperation, DEFAULT_WAIT_TIMEOUT_SECONDS, planWait, rejectWait, waitForObjectStorageWorkRequest } from '../utils/waiters.js';
+import { expandHome } from '../utils/oci-config-file.js';
+import {
+  DEFAULT_CONCURRENCY,
+  MAX_CONCURRENCY,
+  MAX_PART_SIZE_MIB,
+  MIN_PART_SIZE_MIB,
+  MULTIPART_THRESHOLD_BYTES,
+  uploadMultipart
+} from '../utils/multipart-upload.js';
+import { normalizeSyncPrefix, planSync, SyncPlan, SyncTransfer } from '../utils/object-sync.js';
 import { 
   OCIResourceListResponse, 
   OCIResourceDetailResponse, 
   OCIOperationResponse,
-  CreateBucketRequestSchema 
-} from '../types/oci';
+  OCIErrorResponse,
+  CreateBucketRequestSchema,
+  HostnameLabelSchema,
+  refineCreateData,
+  OCIPaginationSchema,
+  OCITargetSchema,
+  OCIWaitSchema
+} from '../types/oci.js';
+
+// OCI allows 31 secondary private IPs per VNIC
+const MAX_SECONDARY_PRIVATE_IPS = 31;
+
+// Largest download returned inline unless maxBytes says otherwise; bigger reads go to a file or a range
+const MAX_INLINE_DOWNLOAD_BYTES = 1024 * 1024;
+
+// Expiry given to pre-authenticated requests created with allowNoExpiry (OCI requires one)
+const NO_EXPIRY = new Date('9999-12-31T00:00:00Z');
+
+// Content types for uploads from a file when none is given
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.txt': 'text/plain; charset=utf-8',
+  '.log': 'text/plain; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8',
+  '.csv': 'text/csv; charset=utf-8',
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'application/javascript',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.sh': 'application/x-sh',
+  '.sql': 'application/sql',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tar': 'application/x-tar'
+};
 
 // Storage & Network Tool Input Schemas
 const StorageNetworkListInputSchema = z.object({
   action: z.literal('list'),
   resourceType: z.enum([
     'buckets', 'objects', 'vcns', 'subnets', 'security-lists', 
-    'route-tables', 'internet-gateways', 'nat-gateways', 'load-balancers'
+    'route-tables', 'internet-gateways', 'nat-gateways', 'load-balancers',
+    'private-ips', 'public-ips', 'multipart-uploads', 'preauthenticated-requests',
+    'object-versions', 'retention-rules'
   ]),
   compartmentId: z.string().optional(),
   namespaceName: z.string().optional(), // For object storage
-  bucketName: z.string().optional(),     // For listing objects
+  bucketName: z.string().optional(),     // For listing objects and multipart uploads
+  objectName: z.string().optional(),     // For multipart-uploads and object-versions: only this object's
+  prefix: z.string().optional(),         // For preauthenticated-requests and object-versions: only object names starting with this
+  olderThanHours: z.number().min(0).optional(),  // For multipart-uploads: only uploads started at least this long ago
   vcnId: z.string().optional(),          // For network resources
+  vnicId: z.string().optional(),         // For private-ips: one of vnicId, subnetId or ipAddress is required
+  subnetId: z.string().optional(),
+  ipAddress: z.string().optional(),
+  lifetime: z.enum(['RESERVED', 'EPHEMERAL']).optional(),  // For public-ips
+  availabilityDomain: z.string().optional(),               // For public-ips: ephemeral IPs of instances are listed per availability domain
   limit: z.number().min(1).max(100).optional(),
   displayName: z.string().optional()
-});
+}).merge(OCIPaginationSchema).merge(OCITargetSchema);
 
 const StorageNetworkGetInputSchema = z.object({
   action: z.literal('get'),
   resourceType: z.enum([
     'bucket', 'object', 'vcn', 'subnet', 'security-list', 
-    'route-table', 'internet-gateway', 'nat-gateway', 'load-balancer'
+    'route-table', 'internet-gateway', 'nat-gateway', 'load-balancer',
+    'vnic', 'private-ip', 'public-ip', 'preauthenticated-request', 'lifecycle-policy', 'retention-rule'
   ]),
-  resourceId: z.string().min(1, "Resource ID is required"),
+  resourceId: z.string().min(1, "Resource ID is required"),  // For public-ip, the OCID or the address; for preauthenticated-request, the PAR ID; for lifecycle-policy, the bucket name
   namespaceName: z.string().optional(), // For object storage
   bucketName: z.string().optional(),     // For object operations
-  objectName: z.string().optional()      // For object operations
+  objectName: z.string().optional(),     // For object operations
+  versionId: z.string().optional()       // For object: a previous version
+}).merge(OCITargetSchema);
+
+const VcnCreateSchema = z.object({
+  compartmentId: z.string().min(1, "Compartment ID is required"),
+  cidrBlock: z.string().min(1, "CIDR block is required"),
+  displayName: z.string().optional(),
+  dnsLabel: z.string().optional()
+});
+
+const SubnetCreateSchema = z.object({
+  compartmentId: z.string().min(1, "Compartment ID is required"),
+  vcnId: z.string().min(1, "VCN ID is required"),
+  cidrBlock: z.string().min(1, "CIDR block is required"),
+  availabilityDomain: z.string().optional(),
+  displayName: z.string().optional(),
+  routeTableId: z.string().optional(),
+  securityListIds: z.array(z.string()).optional(),
+  prohibitPublicIpOnVnic: z.boolean().optional()
+});
+
+// Gateways and the other resources that belong to a VCN
+const GatewayCreateSchema = z.object({
+  compartmentId: z.string().min(1, "Compartment ID is required"),
+  vcnId: z.string().min(1, "VCN ID is required"),
+  displayName: z.string().optional(),
+  isEnabled: z.boolean().optional()
 });
 
+const PublicIpCreateSchema = z.object({
+  compartmentId: z.string().min(1, "Compartment ID is required"),
+  displayName: z.string().optional(),
+  privateIpId: z.string().optional(),     // Assign it right away
+  publicIpPoolId: z.string().optional()   // Take the address from a BYOIP pool
+});
+
+// `data` of each resource type that can be created
+const CREATE_DATA_SCHEMAS = {
+  'bucket': CreateBucketRequestSchema,
+  'vcn': VcnCreateSchema,
+  'subnet': SubnetCreateSchema,
+  'security-list': GatewayCreateSchema,
+  'route-table': GatewayCreateSchema,
+  'internet-gateway': GatewayCreateSchema,
+  'nat-gateway': GatewayCreateSchema,
+  'public-ip': PublicIpCreateSchema
+};
+
 const StorageNetworkCreateInputSchema = z.object({
   action: z.literal('create'),
-  resourceType: z.enum(['bucket', 'vcn', 'subnet', 'security-list', 'route-table', 'internet-gateway', 'nat-gateway']),
-  data: z.union([
-    CreateBucketRequestSchema,
-    z.object({
-      // VCN creation
-      compartmentId: z.string().min(1),
-      cidrBlock: z.string().min(1),
-      displayName: z.string().optional(),
-      dnsLabel: z.string().optional()
-    }),
-    z.object({
-      // Subnet creation
-      compartmentId: z.string().min(1),
-      vcnId: z.string().min(1),
-      cidrBlock: z.string().min(1),
-      availabilityDomain: z.string().optional(),
-      displayName: z.string().optional(),
-      routeTableId: z.string().optional(),
-      securityListIds: z.array(z.string()).optional(),
-      prohibitPublicIpOnVnic: z.boolean().optional()
-    }),
-    z.object({
-      // Gateway creation
-      compartmentId: z.string().min(1),
-      vcnId: z.string().min(1),
-      displayName: z.string().optional(),
-      isEnabled: z.boolean().optional()
-    })
-  ])
-});
+  resourceType: z.enum(['bucket', 'vcn', 'subnet', 'security-list', 'route-table', 'internet-gateway', 'nat-gateway', 'public-ip']),
+  data: z.record(z.any())
+}).merge(OCIWaitSchema).merge(OCITargetSchema)
+  .superRefine(refineCreateData(input => CREATE_DATA_SCHEMAS[input.resourceType]));
 
 const StorageNetworkManageInputSchema = z.object({
-  action: z.enum(['upload-object', 'download-object', 'delete-object', 'delete-bucket', 'delete-vcn', 'update-security-list']),
-  resourceType: z.enum(['object', 'bucket', 'vcn', 'security-list']),
+  action: z.enum([
+    'upload-object', 'download-object', 'delete-object', 'abort-multipart-upload', 'restore-object-version', 'restore-archived-object',
+    'delete-bucket', 'delete-vcn', 'update-security-list'
+  ]),
+  resourceType: z.enum(['object', 'multipart-upload', 'bucket', 'vcn', 'security-list']),
   resourceId: z.string().optional(),
   namespaceName: z.string().optional(),
   bucketName: z.string().optional(),
   objectName: z.string().optional(),
-  objectContent: z.string().optional(),      // For object upload
+  objectContent: z.string().optional(),      // For object upload: text, or base64 with encoding base64
+  localPath: z.string().optional(),          // For object upload, the file to read; for download, the file to write
+  overwrite: z.boolean().optional(),         // For object download to localPath: replace an existing file
+  encoding: z.enum(['auto', 'text', 'base64']).optional(),  // Of objectContent and downloaded content; auto picks by content type
   contentType: z.string().optional(),        // For object upload
+  storageTier: z.enum(['Standard', 'InfrequentAccess', 'Archive']).optional(),  // For object upload; defaults to the bucket's tier
+  versionId: z.string().optional(),          // For download, delete (removes that version for good) and restore-object-version
+  hours: z.number().int().min(1).max(240).optional(),  // For restore-archived-object: how long the object stays readable (default 24)
+  rangeStart: z.number().int().min(0).optional(),  // For object download: first byte to read
+  rangeEnd: z.number().int().min(0).optional(),    // For object download: last byte to read, inclusive
+  maxBytes: z.number().int().min(1).optional(),    // For object download: refuse larger reads (default 1 MiB inline, no limit to localPath)
+  multipart: z.boolean().optional(),         // For upload from localPath: force or avoid a multipart upload (default: files over 128 MiB)
+  partSizeMiB: z.number().int().min(MIN_PART_SIZE_MIB).max(MAX_PART_SIZE_MIB).optional(),  // For multipart upload
+  concurrency: z.number().int().min(1).max(MAX_CONCURRENCY).optional(),                   // For multipart upload: parts in flight
+  uploadId: z.string().optional(),           // Multipart upload to resume, or to abort
+  keepOnFailure: z.boolean().optional(),     // For multipart upload: keep the uploaded parts for resuming when it fails (default when resuming)
+  olderThanHours: z.number().min(0).optional(),  // For abort-multipart-upload without uploadId: abort the bucket's uploads started this long ago
   securityRules: z.array(z.object({          // For security list updates
     direction: z.enum(['ingress', 'egress']),
     protocol: z.string(),
@@ -83,22 +195,117 @@ const StorageNetworkManageInputSchema = z.object({
     destination: z.string().optional(),
     isStateless: z.boolean().optional()
   })).optional()
+}).merge(OCITargetSchema);
+
+// Secondary private IPs and reserved public IPs
+const NetworkIpInputSchema = z.object({
+  action: z.enum(['add-private-ip', 'move-private-ip', 'delete-private-ip', 'assign-public-ip', 'unassign-public-ip', 'delete-public-ip']),
+  resourceType: z.enum(['vnic', 'private-ip', 'public-ip']),
+  resourceId: z.string().optional(),
+  vnicId: z.string().optional(),        // For add-private-ip (or resourceType vnic) and move-private-ip: the VNIC to put it on
+  privateIpId: z.string().optional(),   // For assign-public-ip (or vnicId for the VNIC's primary private IP)
+  ipAddress: z.string().optional(),     // For add-private-ip: a free address in the VNIC's subnet
+  hostnameLabel: HostnameLabelSchema.optional(),
+  displayName: z.string().optional()
+}).merge(OCIWaitSchema).merge(OCITargetSchema);
+
+// Pre-authenticated requests: the scope follows from objectName (one object), prefix or neither (the whole bucket)
+const PreauthenticatedRequestInputSchema = z.object({
+  action: z.enum(['create-par', 'delete-par']),
+  resourceType: z.literal('preauthenticated-request'),
+  resourceId: z.string().optional(),     // For delete-par: the PAR ID
+  namespaceName: z.string().optional(),
+  bucketName: z.string().min(1, "Bucket name is required"),
+  name: z.string().optional(),           // Defaults to one naming the scope and access
+  objectName: z.string().optional(),
+  prefix: z.string().optional(),
+  access: z.enum(['read', 'write', 'read-write']).default('read'),
+  allowListing: z.boolean().optional(),  // For read access to a bucket or prefix: let the PAR list the objects
+  expiresInHours: z.number().positive().optional(),
+  timeExpires: z.string().datetime({ offset: true }).optional(),
+  allowNoExpiry: z.boolean().optional()  // Create a PAR that never expires when no expiry is given
+}).merge(OCITargetSchema);
+
+const LifecycleRuleSchema = z.object({
+  name: z.string().min(1, "Rule name is required"),
+  action: z.enum(['ARCHIVE', 'INFREQUENT_ACCESS', 'DELETE', 'ABORT']),  // ABORT applies to multipart uploads
+  timeAmount: z.number().int().min(1),
+  timeUnit: z.enum(['DAYS', 'YEARS']).default('DAYS'),
+  target: z.enum(['objects', 'previous-object-versions', 'multipart-uploads']).default('objects'),
+  prefixes: z.array(z.string()).optional(),
+  inclusionPatterns: z.array(z.string()).optional(),  // Glob patterns such as *.log
+  exclusionPatterns: z.array(z.string()).optional(),
+  isEnabled: z.boolean().default(true)
 });
 
+// Bucket compliance controls: lifecycle policy, retention rules and versioning
+const BucketControlInputSchema = z.object({
+  action: z.enum([
+    'put-lifecycle-policy', 'delete-lifecycle-policy', 'create-retention-rule', 'update-retention-rule', 'delete-retention-rule', 'set-versioning'
+  ]),
+  resourceType: z.enum(['bucket', 'lifecycle-policy', 'retention-rule']),
+  resourceId: z.string().optional(),     // For retention rules, the rule ID
+  namespaceName: z.string().optional(),
+  bucketName: z.string().min(1, "Bucket name is required"),
+  rules: z.array(LifecycleRuleSchema).optional(),  // For put-lifecycle-policy: the whole policy, replacing the current one
+  displayName: z.string().optional(),
+  timeAmount: z.number().int().min(1).optional(),  // Retention duration; omit with indefinite for a rule without end
+  timeUnit: z.enum(['DAYS', 'YEARS']).optional(),
+  indefinite: z.boolean().optional(),
+  timeRuleLocked: z.string().datetime({ offset: true }).optional(),  // Lock the rule from this time on; at least 14 days ahead, and irreversible
+  versioning: z.enum(['Enabled', 'Suspended']).optional()            // For set-versioning
+}).merge(OCITargetSchema);
+
+// rsync-style sync between a local directory and the objects below a prefix
+const ObjectSyncInputSchema = z.object({
+  action: z.literal('sync'),
+  resourceType: z.literal('objects'),
+  namespaceName: z.string().optional(),
+  bucketName: z.string().min(1, "Bucket name is required"),
+  prefix: z.string().optional(),         // Objects below this "directory"; / is appended when missing
+  localPath: z.string().min(1, "Local directory is required"),
+  direction: z.enum(['upload', 'download']).default('upload'),  // upload: directory to bucket; download: bucket to directory
+  delete: z.boolean().optional(),        // Delete what the destination has and the source does not
+  dryRun: z.boolean().default(true),     // Only return the plan; pass false to apply it
+  concurrency: z.number().int().min(1).max(MAX_CONCURRENCY).optional()  // Transfers in flight
+}).merge(OCITargetSchema);
+
 export const StorageNetworkToolInputSchema = z.union([
   StorageNetworkListInputSchema,
   StorageNetworkGetInputSchema,
   StorageNetworkCreateInputSchema,
-  StorageNetworkManageInputSchema
+  StorageNetworkManageInputSchema,
+  NetworkIpInputSchema,
+  PreauthenticatedRequestInputSchema,
+  BucketControlInputSchema,
+  ObjectSyncInputSchema
 ]);
 
 export type StorageNetworkToolInput = z.infer<typeof StorageNetworkToolInputSchema>;
 
+type NetworkIpInput = z.infer<typeof NetworkIpInputSchema>;
+type PreauthenticatedRequestInput = z.infer<typeof PreauthenticatedRequestInputSchema>;
+type BucketControlInput = z.infer<typeof BucketControlInputSchema>;
+type ObjectSyncInput = z.infer<typeof ObjectSyncInputSchema>;
+
 export class StorageNetworkManager {
-  private ociClient = getOCIClient();
+  constructor(private ociClient: OCIClientManager = getOCIClient()) {}
 
-  async execute(input: StorageNetworkToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse> {
+  async execute(input: StorageNetworkToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse | OCIErrorResponse> {
+    // Responses report how many OCI requests were retried while serving the call
+    return withRetryCount(() => this.run(input));
+  }
+
+  private async run(input: StorageNetworkToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIOperationResponse | OCIErrorResponse> {
     try {
+      // Calls for another profile or region run on that target's clients
+      const target = this.ociClient.forTarget(input);
+      if (target !== this.ociClient) {
+        return await new StorageNetworkManager(target).execute(input);
+      }
+
+      await this.ociClient.ready();
+
       switch (input.action) {
         case 'list':
           return await this.listResources(input);
@@ -109,62 +316,152 @@ export class StorageNetworkManager {
         case 'upload-object':
         case 'download-object':
         case 'delete-object':
+        case 'abort-multipart-upload':
+        case 'restore-object-version':
+        case 'restore-archived-object':
           return await this.manageObject(input);
         case 'delete-bucket':
         case 'delete-vcn':
         case 'update-security-list':
           return await this.manageResource(input);
+        case 'add-private-ip':
+        case 'move-private-ip':
+        case 'delete-private-ip':
+          return await this.managePrivateIp(input);
+        case 'assign-public-ip':
+        case 'unassign-public-ip':
+        case 'delete-public-ip':
+          return await this.managePublicIp(input);
+        case 'create-par':
+        case 'delete-par':
+          return await this.managePreauthenticatedRequest(input);
+        case 'put-lifecycle-policy':
+        case 'delete-lifecycle-policy':
+          return await this.manageLifecyclePolicy(input);
+        case 'create-retention-rule':
+        case 'update-retention-rule':
+        case 'delete-retention-rule':
+          return await this.manageRetentionRule(input);
+        case 'set-versioning':
+          return await this.setVersioning(input);
+        case 'sync':
+          return await this.syncObjects(input);
         default:
-          throw new Error(`Unsupported action: ${(input as any).action}`);
+          throw new OCIValidationError(`Unsupported action: ${(input as any).action}`);
       }
     } catch (error) {
-      const errorMessage = this.ociClient.handleOCIError(error);
-      return {
-        success: false,
-        message: errorMessage
-      };
+      return toErrorResponse(error);
     }
   }
 
-  private async listResources(input: StorageNetworkListInputSchema['_type']): Promise<OCIResourceListResponse> {
+  private async listResources(input: z.infer<typeof StorageNetworkListInputSchema>): Promise<OCIResourceListResponse> {
     const compartmentId = input.compartmentId || this.ociClient.getDefaultCompartmentId();
     
     switch (input.resourceType) {
       case 'buckets':
-        const namespaceName = input.namespaceName || await this.getNamespace();
+        const namespaceName = input.namespaceName || await this.ociClient.getNamespace();
         const bucketsRequest = {
           namespaceName,
           compartmentId,
           limit: input.limit || 50
         };
         
-        const bucketsResponse = await this.ociClient.objectStorageClient.listBuckets(bucketsRequest);
-        return {
-          success: true,
-          data: bucketsResponse.items,
-          count: bucketsResponse.items.length,
-          message: `Found ${bucketsResponse.items.length} buckets`
-        };
+        const bucketsPage = await fetchPages(request => this.ociClient.objectStorageClient.listBuckets(request), bucketsRequest, input);
+        return toListResponse(bucketsPage, 'buckets');
 
       case 'objects':
         if (!input.bucketName) {
-          throw new Error('Bucket name is required for listing objects');
+          throw new OCIValidationError('Bucket name is required for listing objects', 'bucketName');
         }
         
-        const objectsNamespace = input.namespaceName || await this.getNamespace();
+        const objectsNamespace = input.namespaceName || await this.ociClient.getNamespace();
         const objectsRequest = {
           namespaceName: objectsNamespace,
           bucketName: input.bucketName,
           limit: input.limit || 50
         };
         
-        const objectsResponse = await this.ociClient.objectStorageClient.listObjects(objectsRequest);
-        return {
-          success: true,
-          data: objectsResponse.listObjects.objects || [],
-          count: objectsResponse.listObjects.objects?.length || 0,
-          message: `Found ${objectsResponse.listObjects.objects?.length || 0} objects in bucket ${input.bucketName}`
+        // Object Storage pages by object name: the cursor is `start` / `nextStartWith`
+        const objectsPage = await fetchPages(async ({ page, ...request }) => {
+          const response = await this.ociClient.objectStorageClient.listObjects({ ...request, start: page });
+          return { items: response.listObjects.objects || [], opcNextPage: response.listObjects.nextStartWith };
+        }, objectsRequest, input);
+        return toListResponse(objectsPage, `objects in bucket ${input.bucketName}`);
+
+      case 'multipart-uploads':
+        if (!input.bucketName) {
+          throw new OCIValidationError('Bucket name is required for listing multipart uploads', 'bucketName');
+        }
+
+        const uploadsRequest = {
+          namespaceName: input.namespaceName || await this.ociClient.getNamespace(),
+          bucketName: input.bucketName,
+          limit: input.limit || 50
         };
+        const uploadsPage = await fetchPages(request => this.ociClient.objectStorageClient.listMultipartUploads(request), uploadsRequest, input);
+        const startedBefore = input.olderThanHours !== undefined ? Date.now() - input.olderThanHours * 3600 * 1000 : undefined;
+        uploadsPage.items = uploadsPage.items.filter(upload =>
+          (!input.objectName || upload.object === input.objectName)
+          && (startedBefore === undefined || new Date(upload.timeCreated).getTime() <= startedBefore)
+        );
+        return toListResponse(uploadsPage, `multipart uploads in bucket ${input.bucketName}`);
+
+      case 'preauthenticated-requests':
+        if (!input.bucketName) {
+          throw new OCIValidationError('Bucket name is required for listing pre-authenticated requests', 'bucketName');
+        }
+
+        const parsRequest = {
+          namespaceName: input.namespaceName || await this.ociClient.getNamespace(),
+          bucketName: input.bucketName,
+          objectNamePrefix: input.prefix,
+          limit: input.limit || 50
+        };
+        const parsPage = await fetchPages(request => this.ociClient.objectStorageClient.listPreauthenticatedRequests(request), parsRequest, input);
+        return toListResponse(
+          { ...parsPage, items: parsPage.items.map(withParScope) },
+          `pre-authenticated requests for bucket ${input.bucketName}`
+        );
+
+      case 'object-versions':
+        if (!input.bucketName) {
+          throw new OCIValidationError('Bucket name is required for listing object versions', 'bucketName');
+        }
+
+        const versionsRequest = {
+          namespaceName: input.namespaceName || await this.ociClient.getNamespace(),
+          bucketName: input.bucketName,
+          prefix: input.objectName ?? input.prefix,
+          fields: 'name,size,etag,md5,timeCreated,timeModified,storageTier,archivalState',
+          limit: input.limit || 50
+        };
+        const versionsPage = await fetchPages(async request => {
+          const response = await this.ociClient.objectStorageClient.listObjectVersions(request);
+          return { items: response.objectVersionCollection.items, opcNextPage: response.opcNextPage };
+        }, versionsRequest, input);
+        if (input.objectName) {
+          // The prefix also matches longer names
+          versionsPage.items = versionsPage.items.filter(version => version.name === input.objectName);
+        }
+        return toListResponse(versionsPage, input.objectName ? `versions of ${input.objectName}` : `object versions in bucket ${input.bucketName}`);
+
+      case 'retention-rules':
+        if (!input.bucketName) {
+          throw new OCIValidationError('Bucket name is required for listing retention rules', 'bucketName');
+        }
+
+        const rulesRequest = {
+          namespaceName: input.namespaceName || await this.ociClient.getNamespace(),
+          bucketName: input.bucketName
+        };
+        const rulesPage = await fetchPages(async request => {
+          const response = await this.ociClient.objectStorageClient.listRetentionRules(request);
+          return { items: response.retentionRuleCollection.items, opcNextPage: response.opcNextPage };
+        }, rulesRequest, input);
+        return toListResponse(
+          { ...rulesPage, items: rulesPage.items.map(withLockState) },
+          `retention rules of bucket ${input.bucketName}`
+        );
 
       case 'vcns':
         const vcnsRequest = {
@@ -173,13 +470,8 @@ export class StorageNetworkManager {
           displayName: input.displayName
         };
         
-        const vcnsResponse = await this.ociClient.virtualNetworkClient.listVcns(vcnsRequest);
-        return {
-          success: true,
-          data: vcnsResponse.items,
-          count: vcnsResponse.items.length,
-          message: `Found ${vcnsResponse.items.length} VCNs`
-        };
+        const vcnsPage = await fetchPages(request => this.ociClient.virtualNetworkClient.listVcns(request), vcnsRequest, input);
+        return toListResponse(vcnsPage, 'VCNs');
 
       case 'subnets':
         const subnetsRequest = {
@@ -189,13 +481,8 @@ export class StorageNetworkManager {
           displayName: input.displayName
         };
         
-        const subnetsResponse = await this.ociClient.virtualNetworkClient.listSubnets(subnetsRequest);
-        return {
-          success: true,
-          data: subnetsResponse.items,
-          count: subnetsResponse.items.length,
-          message: `Found ${subnetsResponse.items.length} subnets`
-        };
+        const subnetsPage = await fetchPages(request => this.ociClient.virtualNetworkClient.listSubnets(request), subnetsRequest, input);
+        return toListResponse(subnetsPage, 'subnets');
 
       case 'security-lists':
         const securityListsRequest = {
@@ -205,13 +492,8 @@ export class StorageNetworkManager {
           displayName: input.displayName
         };
         
-        const securityListsResponse = await this.ociClient.virtualNetworkClient.listSecurityLists(securityListsRequest);
-        return {
-          success: true,
-          data: securityListsResponse.items,
-          count: securityListsResponse.items.length,
-          message: `Found ${securityListsResponse.items.length} security lists`
-        };
+        const securityListsPage = await fetchPages(request => this.ociClient.virtualNetworkClient.listSecurityLists(request), securityListsRequest, input);
+        return toListResponse(securityListsPage, 'security lists');
 
       case 'route-tables':
         const routeTablesRequest = {
@@ -221,13 +503,8 @@ export class StorageNetworkManager {
           displayName: input.displayName
         };
         
-        const routeTablesResponse = await this.ociClient.virtualNetworkClient.listRouteTables(routeTablesRequest);
-        return {
-          success: true,
-          data: routeTablesResponse.items,
-          count: routeTablesResponse.items.length,
-          message: `Found ${routeTablesResponse.items.length} route tables`
-        };
+        const routeTablesPage = await fetchPages(request => this.ociClient.virtualNetworkClient.listRouteTables(request), routeTablesRequest, input);
+        return toListResponse(routeTablesPage, 'route tables');
 
       case 'internet-gateways':
         const igwRequest = {
@@ -237,13 +514,8 @@ export class StorageNetworkManager {
           displayName: input.displayName
         };
         
-        const igwResponse = await this.ociClient.virtualNetworkClient.listInternetGateways(igwRequest);
-        return {
-          success: true,
-          data: igwResponse.items,
-          count: igwResponse.items.length,
-          message: `Found ${igwResponse.items.length} internet gateways`
-        };
+        const igwPage = await fetchPages(request => this.ociClient.virtualNetworkClient.listInternetGateways(request), igwRequest, input);
+        return toListResponse(igwPage, 'internet gateways');
 
       case 'nat-gateways':
         const natGwRequest = {
@@ -253,13 +525,8 @@ export class StorageNetworkManager {
           displayName: input.displayName
         };
         
-        const natGwResponse = await this.ociClient.virtualNetworkClient.listNatGateways(natGwRequest);
-        return {
-          success: true,
-          data: natGwResponse.items,
-          count: natGwResponse.items.length,
-          message: `Found ${natGwResponse.items.length} NAT gateways`
-        };
+        const natGwPage = await fetchPages(request => this.ociClient.virtualNetworkClient.listNatGateways(request), natGwRequest, input);
+        return toListResponse(natGwPage, 'NAT gateways');
 
       case 'load-balancers':
         const lbRequest = {
@@ -268,23 +535,44 @@ export class StorageNetworkManager {
           displayName: input.displayName
         };
         
-        const lbResponse = await this.ociClient.loadBalancerClient.listLoadBalancers(lbRequest);
-        return {
-          success: true,
-          data: lbResponse.items,
-          count: lbResponse.items.length,
-          message: `Found ${lbResponse.items.length} load balancers`
+        const lbPage = await fetchPages(request => this.ociClient.loadBalancerClient.listLoadBalancers(request), lbRequest, input);
+        return toListResponse(lbPage, 'load balancers');
+
+      case 'private-ips':
+        if (!input.vnicId && !input.subnetId && !input.ipAddress) {
+          throw new OCIValidationError('vnicId, subnetId or ipAddress is required to list private IPs', 'vnicId');
+        }
+        const privateIpsRequest = {
+          vnicId: input.vnicId,
+          subnetId: input.subnetId,
+          ipAddress: input.ipAddress,
+          limit: input.limit || 50
         };
 
+        const privateIpsPage = await fetchPages(request => this.ociClient.virtualNetworkClient.listPrivateIps(request), privateIpsRequest, input);
+        return toListResponse(privateIpsPage, input.vnicId ? `private IPs of VNIC ${input.vnicId}` : 'private IPs');
+
+      case 'public-ips':
+        const publicIpsRequest = {
+          compartmentId,
+          scope: input.availabilityDomain ? oci.core.requests.ListPublicIpsRequest.Scope.AvailabilityDomain : oci.core.requests.ListPublicIpsRequest.Scope.Region,
+          availabilityDomain: input.availabilityDomain,
+          lifetime: input.lifetime as oci.core.requests.ListPublicIpsRequest.Lifetime | undefined,
+          limit: input.limit || 50
+        };
+
+        const publicIpsPage = await fetchPages(request => this.ociClient.virtualNetworkClient.listPublicIps(request), publicIpsRequest, input);
+        return toListResponse(publicIpsPage, input.availabilityDomain ? `public IPs in ${input.availabilityDomain}` : 'regional public IPs');
+
       default:
-        throw new Error(`Unsupported resource type: ${input.resourceType}`);
+        throw new OCIValidationError(`Unsupported resource type: ${input.resourceType}`);
     }
   }
 
-  private async getResource(input: StorageNetworkGetInputSchema['_type']): Promise<OCIResourceDetailResponse> {
+  private async getResource(input: z.infer<typeof StorageNetworkGetInputSchema>): Promise<OCIResourceDetailResponse> {
     switch (input.resourceType) {
       case 'bucket':
-        const namespaceName = input.namespaceName || await this.getNamespace();
+        const namespaceName = input.namespaceName || await this.ociClient.getNamespace();
         const bucketResponse = await this.ociClient.objectStorageClient.getBucket({
           namespaceName,
           bucketName: input.resourceId
@@ -296,16 +584,73 @@ export class StorageNetworkManager {
           message: `Retrieved bucket details for ${input.resourceId}`
         };
 
+      case 'preauthenticated-request':
+        if (!input.bucketName) {
+          throw new OCIValidationError('Bucket name is required', 'bucketName');
+        }
+
+        const par = (await this.ociClient.objectStorageClient.getPreauthenticatedRequest({
+          namespaceName: input.namespaceName || await this.ociClient.getNamespace(),
+          bucketName: input.bucketName,
+          parId: input.resourceId
+        })).preauthenticatedRequestSummary;
+        return {
+          success: true,
+          data: withParScope(par),
+          message: `Retrieved pre-authenticated request ${par.name}: ${describePar(par, input.bucketName)}`
+        };
+
+      case 'lifecycle-policy':
+        const policyNamespace = input.namespaceName || await this.ociClient.getNamespace();
+        // A bucket without a policy answers 404 too, so make sure the bucket exists first
+        await this.ociClient.objectStorageClient.getBucket({ namespaceName: policyNamespace, bucketName: input.resourceId });
+        let rules: oci.objectstorage.models.ObjectLifecycleRule[] = [];
+        try {
+          rules = (await this.ociClient.objectStorageClient.getObjectLifecyclePolicy({
+            namespaceName: policyNamespace,
+            bucketName: input.resourceId
+          })).objectLifecyclePolicy.items || [];
+        } catch (error) {
+          if (!(error instanceof oci.common.OciError && error.statusCode === 404)) {
+            throw error;
+          }
+        }
+
+        return {
+          success: true,
+          data: { bucketName: input.resourceId, rules: rules.map(fromLifecycleRule) },
+          message: rules.length > 0
+            ? `Bucket ${input.resourceId} has ${rules.length} lifecycle rules`
+            : `Bucket ${input.resourceId} has no lifecycle policy`
+        };
+
+      case 'retention-rule':
+        if (!input.bucketName) {
+          throw new OCIValidationError('Bucket name is required', 'bucketName');
+        }
+
+        const rule = (await this.ociClient.objectStorageClient.getRetentionRule({
+          namespaceName: input.namespaceName || await this.ociClient.getNamespace(),
+          bucketName: input.bucketName,
+          retentionRuleId: input.resourceId
+        })).retentionRule;
+        return {
+          success: true,
+          data: withLockState(rule),
+          message: `Retrieved retention rule ${rule.displayName}: ${describeRetention(rule)}`
+        };
+
       case 'object':
         if (!input.bucketName || !input.objectName) {
-          throw new Error('Bucket name and object name are required');
+          throw new OCIValidationError('Bucket name and object name are required');
         }
         
-        const objectNamespace = input.namespaceName || await this.getNamespace();
-        const objectResponse = await this.ociClient.objectStorageClient.getObject({
+        const objectNamespace = input.namespaceName || await this.ociClient.getNamespace();
+        const objectResponse = await this.ociClient.objectStorageClient.headObject({
           namespaceName: objectNamespace,
           bucketName: input.bucketName,
-          objectName: input.objectName
+          objectName: input.objectName,
+          versionId: input.versionId
         });
         
         return {
@@ -314,10 +659,15 @@ export class StorageNetworkManager {
             objectName: input.objectName,
             contentLength: objectResponse.contentLength,
             contentType: objectResponse.contentType,
-            etag: objectResponse.etag,
-            lastModified: objectResponse.lastModified
+            etag: objectResponse.eTag,
+            lastModified: objectResponse.lastModified,
+            versionId: objectResponse.versionId,
+            storageTier: objectResponse.storageTier,
+            archivalState: objectResponse.archivalState,
+            timeOfArchival: objectResponse.timeOfArchival
           },
-          message: `Retrieved object details for ${input.objectName}`
+          message: `Retrieved object details for ${input.objectName}` +
+            (objectResponse.archivalState ? ` (${objectResponse.archivalState})` : '')
         };
 
       case 'vcn':
@@ -353,22 +703,57 @@ export class StorageNetworkManager {
           message: `Retrieved security list details for ${input.resourceId}`
         };
 
+      case 'vnic':
+        const vnicResponse = await this.ociClient.virtualNetworkClient.getVnic({ vnicId: input.resourceId });
+
+        return {
+          success: true,
+          data: vnicResponse.vnic,
+          message: `Retrieved VNIC details for ${input.resourceId}`
+        };
+
+      case 'private-ip':
+        const privateIpResponse = await this.ociClient.virtualNetworkClient.getPrivateIp({ privateIpId: input.resourceId });
+
+        return {
+          success: true,
+          data: privateIpResponse.privateIp,
+          message: `Retrieved private IP details for ${input.resourceId}: ${privateIpResponse.privateIp.ipAddress}`
+        };
+
+      case 'public-ip':
+        const publicIp = input.resourceId.startsWith('ocid1.')
+          ? (await this.ociClient.virtualNetworkClient.getPublicIp({ publicIpId: input.resourceId })).publicIp
+          : (await this.ociClient.virtualNetworkClient.getPublicIpByIpAddress({ getPublicIpByIpAddressDetails: { ipAddress: input.resourceId } })).publicIp;
+
+        return {
+          success: true,
+          data: publicIp,
+          message: `Retrieved public IP details for ${input.resourceId}: ${describePublicIp(publicIp)}`
+        };
+
       default:
-        throw new Error(`Unsupported resource type: ${input.resourceType}`);
+        throw new OCIValidationError(`Unsupported resource type: ${input.resourceType}`);
     }
   }
 
-  private async createResource(input: StorageNetworkCreateInputSchema['_type']): Promise<OCIOperationResponse> {
+  private async createResource(input: z.infer<typeof StorageNetworkCreateInputSchema>): Promise<OCIOperationResponse> {
+    if (input.resourceType === 'public-ip') {
+      return this.createPublicIp(input);
+    }
+    rejectWait(`create ${input.resourceType}`, input);
+
     switch (input.resourceType) {
       case 'bucket':
-        const bucketData = input.data as CreateBucketRequestSchema['_type'];
+        const bucketData = CreateBucketRequestSchema.parse(input.data);
         const createBucketRequest = {
-          namespaceName: bucketData.namespace,
+          namespaceName: bucketData.namespace || await this.ociClient.getNamespace(),
           createBucketDetails: {
             name: bucketData.name,
             compartmentId: bucketData.compartmentId,
-            storageTier: bucketData.storageTier || 'Standard',
-            publicAccessType: bucketData.publicAccessType || 'NoPublicAccess'
+            storageTier: (bucketData.storageTier || 'Standard') as oci.objectstorage.models.CreateBucketDetails.StorageTier,
+            publicAccessType: (bucketData.publicAccessType || 'NoPublicAccess') as oci.objectstorage.models.CreateBucketDetails.PublicAccessType,
+            versioning: bucketData.versioning as oci.objectstorage.models.CreateBucketDetails.Versioning | undefined
           }
         };
 
@@ -382,7 +767,7 @@ export class StorageNetworkManager {
         };
 
       case 'vcn':
-        const vcnData = input.data as any;
+        const vcnData = VcnCreateSchema.parse(input.data);
         const createVcnRequest = {
           createVcnDetails: {
             compartmentId: vcnData.compartmentId,
@@ -402,7 +787,7 @@ export class StorageNetworkManager {
         };
 
       case 'subnet':
-        const subnetData = input.data as any;
+        const subnetData = SubnetCreateSchema.parse(input.data);
         const createSubnetRequest = {
           createSubnetDetails: {
             compartmentId: subnetData.compartmentId,
@@ -426,7 +811,7 @@ export class StorageNetworkManager {
         };
 
       case 'internet-gateway':
-        const igwData = input.data as any;
+        const igwData = GatewayCreateSchema.parse(input.data);
         const createIgwRequest = {
           createInternetGatewayDetails: {
             compartmentId: igwData.compartmentId,
@@ -446,67 +831,383 @@ export class StorageNetworkManager {
         };
 
       default:
-        throw new Error(`Unsupported resource type: ${input.resourceType}`);
+        throw new OCIValidationError(`Unsupported resource type: ${input.resourceType}`);
     }
   }
 
-  private async manageObject(input: StorageNetworkManageInputSchema['_type']): Promise<OCIOperationResponse> {
-    const namespaceName = input.namespaceName || await this.getNamespace();
+  private async manageObject(input: z.infer<typeof StorageNetworkManageInputSchema>): Promise<OCIOperationResponse> {
+    const namespaceName = input.namespaceName || await this.ociClient.getNamespace();
     
     switch (input.action) {
       case 'upload-object':
-        if (!input.bucketName || !input.objectName || !input.objectContent) {
-          throw new Error('Bucket name, object name, and content are required for upload');
+        if (!input.bucketName || !input.objectName) {
+          throw new OCIValidationError('Bucket name and object name are required for upload');
+        }
+        if (await useMultipart(input)) {
+          return await this.uploadFileMultipart(namespaceName, input.bucketName, input.objectName, input);
         }
 
-        const uploadRequest = {
+        const upload = await readUploadBody(input);
+        const contentType = input.contentType || upload.contentType;
+        const uploadResponse = await this.ociClient.objectStorageClient.putObject({
           namespaceName,
           bucketName: input.bucketName,
           objectName: input.objectName,
-          putObjectBody: input.objectContent,
-          contentType: input.contentType || 'application/octet-stream'
-        };
-
-        await this.ociClient.objectStorageClient.putObject(uploadRequest);
+          putObjectBody: upload.body,
+          contentLength: upload.size,
+          contentMD5: upload.md5,
+          contentType,
+          storageTier: input.storageTier as oci.objectstorage.models.StorageTier | undefined
+        });
         
         return {
           success: true,
-          message: `Object uploaded successfully: ${input.objectName}`,
+          data: {
+            namespaceName,
+            bucketName: input.bucketName,
+            objectName: input.objectName,
+            size: upload.size,
+            contentType,
+            md5: upload.md5,
+            etag: uploadResponse.eTag,
+            versionId: uploadResponse.versionId
+          },
+          message: `Object uploaded successfully: ${input.objectName} (${upload.size} bytes from ${upload.source})`,
           operationId: input.objectName
         };
 
+      case 'download-object':
+        if (!input.bucketName || !input.objectName) {
+          throw new OCIValidationError('Bucket name and object name are required for download');
+        }
+        return await this.downloadObject(namespaceName, input.bucketName, input.objectName, input);
+
       case 'delete-object':
         if (!input.bucketName || !input.objectName) {
-          throw new Error('Bucket name and object name are required for deletion');
+          throw new OCIValidationError('Bucket name and object name are required for deletion');
         }
 
         const deleteObjectRequest = {
           namespaceName,
           bucketName: input.bucketName,
-          objectName: input.objectName
+          objectName: input.objectName,
+          versionId: input.versionId
         };
 
-        await this.ociClient.objectStorageClient.deleteObject(deleteObjectRequest);
+        const deleteResponse = await this.ociClient.objectStorageClient.deleteObject(deleteObjectRequest);
         
         return {
           success: true,
-          message: `Object deleted successfully: ${input.objectName}`,
+          data: { objectName: input.objectName, versionId: input.versionId, isDeleteMarker: deleteResponse.isDeleteMarker },
+          message: input.versionId
+            ? `Version ${input.versionId} of ${input.objectName} deleted permanently`
+            : `Object deleted successfully: ${input.objectName}`,
           operationId: input.objectName
         };
 
+      case 'restore-object-version':
+        if (!input.bucketName || !input.objectName || !input.versionId) {
+          throw new OCIValidationError('Bucket name, object name and versionId are required to restore a version', 'versionId');
+        }
+        return await this.restoreObjectVersion(namespaceName, input.bucketName, input.objectName, input.versionId);
+
+      case 'restore-archived-object':
+        if (!input.bucketName || !input.objectName) {
+          throw new OCIValidationError('Bucket name and object name are required to restore an archived object');
+        }
+        return await this.restoreArchivedObject(namespaceName, input.bucketName, input.objectName, input);
+
+      case 'abort-multipart-upload':
+        if (!input.bucketName) {
+          throw new OCIValidationError('Bucket name is required to abort multipart uploads', 'bucketName');
+        }
+        return await this.abortMultipartUploads(namespaceName, input.bucketName, input);
+
       default:
-        throw new Error(`Unsupported object action: ${input.action}`);
+        throw new OCIValidationError(`Unsupported object action: ${input.action}`);
     }
   }
 
-  private async manageResource(input: StorageNetworkManageInputSchema['_type']): Promise<OCIOperationResponse> {
+  private async uploadFileMultipart(
+    namespaceName: string,
+    bucketName: string,
+    objectName: string,
+    input: z.infer<typeof StorageNetworkManageInputSchema>
+  ): Promise<OCIOperationResponse> {
+    if (input.objectContent !== undefined) {
+      throw new OCIValidationError('Pass either objectContent or localPath for upload', 'objectContent');
+    }
+    if (input.encoding && input.encoding !== 'auto') {
+      throw new OCIValidationError('encoding applies to objectContent; files are uploaded as they are', 'encoding');
+    }
+    const localPath = expandHome(input.localPath!);
+    const fileSize = await localFileSize(localPath);
+    const contentType = input.contentType || contentTypeFor(localPath);
+    const result = await uploadMultipart(this.ociClient.objectStorageClient, {
+      namespaceName,
+      bucketName,
+      objectName,
+      filePath: localPath,
+      fileSize,
+      contentType,
+      partSizeMiB: input.partSizeMiB,
+      concurrency: input.concurrency,
+      uploadId: input.uploadId,
+      keepOnFailure: input.keepOnFailure
+    });
+
+    return {
+      success: true,
+      data: { namespaceName, bucketName, objectName, size: fileSize, contentType, ...result },
+      message: `Object uploaded successfully: ${objectName} (${fileSize} bytes from ${localPath} in ${result.partCount} parts` +
+        (result.partsReused > 0 ? `, ${result.partsReused} already uploaded` : '') + ')',
+      operationId: objectName
+    };
+  }
+
+  /**
+   * Abort one multipart upload, or every upload in the bucket (optionally of
+   * one object) started at least olderThanHours ago
+   */
+  private async abortMultipartUploads(
+    namespaceName: string,
+    bucketName: string,
+    input: z.infer<typeof StorageNetworkManageInputSchema>
+  ): Promise<OCIOperationResponse> {
+    if (!input.uploadId && input.olderThanHours === undefined) {
+      throw new OCIValidationError('Pass uploadId, or olderThanHours to abort the stale uploads in the bucket', 'uploadId');
+    }
+
+    const listed = await fetchPages(
+      request => this.ociClient.objectStorageClient.listMultipartUploads(request),
+      { namespaceName, bucketName, limit: 1000 },
+      { fetchAll: true, maxItems: 10000 }
+    );
+    const startedBefore = input.olderThanHours !== undefined ? Date.now() - input.olderThanHours * 3600 * 1000 : undefined;
+    const uploads = listed.items.filter(upload =>
+      (!input.uploadId || upload.uploadId === input.uploadId)
+      && (!input.objectName || upload.object === input.objectName)
+      && (startedBefore === undefined || new Date(upload.timeCreated).getTime() <= startedBefore)
+    );
+    if (input.uploadId && uploads.length === 0) {
+      throw new OCIValidationError(`No multipart upload ${input.uploadId}${input.objectName ? ` for ${input.objectName}` : ''} in bucket ${bucketName}`, 'uploadId');
+    }
+
+    for (const upload of uploads) {
+      await this.ociClient.objectStorageClient.abortMultipartUpload({
+        namespaceName,
+        bucketName,
+        objectName: upload.object,
+        uploadId: upload.uploadId
+      });
+    }
+
+    const aborted = uploads.map(upload => ({ uploadId: upload.uploadId, objectName: upload.object, timeCreated: upload.timeCreated }));
+    return {
+      success: true,
+      data: { aborted },
+      message: input.uploadId
+        ? `Multipart upload ${input.uploadId} of ${uploads[0]!.object} aborted`
+        : `Aborted ${aborted.length} multipart uploads in bucket ${bucketName} started over ${input.olderThanHours} hours ago`,
+      operationId: input.uploadId || bucketName
+    };
+  }
+
+  /**
+   * Read an object, or a byte range of it, inline or into a local file.
+   * The size is checked against the cap before any data is transferred, and
+   * the read is pinned to the object's ETag so it cannot mix two versions.
+   */
+  private async downloadObject(
+    namespaceName: string,
+    bucketName: string,
+    objectName: string,
+    input: z.infer<typeof StorageNetworkManageInputSchema>
+  ): Promise<OCIOperationResponse> {
+    const head = await this.ociClient.objectStorageClient.headObject({ namespaceName, bucketName, objectName, versionId: input.versionId });
+    if (head.archivalState && head.archivalState !== 'Restored') {
+      throw new OCIValidationError(
+        `${objectName} is in the Archive tier (${head.archivalState}); restore it with restore-archived-object before downloading`,
+        'objectName'
+      );
+    }
+    const size = head.contentLength;
+    const contentType = head.contentType || 'application/octet-stream';
+
+    const start = input.rangeStart ?? 0;
+    const end = Math.min(input.rangeEnd ?? size - 1, size - 1);
+    if (input.rangeEnd !== undefined && input.rangeEnd < start) {
+      throw new OCIValidationError(`rangeEnd ${input.rangeEnd} is before rangeStart ${start}`, 'rangeEnd');
+    }
+    if (start > 0 && start >= size) {
+      throw new OCIValidationError(`rangeStart ${start} is past the end of ${objectName} (${size} bytes)`, 'rangeStart');
+    }
+    const length = Math.max(end - start + 1, 0);
+    const ranged = length < size;
+
+    const maxBytes = input.maxBytes ?? (input.localPath ? undefined : MAX_INLINE_DOWNLOAD_BYTES);
+    if (maxBytes !== undefined && length > maxBytes) {
+      throw new OCIValidationError(
+        `${objectName} is ${size} bytes${ranged ? ` (${length} in the range)` : ''}, over the ${maxBytes}-byte limit; ` +
+        'raise maxBytes, read a range with rangeStart and rangeEnd, or download to a file with localPath',
+        'maxBytes'
+      );
+    }
+
+    const localPath = input.localPath ? expandHome(input.localPath) : undefined;
+    if (localPath && existsSync(localPath) && !input.overwrite) {
+      throw new OCIValidationError(`${localPath} already exists; pass overwrite to replace it`, 'localPath');
+    }
+
+    const details = {
+      namespaceName,
+      bucketName,
+      objectName,
+      size,
+      contentType,
+      etag: head.eTag,
+      md5: head.contentMd5 || undefined,
+      lastModified: head.lastModified,
+      versionId: head.versionId,
+      ...(ranged ? { range: { start, end } } : {})
+    };
+    const what = `${objectName}${ranged ? ` bytes ${start}-${end}` : ''}`;
+
+    let body: Readable | undefined;
+    if (length > 0) {
+      const response = await this.ociClient.objectStorageClient.getObject({
+        namespaceName,
+        bucketName,
+        objectName,
+        versionId: input.versionId,
+        ifMatch: head.eTag,
+        ...(ranged ? { range: new oci.common.Range(start, end, null) } : {})
+      });
+      body = toNodeReadable(response.value);
+    }
+
+    if (localPath) {
+      // Write next to the target and rename, so a failed download leaves no partial file behind
+      const partialPath = `${localPath}.part`;
+      await mkdir(dirname(localPath), { recursive: true });
+      try {
+        await pipeline(body ?? Readable.from([]), createWriteStream(partialPath));
+        await rename(partialPath, localPath);
+      } catch (error) {
+        await rm(partialPath, { force: true });
+        throw error;
+      }
+      return {
+        success: true,
+        data: { ...details, localPath, bytesWritten: length },
+        message: `Downloaded ${what} (${length} bytes) to ${localPath}`,
+        operationId: objectName
+      };
+    }
+
+    const content = body ? await readAll(body) : Buffer.alloc(0);
+    const encoded = encodeContent(content, contentType, input.encoding ?? 'auto');
+    return {
+      success: true,
+      data: { ...details, bytesReturned: content.length, encoding: encoded.encoding, content: encoded.content },
+      message: `Downloaded ${what} (${content.length} bytes, ${encoded.encoding})`,
+      operationId: objectName
+    };
+  }
+
+  /**
+   * Make a previous version the current one by copying it over the object in
+   * OCI. The versions in between stay in the bucket's history.
+   */
+  private async restoreObjectVersion(
+    namespaceName: string,
+    bucketName: string,
+    objectName: string,
+    versionId: string
+  ): Promise<OCIOperationResponse> {
+    const head = await this.ociClient.objectStorageClient.headObject({ namespaceName, bucketName, objectName, versionId });
+    if (head.archivalState && head.archivalState !== 'Restored') {
+      throw new OCIValidationError(
+        `Version ${versionId} of ${objectName} is archived (${head.archivalState}); restore it with restore-archived-object first`,
+        'versionId'
+      );
+    }
+
+    // The copy keeps the version's metadata; without a tier it would take the bucket's
+    const copy = await this.ociClient.objectStorageClient.copyObject({
+      namespaceName,
+      bucketName,
+      copyObjectDetails: {
+        sourceObjectName: objectName,
+        sourceVersionId: versionId,
+        sourceObjectIfMatchETag: head.eTag,
+        destinationRegion: this.ociClient.getRegion(),
+        destinationNamespace: namespaceName,
+        destinationBucket: bucketName,
+        destinationObjectName: objectName,
+        destinationObjectStorageTier: head.storageTier as oci.objectstorage.models.StorageTier | undefined
+      }
+    });
+    await waitForObjectStorageWorkRequest(this.ociClient, copy.opcWorkRequestId, DEFAULT_WAIT_TIMEOUT_SECONDS);
+    const written = await this.ociClient.objectStorageClient.headObject({ namespaceName, bucketName, objectName });
+
+    return {
+      success: true,
+      data: { objectName, restoredVersionId: versionId, versionId: written.versionId, etag: written.eTag, size: head.contentLength },
+      message: `Restored version ${versionId} of ${objectName} (${head.contentLength} bytes) as its current version ${written.versionId}`,
+      operationId: objectName
+    };
+  }
+
+  /**
+   * Ask OCI to make an Archive-tier object readable for a while. The restore
+   * itself takes about an hour; get the object to follow its archivalState.
+   */
+  private async restoreArchivedObject(
+    namespaceName: string,
+    bucketName: string,
+    objectName: string,
+    input: z.infer<typeof StorageNetworkManageInputSchema>
+  ): Promise<OCIOperationResponse> {
+    const head = await this.ociClient.objectStorageClient.headObject({ namespaceName, bucketName, objectName, versionId: input.versionId });
+    if (!head.archivalState) {
+      throw new OCIValidationError(`${objectName} is in the ${head.storageTier || 'Standard'} tier, not Archive; it can be read as it is`, 'objectName');
+    }
+    if (head.archivalState === 'Restoring') {
+      return {
+        success: true,
+        data: { objectName, versionId: head.versionId, archivalState: head.archivalState },
+        message: `${objectName} is already being restored`,
+        operationId: objectName
+      };
+    }
+
+    const hours = input.hours ?? 24;
+    await this.ociClient.objectStorageClient.restoreObjects({
+      namespaceName,
+      bucketName,
+      restoreObjectsDetails: { objectName, hours, versionId: input.versionId }
+    });
+    const after = await this.ociClient.objectStorageClient.headObject({ namespaceName, bucketName, objectName, versionId: input.versionId });
+
+    return {
+      success: true,
+      data: { objectName, versionId: after.versionId, hours, archivalState: after.archivalState, timeOfArchival: after.timeOfArchival },
+      message: after.archivalState === 'Restored'
+        ? `${objectName} is restored and readable until it is archived again at ${after.timeOfArchival}`
+        : `Restore of ${objectName} started; it becomes readable in about an hour and stays readable for ${hours} hours`,
+      operationId: objectName
+    };
+  }
+
+  private async manageResource(input: z.infer<typeof StorageNetworkManageInputSchema>): Promise<OCIOperationResponse> {
     switch (input.action) {
       case 'delete-bucket':
         if (!input.bucketName) {
-          throw new Error('Bucket name is required for deletion');
+          throw new OCIValidationError('Bucket name is required for deletion', 'bucketName');
         }
         
-        const namespaceName = input.namespaceName || await this.getNamespace();
+        const namespaceName = input.namespaceName || await this.ociClient.getNamespace();
         const deleteBucketRequest = {
           namespaceName,
           bucketName: input.bucketName
@@ -522,7 +1223,7 @@ export class StorageNetworkManager {
 
       case 'delete-vcn':
         if (!input.resourceId) {
-          throw new Error('VCN ID is required for deletion');
+          throw new OCIValidationError('VCN ID is required for deletion', 'resourceId');
         }
 
         const deleteVcnRequest = {
@@ -538,12 +1239,883 @@ export class StorageNetworkManager {
         };
 
       default:
-        throw new Error(`Unsupported management action: ${input.action}`);
+        throw new OCIValidationError(`Unsupported management action: ${input.action}`);
+    }
+  }
+
+  private async createPublicIp(input: z.infer<typeof StorageNetworkCreateInputSchema>): Promise<OCIOperationResponse> {
+    const wait = planWait('public-ip', input);
+    const data = PublicIpCreateSchema.parse(input.data);
+
+    const result = await this.ociClient.virtualNetworkClient.createPublicIp({
+      createPublicIpDetails: {
+        compartmentId: data.compartmentId,
+        lifetime: oci.core.models.CreatePublicIpDetails.Lifetime.Reserved,
+        displayName: data.displayName || `reserved-ip-${Date.now()}`,
+        privateIpId: data.privateIpId,
+        publicIpPoolId: data.publicIpPoolId
+      }
+    });
+
+    return completeOperation(this.ociClient, wait, result.publicIp.id!, {
+      success: true,
+      data: result.publicIp,
+      message: `Reserved public IP created: ${describePublicIp(result.publicIp)}`,
+      operationId: result.publicIp.id!
+    });
+  }
+
+  private async managePrivateIp(input: NetworkIpInput): Promise<OCIOperationResponse> {
+    rejectWait(input.action, input);
+    const client = this.ociClient.virtualNetworkClient;
+
+    switch (input.action) {
+      case 'add-private-ip':
+        const vnicId = input.vnicId || (input.resourceType === 'vnic' ? input.resourceId : undefined);
+        if (!vnicId) {
+          throw new OCIValidationError('vnicId (or resourceType vnic with its OCID) is required to add a private IP', 'vnicId');
+        }
+        await this.checkSecondaryIpCapacity(vnicId);
+
+        const created = (await client.createPrivateIp({
+          createPrivateIpDetails: {
+            vnicId,
+            ipAddress: input.ipAddress,
+            hostnameLabel: input.hostnameLabel,
+            displayName: input.displayName
+          }
+        })).privateIp;
+
+        return {
+          success: true,
+          data: created,
+          message: `Secondary private IP ${created.ipAddress} added to VNIC ${vnicId}`,
+          operationId: created.id
+        };
+
+      case 'move-private-ip':
+        const privateIp = await this.secondaryPrivateIp(input, 'move');
+        if (!input.vnicId) {
+          throw new OCIValidationError('vnicId (the VNIC to move the private IP to) is required', 'vnicId');
+        }
+        if (input.vnicId === privateIp.vnicId) {
+          throw new OCIValidationError(`Private IP ${privateIp.ipAddress} is already on VNIC ${input.vnicId}`, 'vnicId');
+        }
+        await this.checkSecondaryIpCapacity(input.vnicId);
+
+        // OCI moves the address only within its subnet, along with any public IP assigned to it
+        const moved = (await client.updatePrivateIp({
+          privateIpId: privateIp.id,
+          updatePrivateIpDetails: {
+            vnicId: input.vnicId,
+            hostnameLabel: input.hostnameLabel,
+            displayName: input.displayName
+          }
+        })).privateIp;
+
+        return {
+          success: true,
+          data: moved,
+          message: `Private IP ${moved.ipAddress} moved from VNIC ${privateIp.vnicId} to ${input.vnicId}`,
+          operationId: moved.id
+        };
+
+      case 'delete-private-ip':
+        const doomed = await this.secondaryPrivateIp(input, 'delete');
+        await client.deletePrivateIp({ privateIpId: doomed.id });
+
+        return {
+          success: true,
+          message: `Secondary private IP ${doomed.ipAddress} deleted from VNIC ${doomed.vnicId}`,
+          operationId: doomed.id
+        };
+
+      default:
+        throw new OCIValidationError(`Unsupported private IP action: ${input.action}`);
+    }
+  }
+
+  private async managePublicIp(input: NetworkIpInput): Promise<OCIOperationResponse> {
+    const client = this.ociClient.virtualNetworkClient;
+    if (input.resourceType !== 'public-ip' || !input.resourceId) {
+      throw new OCIValidationError(`${input.action} needs resourceType public-ip and the public IP OCID as resourceId`, 'resourceId');
+    }
+    const publicIpId = input.resourceId;
+    const publicIp = (await client.getPublicIp({ publicIpId })).publicIp;
+
+    switch (input.action) {
+      case 'assign-public-ip':
+        const wait = planWait('public-ip', input);
+        requireReserved(publicIp, 'assigned');
+        const privateIpId = input.privateIpId || await this.primaryPrivateIpId(input.vnicId);
+        if (publicIp.assignedEntityId === privateIpId) {
+          throw new OCIValidationError(`${describePublicIp(publicIp)} is already assigned to ${privateIpId}`, 'privateIpId');
+        }
+
+        // A private IP holds one public IP; an ephemeral one has to be deleted first
+        const existing = await this.publicIpOf(privateIpId);
+        if (existing) {
+          throw new OCIValidationError(
+            `Private IP ${privateIpId} already has ${existing.lifetime?.toLowerCase()} public IP ${existing.ipAddress}; ` +
+            (existing.lifetime === oci.core.models.PublicIp.Lifetime.Ephemeral ? 'delete it first' : 'unassign it first'),
+            'privateIpId'
+          );
+        }
+
+        const assigned = (await client.updatePublicIp({
+          publicIpId,
+          updatePublicIpDetails: { privateIpId, displayName: input.displayName }
+        })).publicIp;
+
+        return completeOperation(this.ociClient, wait, publicIpId, {
+          success: true,
+          data: assigned,
+          message: `Public IP ${publicIp.ipAddress} assignment to ${privateIpId} initiated` +
+            (publicIp.assignedEntityId ? ` (moved from ${publicIp.assignedEntityId})` : ''),
+          operationId: publicIpId
+        });
+
+      case 'unassign-public-ip':
+        const unassignWait = planWait('public-ip', input);
+        requireReserved(publicIp, 'unassigned');
+        if (!publicIp.assignedEntityId) {
+          throw new OCIValidationError(`Public IP ${publicIp.ipAddress} is not assigned`, 'resourceId');
+        }
+
+        // An empty private IP ID unassigns a reserved public IP
+        const unassigned = (await client.updatePublicIp({
+          publicIpId,
+          updatePublicIpDetails: { privateIpId: '' }
+        })).publicIp;
+
+        return completeOperation(this.ociClient, unassignWait, publicIpId, {
+          success: true,
+          data: unassigned,
+          message: `Public IP ${publicIp.ipAddress} unassignment from ${publicIp.assignedEntityId} initiated`,
+          operationId: publicIpId
+        });
+
+      case 'delete-public-ip':
+        const deleteWait = planWait('public-ip', input);
+        await client.deletePublicIp({ publicIpId });
+
+        return completeOperation(this.ociClient, deleteWait, publicIpId, {
+          success: true,
+          message: `Deletion of ${describePublicIp(publicIp)} initiated`,
+          operationId: publicIpId
+        });
+
+      default:
+        throw new OCIValidationError(`Unsupported public IP action: ${input.action}`);
+    }
+  }
+
+  /**
+   * The private IP an action works on. Primary private IPs belong to their VNIC for good.
+   */
+  private async secondaryPrivateIp(input: NetworkIpInput, verb: string): Promise<oci.core.models.PrivateIp & { id: string }> {
+    const privateIpId = input.privateIpId || (input.resourceType === 'private-ip' ? input.resourceId : undefined);
+    if (!privateIpId) {
+      throw new OCIValidationError(`Pass the private IP to ${verb} as privateIpId, or as resourceId with resourceType private-ip`, 'privateIpId');
+    }
+    const privateIp = (await this.ociClient.virtualNetworkClient.getPrivateIp({ privateIpId })).privateIp;
+    if (privateIp.isPrimary) {
+      throw new OCIValidationError(`${privateIp.ipAddress} is the primary private IP of VNIC ${privateIp.vnicId} and cannot be ${verb}d`, 'privateIpId');
+    }
+    return { ...privateIp, id: privateIpId };
+  }
+
+  private async checkSecondaryIpCapacity(vnicId: string): Promise<void> {
+    const page = await fetchPages(
+      request => this.ociClient.virtualNetworkClient.listPrivateIps(request),
+      { vnicId },
+      { fetchAll: true }
+    );
+    const secondary = page.items.filter(privateIp => !privateIp.isPrimary).length;
+    if (secondary >= MAX_SECONDARY_PRIVATE_IPS) {
+      throw new OCIValidationError(`VNIC ${vnicId} already has ${secondary} secondary private IPs, the most OCI allows`, 'vnicId');
+    }
+  }
+
+  private async primaryPrivateIpId(vnicId: string | undefined): Promise<string> {
+    if (!vnicId) {
+      throw new OCIValidationError('privateIpId (or vnicId for its primary private IP) is required', 'privateIpId');
+    }
+    const page = await fetchPages(
+      request => this.ociClient.virtualNetworkClient.listPrivateIps(request),
+      { vnicId },
+      { fetchAll: true }
+    );
+    const primary = page.items.find(privateIp => privateIp.isPrimary);
+    if (!primary) {
+      throw new OCIValidationError(`VNIC ${vnicId} has no primary private IP`, 'vnicId');
+    }
+    return primary.id!;
+  }
+
+  /**
+   * Create or delete a pre-authenticated request. OCI only reveals the
+   * access URI when the PAR is created, so that is the one chance to hand out
+   * its URL.
+   */
+  private async managePreauthenticatedRequest(input: PreauthenticatedRequestInput): Promise<OCIOperationResponse> {
+    const namespaceName = input.namespaceName || await this.ociClient.getNamespace();
+
+    if (input.action === 'delete-par') {
+      if (!input.resourceId) {
+        throw new OCIValidationError('Pass the PAR ID as resourceId', 'resourceId');
+      }
+      await this.ociClient.objectStorageClient.deletePreauthenticatedRequest({
+        namespaceName,
+        bucketName: input.bucketName,
+        parId: input.resourceId
+      });
+      return {
+        success: true,
+        message: `Pre-authenticated request ${input.resourceId} deleted; its URL no longer works`,
+        operationId: input.resourceId
+      };
+    }
+
+    if (input.objectName !== undefined && input.prefix !== undefined) {
+      throw new OCIValidationError('Pass objectName for one object or prefix for a group of objects, not both', 'prefix');
+    }
+    const scope = input.objectName !== undefined ? 'object' : input.prefix !== undefined ? 'prefix' : 'bucket';
+    if (input.allowListing && (scope === 'object' || input.access === 'write')) {
+      throw new OCIValidationError('allowListing needs read access to a bucket or prefix', 'allowListing');
+    }
+
+    const accessType = PAR_ACCESS_TYPES[input.access][scope === 'object' ? 'object' : 'any'];
+    const timeExpires = parExpiry(input);
+    const name = input.name || `${input.access}-${scope === 'bucket' ? input.bucketName : input.objectName ?? input.prefix}-${Date.now()}`;
+    const response = await this.ociClient.objectStorageClient.createPreauthenticatedRequest({
+      namespaceName,
+      bucketName: input.bucketName,
+      createPreauthenticatedRequestDetails: {
+        name,
+        objectName: input.objectName ?? input.prefix,
+        accessType,
+        timeExpires,
+        ...(scope !== 'object' && input.access !== 'write'
+          ? { bucketListingAction: input.allowListing ? 'ListObjects' : 'Deny' }
+          : {})
+      }
+    });
+
+    const par = response.preauthenticatedRequest;
+    const url = par.fullPath || `https://objectstorage.${this.ociClient.getRegion()}.oraclecloud.com${par.accessUri}`;
+    return {
+      success: true,
+      data: { ...withParScope(par), url },
+      message: `Pre-authenticated request ${par.name} created: ${describePar(par, input.bucketName)}. ` +
+        (scope === 'object' ? `URL: ${url}` : `Append object names to ${url}`) +
+        ' (this is the only time the URL is shown)',
+      operationId: par.id
+    };
+  }
+
+  /**
+   * Replace or remove a bucket's lifecycle policy. OCI has no per-rule calls:
+   * the rules sent are the whole policy.
+   */
+  private async manageLifecyclePolicy(input: BucketControlInput): Promise<OCIOperationResponse> {
+    const namespaceName = input.namespaceName || await this.ociClient.getNamespace();
+
+    if (input.action === 'delete-lifecycle-policy') {
+      await this.ociClient.objectStorageClient.deleteObjectLifecyclePolicy({ namespaceName, bucketName: input.bucketName });
+      return {
+        success: true,
+        message: `Lifecycle policy of bucket ${input.bucketName} deleted`,
+        operationId: input.bucketName
+      };
+    }
+
+    const rules = input.rules;
+    if (!rules || rules.length === 0) {
+      throw new OCIValidationError('Pass the policy as rules; use delete-lifecycle-policy to remove every rule', 'rules');
+    }
+    const names = new Set<string>();
+    for (const rule of rules) {
+      if (names.has(rule.name)) {
+        throw new OCIValidationError(`Lifecycle rule names must be unique; ${rule.name} is used twice`, 'rules');
+      }
+      names.add(rule.name);
+      if ((rule.action === 'ABORT') !== (rule.target === 'multipart-uploads')) {
+        throw new OCIValidationError(`Rule ${rule.name}: ABORT is the only action for multipart-uploads, and only applies to them`, 'rules');
+      }
+      if (rule.target === 'multipart-uploads' && (rule.prefixes || rule.inclusionPatterns || rule.exclusionPatterns)) {
+        throw new OCIValidationError(`Rule ${rule.name}: rules for multipart uploads take no name filters`, 'rules');
+      }
+    }
+
+    const response = await this.ociClient.objectStorageClient.putObjectLifecyclePolicy({
+      namespaceName,
+      bucketName: input.bucketName,
+      putObjectLifecyclePolicyDetails: { items: rules.map(toLifecycleRule) }
+    });
+
+    return {
+      success: true,
+      data: { bucketName: input.bucketName, rules: (response.objectLifecyclePolicy.items || []).map(fromLifecycleRule) },
+      message: `Lifecycle policy of bucket ${input.bucketName} set: ${rules.map(describeLifecycleRule).join('; ')}`,
+      operationId: input.bucketName
+    };
+  }
+
+  /**
+   * Create, change or delete a retention rule. Once a rule's lock time has
+   * passed OCI only lets its duration grow; those changes are refused here
+   * first, with the rule's current settings in the message.
+   */
+  private async manageRetentionRule(input: BucketControlInput): Promise<OCIOperationResponse> {
+    const namespaceName = input.namespaceName || await this.ociClient.getNamespace();
+    const bucketName = input.bucketName;
+    const timeRuleLocked = input.timeRuleLocked ? retentionLockTime(input.timeRuleLocked) : undefined;
+
+    if (input.action === 'create-retention-rule') {
+      const duration = retentionDuration(input);
+      if (!duration && !input.indefinite) {
+        throw new OCIValidationError('Pass timeAmount (and timeUnit) for the retention period, or indefinite for a rule without end', 'timeAmount');
+      }
+      const response = await this.ociClient.objectStorageClient.createRetentionRule({
+        namespaceName,
+        bucketName,
+        createRetentionRuleDetails: { displayName: input.displayName, duration, timeRuleLocked }
+      });
+      const rule = response.retentionRule;
+      return {
+        success: true,
+        data: withLockState(rule),
+        message: `Retention rule ${rule.displayName} created on bucket ${bucketName}: ${describeRetention(rule)}`,
+        operationId: rule.id
+      };
+    }
+
+    if (!input.resourceId) {
+      throw new OCIValidationError('Pass the retention rule ID as resourceId', 'resourceId');
+    }
+    const current = await this.ociClient.objectStorageClient.getRetentionRule({ namespaceName, bucketName, retentionRuleId: input.resourceId });
+    const rule = current.retentionRule;
+    const locked = isRuleLocked(rule);
+
+    if (input.action === 'delete-retention-rule') {
+      if (locked) {
+        throw new OCIValidationError(`Retention rule ${rule.displayName} is locked (${describeRetention(rule)}) and can never be deleted`, 'resourceId');
+      }
+      await this.ociClient.objectStorageClient.deleteRetentionRule({ namespaceName, bucketName, retentionRuleId: rule.id, ifMatch: current.etag });
+      return {
+        success: true,
+        message: `Retention rule ${rule.displayName} deleted from bucket ${bucketName}`,
+        operationId: rule.id
+      };
+    }
+
+    // The update replaces the duration, so keep the current one unless a new one is given
+    const requested = retentionDuration(input);
+    const duration = input.indefinite ? undefined : requested ?? rule.duration;
+    if (locked) {
+      if (retentionDays(duration) < retentionDays(rule.duration)) {
+        throw new OCIValidationError(`Retention rule ${rule.displayName} is locked (${describeRetention(rule)}); its duration can only be extended`, 'timeAmount');
+      }
+      if (timeRuleLocked) {
+        throw new OCIValidationError(`Retention rule ${rule.displayName} has been locked since ${new Date(rule.timeRuleLocked!).toISOString()}; the lock cannot change`, 'timeRuleLocked');
+      }
+    }
+    const response = await this.ociClient.objectStorageClient.updateRetentionRule({
+      namespaceName,
+      bucketName,
+      retentionRuleId: rule.id,
+      ifMatch: current.etag,
+      updateRetentionRuleDetails: { displayName: input.displayName ?? rule.displayName, duration, timeRuleLocked: timeRuleLocked ?? rule.timeRuleLocked }
+    });
+    const updated = response.retentionRule;
+    return {
+      success: true,
+      data: withLockState(updated),
+      message: `Retention rule ${updated.displayName} updated: ${describeRetention(updated)}`,
+      operationId: updated.id
+    };
+  }
+
+  /**
+   * Turn object versioning on or suspend it. Once enabled it cannot be
+   * turned off; suspending keeps the versions already stored.
+   */
+  private async setVersioning(input: BucketControlInput): Promise<OCIOperationResponse> {
+    if (!input.versioning) {
+      throw new OCIValidationError('Pass versioning: Enabled or Suspended', 'versioning');
+    }
+    const namespaceName = input.namespaceName || await this.ociClient.getNamespace();
+    const current = await this.ociClient.objectStorageClient.getBucket({ namespaceName, bucketName: input.bucketName });
+    if (input.versioning === 'Suspended' && current.bucket.versioning === 'Disabled') {
+      throw new OCIValidationError(`Versioning was never enabled on bucket ${input.bucketName}, so there is nothing to suspend`, 'versioning');
+    }
+
+    const response = await this.ociClient.objectStorageClient.updateBucket({
+      namespaceName,
+      bucketName: input.bucketName,
+      ifMatch: current.eTag,
+      updateBucketDetails: { versioning: input.versioning as oci.objectstorage.models.UpdateBucketDetails.Versioning }
+    });
+    return {
+      success: true,
+      data: { bucketName: input.bucketName, versioning: response.bucket.versioning, previousVersioning: current.bucket.versioning },
+      message: `Versioning of bucket ${input.bucketName} is now ${response.bucket.versioning}` +
+        (input.versioning === 'Suspended' ? '; existing object versions are kept' : ''),
+      operationId: input.bucketName
+    };
+  }
+
+  /**
+   * Sync a local directory and a bucket prefix in either direction. The plan
+   * is always computed first; with dryRun (the default) it is all that is
+   * returned. Transfers run in parallel and stop at the first failure, and
+   * deletions only happen after every transfer succeeded.
+   */
+  private async syncObjects(input: ObjectSyncInput): Promise<OCIOperationResponse> {
+    const namespaceName = input.namespaceName || await this.ociClient.getNamespace();
+    const prefix = normalizeSyncPrefix(input.prefix);
+    const localDir = expandHome(input.localPath);
+    const client = this.ociClient.objectStorageClient;
+    const plan = await planSync(client, {
+      direction: input.direction,
+      namespaceName,
+      bucketName: input.bucketName,
+      prefix,
+      localDir,
+      delete: Boolean(input.delete)
+    });
+
+    const source = input.direction === 'upload' ? localDir : `${input.bucketName}/${prefix}`;
+    const destination = input.direction === 'upload' ? `${input.bucketName}/${prefix}` : localDir;
+    const details = {
+      direction: input.direction,
+      localPath: localDir,
+      bucketName: input.bucketName,
+      prefix,
+      dryRun: input.dryRun,
+      bytesToTransfer: plan.transfers.reduce((total, transfer) => total + transfer.size, 0),
+      unchanged: plan.unchanged,
+      transfers: plan.transfers.map(({ key, objectName, size, reason }) => ({ key, objectName, size, reason })),
+      deletions: plan.deletions.map(({ key, objectName, size }) => ({ key, objectName, size })),
+      skipped: plan.skipped
+    };
+
+    if (input.dryRun) {
+      return {
+        success: true,
+        data: details,
+        message: `Dry run of sync from ${source} to ${destination}: ${describeSyncPlan(plan, input.direction, false)}. Pass dryRun: false to apply it`,
+        operationId: input.bucketName
+      };
+    }
+
+    const transferred: SyncTransfer[] = [];
+    const pending = [...plan.transfers];
+    // The first failed transfer; it stops the other workers from starting new ones
+    let failure: { transfer: SyncTransfer; error: unknown } | undefined;
+    const worker = async () => {
+      while (!failure && pending.length > 0) {
+        const transfer = pending.shift()!;
+        try {
+          if (input.direction === 'upload') {
+            await this.uploadSyncedFile(namespaceName, input.bucketName, transfer);
+          } else {
+            await this.downloadSyncedObject(namespaceName, input.bucketName, transfer);
+          }
+          transferred.push(transfer);
+        } catch (error) {
+          failure ??= { transfer, error };
+        }
+      }
+    };
+    const concurrency = Math.min(input.concurrency ?? DEFAULT_CONCURRENCY, Math.max(plan.transfers.length, 1));
+    // Transfers in flight finish before the result is built, so the count is
+    // final and no file is still being written when the call returns
+    await Promise.all(Array.from({ length: concurrency }, worker));
+    if (failure) {
+      throw new OCISyncError(failure.transfer.key, transferred.length, plan.transfers.length, failure.error);
+    }
+
+    for (const deletion of plan.deletions) {
+      if (input.direction === 'upload') {
+        await client.deleteObject({ namespaceName, bucketName: input.bucketName, objectName: deletion.objectName });
+      } else {
+        await rm(deletion.localPath, { force: true });
+      }
+    }
+
+    return {
+      success: true,
+      data: details,
+      message: `Synced ${source} to ${destination}: ${describeSyncPlan(plan, input.direction, true)}`,
+      operationId: input.bucketName
+    };
+  }
+
+  private async uploadSyncedFile(namespaceName: string, bucketName: string, transfer: SyncTransfer): Promise<void> {
+    const contentType = contentTypeFor(transfer.localPath);
+    if (transfer.size > MULTIPART_THRESHOLD_BYTES) {
+      // The default part size, so the next sync can compare the multipart MD5
+      await uploadMultipart(this.ociClient.objectStorageClient, {
+        namespaceName,
+        bucketName,
+        objectName: transfer.objectName,
+        filePath: transfer.localPath,
+        fileSize: transfer.size,
+        contentType
+      });
+      return;
+    }
+
+    const hash = createHash('md5');
+    await pipeline(createReadStream(transfer.localPath), hash);
+    await this.ociClient.objectStorageClient.putObject({
+      namespaceName,
+      bucketName,
+      objectName: transfer.objectName,
+      putObjectBody: createReadStream(transfer.localPath),
+      contentLength: transfer.size,
+      contentMD5: hash.digest('base64'),
+      contentType
+    });
+  }
+
+  private async downloadSyncedObject(namespaceName: string, bucketName: string, transfer: SyncTransfer): Promise<void> {
+    const response = await this.ociClient.objectStorageClient.getObject({
+      namespaceName,
+      bucketName,
+      objectName: transfer.objectName,
+      ifMatch: transfer.etag
+    });
+
+    // Written next to the target and renamed, like download-object
+    const partialPath = `${transfer.localPath}.part`;
+    await mkdir(dirname(transfer.localPath), { recursive: true });
+    try {
+      await pipeline(toNodeReadable(response.value), createWriteStream(partialPath));
+      await rename(partialPath, transfer.localPath);
+    } catch (error) {
+      await rm(partialPath, { force: true });
+      throw error;
+    }
+    // The object's time, so the next sync sees the file as up to date
+    const modified = transfer.timeModified ?? response.lastModified;
+    if (modified) {
+      await utimes(transfer.localPath, new Date(modified), new Date(modified));
+    }
+  }
+
+  private async publicIpOf(privateIpId: string): Promise<oci.core.models.PublicIp | undefined> {
+    try {
+      const response = await this.ociClient.virtualNetworkClient.getPublicIpByPrivateIpId({
+        getPublicIpByPrivateIpIdDetails: { privateIpId }
+      });
+      return response.publicIp;
+    } catch (error) {
+      if (error instanceof oci.common.OciError && error.statusCode === 404) {
+        return undefined;
+      }
+      throw error;
     }
   }
+}
+
+// OCI access types by access and scope: Object* for one object, AnyObject* for a bucket or prefix
+const ParAccessType = oci.objectstorage.models.CreatePreauthenticatedRequestDetails.AccessType;
+const PAR_ACCESS_TYPES = {
+  'read': { object: ParAccessType.ObjectRead, any: ParAccessType.AnyObjectRead },
+  'write': { object: ParAccessType.ObjectWrite, any: ParAccessType.AnyObjectWrite },
+  'read-write': { object: ParAccessType.ObjectReadWrite, any: ParAccessType.AnyObjectReadWrite }
+};
+
+// PARs have to expire unless the caller explicitly accepts one that does not
+function parExpiry(input: PreauthenticatedRequestInput): Date {
+  if (input.expiresInHours !== undefined && input.timeExpires !== undefined) {
+    throw new OCIValidationError('Pass either expiresInHours or timeExpires, not both', 'timeExpires');
+  }
+  if (input.expiresInHours !== undefined) {
+    return new Date(Date.now() + input.expiresInHours * 3600 * 1000);
+  }
+  if (input.timeExpires !== undefined) {
+    const timeExpires = new Date(input.timeExpires);
+    if (timeExpires.getTime() <= Date.now()) {
+      throw new OCIValidationError(`timeExpires ${input.timeExpires} is in the past`, 'timeExpires');
+    }
+    return timeExpires;
+  }
+  if (!input.allowNoExpiry) {
+    throw new OCIValidationError(
+      'Pre-authenticated requests need an expiry: pass expiresInHours or timeExpires, or allowNoExpiry for a link that works until it is deleted',
+      'expiresInHours'
+    );
+  }
+  return NO_EXPIRY;
+}
+
+type ParSummary = Pick<oci.objectstorage.models.PreauthenticatedRequestSummary, 'objectName' | 'accessType' | 'timeExpires' | 'bucketListingAction'>;
+
+function parScope(par: ParSummary): 'object' | 'prefix' | 'bucket' {
+  if (!par.accessType.startsWith('AnyObject')) {
+    return 'object';
+  }
+  return par.objectName ? 'prefix' : 'bucket';
+}
+
+function withParScope<T extends ParSummary>(par: T): T & { scope: string; expired: boolean } {
+  return { ...par, scope: parScope(par), expired: new Date(par.timeExpires).getTime() <= Date.now() };
+}
+
+function describePar(par: ParSummary, bucketName: string): string {
+  const target = {
+    object: `object ${par.objectName}`,
+    prefix: `objects under ${par.objectName} in bucket ${bucketName}`,
+    bucket: `bucket ${bucketName}`
+  }[parScope(par)];
+  const access = par.accessType.replace(/^(Any)?Object/, '').replace('ReadWrite', 'read-write').toLowerCase();
+  const expiry = new Date(par.timeExpires).getTime() >= NO_EXPIRY.getTime()
+    ? 'never expires'
+    : `expires ${new Date(par.timeExpires).toISOString()}`;
+  return `${access} access to ${target}${par.bucketListingAction === 'ListObjects' ? ' with listing' : ''}, ${expiry}`;
+}
+
+// Lifecycle rules use OCI's own field names except for the name filter, which is flattened
+function toLifecycleRule(rule: z.infer<typeof LifecycleRuleSchema>): oci.objectstorage.models.ObjectLifecycleRule {
+  const hasFilter = rule.prefixes || rule.inclusionPatterns || rule.exclusionPatterns;
+  return {
+    name: rule.name,
+    action: rule.action,
+    target: rule.target,
+    timeAmount: rule.timeAmount,
+    timeUnit: rule.timeUnit as oci.objectstorage.models.ObjectLifecycleRule.TimeUnit,
+    isEnabled: rule.isEnabled,
+    ...(hasFilter
+      ? { objectNameFilter: { inclusionPrefixes: rule.prefixes, inclusionPatterns: rule.inclusionPatterns, exclusionPatterns: rule.exclusionPatterns } }
+      : {})
+  };
+}
+
+function fromLifecycleRule(rule: oci.objectstorage.models.ObjectLifecycleRule) {
+  const { objectNameFilter, ...fields } = rule;
+  return {
+    ...fields,
+    target: rule.target || 'objects',
+    prefixes: objectNameFilter?.inclusionPrefixes,
+    inclusionPatterns: objectNameFilter?.inclusionPatterns,
+    exclusionPatterns: objectNameFilter?.exclusionPatterns
+  };
+}
+
+function describeLifecycleRule(rule: z.infer<typeof LifecycleRuleSchema>): string {
+  const filters = [...(rule.prefixes ?? []).map(prefix => `${prefix}*`), ...(rule.inclusionPatterns ?? [])];
+  return `${rule.name}: ${rule.action} ${rule.target}${filters.length > 0 ? ` matching ${filters.join(', ')}` : ''}` +
+    ` after ${rule.timeAmount} ${rule.timeUnit.toLowerCase()}${rule.isEnabled ? '' : ' (disabled)'}`;
+}
+
+function retentionDuration(input: BucketControlInput): oci.objectstorage.models.Duration | undefined {
+  if (input.timeAmount === undefined) {
+    return undefined;
+  }
+  if (input.indefinite) {
+    throw new OCIValidationError('Pass either timeAmount or indefinite', 'indefinite');
+  }
+  return {
+    timeAmount: input.timeAmount,
+    timeUnit: (input.timeUnit || 'DAYS') as oci.objectstorage.models.Duration.TimeUnit
+  };
+}
+
+// OCI counts a year as 365 days when comparing retention durations
+function retentionDays(duration: oci.objectstorage.models.Duration | undefined): number {
+  if (!duration) {
+    return Infinity;
+  }
+  return duration.timeAmount * (duration.timeUnit === 'YEARS' ? 365 : 1);
+}
+
+// A lock can be scheduled no sooner than 14 days out, the window for deleting a rule added by mistake
+function retentionLockTime(timeRuleLocked: string): Date {
+  const lockTime = new Date(timeRuleLocked);
+  if (lockTime.getTime() < Date.now() + 14 * 24 * 3600 * 1000) {
+    throw new OCIValidationError('timeRuleLocked must be at least 14 days in the future', 'timeRuleLocked');
+  }
+  return lockTime;
+}
+
+function isRuleLocked(rule: oci.objectstorage.models.RetentionRule): boolean {
+  return Boolean(rule.timeRuleLocked) && new Date(rule.timeRuleLocked!).getTime() <= Date.now();
+}
+
+function withLockState<T extends oci.objectstorage.models.RetentionRule | oci.objectstorage.models.RetentionRuleSummary>(rule: T): T & { locked: boolean } {
+  return { ...rule, locked: isRuleLocked(rule) };
+}
+
+function describeRetention(rule: oci.objectstorage.models.RetentionRule | oci.objectstorage.models.RetentionRuleSummary): string {
+  const period = rule.duration ? `objects kept ${rule.duration.timeAmount} ${rule.duration.timeUnit.toLowerCase()}` : 'objects kept indefinitely';
+  if (!rule.timeRuleLocked) {
+    return `${period}, unlocked`;
+  }
+  const lockTime = new Date(rule.timeRuleLocked).toISOString();
+  return isRuleLocked(rule) ? `${period}, locked since ${lockTime}` : `${period}, locks at ${lockTime}`;
+}
+
+function describeSyncPlan(plan: SyncPlan, direction: 'upload' | 'download', applied: boolean): string {
+  const verb = direction === 'upload' ? 'upload' : 'download';
+  const bytes = plan.transfers.reduce((total, transfer) => total + transfer.size, 0);
+  const parts = applied
+    ? [`${plan.transfers.length} files ${verb}ed (${bytes} bytes)`, `${plan.deletions.length} deleted`, `${plan.unchanged} unchanged`]
+    : [`${plan.transfers.length} files to ${verb} (${bytes} bytes)`, `${plan.deletions.length} to delete`, `${plan.unchanged} unchanged`];
+  if (plan.skipped.length > 0) {
+    parts.push(`${plan.skipped.length} skipped`);
+  }
+  return parts.join(', ');
+}
+
+function describePublicIp(publicIp: oci.core.models.PublicIp): string {
+  return `${publicIp.lifetime?.toLowerCase()} public IP ${publicIp.ipAddress}` +
+    (publicIp.assignedEntityId ? ` assigned to ${publicIp.assignedEntityId}` : ' (unassigned)');
+}
+
+// Ephemeral public IPs stay with the private IP they were created for
+function requireReserved(publicIp: oci.core.models.PublicIp, verb: string): void {
+  if (publicIp.lifetime !== oci.core.models.PublicIp.Lifetime.Reserved) {
+    throw new OCIValidationError(
+      `Public IP ${publicIp.ipAddress} is ephemeral and cannot be ${verb}; delete it, or use a reserved public IP`,
+      'resourceId'
+    );
+  }
+}
+
+interface UploadBody {
+  body: Buffer | Readable;
+  size: number;
+  md5: string;
+  contentType: string;
+  source: string;
+}
+
+/**
+ * The body of an upload: objectContent as text or base64, or a local file.
+ * Files are streamed, after a first pass that computes their MD5 so OCI can
+ * verify what it received.
+ */
+async function readUploadBody(input: { objectContent?: string; localPath?: string; encoding?: 'auto' | 'text' | 'base64' }): Promise<UploadBody> {
+  if ((input.objectContent === undefined) === !input.localPath) {
+    throw new OCIValidationError('Pass either objectContent or localPath for upload', 'objectContent');
+  }
+
+  if (input.localPath) {
+    if (input.encoding && input.encoding !== 'auto') {
+      throw new OCIValidationError('encoding applies to objectContent; files are uploaded as they are', 'encoding');
+    }
+    const localPath = expandHome(input.localPath);
+    const fileSize = await localFileSize(localPath);
+    const hash = createHash('md5');
+    await pipeline(createReadStream(localPath), hash);
+    return {
+      body: createReadStream(localPath),
+      size: fileSize,
+      md5: hash.digest('base64'),
+      contentType: contentTypeFor(localPath),
+      source: localPath
+    };
+  }
+
+  const base64 = input.encoding === 'base64';
+  const body = base64 ? decodeBase64(input.objectContent!) : Buffer.from(input.objectContent!, 'utf8');
+  return {
+    body,
+    size: body.length,
+    md5: createHash('md5').update(body).digest('base64'),
+    contentType: base64 ? 'application/octet-stream' : 'text/plain; charset=utf-8',
+    source: base64 ? 'base64 content' : 'text content'
+  };
+}
+
+/**
+ * Whether an upload goes through multipart: on request, when resuming, or
+ * for files over the threshold
+ */
+async function useMultipart(input: z.infer<typeof StorageNetworkManageInputSchema>): Promise<boolean> {
+  const multipartOptions = ['partSizeMiB', 'concurrency', 'uploadId', 'keepOnFailure'] as const;
+  const given = multipartOptions.filter(option => input[option] !== undefined);
+  if (input.multipart === false && given.length > 0) {
+    throw new OCIValidationError(`${given.join(', ')} ${given.length === 1 ? 'applies' : 'apply'} to multipart uploads only`, given[0]);
+  }
+  if (!input.localPath) {
+    if (input.multipart || given.length > 0) {
+      throw new OCIValidationError('Multipart uploads read from a local file; pass localPath', 'localPath');
+    }
+    return false;
+  }
+  if (input.multipart !== undefined) {
+    return input.multipart;
+  }
+  return given.length > 0 || await localFileSize(expandHome(input.localPath)) > MULTIPART_THRESHOLD_BYTES;
+}
+
+async function localFileSize(localPath: string): Promise<number> {
+  try {
+    const info = await stat(localPath);
+    if (!info.isFile()) {
+      throw new Error('not a regular file');
+    }
+    return info.size;
+  } catch (error) {
+    throw new OCIValidationError(`Cannot read ${localPath}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'localPath');
+  }
+}
+
+function contentTypeFor(localPath: string): string {
+  return CONTENT_TYPES_BY_EXTENSION[extname(localPath).toLowerCase()] || 'application/octet-stream';
+}
+
+// Buffer.from(..., 'base64') skips invalid characters, which would silently corrupt the upload
+function decodeBase64(content: string): Buffer {
+  const compact = content.replace(/\s+/g, '');
+  if (compact.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(compact)) {
+    throw new OCIValidationError('objectContent is not valid base64', 'objectContent');
+  }
+  return Buffer.from(compact, 'base64');
+}
+
+function isTextContentType(contentType: string): boolean {
+  const [mediaType = '', ...parameters] = contentType.toLowerCase().split(';').map(part => part.trim());
+  return mediaType.startsWith('text/')
+    || mediaType.endsWith('+json')
+    || mediaType.endsWith('+xml')
+    || ['application/json', 'application/xml', 'application/javascript', 'application/yaml', 'application/x-yaml',
+      'application/x-sh', 'application/sql', 'application/x-ndjson', 'application/toml'].includes(mediaType)
+    || parameters.some(parameter => parameter.startsWith('charset='));
+}
+
+/**
+ * Text for text content types (when the bytes are valid UTF-8), base64
+ * otherwise. A range can cut a multi-byte character in two, in which case
+ * auto falls back to base64 and an explicit text encoding fails.
+ */
+function encodeContent(content: Buffer, contentType: string, encoding: 'auto' | 'text' | 'base64'): { encoding: 'text' | 'base64'; content: string } {
+  if (encoding === 'base64' || (encoding === 'auto' && !isTextContentType(contentType))) {
+    return { encoding: 'base64', content: content.toString('base64') };
+  }
+  try {
+    return { encoding: 'text', content: new TextDecoder('utf-8', { fatal: true }).decode(content) };
+  } catch {
+    if (encoding === 'text') {
+      throw new OCIValidationError('The content is not valid UTF-8 text; download it with encoding base64', 'encoding');
+    }
+    return { encoding: 'base64', content: content.toString('base64') };
+  }
+}
+
+function toNodeReadable(value: Readable | ReadableStream): Readable {
+  return value instanceof Readable ? value : Readable.fromWeb(value);
+}
 
-  private async getNamespace(): Promise<string> {
-    const response = await this.ociClient.objectStorageClient.getNamespace({});
-    return response.value;
+async function readAll(body: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
   }
+  return Buffer.concat(chunks);
 }
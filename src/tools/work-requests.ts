@@ -0,0 +1,253 @@
+import { z } from 'zod';
+import { getOCIClient, OCIClientManager } from '../utils/oci-client.js';
+import { OCIValidationError, toErrorResponse } from '../utils/errors.js';
+import { withRetryCount } from '../utils/retry.js';
+import { fetchPages, OCIPage, toListResponse } from '../utils/pagination.js';
+import {
+  OCIResourceListResponse,
+  OCIResourceDetailResponse,
+  OCIErrorResponse,
+  OCIPaginationSchema,
+  OCITargetSchema
+} from '../types/oci.js';
+
+// Compute, block storage, networking and database operations share the Core work request API;
+// load balancers, network load balancers and logging have their own
+const WorkRequestServiceSchema = z.enum(['compute', 'database', 'network', 'load-balancer', 'network-load-balancer', 'logging']);
+
+// Work Request Tool Input Schemas
+const WorkRequestListInputSchema = z.object({
+  action: z.literal('list'),
+  resourceType: z.enum(['work-requests', 'work-request-errors', 'work-request-logs']),
+  service: WorkRequestServiceSchema.default('compute'),
+  compartmentId: z.string().optional(),
+  resourceId: z.string().optional(),        // For work-requests: only those affecting this resource (the load balancer for load-balancer)
+  workRequestId: z.string().optional(),     // For errors and logs
+  since: z.string().datetime({ offset: true }).optional(), // For errors and logs: only entries after this time
+  limit: z.number().min(1).max(100).optional()
+}).merge(OCIPaginationSchema).merge(OCITargetSchema);
+
+const WorkRequestGetInputSchema = z.object({
+  action: z.literal('get'),
+  resourceType: z.literal('work-request'),
+  service: WorkRequestServiceSchema.default('compute'),
+  resourceId: z.string().min(1, "Work request ID is required")
+}).merge(OCITargetSchema);
+
+export const WorkRequestToolInputSchema = z.union([
+  WorkRequestListInputSchema,
+  WorkRequestGetInputSchema
+]);
+
+export type WorkRequestToolInput = z.infer<typeof WorkRequestToolInputSchema>;
+
+type WorkRequestListInput = z.infer<typeof WorkRequestListInputSchema>;
+
+export class WorkRequestManager {
+  constructor(private ociClient: OCIClientManager = getOCIClient()) {}
+
+  async execute(input: WorkRequestToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIErrorResponse> {
+    // Responses report how many OCI requests were retried while serving the call
+    return withRetryCount(() => this.run(input));
+  }
+
+  private async run(input: WorkRequestToolInput): Promise<OCIResourceListResponse | OCIResourceDetailResponse | OCIErrorResponse> {
+    try {
+      // Calls for another profile or region run on that target's clients
+      const target = this.ociClient.forTarget(input);
+      if (target !== this.ociClient) {
+        return await new WorkRequestManager(target).execute(input);
+      }
+
+      await this.ociClient.ready();
+
+      switch (input.action) {
+        case 'list':
+          return await this.listResources(input);
+        case 'get':
+          return await this.getWorkRequest(input);
+        default:
+          throw new OCIValidationError(`Unsupported action: ${(input as any).action}`);
+      }
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  }
+
+  private async listResources(input: WorkRequestListInput): Promise<OCIResourceListResponse> {
+    switch (input.resourceType) {
+      case 'work-requests':
+        return this.listWorkRequests(input);
+      case 'work-request-errors':
+        const errorsPage = await this.listEntries(input, 'errors');
+        return toListResponse(errorsPage, `errors for work request ${input.workRequestId}`);
+      case 'work-request-logs':
+        const logsPage = await this.listEntries(input, 'logs');
+        return toListResponse(logsPage, `log entries for work request ${input.workRequestId}`);
+      default:
+        throw new OCIValidationError(`Unsupported resource type: ${input.resourceType}`);
+    }
+  }
+
+  private async listWorkRequests(input: WorkRequestListInput): Promise<OCIResourceListResponse> {
+    const compartmentId = input.compartmentId || this.ociClient.getDefaultCompartmentId();
+    const request = { compartmentId, limit: input.limit || 50 };
+
+    switch (input.service) {
+      case 'compute':
+      case 'database':
+      case 'network':
+        const corePage = await fetchPages(
+          coreRequest => this.ociClient.workRequestClient.listWorkRequests(coreRequest),
+          { ...request, resourceId: input.resourceId },
+          input
+        );
+        return toListResponse(corePage, 'work requests');
+
+      case 'load-balancer':
+        if (!input.resourceId) {
+          throw new OCIValidationError('resourceId (the load balancer OCID) is required to list load balancer work requests', 'resourceId');
+        }
+        const lbPage = await fetchPages(
+          ({ compartmentId: _compartmentId, ...lbRequest }) => this.ociClient.loadBalancerClient.listWorkRequests(lbRequest),
+          { ...request, loadBalancerId: input.resourceId },
+          input
+        );
+        return toListResponse(lbPage, `work requests for load balancer ${input.resourceId}`);
+
+      case 'network-load-balancer':
+        // The list is a collection and cannot be filtered by resource server-side
+        const nlbPage = await fetchPages(async nlbRequest => {
+          const response = await this.ociClient.networkLoadBalancerClient.listWorkRequests(nlbRequest);
+          return { items: response.workRequestCollection.items || [], opcNextPage: response.opcNextPage };
+        }, request, input);
+        return toListResponse(affecting(nlbPage, input.resourceId), 'network load balancer work requests');
+
+      case 'logging':
+        const loggingPage = await fetchPages(
+          loggingRequest => this.ociClient.loggingClient.listWorkRequests(loggingRequest),
+          request,
+          input
+        );
+        return toListResponse(affecting(loggingPage, input.resourceId), 'logging work requests');
+
+      default:
+        throw new OCIValidationError(`Unsupported work request service: ${input.service}`, 'service');
+    }
+  }
+
+  private async listEntries(input: WorkRequestListInput, kind: 'errors' | 'logs'): Promise<OCIPage<Record<string, any>>> {
+    if (!input.workRequestId) {
+      throw new OCIValidationError(`workRequestId is required to list work request ${kind}`, 'workRequestId');
+    }
+    const workRequestId = input.workRequestId;
+    const request = { workRequestId, limit: input.limit || 50 };
+    let page: OCIPage<Record<string, any>>;
+
+    switch (input.service) {
+      case 'compute':
+      case 'database':
+      case 'network':
+        const coreClient = this.ociClient.workRequestClient;
+        page = await fetchPages(
+          coreRequest => kind === 'errors'
+            ? coreClient.listWorkRequestErrors(coreRequest)
+            : coreClient.listWorkRequestLogs(coreRequest),
+          request,
+          input
+        );
+        break;
+
+      case 'load-balancer':
+        // Load balancer work requests carry their errors inline and have no log entries
+        if (kind === 'logs') {
+          throw new OCIValidationError('Load balancer work requests have no log entries; get the work request for its status message', 'resourceType');
+        }
+        const lbResponse = await this.ociClient.loadBalancerClient.getWorkRequest({ workRequestId });
+        page = { items: lbResponse.workRequest.errorDetails || [], truncated: false };
+        break;
+
+      case 'network-load-balancer':
+        const nlbClient = this.ociClient.networkLoadBalancerClient;
+        const compartmentId = input.compartmentId
+          || (await nlbClient.getWorkRequest({ workRequestId })).workRequest.compartmentId;
+        page = await fetchPages<Record<string, any>>(async nlbRequest => {
+          if (kind === 'errors') {
+            const response = await nlbClient.listWorkRequestErrors(nlbRequest);
+            return { items: response.workRequestErrorCollection.items || [], opcNextPage: response.opcNextPage };
+          }
+          const response = await nlbClient.listWorkRequestLogs(nlbRequest);
+          return { items: response.workRequestLogEntryCollection.items || [], opcNextPage: response.opcNextPage };
+        }, { ...request, compartmentId }, input);
+        break;
+
+      case 'logging':
+        const loggingClient = this.ociClient.loggingClient;
+        page = await fetchPages(
+          loggingRequest => kind === 'errors'
+            ? loggingClient.listWorkRequestErrors(loggingRequest)
+            : loggingClient.listWorkRequestLogs(loggingRequest),
+          request,
+          input
+        );
+        break;
+
+      default:
+        throw new OCIValidationError(`Unsupported work request service: ${input.service}`, 'service');
+    }
+
+    // Polling with `since` set to the last timestamp seen returns only new entries
+    if (input.since) {
+      const since = new Date(input.since).getTime();
+      page = { ...page, items: page.items.filter(entry => new Date(entry.timestamp).getTime() > since) };
+    }
+    return page;
+  }
+
+  private async getWorkRequest(input: z.infer<typeof WorkRequestGetInputSchema>): Promise<OCIResourceDetailResponse> {
+    const workRequestId = input.resourceId;
+
+    switch (input.service) {
+      case 'compute':
+      case 'database':
+      case 'network':
+        const coreResponse = await this.ociClient.workRequestClient.getWorkRequest({ workRequestId });
+        return progressResponse(coreResponse.workRequest);
+
+      case 'load-balancer':
+        const lbResponse = await this.ociClient.loadBalancerClient.getWorkRequest({ workRequestId });
+        return {
+          success: true,
+          data: lbResponse.workRequest,
+          message: `Work request ${workRequestId} (${lbResponse.workRequest.type}) is ${lbResponse.workRequest.lifecycleState}: ${lbResponse.workRequest.message}`
+        };
+
+      case 'network-load-balancer':
+        const nlbResponse = await this.ociClient.networkLoadBalancerClient.getWorkRequest({ workRequestId });
+        return progressResponse(nlbResponse.workRequest);
+
+      case 'logging':
+        const loggingResponse = await this.ociClient.loggingClient.getWorkRequest({ workRequestId });
+        return progressResponse(loggingResponse.workRequest);
+
+      default:
+        throw new OCIValidationError(`Unsupported work request service: ${input.service}`, 'service');
+    }
+  }
+}
+
+function progressResponse(workRequest: { id: string; operationType: string; status: string; percentComplete: number }): OCIResourceDetailResponse {
+  return {
+    success: true,
+    data: workRequest,
+    message: `Work request ${workRequest.id} (${workRequest.operationType}) is ${workRequest.status}, ${workRequest.percentComplete}% complete`
+  };
+}
+
+// Keep the work requests that touched a resource, for services that cannot filter server-side
+function affecting<T extends { resources?: Array<{ identifier: string }> }>(page: OCIPage<T>, resourceId: string | undefined): OCIPage<T> {
+  if (!resourceId) {
+    return page;
+  }
+  return { ...page, items: page.items.filter(item => item.resources?.some(resource => resource.identifier === resourceId)) };
+}
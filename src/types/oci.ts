@@ -1,16 +1,75 @@
 import { z } from 'zod';
 
 // OCI Authentication Configuration
-export const OCIAuthConfigSchema = z.object({
+export const OCIAuthTypeSchema = z.enum(['api_key', 'instance_principal', 'resource_principal', 'security_token']);
+
+// Every field any authentication mode may use; each mode below marks the ones it requires
+const OCIAuthFieldsSchema = z.object({
+  authType: OCIAuthTypeSchema,
+  tenancyId: z.string().min(1, "Tenancy ID is required").optional(),
+  userId: z.string().min(1, "User ID is required").optional(),
+  keyFingerprint: z.string().min(1, "Key fingerprint is required").optional(),
+  privateKeyPath: z.string().min(1, "Private key path is required").optional(),
+  passphrase: z.string().optional(),
+  securityTokenFile: z.string().min(1, "Security token file is required").optional(),
+  region: z.string().min(1, "Region is required").optional(),
+  compartmentId: z.string().optional(),
+  configFile: z.string().optional(),
+  profile: z.string().optional()
+});
+
+// API signing key (user OCID + key pair)
+export const OCIApiKeyAuthConfigSchema = OCIAuthFieldsSchema.extend({
+  authType: z.literal('api_key'),
   tenancyId: z.string().min(1, "Tenancy ID is required"),
   userId: z.string().min(1, "User ID is required"),
   keyFingerprint: z.string().min(1, "Key fingerprint is required"),
   privateKeyPath: z.string().min(1, "Private key path is required"),
+  region: z.string().min(1, "Region is required")
+});
+
+// Session token from `oci session authenticate`, read through a config file profile
+export const OCISecurityTokenAuthConfigSchema = OCIAuthFieldsSchema.extend({
+  authType: z.literal('security_token'),
+  tenancyId: z.string().min(1, "Tenancy ID is required"),
+  privateKeyPath: z.string().min(1, "Private key path is required"),
+  securityTokenFile: z.string().min(1, "Security token file is required"),
   region: z.string().min(1, "Region is required"),
-  compartmentId: z.string().optional()
+  configFile: z.string().min(1, "Security token authentication requires an OCI config file")
+});
+
+// Compute instance identity; tenancy and region are discovered from instance metadata
+export const OCIInstancePrincipalAuthConfigSchema = OCIAuthFieldsSchema.extend({
+  authType: z.literal('instance_principal')
+});
+
+// OCI Functions and other resource principals; tenancy and region come from the runtime environment
+export const OCIResourcePrincipalAuthConfigSchema = OCIAuthFieldsSchema.extend({
+  authType: z.literal('resource_principal')
 });
 
+export const OCIAuthConfigSchema = z.discriminatedUnion('authType', [
+  OCIApiKeyAuthConfigSchema,
+  OCISecurityTokenAuthConfigSchema,
+  OCIInstancePrincipalAuthConfigSchema,
+  OCIResourcePrincipalAuthConfigSchema
+]);
+
+export type OCIAuthType = z.infer<typeof OCIAuthTypeSchema>;
 export type OCIAuthConfig = z.infer<typeof OCIAuthConfigSchema>;
+// Unvalidated configuration as supplied by callers, config files or the environment
+export type OCIAuthConfigInput = Partial<z.infer<typeof OCIAuthFieldsSchema>>;
+
+// Retry and circuit breaker settings for OCI API calls
+export const OCIRetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1, "At least one attempt is required").max(10),
+  baseDelayMs: z.number().int().min(0),
+  maxDelayMs: z.number().int().min(0),
+  circuitBreakerThreshold: z.number().int().min(1),
+  circuitBreakerCooldownMs: z.number().int().min(0)
+});
+
+export type OCIRetryPolicy = z.infer<typeof OCIRetryPolicySchema>;
 
 // Common OCI Resource Schemas
 export const OCIResourceBaseSchema = z.object({
@@ -34,15 +93,37 @@ export const ComputeInstanceSchema = OCIResourceBaseSchema.extend({
   }).optional()
 });
 
+// Sizing of flexible shapes (VM.Standard.E4.Flex, VM.Standard.A1.Flex, ...)
+export const OCIShapeConfigSchema = z.object({
+  ocpus: z.number().positive("OCPUs must be positive").optional(),
+  memoryInGBs: z.number().positive("Memory must be positive").optional(),
+  baselineOcpuUtilization: z.enum(['BASELINE_1_8', 'BASELINE_1_2', 'BASELINE_1_1']).optional()
+});
+
+// DNS hostname of a VNIC or private IP within its subnet
+export const HostnameLabelSchema = z.string().regex(
+  /^[a-zA-Z][a-zA-Z0-9-]{0,62}$/,
+  "Hostname label must start with a letter and have at most 63 letters, digits or hyphens"
+);
+
 export const CreateInstanceRequestSchema = z.object({
   availabilityDomain: z.string().min(1, "Availability domain is required"),
   compartmentId: z.string().min(1, "Compartment ID is required"),
   shape: z.string().min(1, "Shape is required"),
   imageId: z.string().min(1, "Image ID is required"),
+  shapeConfig: OCIShapeConfigSchema.optional(),
   displayName: z.string().optional(),
   metadata: z.record(z.string()).optional(),
   subnetId: z.string().optional(),
-  sshAuthorizedKeys: z.array(z.string()).optional()
+  nsgIds: z.array(z.string()).max(5).optional(),
+  assignPublicIp: z.boolean().optional(),   // Defaults to the subnet's setting (public subnets get one)
+  hostnameLabel: HostnameLabelSchema.optional(),
+  privateIp: z.string().optional(),         // A free address in the subnet; OCI picks one otherwise
+  sshAuthorizedKeys: z.array(z.string()).optional(),
+  userData: z.string().optional(),       // cloud-init config or script, base64-encoded into metadata.user_data
+  userDataFile: z.string().optional(),   // Or a local file holding it
+  freeformTags: z.record(z.string()).optional(),
+  definedTags: z.record(z.record(z.any())).optional()
 });
 
 // Storage Schemas
@@ -58,9 +139,10 @@ export const BucketSchema = OCIResourceBaseSchema.extend({
 export const CreateBucketRequestSchema = z.object({
   name: z.string().min(1, "Bucket name is required"),
   compartmentId: z.string().min(1, "Compartment ID is required"),
-  namespace: z.string().min(1, "Namespace is required"),
+  namespace: z.string().min(1, "Namespace must not be empty").optional(),  // Defaults to the tenancy's
   storageTier: z.enum(['Standard', 'InfrequentAccess', 'Archive']).optional(),
-  publicAccessType: z.enum(['NoPublicAccess', 'ObjectRead', 'ObjectReadWithoutList']).optional()
+  publicAccessType: z.enum(['NoPublicAccess', 'ObjectRead', 'ObjectReadWithoutList']).optional(),
+  versioning: z.enum(['Enabled', 'Disabled']).optional()
 });
 
 export const VolumeSchema = OCIResourceBaseSchema.extend({
@@ -152,20 +234,54 @@ export const OCIResourceListResponseSchema = z.object({
   data: z.array(z.record(z.any())),
   count: z.number(),
   message: z.string().optional(),
-  nextPage: z.string().optional()
+  nextPage: z.string().optional(),
+  truncated: z.boolean().optional(),
+  retries: z.number().optional()
 });
 
 export const OCIResourceDetailResponseSchema = z.object({
   success: z.boolean(),
   data: z.record(z.any()),
-  message: z.string().optional()
+  message: z.string().optional(),
+  retries: z.number().optional()
 });
 
 export const OCIOperationResponseSchema = z.object({
   success: z.boolean(),
   data: z.record(z.any()).optional(),
   message: z.string(),
-  operationId: z.string().optional()
+  operationId: z.string().optional(),
+  // opc-work-request-id of the operation, for the oci-work-requests tool
+  workRequestId: z.string().optional(),
+  retries: z.number().optional(),
+  // Set when the call waited for the resource to reach waitForState
+  finalState: z.string().optional(),
+  elapsedMs: z.number().optional()
+});
+
+// Structured error returned with every failed tool call
+export const OCIErrorTypeSchema = z.enum(['validation', 'service', 'configuration', 'network', 'internal']);
+
+export const OCIErrorDetailSchema = z.object({
+  type: OCIErrorTypeSchema,
+  message: z.string(),
+  statusCode: z.number().optional(),
+  serviceCode: z.string().optional(),
+  opcRequestId: z.string().optional(),
+  operationName: z.string().optional(),
+  retryable: z.boolean(),
+  hint: z.string().optional(),
+  issues: z.array(z.object({
+    path: z.string(),
+    message: z.string()
+  })).optional()
+});
+
+export const OCIErrorResponseSchema = z.object({
+  success: z.literal(false),
+  message: z.string(),
+  error: OCIErrorDetailSchema,
+  retries: z.number().optional()
 });
 
 // Common Query Parameters
@@ -179,10 +295,49 @@ export const OCIListQuerySchema = z.object({
   displayName: z.string().optional()
 });
 
+// Cursor pagination accepted by every list action
+export const OCIPaginationSchema = z.object({
+  page: z.string().min(1, "Page token must not be empty").optional(),
+  fetchAll: z.boolean().optional(),
+  maxItems: z.number().int().min(1).max(10000).optional()
+});
+
+// Per-call routing: which config file profile and region a tool call runs against
+export const OCITargetSchema = z.object({
+  region: z.string().min(1, "Region must not be empty").optional(),
+  profile: z.string().min(1, "Profile must not be empty").optional()
+});
+
+// Wait for a lifecycle state after a create or lifecycle action
+export const OCIWaitSchema = z.object({
+  waitForState: z.string().min(1, "State must not be empty").transform(state => state.toUpperCase()).optional(),
+  waitTimeoutSeconds: z.number().int().min(1).max(7200).optional()
+});
+
+/**
+ * Refinement checking a create call's `data` against the schema of its
+ * resourceType. A union of every resource's data schema would accept data
+ * that fits another resource and report the errors of whichever came closest.
+ */
+export function refineCreateData<I extends { resourceType?: string; data?: Record<string, any> }>(schemaFor: (input: I) => z.ZodTypeAny) {
+  return (input: I, ctx: z.RefinementCtx): void => {
+    const result = schemaFor(input).safeParse(input.data);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        ctx.addIssue({ ...issue, path: ['data', ...issue.path] });
+      }
+    }
+  };
+}
+
 export type OCIResourceListResponse = z.infer<typeof OCIResourceListResponseSchema>;
 export type OCIResourceDetailResponse = z.infer<typeof OCIResourceDetailResponseSchema>;
 export type OCIOperationResponse = z.infer<typeof OCIOperationResponseSchema>;
+export type OCIErrorType = z.infer<typeof OCIErrorTypeSchema>;
+export type OCIErrorDetail = z.infer<typeof OCIErrorDetailSchema>;
+export type OCIErrorResponse = z.infer<typeof OCIErrorResponseSchema>;
 export type ComputeInstance = z.infer<typeof ComputeInstanceSchema>;
+export type OCIShapeConfig = z.infer<typeof OCIShapeConfigSchema>;
 export type CreateInstanceRequest = z.infer<typeof CreateInstanceRequestSchema>;
 export type Bucket = z.infer<typeof BucketSchema>;
 export type CreateBucketRequest = z.infer<typeof CreateBucketRequestSchema>;
@@ -192,3 +347,6 @@ export type AutonomousDatabase = z.infer<typeof AutonomousDatabaseSchema>;
 export type Alarm = z.infer<typeof AlarmSchema>;
 export type SecurityList = z.infer<typeof SecurityListSchema>;
 export type OCIListQuery = z.infer<typeof OCIListQuerySchema>;
+export type OCIPagination = z.infer<typeof OCIPaginationSchema>;
+export type OCITarget = z.infer<typeof OCITargetSchema>;
+export type OCIWait = z.infer<typeof OCIWaitSchema>;
@@ -0,0 +1,299 @@
+import * as oci from 'oci-sdk';
+import { ZodError, ZodIssue } from 'zod';
+import { OCIErrorDetail, OCIErrorResponse } from '../types/oci.js';
+
+/**
+ * Error model shared by the tool managers and the MCP servers.
+ *
+ * Failures are classified so callers can tell bad input (validation) from
+ * OCI rejecting or throttling a request (service), broken credentials
+ * (configuration) and connectivity problems (network).
+ */
+
+/** The tool input is invalid or incomplete; retrying the same call will not help */
+export class OCIValidationError extends Error {
+  constructor(message: string, public readonly field?: string) {
+    super(message);
+    this.name = 'OCIValidationError';
+  }
+}
+
+/** Authentication or client configuration is missing or unusable */
+export class OCIConfigurationError extends Error {
+  constructor(message: string, public readonly hint?: string) {
+    super(message);
+    this.name = 'OCIConfigurationError';
+  }
+}
+
+/** Calls to a service are paused after repeated failures (see retry.ts) */
+export class OCICircuitOpenError extends Error {
+  constructor(public readonly service: string, public readonly retryAt: Date) {
+    super(`Circuit breaker for ${service} is open after repeated failures; calls resume at ${retryAt.toISOString()}`);
+    this.name = 'OCICircuitOpenError';
+  }
+}
+
+/** A resource did not reach the requested lifecycle state (see waiters.ts) */
+export class OCIWaitError extends Error {
+  constructor(message: string, public readonly timedOut: boolean, public readonly lastState?: string) {
+    super(message);
+    this.name = 'OCIWaitError';
+  }
+}
+
+/** A multipart upload failed on a part or on its commit; `cause` is the failure (see multipart-upload.ts) */
+export class OCIMultipartUploadError extends Error {
+  constructor(
+    public readonly objectName: string,
+    public readonly uploadId: string,
+    public readonly kept: boolean,
+    public readonly cause: unknown
+  ) {
+    super(`Multipart upload ${uploadId} of ${objectName} failed and was ${kept ? 'kept for resuming' : 'aborted'}`);
+    this.name = 'OCIMultipartUploadError';
+  }
+}
+
+/** A multipart upload was committed, but the object's MD5 differs from the local file's (see multipart-upload.ts) */
+export class OCIUploadChecksumError extends Error {
+  constructor(
+    public readonly objectName: string,
+    public readonly etag: string,
+    public readonly remoteMd5: string,
+    public readonly localMd5: string
+  ) {
+    super(`${objectName} was committed (ETag ${etag}), but its multipart MD5 ${remoteMd5} does not match the local file's ${localMd5}`);
+    this.name = 'OCIUploadChecksumError';
+  }
+}
+
+/** A sync stopped at a failed transfer; `cause` is the failure (see object-sync.ts) */
+export class OCISyncError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly transferred: number,
+    public readonly total: number,
+    public readonly cause: unknown
+  ) {
+    super(`Sync stopped at ${path} after ${transferred} of ${total} transfers`);
+    this.name = 'OCISyncError';
+  }
+}
+
+// Service errors OCI documents as transient (mirrors the SDK's default retry condition)
+const RETRYABLE_STATUS_CODES = new Set([429, 500, 502, 503, 504]);
+const RETRYABLE_SERVICE_CODES = new Set(['IncorrectState', 'TooManyRequests']);
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH'
+]);
+
+// Remediation hints by service code, falling back to the HTTP status
+const SERVICE_CODE_HINTS: Record<string, string> = {
+  NotAuthorizedOrNotFound: 'The resource does not exist or IAM policies do not allow this action. Check the OCID, region and compartment, and the policies granted to your user or group.',
+  NotAuthenticated: 'The request signature was rejected. Check the tenancy, user, key fingerprint and private key, and that the system clock is correct; session tokens expire and can be renewed with "oci session refresh".',
+  NotAuthorized: 'IAM policies do not allow this action. Ask a tenancy administrator to grant the required permission.',
+  LimitExceeded: 'A service limit was reached. Free up resources or request a limit increase in the OCI Console.',
+  QuotaExceeded: 'A compartment quota was reached. Free up resources or adjust the quota policy.',
+  IncorrectState: 'The resource is in a state that does not allow this operation. Wait for its current lifecycle transition to finish and retry.',
+  Conflict: 'The request conflicts with the current state of the resource. Fetch the resource again and adjust the request.',
+  NoEtagMatch: 'The resource changed since it was read. Fetch it again and retry with the new ETag.',
+  TooManyRequests: 'OCI throttled the request. Retry after a delay and reduce the request rate.',
+  InvalidParameter: 'A request parameter was rejected by OCI. Check the values against the OCI API reference.',
+  MissingParameter: 'A required request parameter is missing.',
+  NotImplemented: 'This operation is not supported by the selected backend.'
+};
+
+const STATUS_CODE_HINTS: Record<number, string> = {
+  400: 'OCI rejected the request. Check the request parameters.',
+  401: SERVICE_CODE_HINTS.NotAuthenticated!,
+  404: SERVICE_CODE_HINTS.NotAuthorizedOrNotFound!,
+  409: SERVICE_CODE_HINTS.Conflict!,
+  412: SERVICE_CODE_HINTS.NoEtagMatch!,
+  429: SERVICE_CODE_HINTS.TooManyRequests!
+};
+
+const SERVER_ERROR_HINT = 'OCI returned a server error. Retry later; if it persists, contact Oracle support with the opc-request-id.';
+
+/**
+ * Classify any thrown value into a structured error detail
+ */
+export function toOCIError(error: unknown): OCIErrorDetail {
+  if (error instanceof ZodError) {
+    const issues = flattenIssues(error.issues).map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+    return {
+      type: 'validation',
+      message: issues.map(issue => `${issue.path || 'input'}: ${issue.message}`).join('; '),
+      retryable: false,
+      issues
+    };
+  }
+
+  if (error instanceof OCIValidationError) {
+    return {
+      type: 'validation',
+      message: error.message,
+      retryable: false,
+      ...(error.field ? { issues: [{ path: error.field, message: error.message }] } : {})
+    };
+  }
+
+  if (error instanceof OCIConfigurationError) {
+    return {
+      type: 'configuration',
+      message: error.message,
+      retryable: false,
+      hint: error.hint ?? 'Check the OCI_* environment variables or the OCI config file profile in use.'
+    };
+  }
+
+  if (error instanceof OCICircuitOpenError) {
+    return {
+      type: 'service',
+      message: error.message,
+      serviceCode: 'CircuitOpen',
+      retryable: true,
+      hint: `OCI ${error.service} calls failed repeatedly, so new calls are rejected without contacting OCI until ${error.retryAt.toISOString()}. Check the OCI status page and retry after that time.`
+    };
+  }
+
+  if (error instanceof OCIWaitError) {
+    return {
+      type: 'service',
+      message: error.message,
+      serviceCode: error.timedOut ? 'WaitTimeout' : 'UnexpectedState',
+      retryable: false,
+      hint: error.timedOut
+        ? 'The request was accepted and the operation is still in progress in OCI. Use get to follow it, or pass a longer waitTimeoutSeconds next time.'
+        : 'The resource entered a state it will not leave on its own. Check it in the OCI Console or its work requests.'
+    };
+  }
+
+  if (error instanceof OCIMultipartUploadError) {
+    // Classified by what made the upload fail
+    const cause = toOCIError(error.cause);
+    return {
+      ...cause,
+      message: `${error.message}: ${cause.message}`,
+      hint: error.kept
+        ? `The parts uploaded so far are kept. Resume with uploadId ${error.uploadId}, or remove them with abort-multipart-upload.`
+        : cause.hint
+    };
+  }
+
+  if (error instanceof OCIUploadChecksumError) {
+    return {
+      type: 'service',
+      message: error.message,
+      serviceCode: 'ChecksumMismatch',
+      retryable: true,
+      hint: `The object now in the bucket does not match the file. Upload it again, or delete it if the upload is abandoned (ETag ${error.etag}).`
+    };
+  }
+
+  if (error instanceof OCISyncError) {
+    const cause = toOCIError(error.cause);
+    return {
+      ...cause,
+      message: `${error.message}: ${cause.message}`,
+      hint: `${cause.hint ? `${cause.hint} ` : ''}Run the sync again to continue; files already transferred are skipped and no deletions were made.`
+    };
+  }
+
+  if (error instanceof oci.common.OciError && error.statusCode > 0) {
+    return {
+      type: 'service',
+      message: error.message,
+      statusCode: error.statusCode,
+      serviceCode: error.serviceCode || undefined,
+      opcRequestId: error.opcRequestId || undefined,
+      operationName: error.operationName || undefined,
+      retryable: RETRYABLE_STATUS_CODES.has(error.statusCode)
+        || (error.statusCode === 409 && RETRYABLE_SERVICE_CODES.has(error.serviceCode)),
+      hint: SERVICE_CODE_HINTS[error.serviceCode]
+        ?? STATUS_CODE_HINTS[error.statusCode]
+        ?? (error.statusCode >= 500 ? SERVER_ERROR_HINT : undefined)
+    };
+  }
+
+  if (isNetworkError(error)) {
+    return {
+      type: 'network',
+      message: errorMessage(error),
+      retryable: true,
+      hint: 'The OCI endpoint could not be reached. Check network connectivity, proxy settings and the region name.'
+    };
+  }
+
+  return {
+    type: 'internal',
+    message: errorMessage(error),
+    retryable: false
+  };
+}
+
+/**
+ * Failed tool result carrying the structured error
+ */
+export function toErrorResponse(error: unknown): OCIErrorResponse {
+  const detail = toOCIError(error);
+  return {
+    success: false,
+    message: formatOCIError(detail),
+    error: detail
+  };
+}
+
+/**
+ * One-line summary, e.g. "OCI API Error (404 NotAuthorizedOrNotFound): ..."
+ */
+export function formatOCIError(detail: OCIErrorDetail): string {
+  switch (detail.type) {
+    case 'service':
+      return `OCI API Error (${[detail.statusCode, detail.serviceCode].filter(Boolean).join(' ')}): ${detail.message}`;
+    case 'validation':
+      return `Invalid input: ${detail.message}`;
+    case 'configuration':
+      return `OCI configuration error: ${detail.message}`;
+    case 'network':
+      return `OCI network error: ${detail.message}`;
+    default:
+      return `OCI Error: ${detail.message}`;
+  }
+}
+
+/**
+ * Tool inputs are unions of per-action schemas, and Zod reports a mismatch as
+ * a single "Invalid input". Report the issues of the closest alternative
+ * (the one with the fewest issues) instead.
+ */
+function flattenIssues(issues: ZodIssue[]): ZodIssue[] {
+  return issues.flatMap(issue => {
+    if (issue.code !== 'invalid_union' || issue.unionErrors.length === 0) {
+      return [issue];
+    }
+    const closest = issue.unionErrors.reduce((best, candidate) =>
+      candidate.issues.length < best.issues.length ? candidate : best
+    );
+    return flattenIssues(closest.issues);
+  });
+}
+
+function isNetworkError(error: unknown): boolean {
+  if (error instanceof oci.common.OciError) {
+    // The SDK reports client-side failures (timeouts, resets) with a status of -1
+    return true;
+  }
+  const candidate = error as { code?: string; cause?: { code?: string } } | undefined;
+  const code = candidate?.code ?? candidate?.cause?.code;
+  return Boolean(code && (NETWORK_ERROR_CODES.has(code) || code.startsWith('UND_ERR_')))
+    || (error instanceof TypeError && error.message === 'fetch failed');
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return String(error);
+}
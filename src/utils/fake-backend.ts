@@ -0,0 +1,3343 @@
+import * as oci from 'oci-sdk';
+import { createHash, randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { OCIBackend } from './oci-backend.js';
+import { recordRetryAfter } from './retry.js';
+import { OCIAuthConfigInput, OCITarget } from '../types/oci.js';
+
+/**
+ * In-memory OCI cloud used for offline testing.
+ *
+ * Each fake client implements the subset of oci-sdk client methods the tool
+ * managers call, with request and response shapes matching the SDK. State is
+ * kept in a FakeCloudState so several clients observe the same resources.
+ * Calling a method that is not implemented rejects with a 501 OciError.
+ */
+
+type Resource = Record<string, any>;
+
+export interface FakeOCIBackendOptions {
+  tenancyId?: string;
+  region?: string;
+  namespace?: string;
+}
+
+export class FakeCloudState {
+  public readonly instances = new Map<string, Resource>();
+  public readonly images = new Map<string, Resource>();
+  // Shape compatibility entries by image ID
+  public readonly imageShapes = new Map<string, Resource[]>();
+  public readonly shapes: Resource[] = [];
+  public readonly consoleHistories = new Map<string, Resource>();
+  // Captured serial console output by console history ID
+  public readonly consoleHistoryContent = new Map<string, Buffer>();
+  public readonly consoleConnections = new Map<string, Resource>();
+  public readonly instanceConfigurations = new Map<string, Resource>();
+  public readonly instancePools = new Map<string, Resource>();
+  // Member instance IDs by instance pool ID, oldest first
+  public readonly instancePoolMembers = new Map<string, string[]>();
+  public readonly autoScalingConfigurations = new Map<string, Resource>();
+  public readonly instanceAgentCommands = new Map<string, Resource>();
+  // Run command executions by `${commandId}/${instanceId}`
+  public readonly instanceAgentCommandExecutions = new Map<string, Resource>();
+  public readonly volumes = new Map<string, Resource>();
+  public readonly volumeAttachments = new Map<string, Resource>();
+  public readonly bootVolumes = new Map<string, Resource>();
+  public readonly bootVolumeBackups = new Map<string, Resource>();
+  public readonly bootVolumeAttachments = new Map<string, Resource>();
+  public readonly volumeBackups = new Map<string, Resource>();
+  public readonly volumeGroups = new Map<string, Resource>();
+  public readonly volumeGroupBackups = new Map<string, Resource>();
+  public readonly backupPolicies = new Map<string, Resource>();
+  public readonly backupPolicyAssignments = new Map<string, Resource>();
+  public readonly buckets = new Map<string, Resource>();
+  public readonly objects = new Map<string, Map<string, FakeObject>>();
+  // Previous object versions and delete markers by bucket key, newest first
+  public readonly objectVersions = new Map<string, FakeObject[]>();
+  public readonly multipartUploads = new Map<string, FakeMultipartUpload>();
+  public readonly lifecyclePolicies = new Map<string, Resource>();
+  // Retention rules by bucket key, then rule ID
+  public readonly retentionRules = new Map<string, Map<string, Resource>>();
+  // Pre-authenticated requests by PAR ID, with the bucket they belong to
+  public readonly preauthenticatedRequests = new Map<string, Resource>();
+  // Object Storage work requests (object copies), which are separate from Core's
+  public readonly objectStorageWorkRequests = new Map<string, Resource>();
+  public readonly vcns = new Map<string, Resource>();
+  public readonly subnets = new Map<string, Resource>();
+  public readonly securityLists = new Map<string, Resource>();
+  public readonly routeTables = new Map<string, Resource>();
+  public readonly internetGateways = new Map<string, Resource>();
+  public readonly natGateways = new Map<string, Resource>();
+  public readonly networkSecurityGroups = new Map<string, Resource>();
+  public readonly vnics = new Map<string, Resource>();
+  public readonly vnicAttachments = new Map<string, Resource>();
+  public readonly privateIps = new Map<string, Resource>();
+  public readonly publicIps = new Map<string, Resource>();
+  public readonly alarms = new Map<string, Resource>();
+  public readonly logGroups = new Map<string, Resource>();
+  public readonly users = new Map<string, Resource>();
+  public readonly groups = new Map<string, Resource>();
+  public readonly policies = new Map<string, Resource>();
+  public readonly memberships = new Map<string, Resource>();
+  public readonly autonomousDatabases = new Map<string, Resource>();
+  public readonly workRequests = new Map<string, FakeWorkRequest>();
+
+  // Failures returned instead of running an operation, for exercising retries offline
+  public readonly faults: FakeFault[] = [];
+
+  private counter = 0;
+
+  constructor(
+    public readonly tenancyId: string,
+    public readonly region: string,
+    public readonly namespace: string,
+    // Every tenancy and region of the same fake cloud, for cross-region operations
+    private readonly peers = new Map<string, FakeCloudState>()
+  ) {
+    peers.set(`${tenancyId}@${region}`, this);
+    this.seed();
+  }
+
+  /** The state of another tenancy or region of the same fake cloud, created on first use */
+  public peer(tenancyId: string, region: string, namespace: string): FakeCloudState {
+    return this.peers.get(`${tenancyId}@${region}`) ?? new FakeCloudState(tenancyId, region, namespace, this.peers);
+  }
+
+  /** Fail the next `times` calls (default 1) of an operation, e.g. listInstances */
+  public injectFault(fault: FakeFault): void {
+    this.faults.push({ times: 1, ...fault });
+  }
+
+  /**
+   * Record a Core work request for a mutating operation. Operations complete
+   * immediately, so the work request is already SUCCEEDED.
+   */
+  public recordWorkRequest(operationType: string, compartmentId: string | undefined, entityType: string, actionType: string, identifier: string): string {
+    const id = this.ocid('coreservicesworkrequest');
+    const now = new Date();
+    this.workRequests.set(id, {
+      workRequest: {
+        id,
+        operationType,
+        status: 'SUCCEEDED',
+        compartmentId,
+        resources: [{ entityType, actionType, identifier }],
+        percentComplete: 100,
+        timeAccepted: now,
+        timeStarted: now,
+        timeFinished: now
+      },
+      logs: [
+        { message: `${operationType} accepted`, timestamp: now },
+        { message: `${operationType} succeeded`, timestamp: now }
+      ],
+      errors: []
+    });
+    return id;
+  }
+
+  /** Create an AVAILABLE boot volume, as launches, clones and restores do */
+  public createBootVolume(details: Resource): Resource {
+    const id = this.ocid('bootvolume');
+    const sizeInGBs = details.sizeInGBs || 47;
+    const bootVolume = {
+      id,
+      compartmentId: details.compartmentId,
+      availabilityDomain: details.availabilityDomain,
+      displayName: details.displayName || id,
+      imageId: details.imageId,
+      sizeInGBs,
+      sizeInMBs: sizeInGBs * 1024,
+      vpusPerGB: details.vpusPerGB ?? 10,
+      sourceDetails: details.sourceDetails,
+      volumeGroupId: undefined,
+      isHydrated: true,
+      freeformTags: details.freeformTags || {},
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date()
+    };
+    this.bootVolumes.set(id, bootVolume);
+    return bootVolume;
+  }
+
+  /** Attach a boot volume to an instance */
+  public attachBootVolume(instance: Resource, bootVolume: Resource): Resource {
+    const id = this.ocid('instance-boot-volume-attachment');
+    const attachment = {
+      id,
+      compartmentId: instance.compartmentId,
+      availabilityDomain: instance.availabilityDomain,
+      instanceId: instance.id,
+      bootVolumeId: bootVolume.id,
+      displayName: 'Remote boot attachment for instance',
+      isPvEncryptionInTransitEnabled: false,
+      lifecycleState: 'ATTACHED',
+      timeCreated: new Date()
+    };
+    this.bootVolumeAttachments.set(id, attachment);
+    return attachment;
+  }
+
+  /** The attachment of a boot volume or of an instance's boot volume, if attached */
+  public activeBootVolumeAttachment(match: { instanceId?: string; bootVolumeId?: string }): Resource | undefined {
+    return Array.from(this.bootVolumeAttachments.values()).find(attachment =>
+      attachment.lifecycleState === 'ATTACHED'
+      && (!match.instanceId || attachment.instanceId === match.instanceId)
+      && (!match.bootVolumeId || attachment.bootVolumeId === match.bootVolumeId)
+    );
+  }
+
+  /**
+   * Create a VNIC with its primary private IP (and an ephemeral public IP
+   * where the subnet allows one) and attach it to an instance
+   */
+  public attachVnic(instance: Resource, vnicDetails: Resource, isPrimary: boolean, options: { displayName?: string; nicIndex?: number }, operationName: string): Resource {
+    const subnet = lookup(this.subnets, 'Subnet', vnicDetails.subnetId, operationName);
+    const assignPublicIp = vnicDetails.assignPublicIp ?? !subnet.prohibitPublicIpOnVnic;
+    if (assignPublicIp && subnet.prohibitPublicIpOnVnic) {
+      throw serviceError(400, 'InvalidParameter', `Subnet ${subnet.id} prohibits public IPs on its VNICs`, operationName);
+    }
+
+    const vnicId = this.ocid('vnic');
+    const vnic = {
+      id: vnicId,
+      compartmentId: instance.compartmentId,
+      availabilityDomain: instance.availabilityDomain,
+      subnetId: subnet.id,
+      displayName: vnicDetails.displayName || vnicId,
+      hostnameLabel: vnicDetails.hostnameLabel,
+      isPrimary,
+      macAddress: `02:00:17:${vnicId.slice(-6).match(/../g)!.join(':')}`,
+      nsgIds: vnicDetails.nsgIds || [],
+      skipSourceDestCheck: vnicDetails.skipSourceDestCheck || false,
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date()
+    };
+    this.vnics.set(vnicId, vnic);
+    const privateIp = this.createPrivateIp(vnic, { ipAddress: vnicDetails.privateIp, hostnameLabel: vnicDetails.hostnameLabel }, true, operationName);
+    if (assignPublicIp) {
+      this.createPublicIp({ compartmentId: instance.compartmentId, lifetime: 'EPHEMERAL', privateIpId: privateIp.id }, operationName);
+    }
+
+    const id = this.ocid('vnicattachment');
+    const attachment = {
+      id,
+      compartmentId: instance.compartmentId,
+      availabilityDomain: instance.availabilityDomain,
+      instanceId: instance.id,
+      subnetId: subnet.id,
+      vnicId,
+      displayName: options.displayName || id,
+      nicIndex: options.nicIndex ?? 0,
+      vlanTag: 0,
+      lifecycleState: 'ATTACHED',
+      timeCreated: new Date()
+    };
+    this.vnicAttachments.set(id, attachment);
+    return attachment;
+  }
+
+  /** Detach a VNIC and release its addresses */
+  public detachVnic(attachment: Resource): void {
+    attachment.lifecycleState = 'DETACHED';
+    const vnic = this.vnics.get(attachment.vnicId);
+    if (!vnic) {
+      return;
+    }
+    vnic.lifecycleState = 'TERMINATED';
+    for (const privateIp of Array.from(this.privateIps.values())) {
+      if (privateIp.vnicId === vnic.id) {
+        this.deletePrivateIp(privateIp);
+      }
+    }
+  }
+
+  /** Add a private IP to a VNIC, at the requested address or the lowest free one in its subnet */
+  public createPrivateIp(vnic: Resource, details: { ipAddress?: string; hostnameLabel?: string; displayName?: string }, isPrimary: boolean, operationName: string): Resource {
+    const subnet = lookup(this.subnets, 'Subnet', vnic.subnetId, operationName);
+    const used = new Set(Array.from(this.privateIps.values()).filter(privateIp => privateIp.subnetId === subnet.id).map(privateIp => privateIp.ipAddress));
+    const [network, prefix] = subnet.cidrBlock.split('/');
+    const base = ipv4ToNumber(network);
+    // The first two addresses and the last one of a subnet are reserved
+    const first = base + 2;
+    const last = base + 2 ** (32 - Number(prefix)) - 2;
+
+    let ipAddress = details.ipAddress;
+    if (ipAddress) {
+      const value = ipv4ToNumber(ipAddress);
+      if (!(value >= first && value <= last)) {
+        throw serviceError(400, 'InvalidParameter', `${ipAddress} is not an available address in subnet ${subnet.cidrBlock}`, operationName);
+      }
+      if (used.has(ipAddress)) {
+        throw conflict(`${ipAddress} is already in use in subnet ${subnet.id}`, operationName);
+      }
+    } else {
+      for (let value = first; value <= last && !ipAddress; value++) {
+        if (!used.has(numberToIpv4(value))) {
+          ipAddress = numberToIpv4(value);
+        }
+      }
+      if (!ipAddress) {
+        throw serviceError(400, 'LimitExceeded', `Subnet ${subnet.id} has no free addresses`, operationName);
+      }
+    }
+
+    const id = this.ocid('privateip');
+    const privateIp = {
+      id,
+      compartmentId: vnic.compartmentId,
+      availabilityDomain: vnic.availabilityDomain,
+      subnetId: subnet.id,
+      vnicId: vnic.id,
+      ipAddress,
+      hostnameLabel: details.hostnameLabel,
+      displayName: details.displayName || ipAddress,
+      isPrimary,
+      timeCreated: new Date()
+    };
+    this.privateIps.set(id, privateIp);
+    return privateIp;
+  }
+
+  /** Delete a private IP: its ephemeral public IP goes with it, a reserved one is unassigned */
+  public deletePrivateIp(privateIp: Resource): void {
+    this.privateIps.delete(privateIp.id);
+    const publicIp = this.assignedPublicIp(privateIp.id);
+    if (publicIp?.lifetime === 'EPHEMERAL') {
+      publicIp.lifecycleState = 'TERMINATED';
+      publicIp.assignedEntityId = undefined;
+    } else if (publicIp) {
+      publicIp.lifecycleState = 'AVAILABLE';
+      publicIp.assignedEntityId = undefined;
+    }
+  }
+
+  public createPublicIp(details: Resource, operationName: string): Resource {
+    if (details.privateIpId) {
+      lookup(this.privateIps, 'Private IP', details.privateIpId, operationName);
+      if (this.assignedPublicIp(details.privateIpId)) {
+        throw conflict(`Private IP ${details.privateIpId} already has a public IP`, operationName);
+      }
+    } else if (details.lifetime === 'EPHEMERAL') {
+      throw serviceError(400, 'InvalidParameter', 'Ephemeral public IPs need a private IP', operationName);
+    }
+
+    const id = this.ocid('publicip');
+    const privateIp = details.privateIpId ? this.privateIps.get(details.privateIpId) : undefined;
+    const ephemeral = details.lifetime === 'EPHEMERAL';
+    const publicIp = {
+      id,
+      compartmentId: details.compartmentId,
+      ipAddress: `203.0.113.${(this.publicIps.size % 250) + 1}`,
+      lifetime: details.lifetime,
+      scope: ephemeral ? 'AVAILABILITY_DOMAIN' : 'REGION',
+      availabilityDomain: ephemeral ? privateIp?.availabilityDomain : undefined,
+      assignedEntityId: details.privateIpId,
+      assignedEntityType: 'PRIVATE_IP',
+      displayName: details.displayName || id,
+      publicIpPoolId: details.publicIpPoolId,
+      lifecycleState: details.privateIpId ? 'ASSIGNED' : 'AVAILABLE',
+      timeCreated: new Date()
+    };
+    this.publicIps.set(id, publicIp);
+    return publicIp;
+  }
+
+  /** The public IP assigned to a private IP, if any */
+  public assignedPublicIp(privateIpId: string): Resource | undefined {
+    return Array.from(this.publicIps.values()).find(publicIp =>
+      publicIp.assignedEntityId === privateIpId && publicIp.lifecycleState !== 'TERMINATED'
+    );
+  }
+
+  /** Write an object the way a service does (image exports), like putObject without the checks on the body */
+  public storeObject(namespaceName: string, bucketName: string, objectName: string, body: Buffer, operationName: string): void {
+    const key = `${namespaceName}/${bucketName}`;
+    if (namespaceName !== this.namespace || !this.buckets.has(key)) {
+      throw notFound('Bucket', bucketName, operationName);
+    }
+    this.writeObject(key, {
+      name: objectName,
+      body,
+      contentType: 'application/octet-stream',
+      md5: createHash('md5').update(body).digest('base64')
+    }, operationName);
+  }
+
+  /**
+   * Make an object the current version of its name. The version it replaces
+   * is kept when the bucket has versioning enabled; retention rules can
+   * forbid replacing it at all.
+   */
+  public writeObject(key: string, fields: Pick<FakeObject, 'name' | 'body' | 'contentType' | 'md5'> & Partial<FakeObject>, operationName: string): FakeObject {
+    const bucket = this.buckets.get(key)!;
+    const objects = this.bucketObjects(key);
+    const existing = objects.get(fields.name);
+    if (existing) {
+      this.checkRetention(key, existing, operationName);
+    }
+
+    const now = new Date();
+    const storageTier = fields.storageTier || bucket.storageTier || 'Standard';
+    const object: FakeObject = {
+      ...fields,
+      etag: randomUUID(),
+      versionId: randomUUID(),
+      storageTier,
+      archivalState: storageTier === 'Archive' ? 'Archived' : undefined,
+      timeCreated: bucket.versioning === 'Enabled' ? now : existing?.timeCreated || now,
+      timeModified: now
+    };
+    if (existing && bucket.versioning === 'Enabled') {
+      this.previousVersions(key).unshift(existing);
+    }
+    objects.set(fields.name, object);
+    return object;
+  }
+
+  /**
+   * Delete an object like deleteObject: without a version ID the current
+   * version goes (behind a delete marker when versioning is enabled); with
+   * one, that version is deleted for good and the next one becomes current.
+   */
+  public removeObject(key: string, objectName: string, versionId: string | undefined, operationName: string): void {
+    const bucket = this.buckets.get(key)!;
+    const objects = this.bucketObjects(key);
+    const previous = this.previousVersions(key);
+    const current = objects.get(objectName);
+
+    if (!versionId || current?.versionId === versionId) {
+      if (!current) {
+        throw serviceError(404, 'ObjectNotFound', `Object ${objectName} not found`, operationName);
+      }
+      this.checkRetention(key, current, operationName);
+      objects.delete(objectName);
+      if (!versionId && bucket.versioning === 'Enabled') {
+        const now = new Date();
+        previous.unshift(current);
+        previous.unshift({
+          name: objectName, body: Buffer.alloc(0), contentType: '', md5: '', etag: randomUUID(), versionId: randomUUID(),
+          storageTier: current.storageTier, timeCreated: now, timeModified: now, isDeleteMarker: true
+        });
+      } else if (versionId) {
+        const index = previous.findIndex(version => version.name === objectName);
+        if (index >= 0 && !previous[index]!.isDeleteMarker) {
+          objects.set(objectName, previous.splice(index, 1)[0]!);
+        }
+      }
+      return;
+    }
+
+    const index = previous.findIndex(version => version.name === objectName && version.versionId === versionId);
+    if (index < 0) {
+      throw serviceError(404, 'ObjectNotFound', `Version ${versionId} of ${objectName} not found`, operationName);
+    }
+    if (!previous[index]!.isDeleteMarker) {
+      this.checkRetention(key, previous[index]!, operationName);
+    }
+    previous.splice(index, 1);
+  }
+
+  /** The current version of an object, or the given version (never a delete marker) */
+  public findObject(key: string, objectName: string, versionId?: string): FakeObject | undefined {
+    const current = this.bucketObjects(key).get(objectName);
+    if (!versionId || current?.versionId === versionId) {
+      return current;
+    }
+    return this.previousVersions(key).find(version => version.name === objectName && version.versionId === versionId && !version.isDeleteMarker);
+  }
+
+  public bucketObjects(key: string): Map<string, FakeObject> {
+    let objects = this.objects.get(key);
+    if (!objects) {
+      objects = new Map();
+      this.objects.set(key, objects);
+    }
+    return objects;
+  }
+
+  public previousVersions(key: string): FakeObject[] {
+    let versions = this.objectVersions.get(key);
+    if (!versions) {
+      versions = [];
+      this.objectVersions.set(key, versions);
+    }
+    return versions;
+  }
+
+  // Objects under a retention rule cannot be overwritten or deleted until the rule's duration has passed
+  private checkRetention(key: string, object: FakeObject, operationName: string): void {
+    for (const rule of this.retentionRules.get(key)?.values() ?? []) {
+      const days = rule.duration ? rule.duration.timeAmount * (rule.duration.timeUnit === 'YEARS' ? 365 : 1) : Infinity;
+      if (object.timeModified.getTime() + days * 86400 * 1000 > Date.now()) {
+        throw conflict(`Object ${object.name} is protected by retention rule ${rule.displayName}`, operationName);
+      }
+    }
+  }
+
+  /** Whether an object exists in this tenancy and region */
+  public hasObject(namespaceName: string, bucketName: string, objectName: string): boolean {
+    return Boolean(this.objects.get(`${namespaceName}/${bucketName}`)?.has(objectName));
+  }
+
+  /** Generate an OCID for a new resource of the given type */
+  public ocid(resourceType: string): string {
+    this.counter += 1;
+    return `ocid1.${resourceType}.oc1.${this.region}.fake${String(this.counter).padStart(6, '0')}`;
+  }
+
+  private seed(): void {
+    const imageSeeds = [
+      { displayName: 'Oracle-Linux-8.9-2024.01.26-0', operatingSystem: 'Oracle Linux', operatingSystemVersion: '8' },
+      { displayName: 'Canonical-Ubuntu-22.04-2024.02.18-0', operatingSystem: 'Canonical Ubuntu', operatingSystemVersion: '22.04' }
+    ];
+    for (const seed of imageSeeds) {
+      const id = this.ocid('image');
+      this.images.set(id, {
+        id,
+        compartmentId: undefined,
+        ...seed,
+        lifecycleState: 'AVAILABLE',
+        sizeInMBs: 47694,
+        timeCreated: new Date()
+      });
+    }
+
+    this.shapes.push(
+      { shape: 'VM.Standard2.1', ocpus: 1, memoryInGBs: 15, isFlexible: false, resizeCompatibleShapes: ['VM.Standard2.2', 'VM.Standard.E4.Flex'] },
+      { shape: 'VM.Standard2.2', ocpus: 2, memoryInGBs: 30, isFlexible: false, resizeCompatibleShapes: ['VM.Standard2.1', 'VM.Standard.E4.Flex'] },
+      {
+        shape: 'VM.Standard.E4.Flex',
+        ocpus: 1,
+        memoryInGBs: 16,
+        isFlexible: true,
+        ocpuOptions: { min: 1, max: 64 },
+        memoryOptions: { minInGBs: 1, maxInGBs: 1024, defaultPerOcpuInGBs: 16, minPerOcpuInGBs: 1, maxPerOcpuInGBs: 64 },
+        baselineOcpuUtilizations: ['BASELINE_1_8', 'BASELINE_1_2', 'BASELINE_1_1'],
+        resizeCompatibleShapes: ['VM.Standard2.1', 'VM.Standard2.2']
+      },
+      {
+        shape: 'VM.Standard.A1.Flex',
+        ocpus: 1,
+        memoryInGBs: 6,
+        isFlexible: true,
+        ocpuOptions: { min: 1, max: 80 },
+        memoryOptions: { minInGBs: 1, maxInGBs: 512, defaultPerOcpuInGBs: 6, minPerOcpuInGBs: 1, maxPerOcpuInGBs: 64 },
+        resizeCompatibleShapes: []
+      }
+    );
+
+    for (const imageId of this.images.keys()) {
+      this.imageShapes.set(imageId, this.shapes.map(shape => ({ imageId, shape: shape.shape })));
+    }
+
+    // Oracle-defined backup policies have no compartment
+    const policySeeds = [
+      { displayName: 'bronze', schedules: [{ backupType: 'INCREMENTAL', period: 'ONE_MONTH', retentionSeconds: 31536000 }] },
+      { displayName: 'silver', schedules: [{ backupType: 'INCREMENTAL', period: 'ONE_WEEK', retentionSeconds: 2419200 }] },
+      { displayName: 'gold', schedules: [{ backupType: 'INCREMENTAL', period: 'ONE_DAY', retentionSeconds: 604800 }] }
+    ];
+    for (const seed of policySeeds) {
+      const id = this.ocid('volumebackuppolicy');
+      this.backupPolicies.set(id, { id, compartmentId: undefined, ...seed, timeCreated: new Date() });
+    }
+  }
+}
+
+interface FakeWorkRequest {
+  workRequest: Resource;
+  logs: Resource[];
+  errors: Resource[];
+}
+
+export interface FakeFault {
+  operation: string;
+  statusCode: number;
+  serviceCode: string;
+  times?: number;
+  retryAfterSeconds?: number;
+}
+
+interface FakeObject {
+  name: string;
+  body: Buffer;
+  contentType: string;
+  md5: string;
+  etag: string;
+  versionId: string;
+  storageTier: string;
+  archivalState?: string;
+  timeOfArchival?: Date;
+  isDeleteMarker?: boolean;
+  timeCreated: Date;
+  timeModified: Date;
+  opcMeta?: Record<string, string>;
+  // Set for objects committed from a multipart upload, which have no plain MD5
+  multipartMd5?: string;
+}
+
+type FakeUploadRequest = { namespaceName: string; bucketName: string; objectName: string; uploadId: string };
+
+interface FakeMultipartUpload {
+  namespace: string;
+  bucket: string;
+  object: string;
+  uploadId: string;
+  timeCreated: Date;
+  contentType?: string;
+  parts: Map<number, { body: Buffer; md5: string; etag: string; lastModified: Date }>;
+}
+
+export class FakeOCIBackend implements OCIBackend {
+  public readonly name = 'fake';
+  public readonly requiresAuthentication = false;
+  public readonly defaultAuthConfig: OCIAuthConfigInput;
+  public readonly state: FakeCloudState;
+
+  public computeClient: oci.core.ComputeClient;
+  public computeManagementClient: oci.core.ComputeManagementClient;
+  public virtualNetworkClient: oci.core.VirtualNetworkClient;
+  public blockstorageClient: oci.core.BlockstorageClient;
+  public objectStorageClient: oci.objectstorage.ObjectStorageClient;
+  public identityClient: oci.identity.IdentityClient;
+  public workRequestClient: oci.workrequests.WorkRequestClient;
+  public databaseClient: oci.database.DatabaseClient;
+  public monitoringClient: oci.monitoring.MonitoringClient;
+  public loggingClient: oci.logging.LoggingManagementClient;
+  public loadBalancerClient: oci.loadbalancer.LoadBalancerClient;
+  public networkLoadBalancerClient: oci.networkloadbalancer.NetworkLoadBalancerClient;
+  public autoScalingClient: oci.autoscaling.AutoScalingClient;
+  public instanceAgentClient: oci.computeinstanceagent.ComputeInstanceAgentClient;
+
+  constructor(options: FakeOCIBackendOptions = {}, state?: FakeCloudState) {
+    this.state = state ?? new FakeCloudState(
+      options.tenancyId || 'ocid1.tenancy.oc1..fake',
+      options.region || 'us-ashburn-1',
+      options.namespace || 'fakenamespace'
+    );
+    this.defaultAuthConfig = {
+      tenancyId: this.state.tenancyId,
+      userId: 'ocid1.user.oc1..fake',
+      keyFingerprint: '00:00:00:00:00:00:00:00:00:00:00:00:00:00:00:00',
+      privateKeyPath: '/dev/null',
+      region: this.state.region
+    };
+
+    this.computeClient = asClient(this.state, 'Compute', new FakeComputeClient(this.state));
+    this.computeManagementClient = asClient(this.state, 'ComputeManagement', new FakeComputeManagementClient(this.state, new FakeComputeClient(this.state)));
+    this.virtualNetworkClient = asClient(this.state, 'VirtualNetwork', new FakeVirtualNetworkClient(this.state));
+    this.blockstorageClient = asClient(this.state, 'Blockstorage', new FakeBlockstorageClient(this.state));
+    this.objectStorageClient = asClient(this.state, 'ObjectStorage', new FakeObjectStorageClient(this.state));
+    this.identityClient = asClient(this.state, 'Identity', new FakeIdentityClient(this.state));
+    this.workRequestClient = asClient(this.state, 'WorkRequest', new FakeWorkRequestClient(this.state));
+    this.databaseClient = asClient(this.state, 'Database', new FakeDatabaseClient(this.state));
+    this.monitoringClient = asClient(this.state, 'Monitoring', new FakeMonitoringClient(this.state));
+    this.loggingClient = asClient(this.state, 'LoggingManagement', new FakeLoggingClient(this.state));
+    this.loadBalancerClient = asClient(this.state, 'LoadBalancer', new FakeEmptyListClient(['listLoadBalancers', 'listWorkRequests']));
+    this.networkLoadBalancerClient = asClient(this.state, 'NetworkLoadBalancer', new FakeEmptyListClient(['listNetworkLoadBalancers', 'listWorkRequests']));
+    this.autoScalingClient = asClient(this.state, 'AutoScaling', new FakeAutoScalingClient(this.state));
+    this.instanceAgentClient = asClient(this.state, 'ComputeInstanceAgent', new FakeInstanceAgentClient(this.state, new FakeObjectStorageClient(this.state)));
+  }
+
+  /**
+   * A separate in-memory cloud for another region, or for another tenancy
+   * when a profile is given, so resources do not leak between them
+   */
+  public forTarget(target: OCITarget): FakeOCIBackend {
+    const profile = target.profile?.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return new FakeOCIBackend({}, this.state.peer(
+      profile ? `ocid1.tenancy.oc1..fake${profile}` : this.state.tenancyId,
+      target.region || this.state.region,
+      profile ? `fake${profile}` : this.state.namespace
+    ));
+  }
+}
+
+// Helpers
+
+function asClient<T>(state: FakeCloudState, service: string, impl: object): T {
+  return new Proxy(impl, {
+    get(target, prop, receiver) {
+      if (typeof prop === 'symbol') {
+        return Reflect.get(target, prop, receiver);
+      }
+      if (prop === 'then') {
+        return undefined;
+      }
+
+      const fault = state.faults.find(candidate => candidate.operation === prop && (candidate.times ?? 1) > 0);
+      if (fault) {
+        return () => {
+          fault.times = (fault.times ?? 1) - 1;
+          const error = serviceError(fault.statusCode, fault.serviceCode, `Injected ${fault.serviceCode} failure for ${service}.${prop}`, prop);
+          if (fault.retryAfterSeconds !== undefined) {
+            recordRetryAfter(error.opcRequestId, String(fault.retryAfterSeconds));
+          }
+          return Promise.reject(error);
+        };
+      }
+
+      if (prop in target) {
+        return Reflect.get(target, prop, receiver);
+      }
+      return () => Promise.reject(serviceError(501, 'NotImplemented', `${service}.${prop} is not supported by the in-memory OCI backend`, prop));
+    }
+  }) as T;
+}
+
+function serviceError(statusCode: number, serviceCode: string, message: string, operationName: string): oci.common.OciError {
+  return new oci.common.OciError(
+    statusCode,
+    serviceCode,
+    message,
+    requestId(),
+    'fake',
+    operationName,
+    new Date().toISOString(),
+    'memory://fake',
+    ''
+  );
+}
+
+function notFound(kind: string, id: string, operationName: string): oci.common.OciError {
+  return serviceError(404, 'NotAuthorizedOrNotFound', `${kind} ${id} not found or not authorized`, operationName);
+}
+
+function conflict(message: string, operationName: string): oci.common.OciError {
+  return serviceError(409, 'Conflict', message, operationName);
+}
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function numberToIpv4(value: number): string {
+  return [24, 16, 8, 0].map(shift => Math.floor(value / 2 ** shift) % 256).join('.');
+}
+
+function requestId(): string {
+  return randomUUID().replace(/-/g, '').toUpperCase();
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function lookup(map: Map<string, Resource>, kind: string, id: string, operationName: string): Resource {
+  const resource = map.get(id);
+  if (!resource) {
+    throw notFound(kind, id, operationName);
+  }
+  return resource;
+}
+
+/**
+ * Apply the common list filters (compartment, AD, name, state, VCN) that are
+ * present on the request and known to the resource.
+ */
+function filterResources(resources: Iterable<Resource>, request: Resource): Resource[] {
+  const keys = ['compartmentId', 'availabilityDomain', 'displayName', 'lifecycleState', 'vcnId', 'instanceId', 'volumeId', 'bootVolumeId', 'volumeGroupId'];
+  return Array.from(resources).filter(resource =>
+    keys.every(key => request[key] === undefined || resource[key] === undefined || resource[key] === request[key])
+  );
+}
+
+/** Offset-based paging that mimics opc-next-page tokens */
+function paginate(items: Resource[], request: { limit?: number; page?: string }) {
+  const start = request.page ? Number(request.page) : 0;
+  const end = request.limit ? start + request.limit : items.length;
+  const nextPage = end < items.length ? String(end) : undefined;
+  return {
+    items: clone(items.slice(start, end)),
+    opcNextPage: nextPage,
+    opcRequestId: requestId()
+  } as any;
+}
+
+function parSummary(par: Resource): Resource {
+  const { namespace: _namespace, bucket: _bucket, ...summary } = par;
+  return clone(summary);
+}
+
+function isLocked(rule: Resource): boolean {
+  return Boolean(rule.timeRuleLocked) && new Date(rule.timeRuleLocked).getTime() <= Date.now();
+}
+
+function multipartUploadSummary(upload: FakeMultipartUpload): Resource {
+  return {
+    namespace: upload.namespace,
+    bucket: upload.bucket,
+    object: upload.object,
+    uploadId: upload.uploadId,
+    timeCreated: upload.timeCreated,
+    storageTier: 'Standard'
+  };
+}
+
+/** Namespace, bucket and object of an Object Storage URL (https://objectstorage.<region>.oraclecloud.com/n/<ns>/b/<bucket>/o/<object>) */
+function parseObjectUri(uri: string | undefined): { namespaceName: string; bucketName: string; objectName: string } | undefined {
+  const match = uri?.match(/\/n\/([^/]+)\/b\/([^/]+)\/o\/(.+)$/);
+  if (!match?.[1] || !match[2] || !match[3]) {
+    return undefined;
+  }
+  return { namespaceName: match[1], bucketName: match[2], objectName: decodeURIComponent(match[3]) };
+}
+
+/** Resolved OCPUs and memory of an instance, defaulting from the shape like OCI does */
+function shapeConfigFor(state: FakeCloudState, shapeName: string, requested: Resource | undefined): Resource {
+  const shape = state.shapes.find(candidate => candidate.shape === shapeName);
+  if (!shape?.isFlexible) {
+    return { ocpus: shape?.ocpus, memoryInGBs: shape?.memoryInGBs };
+  }
+  const ocpus = requested?.ocpus ?? shape.ocpus;
+  return {
+    ocpus,
+    memoryInGBs: requested?.memoryInGBs ?? ocpus * shape.memoryOptions.defaultPerOcpuInGBs,
+    baselineOcpuUtilization: requested?.baselineOcpuUtilization ?? 'BASELINE_1_1'
+  };
+}
+
+/** A plausible serial console log for an instance, long enough to exercise tail limits */
+function consoleOutput(instance: Resource): Buffer {
+  const lines = ['Booting Linux on physical CPU 0x0'];
+  for (let i = 1; i <= 400; i++) {
+    lines.push(`[${(i * 0.013).toFixed(6).padStart(12)}] kernel: initializing subsystem ${i} of 400`);
+  }
+  lines.push(
+    `[   12.402113] cloud-init[812]: Cloud-init finished for ${instance.displayName}`,
+    '',
+    'Oracle Linux Server 8',
+    'Kernel 5.15.0 on an x86_64',
+    '',
+    `${instance.displayName} login: `
+  );
+  return Buffer.from(lines.join('\r\n') + '\r\n', 'utf8');
+}
+
+/**
+ * Simulated run command. Nothing is executed: `echo` lines are printed (to
+ * stderr with >&2), `hostname` prints the instance name and `exit N` ends the
+ * script. A script wrapped in a heredoc, with stderr collected and printed
+ * after the heredoc's delimiter, gets that layout in its output.
+ */
+function fakeScriptRun(text: string, instance: Resource): { output: string; exitCode: number } {
+  const heredoc = /<<'([A-Za-z0-9_]+)'\n([\s\S]*?)\n\1\n/.exec(text);
+  const body = heredoc ? heredoc[2]! : text;
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  let exitCode = 0;
+
+  for (const line of body.split('\n').map(line => line.trim())) {
+    const exit = /^exit\s+(\d+)$/.exec(line);
+    if (exit) {
+      exitCode = Number(exit[1]);
+      break;
+    }
+    if (line === 'hostname') {
+      stdout.push(instance.displayName);
+    }
+    const echo = /^echo\s+(.*?)(\s*>&2)?$/.exec(line);
+    if (echo) {
+      (echo[2] ? stderr : stdout).push(echo[1]!.replace(/^(['"])(.*)\1$/, '$2'));
+    }
+  }
+
+  const lines = (output: string[]) => output.map(line => `${line}\n`).join('');
+  const output = heredoc
+    ? `${lines(stdout)}\n${heredoc[1]}\n${lines(stderr)}`
+    : lines(stdout) + lines(stderr);
+  return { output, exitCode };
+}
+
+function toBuffer(body: unknown): Buffer {
+  if (Buffer.isBuffer(body)) {
+    return body;
+  }
+  if (body instanceof Uint8Array) {
+    return Buffer.from(body);
+  }
+  if (typeof body === 'string') {
+    return Buffer.from(body, 'utf8');
+  }
+  throw serviceError(400, 'InvalidParameter', 'The in-memory backend only accepts string, Buffer or Uint8Array bodies', 'putObject');
+}
+
+async function readBody(body: unknown): Promise<Buffer> {
+  if (body instanceof Readable) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+  return toBuffer(body);
+}
+
+// Compute
+
+class FakeComputeClient {
+  constructor(private state: FakeCloudState) {}
+
+  async listInstances(request: Resource) {
+    const items = filterResources(this.state.instances.values(), request);
+    return paginate(items, request);
+  }
+
+  async getInstance(request: { instanceId: string }) {
+    const instance = lookup(this.state.instances, 'Instance', request.instanceId, 'getInstance');
+    return { instance: clone(instance), etag: instance.etag, opcRequestId: requestId() };
+  }
+
+  async launchInstance(request: { launchInstanceDetails: Resource }) {
+    const details = request.launchInstanceDetails;
+    const imageId = details.sourceDetails?.imageId ?? details.imageId;
+    if (imageId && !this.state.images.has(imageId)) {
+      throw notFound('Image', imageId, 'launchInstance');
+    }
+    if (details.createVnicDetails?.subnetId && !this.state.subnets.has(details.createVnicDetails.subnetId)) {
+      throw notFound('Subnet', details.createVnicDetails.subnetId, 'launchInstance');
+    }
+
+    const id = this.state.ocid('instance');
+    const instance = {
+      id,
+      compartmentId: details.compartmentId,
+      availabilityDomain: details.availabilityDomain,
+      faultDomain: details.faultDomain,
+      displayName: details.displayName || id,
+      shape: details.shape,
+      shapeConfig: shapeConfigFor(this.state, details.shape, details.shapeConfig),
+      imageId,
+      sourceDetails: details.sourceDetails,
+      metadata: details.metadata,
+      freeformTags: details.freeformTags || {},
+      definedTags: details.definedTags || {},
+      region: this.state.region,
+      lifecycleState: 'RUNNING',
+      timeCreated: new Date(),
+      etag: requestId()
+    };
+    this.state.instances.set(id, instance);
+    const bootVolume = this.state.createBootVolume({
+      compartmentId: instance.compartmentId,
+      availabilityDomain: instance.availabilityDomain,
+      displayName: `${instance.displayName} (Boot Volume)`,
+      imageId,
+      sizeInGBs: details.sourceDetails?.bootVolumeSizeInGBs
+    });
+    this.state.attachBootVolume(instance, bootVolume);
+    if (details.createVnicDetails?.subnetId) {
+      this.state.attachVnic(instance, details.createVnicDetails, true, {}, 'launchInstance');
+    }
+    const workRequestId = this.state.recordWorkRequest('LaunchInstance', instance.compartmentId, 'instance', 'CREATED', id);
+    return { instance: clone(instance), etag: instance.etag, opcRequestId: requestId(), opcWorkRequestId: workRequestId };
+  }
+
+  async instanceAction(request: { instanceId: string; action: string }) {
+    const instance = lookup(this.state.instances, 'Instance', request.instanceId, 'instanceAction');
+    if (instance.lifecycleState === 'TERMINATED') {
+      throw conflict(`Instance ${request.instanceId} is terminated`, 'instanceAction');
+    }
+    switch (request.action) {
+      case 'START':
+      case 'RESET':
+      case 'SOFTRESET':
+        instance.lifecycleState = 'RUNNING';
+        break;
+      case 'STOP':
+      case 'SOFTSTOP':
+        instance.lifecycleState = 'STOPPED';
+        break;
+      default:
+        throw serviceError(400, 'InvalidParameter', `Unsupported instance action: ${request.action}`, 'instanceAction');
+    }
+    instance.etag = requestId();
+    return { instance: clone(instance), etag: instance.etag, opcRequestId: requestId() };
+  }
+
+  async updateInstance(request: { instanceId: string; updateInstanceDetails: Resource }) {
+    const instance = lookup(this.state.instances, 'Instance', request.instanceId, 'updateInstance');
+    const details = request.updateInstanceDetails;
+    if (details.shape || details.shapeConfig) {
+      const shape = details.shape || instance.shape;
+      instance.shapeConfig = shapeConfigFor(this.state, shape, { ...(shape === instance.shape ? instance.shapeConfig : {}), ...details.shapeConfig });
+      instance.shape = shape;
+    }
+    if (details.sourceDetails) {
+      this.replaceBootVolume(instance, details.sourceDetails);
+    }
+    for (const key of ['displayName', 'freeformTags', 'definedTags', 'metadata']) {
+      if (details[key] !== undefined) {
+        instance[key] = details[key];
+      }
+    }
+    instance.etag = requestId();
+    const workRequestId = this.state.recordWorkRequest('UpdateInstance', instance.compartmentId, 'instance', 'UPDATED', instance.id);
+    return { instance: clone(instance), etag: instance.etag, opcRequestId: requestId(), opcWorkRequestId: workRequestId };
+  }
+
+  // Boot volume replacement swaps the attached boot volume, keeping the old one unless told otherwise
+  private replaceBootVolume(instance: Resource, source: Resource): void {
+    let bootVolume: Resource;
+    if (source.sourceType === 'bootVolume') {
+      bootVolume = lookup(this.state.bootVolumes, 'Boot volume', source.bootVolumeId, 'updateInstance');
+      if (bootVolume.availabilityDomain !== instance.availabilityDomain) {
+        throw serviceError(400, 'InvalidParameter', `Boot volume ${bootVolume.id} is not in ${instance.availabilityDomain}`, 'updateInstance');
+      }
+      if (this.state.activeBootVolumeAttachment({ bootVolumeId: bootVolume.id })) {
+        throw conflict(`Boot volume ${bootVolume.id} is attached to an instance`, 'updateInstance');
+      }
+    } else {
+      if (!this.state.images.has(source.imageId)) {
+        throw notFound('Image', source.imageId, 'updateInstance');
+      }
+      bootVolume = this.state.createBootVolume({
+        compartmentId: instance.compartmentId,
+        availabilityDomain: instance.availabilityDomain,
+        displayName: `${instance.displayName} (Boot Volume)`,
+        imageId: source.imageId,
+        sizeInGBs: source.bootVolumeSizeInGBs
+      });
+      instance.imageId = source.imageId;
+    }
+
+    const current = this.state.activeBootVolumeAttachment({ instanceId: instance.id });
+    if (current) {
+      current.lifecycleState = 'DETACHED';
+      if (source.isPreserveBootVolumeEnabled === false) {
+        this.state.bootVolumes.get(current.bootVolumeId)!.lifecycleState = 'TERMINATED';
+      }
+    }
+    this.state.attachBootVolume(instance, bootVolume);
+  }
+
+  async terminateInstance(request: { instanceId: string; preserveBootVolume?: boolean }) {
+    const instance = lookup(this.state.instances, 'Instance', request.instanceId, 'terminateInstance');
+    instance.lifecycleState = 'TERMINATED';
+    for (const attachment of this.state.volumeAttachments.values()) {
+      if (attachment.instanceId === instance.id) {
+        attachment.lifecycleState = 'DETACHED';
+      }
+    }
+    for (const attachment of this.state.vnicAttachments.values()) {
+      if (attachment.instanceId === instance.id && attachment.lifecycleState === 'ATTACHED') {
+        this.state.detachVnic(attachment);
+      }
+    }
+    const bootAttachment = this.state.activeBootVolumeAttachment({ instanceId: instance.id });
+    if (bootAttachment) {
+      bootAttachment.lifecycleState = 'DETACHED';
+      if (!request.preserveBootVolume) {
+        this.state.bootVolumes.get(bootAttachment.bootVolumeId)!.lifecycleState = 'TERMINATED';
+      }
+    }
+    const workRequestId = this.state.recordWorkRequest('TerminateInstance', instance.compartmentId, 'instance', 'DELETED', instance.id);
+    return { opcRequestId: requestId(), opcWorkRequestId: workRequestId };
+  }
+
+  async listImages(request: Resource) {
+    const items = filterResources(this.state.images.values(), { ...request, compartmentId: undefined }).filter(image =>
+      (!request.operatingSystem || image.operatingSystem === request.operatingSystem) &&
+      (!request.operatingSystemVersion || image.operatingSystemVersion === request.operatingSystemVersion) &&
+      (!request.shape || (this.state.imageShapes.get(image.id) || []).some(entry => entry.shape === request.shape))
+    );
+    if (request.sortBy === 'TIMECREATED') {
+      const direction = request.sortOrder === 'ASC' ? 1 : -1;
+      items.sort((a, b) => direction * (new Date(a.timeCreated).getTime() - new Date(b.timeCreated).getTime()));
+    }
+    return paginate(items, request);
+  }
+
+  async getImage(request: { imageId: string }) {
+    const image = lookup(this.state.images, 'Image', request.imageId, 'getImage');
+    return { image: clone(image), opcRequestId: requestId() };
+  }
+
+  async listShapes(request: Resource) {
+    const compatible = request.imageId ? (this.state.imageShapes.get(request.imageId) || []).map(entry => entry.shape) : undefined;
+    const shapes = this.state.shapes.filter(shape =>
+      (!request.shape || shape.shape === request.shape) && (!compatible || compatible.includes(shape.shape))
+    );
+    return paginate(shapes, request);
+  }
+
+  // Custom images: captured from an instance, or imported from Object Storage
+  async createImage(request: { createImageDetails: Resource }) {
+    const details = request.createImageDetails;
+    const id = this.state.ocid('image');
+    let image: Resource;
+    let compatibleShapes: string[];
+
+    if (details.instanceId) {
+      const instance = lookup(this.state.instances, 'Instance', details.instanceId, 'createImage');
+      if (instance.lifecycleState !== 'RUNNING' && instance.lifecycleState !== 'STOPPED') {
+        throw conflict(`Instance ${instance.id} is ${instance.lifecycleState}`, 'createImage');
+      }
+      const baseImage = this.state.images.get(instance.imageId) || {};
+      image = {
+        baseImageId: instance.imageId,
+        operatingSystem: baseImage.operatingSystem,
+        operatingSystemVersion: baseImage.operatingSystemVersion,
+        sizeInMBs: baseImage.sizeInMBs
+      };
+      compatibleShapes = (this.state.imageShapes.get(instance.imageId) || []).map(entry => entry.shape);
+    } else if (details.imageSourceDetails) {
+      const source = details.imageSourceDetails;
+      const location = source.sourceType === 'objectStorageTuple' ? source : parseObjectUri(source.sourceUri);
+      // Objects in this fake cloud must exist; other URIs (pre-authenticated requests, other clouds) are taken on trust
+      if (location?.namespaceName === this.state.namespace
+        && !this.state.hasObject(location.namespaceName, location.bucketName, location.objectName)) {
+        throw notFound('Object', `${location.bucketName}/${location.objectName}`, 'createImage');
+      }
+      image = {
+        operatingSystem: source.operatingSystem || 'Custom',
+        operatingSystemVersion: source.operatingSystemVersion,
+        sizeInMBs: 47694
+      };
+      // Imported images start out compatible with the fixed VM shapes only
+      compatibleShapes = this.state.shapes.filter(shape => !shape.isFlexible).map(shape => shape.shape);
+    } else {
+      throw serviceError(400, 'InvalidParameter', 'Either instanceId or imageSourceDetails is required', 'createImage');
+    }
+
+    Object.assign(image, {
+      id,
+      compartmentId: details.compartmentId,
+      displayName: details.displayName || id,
+      launchMode: details.launchMode || 'PARAVIRTUALIZED',
+      createImageAllowed: true,
+      freeformTags: details.freeformTags || {},
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date()
+    });
+    this.state.images.set(id, image);
+    this.state.imageShapes.set(id, compatibleShapes.map(shape => ({ imageId: id, shape })));
+    const workRequestId = this.state.recordWorkRequest('CreateImage', details.compartmentId, 'image', 'CREATED', id);
+    return { image: clone(image), etag: requestId(), opcRequestId: requestId(), opcWorkRequestId: workRequestId };
+  }
+
+  async exportImage(request: { imageId: string; exportImageDetails: Resource }) {
+    const image = lookup(this.state.images, 'Image', request.imageId, 'exportImage');
+    if (image.lifecycleState !== 'AVAILABLE') {
+      throw conflict(`Image ${image.id} is ${image.lifecycleState}`, 'exportImage');
+    }
+    if (!image.compartmentId) {
+      throw serviceError(400, 'InvalidParameter', 'Platform images cannot be exported', 'exportImage');
+    }
+    const details = request.exportImageDetails;
+    const location = details.destinationType === 'objectStorageTuple' ? details : parseObjectUri(details.destinationUri);
+    if (location?.namespaceName === this.state.namespace) {
+      const body = Buffer.from(`fake ${details.exportFormat || 'OCI'} export of ${image.id}\n`);
+      this.state.storeObject(location.namespaceName, location.bucketName, location.objectName, body, 'exportImage');
+    }
+    const workRequestId = this.state.recordWorkRequest('ExportImage', image.compartmentId, 'image', 'RELATED', image.id);
+    return { image: clone(image), etag: requestId(), opcRequestId: requestId(), opcWorkRequestId: workRequestId };
+  }
+
+  async deleteImage(request: { imageId: string }) {
+    const image = lookup(this.state.images, 'Image', request.imageId, 'deleteImage');
+    if (!image.compartmentId) {
+      throw serviceError(403, 'NotAuthorized', 'Platform images cannot be deleted', 'deleteImage');
+    }
+    image.lifecycleState = 'DELETED';
+    return { opcRequestId: requestId() };
+  }
+
+  async listImageShapeCompatibilityEntries(request: { imageId: string; limit?: number; page?: string }) {
+    lookup(this.state.images, 'Image', request.imageId, 'listImageShapeCompatibilityEntries');
+    return paginate(this.state.imageShapes.get(request.imageId) || [], request);
+  }
+
+  async addImageShapeCompatibilityEntry(request: { imageId: string; shapeName: string; addImageShapeCompatibilityEntryDetails?: Resource }) {
+    lookup(this.state.images, 'Image', request.imageId, 'addImageShapeCompatibilityEntry');
+    if (!this.state.shapes.some(shape => shape.shape === request.shapeName)) {
+      throw notFound('Shape', request.shapeName, 'addImageShapeCompatibilityEntry');
+    }
+    const entries = (this.state.imageShapes.get(request.imageId) || []).filter(entry => entry.shape !== request.shapeName);
+    const entry = { imageId: request.imageId, shape: request.shapeName, ...request.addImageShapeCompatibilityEntryDetails };
+    this.state.imageShapes.set(request.imageId, [...entries, entry]);
+    return { imageShapeCompatibilityEntry: clone(entry), opcRequestId: requestId() };
+  }
+
+  async removeImageShapeCompatibilityEntry(request: { imageId: string; shapeName: string }) {
+    lookup(this.state.images, 'Image', request.imageId, 'removeImageShapeCompatibilityEntry');
+    const entries = this.state.imageShapes.get(request.imageId) || [];
+    this.state.imageShapes.set(request.imageId, entries.filter(entry => entry.shape !== request.shapeName));
+    return { opcRequestId: requestId() };
+  }
+
+  async listConsoleHistories(request: Resource) {
+    const items = filterResources(this.state.consoleHistories.values(), request);
+    return paginate(items, request);
+  }
+
+  async getConsoleHistory(request: { instanceConsoleHistoryId: string }) {
+    const history = lookup(this.state.consoleHistories, 'Console history', request.instanceConsoleHistoryId, 'getConsoleHistory');
+    return { consoleHistory: clone(history), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  // Captures complete immediately with a synthetic boot log
+  async captureConsoleHistory(request: { captureConsoleHistoryDetails: Resource }) {
+    const details = request.captureConsoleHistoryDetails;
+    const instance = lookup(this.state.instances, 'Instance', details.instanceId, 'captureConsoleHistory');
+    if (instance.lifecycleState === 'TERMINATED') {
+      throw conflict(`Instance ${instance.id} is terminated`, 'captureConsoleHistory');
+    }
+
+    const id = this.state.ocid('consolehistory');
+    const history = {
+      id,
+      compartmentId: instance.compartmentId,
+      availabilityDomain: instance.availabilityDomain,
+      instanceId: instance.id,
+      displayName: details.displayName || `${instance.displayName}-console-${Date.now()}`,
+      lifecycleState: 'SUCCEEDED',
+      timeCreated: new Date()
+    };
+    this.state.consoleHistories.set(id, history);
+    this.state.consoleHistoryContent.set(id, consoleOutput(instance));
+    return { consoleHistory: clone(history), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async getConsoleHistoryContent(request: { instanceConsoleHistoryId: string; offset?: number; length?: number }) {
+    lookup(this.state.consoleHistories, 'Console history', request.instanceConsoleHistoryId, 'getConsoleHistoryContent');
+    const content = this.state.consoleHistoryContent.get(request.instanceConsoleHistoryId) || Buffer.alloc(0);
+    const start = Math.min(request.offset ?? 0, content.length);
+    const end = Math.min(start + (request.length ?? 10240), content.length);
+    return { value: content.subarray(start, end).toString('utf8'), opcBytesRemaining: content.length - end, opcRequestId: requestId() };
+  }
+
+  async listInstanceConsoleConnections(request: Resource) {
+    const items = filterResources(this.state.consoleConnections.values(), request);
+    return paginate(items, request);
+  }
+
+  async getInstanceConsoleConnection(request: { instanceConsoleConnectionId: string }) {
+    const connection = lookup(this.state.consoleConnections, 'Console connection', request.instanceConsoleConnectionId, 'getInstanceConsoleConnection');
+    return { instanceConsoleConnection: clone(connection), opcRequestId: requestId() };
+  }
+
+  async createInstanceConsoleConnection(request: { createInstanceConsoleConnectionDetails: Resource }) {
+    const details = request.createInstanceConsoleConnectionDetails;
+    const instance = lookup(this.state.instances, 'Instance', details.instanceId, 'createInstanceConsoleConnection');
+    if (instance.lifecycleState === 'TERMINATED') {
+      throw conflict(`Instance ${instance.id} is terminated`, 'createInstanceConsoleConnection');
+    }
+    const active = Array.from(this.state.consoleConnections.values()).some(connection =>
+      connection.instanceId === instance.id && connection.lifecycleState === 'ACTIVE'
+    );
+    if (active) {
+      throw conflict(`Instance ${instance.id} already has a console connection`, 'createInstanceConsoleConnection');
+    }
+    const key = String(details.publicKey).trim().split(/\s+/)[1];
+    if (!key) {
+      throw serviceError(400, 'InvalidParameter', 'publicKey is not an OpenSSH public key', 'createInstanceConsoleConnection');
+    }
+
+    const id = this.state.ocid('instanceconsoleconnection');
+    const proxy = `ssh -o ProxyCommand='ssh -W %h:%p -p 443 ${id}@instance-console.${this.state.region}.oci.oraclecloud.com'`;
+    const connection = {
+      id,
+      compartmentId: instance.compartmentId,
+      instanceId: instance.id,
+      connectionString: `${proxy} ${instance.id}`,
+      vncConnectionString: `${proxy} -N -L localhost:5900:${instance.id}:5900 ${instance.id}`,
+      fingerprint: createHash('md5').update(Buffer.from(key, 'base64')).digest('hex').match(/../g)!.join(':'),
+      serviceHostKeyFingerprint: createHash('md5').update(id).digest('hex').match(/../g)!.join(':'),
+      freeformTags: details.freeformTags || {},
+      definedTags: details.definedTags || {},
+      lifecycleState: 'ACTIVE'
+    };
+    this.state.consoleConnections.set(id, connection);
+    return { instanceConsoleConnection: clone(connection), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async deleteInstanceConsoleConnection(request: { instanceConsoleConnectionId: string }) {
+    const connection = lookup(this.state.consoleConnections, 'Console connection', request.instanceConsoleConnectionId, 'deleteInstanceConsoleConnection');
+    connection.lifecycleState = 'DELETED';
+    return { opcRequestId: requestId() };
+  }
+
+  async listVolumeAttachments(request: Resource) {
+    const items = filterResources(this.state.volumeAttachments.values(), request);
+    return paginate(items, request);
+  }
+
+  async getVolumeAttachment(request: { volumeAttachmentId: string }) {
+    const attachment = lookup(this.state.volumeAttachments, 'Volume attachment', request.volumeAttachmentId, 'getVolumeAttachment');
+    return { volumeAttachment: clone(attachment), opcRequestId: requestId() };
+  }
+
+  async listBootVolumeAttachments(request: Resource) {
+    const items = filterResources(this.state.bootVolumeAttachments.values(), request);
+    return paginate(items, request);
+  }
+
+  async getBootVolumeAttachment(request: { bootVolumeAttachmentId: string }) {
+    const attachment = lookup(this.state.bootVolumeAttachments, 'Boot volume attachment', request.bootVolumeAttachmentId, 'getBootVolumeAttachment');
+    return { bootVolumeAttachment: clone(attachment), opcRequestId: requestId() };
+  }
+
+  async attachVolume(request: { attachVolumeDetails: Resource }) {
+    const details = request.attachVolumeDetails;
+    const instance = lookup(this.state.instances, 'Instance', details.instanceId, 'attachVolume');
+    const volume = lookup(this.state.volumes, 'Volume', details.volumeId, 'attachVolume');
+    const existing = Array.from(this.state.volumeAttachments.values()).find(attachment =>
+      attachment.volumeId === volume.id && attachment.lifecycleState === 'ATTACHED'
+    );
+    if (existing && !details.isShareable) {
+      throw conflict(`Volume ${volume.id} is already attached to ${existing.instanceId}`, 'attachVolume');
+    }
+    const deviceInUse = details.device && Array.from(this.state.volumeAttachments.values()).some(attachment =>
+      attachment.instanceId === instance.id && attachment.device === details.device && attachment.lifecycleState === 'ATTACHED'
+    );
+    if (deviceInUse) {
+      throw conflict(`Device ${details.device} is already in use on ${instance.id}`, 'attachVolume');
+    }
+
+    const id = this.state.ocid('volumeattachment');
+    // Virtual machines get paravirtualized attachments when the service decides
+    const attachmentType = details.type === 'service_determined' ? 'paravirtualized' : details.type;
+    const iscsi = attachmentType === 'iscsi'
+      ? {
+          iqn: `iqn.2015-12.com.oracleiaas:${id.slice(-12)}`,
+          ipv4: '169.254.2.2',
+          port: 3260,
+          chapUsername: details.useChap ? id : undefined,
+          chapSecret: details.useChap ? `chap-${id.slice(-6)}` : undefined,
+          encryptionInTransitType: details.encryptionInTransitType || 'NONE',
+          isAgentAutoIscsiLoginEnabled: details.isAgentAutoIscsiLoginEnabled || false,
+          isMultipath: false
+        }
+      : {};
+    const attachment = {
+      id,
+      attachmentType,
+      ...iscsi,
+      isPvEncryptionInTransitEnabled: details.isPvEncryptionInTransitEnabled || false,
+      compartmentId: instance.compartmentId,
+      availabilityDomain: instance.availabilityDomain,
+      instanceId: instance.id,
+      volumeId: volume.id,
+      displayName: details.displayName || id,
+      device: details.device,
+      isReadOnly: details.isReadOnly || false,
+      isShareable: details.isShareable || false,
+      lifecycleState: 'ATTACHED',
+      timeCreated: new Date()
+    };
+    this.state.volumeAttachments.set(id, attachment);
+    const workRequestId = this.state.recordWorkRequest('AttachVolume', attachment.compartmentId, 'volumeattachment', 'CREATED', id);
+    return { volumeAttachment: clone(attachment), opcRequestId: requestId(), opcWorkRequestId: workRequestId };
+  }
+
+  async detachVolume(request: { volumeAttachmentId: string }) {
+    const attachment = lookup(this.state.volumeAttachments, 'Volume attachment', request.volumeAttachmentId, 'detachVolume');
+    attachment.lifecycleState = 'DETACHED';
+    const workRequestId = this.state.recordWorkRequest('DetachVolume', attachment.compartmentId, 'volumeattachment', 'DELETED', attachment.id);
+    return { opcRequestId: requestId(), opcWorkRequestId: workRequestId };
+  }
+
+  async listVnicAttachments(request: Resource) {
+    const items = filterResources(this.state.vnicAttachments.values(), request).filter(attachment =>
+      !request.vnicId || attachment.vnicId === request.vnicId
+    );
+    return paginate(items, request);
+  }
+
+  async getVnicAttachment(request: { vnicAttachmentId: string }) {
+    const attachment = lookup(this.state.vnicAttachments, 'VNIC attachment', request.vnicAttachmentId, 'getVnicAttachment');
+    return { vnicAttachment: clone(attachment), opcRequestId: requestId() };
+  }
+
+  async attachVnic(request: { attachVnicDetails: Resource }) {
+    const details = request.attachVnicDetails;
+    const instance = lookup(this.state.instances, 'Instance', details.instanceId, 'attachVnic');
+    if (instance.lifecycleState === 'TERMINATED') {
+      throw conflict(`Instance ${instance.id} is terminated`, 'attachVnic');
+    }
+    const attachment = this.state.attachVnic(instance, details.createVnicDetails || {}, false, details, 'attachVnic');
+    return { vnicAttachment: clone(attachment), opcRequestId: requestId() };
+  }
+
+  async detachVnic(request: { vnicAttachmentId: string }) {
+    const attachment = lookup(this.state.vnicAttachments, 'VNIC attachment', request.vnicAttachmentId, 'detachVnic');
+    if (this.state.vnics.get(attachment.vnicId)?.isPrimary) {
+      throw conflict(`The primary VNIC of ${attachment.instanceId} cannot be detached`, 'detachVnic');
+    }
+    this.state.detachVnic(attachment);
+    return { opcRequestId: requestId() };
+  }
+}
+
+// Instance configurations and pools
+
+class FakeComputeManagementClient {
+  constructor(private state: FakeCloudState, private compute: FakeComputeClient) {}
+
+  async listInstanceConfigurations(request: Resource) {
+    const items = filterResources(this.state.instanceConfigurations.values(), request);
+    return paginate(items, request);
+  }
+
+  async getInstanceConfiguration(request: { instanceConfigurationId: string }) {
+    const configuration = lookup(this.state.instanceConfigurations, 'Instance configuration', request.instanceConfigurationId, 'getInstanceConfiguration');
+    return { instanceConfiguration: clone(configuration), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async createInstanceConfiguration(request: { createInstanceConfiguration: Resource }) {
+    const details = request.createInstanceConfiguration;
+    let instanceDetails = details.instanceDetails;
+    if (details.source === 'INSTANCE') {
+      const instance = lookup(this.state.instances, 'Instance', details.instanceId, 'createInstanceConfiguration');
+      instanceDetails = {
+        instanceType: 'compute',
+        launchDetails: {
+          compartmentId: instance.compartmentId,
+          availabilityDomain: instance.availabilityDomain,
+          shape: instance.shape,
+          shapeConfig: instance.shapeConfig,
+          sourceDetails: { sourceType: 'image', imageId: instance.imageId },
+          metadata: instance.metadata
+        }
+      };
+    } else if (instanceDetails?.launchDetails?.sourceDetails?.imageId
+      && !this.state.images.has(instanceDetails.launchDetails.sourceDetails.imageId)) {
+      throw notFound('Image', instanceDetails.launchDetails.sourceDetails.imageId, 'createInstanceConfiguration');
+    }
+
+    const id = this.state.ocid('instanceconfiguration');
+    const configuration = {
+      id,
+      compartmentId: details.compartmentId,
+      displayName: details.displayName || id,
+      source: details.source,
+      instanceDetails,
+      freeformTags: details.freeformTags || {},
+      definedTags: details.definedTags || {},
+      timeCreated: new Date()
+    };
+    this.state.instanceConfigurations.set(id, configuration);
+    return { instanceConfiguration: clone(configuration), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async deleteInstanceConfiguration(request: { instanceConfigurationId: string }) {
+    lookup(this.state.instanceConfigurations, 'Instance configuration', request.instanceConfigurationId, 'deleteInstanceConfiguration');
+    const user = Array.from(this.state.instancePools.values()).find(pool =>
+      pool.instanceConfigurationId === request.instanceConfigurationId && pool.lifecycleState !== 'TERMINATED'
+    );
+    if (user) {
+      throw conflict(`Instance configuration ${request.instanceConfigurationId} is used by instance pool ${user.id}`, 'deleteInstanceConfiguration');
+    }
+    this.state.instanceConfigurations.delete(request.instanceConfigurationId);
+    return { opcRequestId: requestId() };
+  }
+
+  async listInstancePools(request: Resource) {
+    const items = filterResources(this.state.instancePools.values(), request);
+    return paginate(items, request);
+  }
+
+  async getInstancePool(request: { instancePoolId: string }) {
+    const pool = lookup(this.state.instancePools, 'Instance pool', request.instancePoolId, 'getInstancePool');
+    return { instancePool: clone(pool), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async createInstancePool(request: { createInstancePoolDetails: Resource }) {
+    const details = request.createInstancePoolDetails;
+    lookup(this.state.instanceConfigurations, 'Instance configuration', details.instanceConfigurationId, 'createInstancePool');
+    if (!details.placementConfigurations?.length) {
+      throw serviceError(400, 'InvalidParameter', 'At least one placement configuration is required', 'createInstancePool');
+    }
+    for (const placement of details.placementConfigurations) {
+      if (placement.primarySubnetId && !this.state.subnets.has(placement.primarySubnetId)) {
+        throw notFound('Subnet', placement.primarySubnetId, 'createInstancePool');
+      }
+    }
+
+    const id = this.state.ocid('instancepool');
+    const pool = {
+      id,
+      compartmentId: details.compartmentId,
+      displayName: details.displayName || id,
+      instanceConfigurationId: details.instanceConfigurationId,
+      placementConfigurations: details.placementConfigurations,
+      loadBalancers: (details.loadBalancers || []).map((attachment: Resource) => ({
+        ...attachment,
+        id: this.state.ocid('instancepoolloadbalancerattachment'),
+        instancePoolId: id,
+        lifecycleState: 'ATTACHED'
+      })),
+      size: details.size,
+      currentSize: 0,
+      lifecycleState: 'RUNNING',
+      freeformTags: details.freeformTags || {},
+      definedTags: details.definedTags || {},
+      timeCreated: new Date()
+    };
+    this.state.instancePools.set(id, pool);
+    this.state.instancePoolMembers.set(id, []);
+    await this.scale(pool, details.size);
+    return { instancePool: clone(pool), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async updateInstancePool(request: { instancePoolId: string; updateInstancePoolDetails: Resource }) {
+    const pool = this.activePool(request.instancePoolId, 'updateInstancePool');
+    const details = request.updateInstancePoolDetails;
+    if (details.instanceConfigurationId) {
+      lookup(this.state.instanceConfigurations, 'Instance configuration', details.instanceConfigurationId, 'updateInstancePool');
+      pool.instanceConfigurationId = details.instanceConfigurationId;
+    }
+    if (details.displayName !== undefined) {
+      pool.displayName = details.displayName;
+    }
+    if (details.size !== undefined) {
+      pool.size = details.size;
+      await this.scale(pool, details.size);
+    }
+    return { instancePool: clone(pool), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async startInstancePool(request: { instancePoolId: string }) {
+    return this.power(request.instancePoolId, 'START', 'startInstancePool');
+  }
+
+  async stopInstancePool(request: { instancePoolId: string }) {
+    return this.power(request.instancePoolId, 'STOP', 'stopInstancePool');
+  }
+
+  async terminateInstancePool(request: { instancePoolId: string }) {
+    const pool = this.activePool(request.instancePoolId, 'terminateInstancePool');
+    await this.scale(pool, 0);
+    pool.lifecycleState = 'TERMINATED';
+    return { opcRequestId: requestId() };
+  }
+
+  async listInstancePoolInstances(request: { compartmentId: string; instancePoolId: string; limit?: number; page?: string }) {
+    const pool = lookup(this.state.instancePools, 'Instance pool', request.instancePoolId, 'listInstancePoolInstances');
+    const members = (this.state.instancePoolMembers.get(pool.id) || []).map(instanceId => {
+      const instance = this.state.instances.get(instanceId)!;
+      return {
+        id: instance.id,
+        availabilityDomain: instance.availabilityDomain,
+        compartmentId: instance.compartmentId,
+        displayName: instance.displayName,
+        faultDomain: instance.faultDomain,
+        instanceConfigurationId: pool.instanceConfigurationId,
+        region: instance.region,
+        shape: instance.shape,
+        state: instance.lifecycleState,
+        timeCreated: instance.timeCreated
+      };
+    });
+    return paginate(members, request);
+  }
+
+  private activePool(instancePoolId: string, operationName: string): Resource {
+    const pool = lookup(this.state.instancePools, 'Instance pool', instancePoolId, operationName);
+    if (pool.lifecycleState === 'TERMINATED') {
+      throw conflict(`Instance pool ${instancePoolId} is terminated`, operationName);
+    }
+    return pool;
+  }
+
+  private async power(instancePoolId: string, action: string, operationName: string) {
+    const pool = this.activePool(instancePoolId, operationName);
+    for (const instanceId of this.state.instancePoolMembers.get(pool.id) || []) {
+      await this.compute.instanceAction({ instanceId, action });
+    }
+    pool.lifecycleState = action === 'STOP' ? 'STOPPED' : 'RUNNING';
+    return { instancePool: clone(pool), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  // Launch members round-robin across the placements, or terminate the newest ones
+  private async scale(pool: Resource, size: number): Promise<void> {
+    const members = this.state.instancePoolMembers.get(pool.id)!;
+    const configuration = lookup(this.state.instanceConfigurations, 'Instance configuration', pool.instanceConfigurationId, 'scaleInstancePool');
+    const launchDetails = configuration.instanceDetails?.launchDetails || {};
+
+    while (members.length < size) {
+      const placement = pool.placementConfigurations[members.length % pool.placementConfigurations.length];
+      const { instance } = await this.compute.launchInstance({
+        launchInstanceDetails: {
+          ...launchDetails,
+          compartmentId: pool.compartmentId,
+          availabilityDomain: placement.availabilityDomain,
+          faultDomain: placement.faultDomains?.[members.length % placement.faultDomains.length],
+          displayName: `inst-${randomUUID().slice(0, 5)}-${pool.displayName}`,
+          createVnicDetails: { ...launchDetails.createVnicDetails, subnetId: placement.primarySubnetId }
+        }
+      });
+      if (pool.lifecycleState === 'STOPPED') {
+        await this.compute.instanceAction({ instanceId: instance.id, action: 'STOP' });
+      }
+      members.push(instance.id);
+    }
+    while (members.length > size) {
+      await this.compute.terminateInstance({ instanceId: members.pop()! });
+    }
+    pool.currentSize = members.length;
+  }
+}
+
+// Autoscaling
+
+class FakeAutoScalingClient {
+  constructor(private state: FakeCloudState) {}
+
+  async listAutoScalingConfigurations(request: Resource) {
+    const items = filterResources(this.state.autoScalingConfigurations.values(), request);
+    return paginate(items, request);
+  }
+
+  async getAutoScalingConfiguration(request: { autoScalingConfigurationId: string }) {
+    const configuration = lookup(this.state.autoScalingConfigurations, 'Autoscaling configuration', request.autoScalingConfigurationId, 'getAutoScalingConfiguration');
+    return { autoScalingConfiguration: clone(configuration), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async createAutoScalingConfiguration(request: { createAutoScalingConfigurationDetails: Resource }) {
+    const details = request.createAutoScalingConfigurationDetails;
+    const pool = lookup(this.state.instancePools, 'Instance pool', details.resource?.id, 'createAutoScalingConfiguration');
+    const existing = Array.from(this.state.autoScalingConfigurations.values()).find(configuration => configuration.resource.id === pool.id);
+    if (existing) {
+      throw conflict(`Instance pool ${pool.id} already has autoscaling configuration ${existing.id}`, 'createAutoScalingConfiguration');
+    }
+    if (details.coolDownInSeconds !== undefined && details.coolDownInSeconds < 300) {
+      throw serviceError(400, 'InvalidParameter', 'coolDownInSeconds must be at least 300', 'createAutoScalingConfiguration');
+    }
+
+    const id = this.state.ocid('autoscalingconfiguration');
+    const now = new Date();
+    const policies = (details.policies as Resource[]).map((policy): Resource => ({
+      ...policy,
+      id: this.state.ocid('autoscalingpolicy'),
+      isEnabled: policy.isEnabled ?? true,
+      timeCreated: now
+    }));
+    const capacities = policies.map(policy => policy.capacity).filter(Boolean);
+    const configuration = {
+      id,
+      compartmentId: details.compartmentId,
+      displayName: details.displayName || id,
+      coolDownInSeconds: details.coolDownInSeconds ?? 300,
+      isEnabled: details.isEnabled ?? true,
+      resource: details.resource,
+      policies,
+      minResourceCount: capacities.length ? Math.min(...capacities.map(capacity => capacity.min)) : undefined,
+      maxResourceCount: capacities.length ? Math.max(...capacities.map(capacity => capacity.max)) : undefined,
+      freeformTags: details.freeformTags || {},
+      definedTags: details.definedTags || {},
+      timeCreated: now
+    };
+    this.state.autoScalingConfigurations.set(id, configuration);
+    return { autoScalingConfiguration: clone(configuration), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async updateAutoScalingConfiguration(request: { autoScalingConfigurationId: string; updateAutoScalingConfigurationDetails: Resource }) {
+    const configuration = lookup(this.state.autoScalingConfigurations, 'Autoscaling configuration', request.autoScalingConfigurationId, 'updateAutoScalingConfiguration');
+    const details = request.updateAutoScalingConfigurationDetails;
+    for (const field of ['displayName', 'isEnabled', 'coolDownInSeconds']) {
+      if (details[field] !== undefined) {
+        configuration[field] = details[field];
+      }
+    }
+    return { autoScalingConfiguration: clone(configuration), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async deleteAutoScalingConfiguration(request: { autoScalingConfigurationId: string }) {
+    lookup(this.state.autoScalingConfigurations, 'Autoscaling configuration', request.autoScalingConfigurationId, 'deleteAutoScalingConfiguration');
+    this.state.autoScalingConfigurations.delete(request.autoScalingConfigurationId);
+    return { opcRequestId: requestId() };
+  }
+}
+
+// Oracle Cloud Agent run command
+
+class FakeInstanceAgentClient {
+  constructor(private state: FakeCloudState, private objectStorage: FakeObjectStorageClient) {}
+
+  async getInstanceAgentCommand(request: { instanceAgentCommandId: string }) {
+    const command = lookup(this.state.instanceAgentCommands, 'Instance agent command', request.instanceAgentCommandId, 'getInstanceAgentCommand');
+    return { instanceAgentCommand: clone(command), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async getInstanceAgentCommandExecution(request: { instanceAgentCommandId: string; instanceId: string }) {
+    const execution = this.state.instanceAgentCommandExecutions.get(`${request.instanceAgentCommandId}/${request.instanceId}`);
+    if (!execution) {
+      throw notFound('Instance agent command execution', `${request.instanceAgentCommandId} on ${request.instanceId}`, 'getInstanceAgentCommandExecution');
+    }
+    return { instanceAgentCommandExecution: clone(execution), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async createInstanceAgentCommand(request: { createInstanceAgentCommandDetails: Resource }) {
+    const details = request.createInstanceAgentCommandDetails;
+    const instance = lookup(this.state.instances, 'Instance', details.target?.instanceId, 'createInstanceAgentCommand');
+    if (details.content?.source?.sourceType !== 'TEXT') {
+      throw serviceError(400, 'InvalidParameter', 'The in-memory backend only runs TEXT command sources', 'createInstanceAgentCommand');
+    }
+
+    const id = this.state.ocid('instanceagentcommand');
+    const now = new Date();
+    const command = {
+      id,
+      compartmentId: details.compartmentId,
+      displayName: details.displayName || id,
+      executionTimeOutInSeconds: details.executionTimeOutInSeconds,
+      isCanceled: false,
+      target: details.target,
+      content: details.content,
+      timeCreated: now,
+      timeUpdated: now
+    };
+    this.state.instanceAgentCommands.set(id, command);
+
+    const previous = Array.from(this.state.instanceAgentCommandExecutions.values()).filter(execution => execution.instanceId === instance.id);
+    let execution: Resource = {
+      instanceAgentCommandId: id,
+      instanceId: instance.id,
+      displayName: command.displayName,
+      sequenceNumber: previous.length + 1,
+      deliveryState: 'VISIBLE',
+      lifecycleState: 'ACCEPTED',
+      timeCreated: now,
+      timeUpdated: now
+    };
+    // The agent only picks commands up on running instances
+    if (instance.lifecycleState === 'RUNNING') {
+      execution = { ...execution, ...await this.execute(command, instance), deliveryState: 'ACKED' };
+    }
+    this.state.instanceAgentCommandExecutions.set(`${id}/${instance.id}`, execution);
+    return { instanceAgentCommand: clone(command), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  private async execute(command: Resource, instance: Resource): Promise<Resource> {
+    const { output, exitCode } = fakeScriptRun(command.content.source.text, instance);
+    const target = command.content.output;
+    if (target?.outputType !== 'OBJECT_STORAGE_TUPLE') {
+      return {
+        lifecycleState: 'SUCCEEDED',
+        content: { outputType: 'TEXT', exitCode, text: output, textSha256: createHash('sha256').update(output).digest('hex') }
+      };
+    }
+
+    const location = { namespaceName: target.namespaceName, bucketName: target.bucketName, objectName: target.objectName };
+    try {
+      await this.objectStorage.putObject({ ...location, putObjectBody: output, contentType: 'text/plain' });
+    } catch (error) {
+      return {
+        lifecycleState: 'FAILED',
+        content: { outputType: 'OBJECT_STORAGE_TUPLE', exitCode, ...location, message: `Could not upload the output: ${(error as Error).message}` }
+      };
+    }
+    return { lifecycleState: 'SUCCEEDED', content: { outputType: 'OBJECT_STORAGE_TUPLE', exitCode, ...location } };
+  }
+}
+
+// Block storage
+
+class FakeBlockstorageClient {
+  constructor(private state: FakeCloudState) {}
+
+  async listVolumes(request: Resource) {
+    const items = filterResources(this.state.volumes.values(), request);
+    return paginate(items, request);
+  }
+
+  async getVolume(request: { volumeId: string }) {
+    const volume = lookup(this.state.volumes, 'Volume', request.volumeId, 'getVolume');
+    return { volume: clone(volume), etag: volume.etag, opcRequestId: requestId() };
+  }
+
+  async createVolume(request: { createVolumeDetails: Resource }) {
+    const details = request.createVolumeDetails;
+    let sizeInGBs = details.sizeInGBs || 50;
+    if (details.sourceDetails) {
+      if (details.sourceDetails.type !== 'volumeBackup') {
+        throw serviceError(400, 'InvalidParameter', `Unsupported volume source type: ${details.sourceDetails.type}`, 'createVolume');
+      }
+      const backup = lookup(this.state.volumeBackups, 'Volume backup', details.sourceDetails.id, 'createVolume');
+      if (details.sizeInGBs !== undefined && details.sizeInGBs < backup.sizeInGBs) {
+        throw serviceError(400, 'InvalidParameter', `Volume size cannot be smaller than the backup (${backup.sizeInGBs} GB)`, 'createVolume');
+      }
+      sizeInGBs = details.sizeInGBs ?? backup.sizeInGBs;
+    }
+
+    const id = this.state.ocid('volume');
+    const volume = {
+      id,
+      compartmentId: details.compartmentId,
+      availabilityDomain: details.availabilityDomain,
+      displayName: details.displayName || id,
+      sizeInGBs,
+      sizeInMBs: sizeInGBs * 1024,
+      vpusPerGB: details.vpusPerGB ?? 10,
+      volumeGroupId: undefined,
+      sourceDetails: details.sourceDetails,
+      isHydrated: true,
+      freeformTags: details.freeformTags || {},
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date(),
+      etag: requestId()
+    };
+    this.state.volumes.set(id, volume);
+    return { volume: clone(volume), etag: volume.etag, opcRequestId: requestId() };
+  }
+
+  async deleteVolume(request: { volumeId: string }) {
+    const volume = lookup(this.state.volumes, 'Volume', request.volumeId, 'deleteVolume');
+    const attached = Array.from(this.state.volumeAttachments.values()).some(attachment =>
+      attachment.volumeId === volume.id && attachment.lifecycleState === 'ATTACHED'
+    );
+    if (attached) {
+      throw conflict(`Volume ${volume.id} is attached to an instance`, 'deleteVolume');
+    }
+    volume.lifecycleState = 'TERMINATED';
+    return { opcRequestId: requestId() };
+  }
+
+  async updateVolume(request: { volumeId: string; updateVolumeDetails: Resource }) {
+    const volume = lookup(this.state.volumes, 'Volume', request.volumeId, 'updateVolume');
+    const details = request.updateVolumeDetails;
+    if (details.sizeInGBs !== undefined) {
+      if (details.sizeInGBs < volume.sizeInGBs) {
+        throw serviceError(400, 'InvalidParameter', 'Volume size cannot be decreased', 'updateVolume');
+      }
+      volume.sizeInGBs = details.sizeInGBs;
+      volume.sizeInMBs = details.sizeInGBs * 1024;
+    }
+    for (const key of ['displayName', 'vpusPerGB', 'freeformTags', 'definedTags']) {
+      if (details[key] !== undefined) {
+        volume[key] = details[key];
+      }
+    }
+    volume.etag = requestId();
+    return { volume: clone(volume), etag: volume.etag, opcRequestId: requestId() };
+  }
+
+  async listVolumeBackups(request: Resource) {
+    const items = filterResources(this.state.volumeBackups.values(), request);
+    return paginate(items, request);
+  }
+
+  async getVolumeBackup(request: { volumeBackupId: string }) {
+    const backup = lookup(this.state.volumeBackups, 'Volume backup', request.volumeBackupId, 'getVolumeBackup');
+    return { volumeBackup: clone(backup), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async createVolumeBackup(request: { createVolumeBackupDetails: Resource }) {
+    const details = request.createVolumeBackupDetails;
+    const volume = lookup(this.state.volumes, 'Volume', details.volumeId, 'createVolumeBackup');
+    if (volume.lifecycleState !== 'AVAILABLE') {
+      throw conflict(`Volume ${volume.id} is ${volume.lifecycleState}`, 'createVolumeBackup');
+    }
+    const backup = this.backupOf(volume, details.displayName, details.type, details.freeformTags);
+    return { volumeBackup: clone(backup), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  // The copy lands in the destination region's state of the same fake cloud
+  async copyVolumeBackup(request: { volumeBackupId: string; copyVolumeBackupDetails: Resource }) {
+    const source = lookup(this.state.volumeBackups, 'Volume backup', request.volumeBackupId, 'copyVolumeBackup');
+    const details = request.copyVolumeBackupDetails;
+    if (details.destinationRegion === this.state.region) {
+      throw serviceError(400, 'InvalidParameter', 'The destination region must differ from the source region', 'copyVolumeBackup');
+    }
+    if (source.lifecycleState !== 'AVAILABLE') {
+      throw conflict(`Volume backup ${source.id} is ${source.lifecycleState}`, 'copyVolumeBackup');
+    }
+
+    const destination = this.state.peer(this.state.tenancyId, details.destinationRegion, this.state.namespace);
+    const id = destination.ocid('volumebackup');
+    const copy = {
+      ...clone(source),
+      id,
+      displayName: details.displayName || source.displayName,
+      sourceVolumeBackupId: source.id,
+      timeCreated: new Date()
+    };
+    destination.volumeBackups.set(id, copy);
+    const workRequestId = this.state.recordWorkRequest('CopyVolumeBackup', source.compartmentId, 'volumebackup', 'CREATED', id);
+    return { volumeBackup: clone(copy), etag: requestId(), opcRequestId: requestId(), opcWorkRequestId: workRequestId };
+  }
+
+  private backupOf(volume: Resource, displayName: string | undefined, type: string | undefined, freeformTags?: Resource): Resource {
+    const id = this.state.ocid('volumebackup');
+    const backup = {
+      id,
+      compartmentId: volume.compartmentId,
+      volumeId: volume.id,
+      displayName: displayName || id,
+      type: type || 'INCREMENTAL',
+      sourceType: 'MANUAL',
+      sizeInGBs: volume.sizeInGBs,
+      uniqueSizeInGBs: volume.sizeInGBs,
+      freeformTags: freeformTags || {},
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date(),
+      timeRequestReceived: new Date()
+    };
+    this.state.volumeBackups.set(id, backup);
+    return backup;
+  }
+
+  async listVolumeBackupPolicies(request: Resource) {
+    // Without a compartment OCI lists the Oracle-defined policies
+    const items = Array.from(this.state.backupPolicies.values()).filter(policy => policy.compartmentId === request.compartmentId);
+    return paginate(items, request);
+  }
+
+  async getVolumeBackupPolicy(request: { policyId: string }) {
+    const policy = lookup(this.state.backupPolicies, 'Volume backup policy', request.policyId, 'getVolumeBackupPolicy');
+    return { volumeBackupPolicy: clone(policy), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async getVolumeBackupPolicyAssetAssignment(request: { assetId: string; limit?: number; page?: string }) {
+    const items = Array.from(this.state.backupPolicyAssignments.values()).filter(assignment => assignment.assetId === request.assetId);
+    return paginate(items, request);
+  }
+
+  async createVolumeBackupPolicyAssignment(request: { createVolumeBackupPolicyAssignmentDetails: Resource }) {
+    const details = request.createVolumeBackupPolicyAssignmentDetails;
+    lookup(this.state.backupPolicies, 'Volume backup policy', details.policyId, 'createVolumeBackupPolicyAssignment');
+    if (!this.assetExists(details.assetId)) {
+      throw notFound('Volume', details.assetId, 'createVolumeBackupPolicyAssignment');
+    }
+    const existing = Array.from(this.state.backupPolicyAssignments.values()).some(assignment => assignment.assetId === details.assetId);
+    if (existing) {
+      throw conflict(`${details.assetId} already has a backup policy assigned`, 'createVolumeBackupPolicyAssignment');
+    }
+
+    const id = this.state.ocid('volumebackuppolicyassignment');
+    const assignment = { id, assetId: details.assetId, policyId: details.policyId, timeCreated: new Date() };
+    this.state.backupPolicyAssignments.set(id, assignment);
+    return { volumeBackupPolicyAssignment: clone(assignment), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async deleteVolumeBackupPolicyAssignment(request: { policyAssignmentId: string }) {
+    lookup(this.state.backupPolicyAssignments, 'Volume backup policy assignment', request.policyAssignmentId, 'deleteVolumeBackupPolicyAssignment');
+    this.state.backupPolicyAssignments.delete(request.policyAssignmentId);
+    return { opcRequestId: requestId() };
+  }
+
+  private assetExists(assetId: string): boolean {
+    return this.state.volumes.has(assetId) || this.state.bootVolumes.has(assetId) || this.state.volumeGroups.has(assetId);
+  }
+
+  async listVolumeGroups(request: Resource) {
+    const items = filterResources(this.state.volumeGroups.values(), request);
+    return paginate(items, request);
+  }
+
+  async getVolumeGroup(request: { volumeGroupId: string }) {
+    const group = lookup(this.state.volumeGroups, 'Volume group', request.volumeGroupId, 'getVolumeGroup');
+    return { volumeGroup: clone(group), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async createVolumeGroup(request: { createVolumeGroupDetails: Resource }) {
+    const details = request.createVolumeGroupDetails;
+    if (details.sourceDetails?.type !== 'volumeIds') {
+      throw serviceError(400, 'InvalidParameter', `Unsupported volume group source type: ${details.sourceDetails?.type}`, 'createVolumeGroup');
+    }
+    const id = this.state.ocid('volumegroup');
+    const group = {
+      id,
+      compartmentId: details.compartmentId,
+      availabilityDomain: details.availabilityDomain,
+      displayName: details.displayName || id,
+      volumeIds: [] as string[],
+      sizeInGBs: 0,
+      sizeInMBs: 0,
+      isHydrated: true,
+      freeformTags: details.freeformTags || {},
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date()
+    };
+    this.setMembers(group, details.sourceDetails.volumeIds, 'createVolumeGroup');
+    this.state.volumeGroups.set(id, group);
+    return { volumeGroup: clone(group), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async updateVolumeGroup(request: { volumeGroupId: string; updateVolumeGroupDetails: Resource }) {
+    const group = lookup(this.state.volumeGroups, 'Volume group', request.volumeGroupId, 'updateVolumeGroup');
+    const details = request.updateVolumeGroupDetails;
+    if (details.volumeIds) {
+      this.setMembers(group, details.volumeIds, 'updateVolumeGroup');
+    }
+    for (const key of ['displayName', 'freeformTags', 'definedTags']) {
+      if (details[key] !== undefined) {
+        group[key] = details[key];
+      }
+    }
+    return { volumeGroup: clone(group), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async deleteVolumeGroup(request: { volumeGroupId: string }) {
+    const group = lookup(this.state.volumeGroups, 'Volume group', request.volumeGroupId, 'deleteVolumeGroup');
+    this.setMembers(group, [], 'deleteVolumeGroup');
+    group.lifecycleState = 'TERMINATED';
+    return { opcRequestId: requestId() };
+  }
+
+  // Block and boot volumes of the group's availability domain, each in at most one group
+  private setMembers(group: Resource, volumeIds: string[], operationName: string): void {
+    const members = volumeIds.map(volumeId => {
+      const volume = this.state.volumes.get(volumeId) ?? this.state.bootVolumes.get(volumeId);
+      if (!volume) {
+        throw notFound('Volume', volumeId, operationName);
+      }
+      if (volume.availabilityDomain !== group.availabilityDomain) {
+        throw serviceError(400, 'InvalidParameter', `Volume ${volumeId} is not in ${group.availabilityDomain}`, operationName);
+      }
+      if (volume.volumeGroupId && volume.volumeGroupId !== group.id) {
+        throw conflict(`Volume ${volumeId} already belongs to volume group ${volume.volumeGroupId}`, operationName);
+      }
+      return volume;
+    });
+
+    for (const volumeId of group.volumeIds) {
+      const volume = this.state.volumes.get(volumeId) ?? this.state.bootVolumes.get(volumeId);
+      if (volume) {
+        volume.volumeGroupId = undefined;
+      }
+    }
+    for (const volume of members) {
+      volume.volumeGroupId = group.id;
+    }
+    group.volumeIds = volumeIds;
+    group.sizeInGBs = members.reduce((total, volume) => total + volume.sizeInGBs, 0);
+    group.sizeInMBs = group.sizeInGBs * 1024;
+  }
+
+  async listVolumeGroupBackups(request: Resource) {
+    const items = filterResources(this.state.volumeGroupBackups.values(), request);
+    return paginate(items, request);
+  }
+
+  async getVolumeGroupBackup(request: { volumeGroupBackupId: string }) {
+    const backup = lookup(this.state.volumeGroupBackups, 'Volume group backup', request.volumeGroupBackupId, 'getVolumeGroupBackup');
+    return { volumeGroupBackup: clone(backup), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async createVolumeGroupBackup(request: { createVolumeGroupBackupDetails: Resource }) {
+    const details = request.createVolumeGroupBackupDetails;
+    const group = lookup(this.state.volumeGroups, 'Volume group', details.volumeGroupId, 'createVolumeGroupBackup');
+    const id = this.state.ocid('volumegroupbackup');
+    const volumeBackupIds = group.volumeIds
+      .filter((volumeId: string) => this.state.volumes.has(volumeId))
+      .map((volumeId: string) => this.backupOf(this.state.volumes.get(volumeId)!, undefined, details.type).id);
+    const backup = {
+      id,
+      compartmentId: details.compartmentId || group.compartmentId,
+      volumeGroupId: group.id,
+      displayName: details.displayName || id,
+      type: details.type || 'INCREMENTAL',
+      sourceType: 'MANUAL',
+      volumeBackupIds,
+      sizeInGBs: group.sizeInGBs,
+      uniqueSizeInGbs: group.sizeInGBs,
+      freeformTags: details.freeformTags || {},
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date(),
+      timeRequestReceived: new Date()
+    };
+    this.state.volumeGroupBackups.set(id, backup);
+    return { volumeGroupBackup: clone(backup), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async listBootVolumes(request: Resource) {
+    const items = filterResources(this.state.bootVolumes.values(), request);
+    return paginate(items, request);
+  }
+
+  async getBootVolume(request: { bootVolumeId: string }) {
+    const bootVolume = lookup(this.state.bootVolumes, 'Boot volume', request.bootVolumeId, 'getBootVolume');
+    return { bootVolume: clone(bootVolume), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  // Clones and restores: the source is another boot volume or a boot volume backup
+  async createBootVolume(request: { createBootVolumeDetails: Resource }) {
+    const details = request.createBootVolumeDetails;
+    const source = details.sourceDetails || {};
+    let origin: Resource;
+    if (source.type === 'bootVolume') {
+      origin = lookup(this.state.bootVolumes, 'Boot volume', source.id, 'createBootVolume');
+    } else if (source.type === 'bootVolumeBackup') {
+      origin = lookup(this.state.bootVolumeBackups, 'Boot volume backup', source.id, 'createBootVolume');
+    } else {
+      throw serviceError(400, 'InvalidParameter', `Unsupported boot volume source type: ${source.type}`, 'createBootVolume');
+    }
+    if (origin.lifecycleState !== 'AVAILABLE') {
+      throw conflict(`Source ${origin.id} is ${origin.lifecycleState}`, 'createBootVolume');
+    }
+    if (details.sizeInGBs !== undefined && details.sizeInGBs < origin.sizeInGBs) {
+      throw serviceError(400, 'InvalidParameter', `Boot volume size cannot be smaller than the source (${origin.sizeInGBs} GB)`, 'createBootVolume');
+    }
+
+    const bootVolume = this.state.createBootVolume({
+      ...details,
+      imageId: origin.imageId,
+      sizeInGBs: details.sizeInGBs ?? origin.sizeInGBs
+    });
+    return { bootVolume: clone(bootVolume), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async listBootVolumeBackups(request: Resource) {
+    const items = filterResources(this.state.bootVolumeBackups.values(), request);
+    return paginate(items, request);
+  }
+
+  async getBootVolumeBackup(request: { bootVolumeBackupId: string }) {
+    const backup = lookup(this.state.bootVolumeBackups, 'Boot volume backup', request.bootVolumeBackupId, 'getBootVolumeBackup');
+    return { bootVolumeBackup: clone(backup), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async createBootVolumeBackup(request: { createBootVolumeBackupDetails: Resource }) {
+    const details = request.createBootVolumeBackupDetails;
+    const bootVolume = lookup(this.state.bootVolumes, 'Boot volume', details.bootVolumeId, 'createBootVolumeBackup');
+    if (bootVolume.lifecycleState !== 'AVAILABLE') {
+      throw conflict(`Boot volume ${bootVolume.id} is ${bootVolume.lifecycleState}`, 'createBootVolumeBackup');
+    }
+
+    const id = this.state.ocid('bootvolumebackup');
+    const backup = {
+      id,
+      compartmentId: bootVolume.compartmentId,
+      bootVolumeId: bootVolume.id,
+      displayName: details.displayName || id,
+      imageId: bootVolume.imageId,
+      type: details.type || 'INCREMENTAL',
+      sourceType: 'MANUAL',
+      sizeInGBs: bootVolume.sizeInGBs,
+      uniqueSizeInGBs: bootVolume.sizeInGBs,
+      freeformTags: details.freeformTags || {},
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date(),
+      timeRequestReceived: new Date()
+    };
+    this.state.bootVolumeBackups.set(id, backup);
+    return { bootVolumeBackup: clone(backup), etag: requestId(), opcRequestId: requestId() };
+  }
+}
+
+// Object storage
+
+class FakeObjectStorageClient {
+  constructor(private state: FakeCloudState) {}
+
+  async getNamespace(_request: Resource) {
+    return { value: this.state.namespace, opcRequestId: requestId() };
+  }
+
+  private bucketKey(namespaceName: string, bucketName: string): string {
+    return `${namespaceName}/${bucketName}`;
+  }
+
+  private getBucketOrThrow(namespaceName: string, bucketName: string, operationName: string): Resource {
+    if (namespaceName !== this.state.namespace) {
+      throw notFound('Namespace', namespaceName, operationName);
+    }
+    return lookup(this.state.buckets, 'Bucket', this.bucketKey(namespaceName, bucketName), operationName);
+  }
+
+  private objectsIn(namespaceName: string, bucketName: string): Map<string, FakeObject> {
+    return this.state.bucketObjects(this.bucketKey(namespaceName, bucketName));
+  }
+
+  async listBuckets(request: { namespaceName: string; compartmentId: string; limit?: number; page?: string }) {
+    const items = Array.from(this.state.buckets.values())
+      .filter(bucket => bucket.namespace === request.namespaceName && bucket.compartmentId === request.compartmentId)
+      .map(bucket => ({
+        namespace: bucket.namespace,
+        name: bucket.name,
+        compartmentId: bucket.compartmentId,
+        createdBy: bucket.createdBy,
+        timeCreated: bucket.timeCreated,
+        etag: bucket.etag
+      }));
+    return paginate(items, request);
+  }
+
+  async getBucket(request: { namespaceName: string; bucketName: string }) {
+    const bucket = this.getBucketOrThrow(request.namespaceName, request.bucketName, 'getBucket');
+    const objects = this.objectsIn(request.namespaceName, request.bucketName);
+    const approximateSize = Array.from(objects.values()).reduce((total, object) => total + object.body.length, 0);
+    return {
+      bucket: { ...clone(bucket), approximateCount: objects.size, approximateSize },
+      eTag: bucket.etag,
+      opcRequestId: requestId()
+    };
+  }
+
+  async createBucket(request: { namespaceName: string; createBucketDetails: Resource }) {
+    const details = request.createBucketDetails;
+    if (request.namespaceName !== this.state.namespace) {
+      throw notFound('Namespace', request.namespaceName, 'createBucket');
+    }
+    const key = this.bucketKey(request.namespaceName, details.name);
+    if (this.state.buckets.has(key)) {
+      throw serviceError(409, 'BucketAlreadyExists', `Bucket ${details.name} already exists`, 'createBucket');
+    }
+
+    const bucket = {
+      id: this.state.ocid('bucket'),
+      namespace: request.namespaceName,
+      name: details.name,
+      compartmentId: details.compartmentId,
+      storageTier: details.storageTier || 'Standard',
+      publicAccessType: details.publicAccessType || 'NoPublicAccess',
+      versioning: details.versioning || 'Disabled',
+      freeformTags: details.freeformTags || {},
+      metadata: details.metadata || {},
+      createdBy: 'ocid1.user.oc1..fake',
+      timeCreated: new Date(),
+      etag: requestId()
+    };
+    this.state.buckets.set(key, bucket);
+    return { bucket: clone(bucket), eTag: bucket.etag, opcRequestId: requestId() };
+  }
+
+  async updateBucket(request: { namespaceName: string; bucketName: string; ifMatch?: string; updateBucketDetails: Resource }) {
+    const bucket = this.getBucketOrThrow(request.namespaceName, request.bucketName, 'updateBucket');
+    if (request.ifMatch && request.ifMatch !== bucket.etag) {
+      throw serviceError(412, 'IfMatchFailed', `Bucket ${request.bucketName} changed since it was read`, 'updateBucket');
+    }
+    const details = request.updateBucketDetails;
+    const key = this.bucketKey(request.namespaceName, request.bucketName);
+    if (details.versioning === 'Enabled' && (this.state.retentionRules.get(key)?.size ?? 0) > 0) {
+      throw conflict(`Versioning cannot be enabled on bucket ${request.bucketName} while it has retention rules`, 'updateBucket');
+    }
+    for (const field of ['versioning', 'publicAccessType', 'freeformTags', 'metadata', 'objectEventsEnabled'] as const) {
+      if (details[field] !== undefined) {
+        bucket[field] = clone(details[field]);
+      }
+    }
+    bucket.etag = requestId();
+    return { bucket: clone(bucket), eTag: bucket.etag, opcRequestId: requestId() };
+  }
+
+  async deleteBucket(request: { namespaceName: string; bucketName: string }) {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, 'deleteBucket');
+    const key = this.bucketKey(request.namespaceName, request.bucketName);
+    if (this.objectsIn(request.namespaceName, request.bucketName).size > 0 || this.state.previousVersions(key).length > 0) {
+      throw serviceError(409, 'BucketNotEmpty', `Bucket ${request.bucketName} is not empty`, 'deleteBucket');
+    }
+    this.state.buckets.delete(key);
+    this.state.objects.delete(key);
+    this.state.objectVersions.delete(key);
+    this.state.lifecyclePolicies.delete(key);
+    this.state.retentionRules.delete(key);
+    return { opcRequestId: requestId() };
+  }
+
+  async listObjects(request: { namespaceName: string; bucketName: string; prefix?: string; start?: string; end?: string; limit?: number; delimiter?: string }) {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, 'listObjects');
+    const limit = request.limit || 1000;
+    const prefixes = new Set<string>();
+    const names = Array.from(this.objectsIn(request.namespaceName, request.bucketName).keys())
+      .filter(name => !request.prefix || name.startsWith(request.prefix))
+      .filter(name => !request.start || name >= request.start)
+      .filter(name => !request.end || name < request.end)
+      .sort();
+
+    const objects: Resource[] = [];
+    let nextStartWith: string | undefined;
+    for (const name of names) {
+      if (request.delimiter) {
+        const rest = name.slice(request.prefix?.length || 0);
+        const index = rest.indexOf(request.delimiter);
+        if (index >= 0) {
+          prefixes.add(name.slice(0, (request.prefix?.length || 0) + index + 1));
+          continue;
+        }
+      }
+      if (objects.length >= limit) {
+        nextStartWith = name;
+        break;
+      }
+      const object = this.objectsIn(request.namespaceName, request.bucketName).get(name)!;
+      objects.push({
+        name: object.name,
+        size: object.body.length,
+        md5: object.md5,
+        etag: object.etag,
+        timeCreated: object.timeCreated,
+        timeModified: object.timeModified,
+        storageTier: object.storageTier,
+        archivalState: object.archivalState
+      });
+    }
+
+    return {
+      listObjects: { objects, prefixes: Array.from(prefixes), nextStartWith },
+      opcRequestId: requestId()
+    };
+  }
+
+  async putObject(request: Resource) {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, 'putObject');
+    const body = await readBody(request.putObjectBody);
+    const md5 = createHash('md5').update(body).digest('base64');
+    if (request.contentMD5 && request.contentMD5 !== md5) {
+      throw serviceError(400, 'InvalidContentMD5', 'The computed MD5 does not match the Content-MD5 header', 'putObject');
+    }
+
+    const object = this.state.writeObject(this.bucketKey(request.namespaceName, request.bucketName), {
+      name: request.objectName,
+      body,
+      contentType: request.contentType || 'application/octet-stream',
+      md5,
+      opcMeta: request.opcMeta,
+      storageTier: request.storageTier
+    }, 'putObject');
+    return { eTag: object.etag, opcContentMd5: md5, versionId: object.versionId, lastModified: object.timeModified, opcRequestId: requestId() };
+  }
+
+  async createMultipartUpload(request: { namespaceName: string; bucketName: string; createMultipartUploadDetails: Resource }) {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, 'createMultipartUpload');
+    const details = request.createMultipartUploadDetails;
+    const upload: FakeMultipartUpload = {
+      namespace: request.namespaceName,
+      bucket: request.bucketName,
+      object: details.object,
+      uploadId: randomUUID(),
+      timeCreated: new Date(),
+      contentType: details.contentType,
+      parts: new Map()
+    };
+    this.state.multipartUploads.set(upload.uploadId, upload);
+    return {
+      multipartUpload: multipartUploadSummary(upload),
+      location: `/n/${request.namespaceName}/b/${request.bucketName}/u/${encodeURIComponent(details.object)}`,
+      opcRequestId: requestId()
+    };
+  }
+
+  async uploadPart(request: FakeUploadRequest & Resource) {
+    const upload = this.getUploadOrThrow(request, 'uploadPart');
+    if (!Number.isInteger(request.uploadPartNum) || request.uploadPartNum < 1 || request.uploadPartNum > 10000) {
+      throw serviceError(400, 'InvalidParameter', 'uploadPartNum must be between 1 and 10000', 'uploadPart');
+    }
+    const body = await readBody(request.uploadPartBody);
+    const md5 = createHash('md5').update(body).digest('base64');
+    if (request.contentMD5 && request.contentMD5 !== md5) {
+      throw serviceError(400, 'InvalidContentMD5', 'The computed MD5 does not match the Content-MD5 header', 'uploadPart');
+    }
+    const part = { body, md5, etag: randomUUID(), lastModified: new Date() };
+    upload.parts.set(request.uploadPartNum, part);
+    return { eTag: part.etag, opcContentMd5: md5, opcRequestId: requestId() };
+  }
+
+  async listMultipartUploadParts(request: FakeUploadRequest & { limit?: number; page?: string }) {
+    const upload = this.getUploadOrThrow(request, 'listMultipartUploadParts');
+    const items = Array.from(upload.parts.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([partNumber, part]) => ({ partNumber, etag: part.etag, md5: part.md5, size: part.body.length }));
+    return paginate(items, request);
+  }
+
+  async listMultipartUploads(request: { namespaceName: string; bucketName: string; limit?: number; page?: string }) {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, 'listMultipartUploads');
+    const items = Array.from(this.state.multipartUploads.values())
+      .filter(upload => upload.namespace === request.namespaceName && upload.bucket === request.bucketName)
+      .map(multipartUploadSummary);
+    return paginate(items, request);
+  }
+
+  async commitMultipartUpload(request: FakeUploadRequest & Resource) {
+    const upload = this.getUploadOrThrow(request, 'commitMultipartUpload');
+    const details = request.commitMultipartUploadDetails;
+    const partsToCommit: Array<{ partNum: number; etag: string }> = [...details.partsToCommit].sort((a, b) => a.partNum - b.partNum);
+    if (partsToCommit.length === 0) {
+      throw serviceError(400, 'InvalidParameter', 'partsToCommit is empty', 'commitMultipartUpload');
+    }
+    const parts = partsToCommit.map(({ partNum, etag }) => {
+      const part = upload.parts.get(partNum);
+      if (!part || part.etag !== etag) {
+        throw serviceError(400, 'InvalidParameter', `Part ${partNum} with ETag ${etag} was not uploaded`, 'commitMultipartUpload');
+      }
+      return part;
+    });
+
+    const digests = Buffer.concat(parts.map(part => Buffer.from(part.md5, 'base64')));
+    const multipartMd5 = `${createHash('md5').update(digests).digest('base64')}-${parts.length}`;
+    const object = this.state.writeObject(this.bucketKey(upload.namespace, upload.bucket), {
+      name: upload.object,
+      body: Buffer.concat(parts.map(part => part.body)),
+      contentType: upload.contentType || 'application/octet-stream',
+      md5: multipartMd5,
+      multipartMd5
+    }, 'commitMultipartUpload');
+    this.state.multipartUploads.delete(upload.uploadId);
+    return { eTag: object.etag, opcMultipartMd5: multipartMd5, versionId: object.versionId, lastModified: object.timeModified, opcRequestId: requestId() };
+  }
+
+  async abortMultipartUpload(request: FakeUploadRequest) {
+    const upload = this.getUploadOrThrow(request, 'abortMultipartUpload');
+    this.state.multipartUploads.delete(upload.uploadId);
+    return { opcRequestId: requestId() };
+  }
+
+  async createPreauthenticatedRequest(request: { namespaceName: string; bucketName: string; createPreauthenticatedRequestDetails: Resource }) {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, 'createPreauthenticatedRequest');
+    const details = request.createPreauthenticatedRequestDetails;
+    const timeExpires = new Date(details.timeExpires);
+    if (!(timeExpires.getTime() > Date.now())) {
+      throw serviceError(400, 'InvalidParameter', 'timeExpires must be in the future', 'createPreauthenticatedRequest');
+    }
+    const isAnyObject = String(details.accessType).startsWith('AnyObject');
+    if (!isAnyObject && !details.objectName) {
+      throw serviceError(400, 'InvalidParameter', `${details.accessType} needs an objectName`, 'createPreauthenticatedRequest');
+    }
+
+    const id = randomUUID();
+    const token = randomUUID().replace(/-/g, '');
+    const par = {
+      id,
+      name: details.name,
+      objectName: details.objectName,
+      accessType: details.accessType,
+      bucketListingAction: details.bucketListingAction,
+      timeExpires,
+      timeCreated: new Date(),
+      namespace: request.namespaceName,
+      bucket: request.bucketName
+    };
+    this.state.preauthenticatedRequests.set(id, par);
+    const objectPath = isAnyObject ? '' : encodeURIComponent(details.objectName);
+    return {
+      preauthenticatedRequest: {
+        ...parSummary(par),
+        accessUri: `/p/${token}/n/${request.namespaceName}/b/${request.bucketName}/o/${objectPath}`
+      },
+      opcRequestId: requestId()
+    };
+  }
+
+  async listPreauthenticatedRequests(request: { namespaceName: string; bucketName: string; objectNamePrefix?: string; limit?: number; page?: string }) {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, 'listPreauthenticatedRequests');
+    const items = Array.from(this.state.preauthenticatedRequests.values())
+      .filter(par => par.namespace === request.namespaceName && par.bucket === request.bucketName)
+      .filter(par => !request.objectNamePrefix || (par.objectName || '').startsWith(request.objectNamePrefix))
+      .map(parSummary);
+    return paginate(items, request);
+  }
+
+  async getPreauthenticatedRequest(request: { namespaceName: string; bucketName: string; parId: string }) {
+    const par = this.getParOrThrow(request, 'getPreauthenticatedRequest');
+    return { preauthenticatedRequestSummary: parSummary(par), opcRequestId: requestId() };
+  }
+
+  async deletePreauthenticatedRequest(request: { namespaceName: string; bucketName: string; parId: string }) {
+    this.getParOrThrow(request, 'deletePreauthenticatedRequest');
+    this.state.preauthenticatedRequests.delete(request.parId);
+    return { opcRequestId: requestId() };
+  }
+
+  private getParOrThrow(request: { namespaceName: string; bucketName: string; parId: string }, operationName: string): Resource {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, operationName);
+    const par = this.state.preauthenticatedRequests.get(request.parId);
+    if (!par || par.namespace !== request.namespaceName || par.bucket !== request.bucketName) {
+      throw notFound('PreauthenticatedRequest', request.parId, operationName);
+    }
+    return par;
+  }
+
+  private getUploadOrThrow(request: FakeUploadRequest, operationName: string): FakeMultipartUpload {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, operationName);
+    const upload = this.state.multipartUploads.get(request.uploadId);
+    if (!upload || upload.namespace !== request.namespaceName || upload.bucket !== request.bucketName || upload.object !== request.objectName) {
+      throw serviceError(404, 'NoSuchUpload', `No multipart upload ${request.uploadId} for ${request.objectName}`, operationName);
+    }
+    return upload;
+  }
+
+  async headObject(request: { namespaceName: string; bucketName: string; objectName: string; versionId?: string }) {
+    const object = this.getObjectOrThrow(request.namespaceName, request.bucketName, request.objectName, 'headObject', request.versionId);
+    return {
+      eTag: object.etag,
+      contentLength: object.body.length,
+      contentType: object.contentType,
+      contentMd5: object.multipartMd5 ? undefined : object.md5,
+      opcMultipartMd5: object.multipartMd5,
+      lastModified: object.timeModified,
+      versionId: object.versionId,
+      storageTier: object.storageTier,
+      archivalState: object.archivalState,
+      timeOfArchival: object.timeOfArchival?.toISOString(),
+      opcMeta: object.opcMeta || {},
+      opcRequestId: requestId()
+    };
+  }
+
+  async getObject(request: { namespaceName: string; bucketName: string; objectName: string; versionId?: string; ifMatch?: string; range?: { startByte?: number; endByte?: number } }) {
+    const object = this.getObjectOrThrow(request.namespaceName, request.bucketName, request.objectName, 'getObject', request.versionId);
+    if (request.ifMatch && request.ifMatch !== object.etag) {
+      throw serviceError(412, 'IfMatchFailed', `The ETag of ${request.objectName} does not match`, 'getObject');
+    }
+    if (object.archivalState && object.archivalState !== 'Restored') {
+      throw serviceError(409, 'NotRestored', `Object ${request.objectName} is archived and must be restored before it can be read`, 'getObject');
+    }
+    let body = object.body;
+    if (request.range) {
+      const start = request.range.startByte ?? 0;
+      const end = request.range.endByte !== undefined ? request.range.endByte + 1 : body.length;
+      body = body.subarray(start, end);
+    }
+    return {
+      value: Readable.from([body]),
+      eTag: object.etag,
+      contentLength: body.length,
+      contentType: object.contentType,
+      contentMd5: object.multipartMd5 ? undefined : object.md5,
+      opcMultipartMd5: object.multipartMd5,
+      lastModified: object.timeModified,
+      versionId: object.versionId,
+      storageTier: object.storageTier,
+      archivalState: object.archivalState,
+      opcMeta: object.opcMeta || {},
+      opcRequestId: requestId()
+    };
+  }
+
+  async copyObject(request: { namespaceName: string; bucketName: string; copyObjectDetails: Resource }) {
+    const details = request.copyObjectDetails;
+    const bucket = this.getBucketOrThrow(request.namespaceName, request.bucketName, 'copyObject');
+    const source = this.getObjectOrThrow(request.namespaceName, request.bucketName, details.sourceObjectName, 'copyObject', details.sourceVersionId);
+    if (details.sourceObjectIfMatchETag && details.sourceObjectIfMatchETag !== source.etag) {
+      throw serviceError(412, 'IfMatchFailed', `The ETag of ${details.sourceObjectName} does not match`, 'copyObject');
+    }
+    if (source.archivalState && source.archivalState !== 'Restored') {
+      throw serviceError(409, 'NotRestored', `Object ${details.sourceObjectName} is archived and must be restored before it can be copied`, 'copyObject');
+    }
+
+    // Copies finish right away; to another region they land in that region's fake cloud
+    const destination = details.destinationRegion === this.state.region
+      ? this.state
+      : this.state.peer(this.state.tenancyId, details.destinationRegion, details.destinationNamespace);
+    const key = this.bucketKey(details.destinationNamespace, details.destinationBucket);
+    lookup(destination.buckets, 'Bucket', key, 'copyObject');
+    const existing = destination.findObject(key, details.destinationObjectName);
+    if (details.destinationObjectIfMatchETag && details.destinationObjectIfMatchETag !== existing?.etag) {
+      throw serviceError(412, 'IfMatchFailed', `The ETag of ${details.destinationObjectName} does not match`, 'copyObject');
+    }
+    if (details.destinationObjectIfNoneMatchETag === '*' && existing) {
+      throw serviceError(412, 'IfNoneMatchFailed', `${details.destinationObjectName} already exists`, 'copyObject');
+    }
+    const copy = destination.writeObject(key, {
+      name: details.destinationObjectName,
+      body: source.body,
+      contentType: source.contentType,
+      md5: source.md5,
+      multipartMd5: source.multipartMd5,
+      opcMeta: details.destinationObjectMetadata || source.opcMeta,
+      storageTier: details.destinationObjectStorageTier || source.storageTier
+    }, 'copyObject');
+
+    const id = this.state.ocid('objectstorageworkrequest');
+    const now = new Date();
+    this.state.objectStorageWorkRequests.set(id, {
+      id,
+      operationType: 'COPY_OBJECT',
+      status: 'COMPLETED',
+      compartmentId: bucket.compartmentId,
+      resources: [{
+        actionType: 'WRITTEN',
+        entityType: 'object',
+        identifier: copy.versionId,
+        entityUri: `/n/${details.destinationNamespace}/b/${details.destinationBucket}/o/${encodeURIComponent(copy.name)}`
+      }],
+      percentComplete: 100,
+      timeAccepted: now,
+      timeStarted: now,
+      timeFinished: now
+    });
+    return { opcWorkRequestId: id, opcRequestId: requestId() };
+  }
+
+  async getWorkRequest(request: { workRequestId: string }) {
+    const workRequest = lookup(this.state.objectStorageWorkRequests, 'Work request', request.workRequestId, 'getWorkRequest');
+    return { workRequest: clone(workRequest), opcRequestId: requestId() };
+  }
+
+  async deleteObject(request: { namespaceName: string; bucketName: string; objectName: string; versionId?: string }) {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, 'deleteObject');
+    this.state.removeObject(this.bucketKey(request.namespaceName, request.bucketName), request.objectName, request.versionId, 'deleteObject');
+    return { opcRequestId: requestId(), lastModified: new Date() };
+  }
+
+  async listObjectVersions(request: { namespaceName: string; bucketName: string; prefix?: string; limit?: number; page?: string }) {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, 'listObjectVersions');
+    const key = this.bucketKey(request.namespaceName, request.bucketName);
+    const current = Array.from(this.objectsIn(request.namespaceName, request.bucketName).values());
+    const items = [...current, ...this.state.previousVersions(key)]
+      .filter(object => !request.prefix || object.name.startsWith(request.prefix))
+      // By name, then newest first like OCI
+      .sort((a, b) => a.name.localeCompare(b.name) || b.timeModified.getTime() - a.timeModified.getTime())
+      .map(object => ({
+        name: object.name,
+        size: object.body.length,
+        md5: object.md5 || undefined,
+        etag: object.etag,
+        versionId: object.versionId,
+        isDeleteMarker: Boolean(object.isDeleteMarker),
+        timeCreated: object.timeCreated,
+        timeModified: object.timeModified,
+        storageTier: object.storageTier,
+        archivalState: object.archivalState
+      }));
+    const page = paginate(items, request);
+    return { objectVersionCollection: { items: page.items }, opcNextPage: page.opcNextPage, opcRequestId: page.opcRequestId };
+  }
+
+  async restoreObjects(request: { namespaceName: string; bucketName: string; restoreObjectsDetails: { objectName: string; hours?: number; versionId?: string } }) {
+    const details = request.restoreObjectsDetails;
+    const object = this.getObjectOrThrow(request.namespaceName, request.bucketName, details.objectName, 'restoreObjects', details.versionId);
+    if (!object.archivalState) {
+      throw serviceError(400, 'NotArchived', `Object ${details.objectName} is not in the Archive tier`, 'restoreObjects');
+    }
+    // Restores take hours in OCI; here the object is readable right away
+    object.archivalState = 'Restored';
+    object.timeOfArchival = new Date(Date.now() + (details.hours ?? 24) * 3600 * 1000);
+    return { opcRequestId: requestId() };
+  }
+
+  async getObjectLifecyclePolicy(request: { namespaceName: string; bucketName: string }) {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, 'getObjectLifecyclePolicy');
+    const policy = this.state.lifecyclePolicies.get(this.bucketKey(request.namespaceName, request.bucketName));
+    if (!policy) {
+      throw serviceError(404, 'LifecyclePolicyNotFound', `Bucket ${request.bucketName} has no lifecycle policy`, 'getObjectLifecyclePolicy');
+    }
+    return { objectLifecyclePolicy: clone(policy), opcRequestId: requestId() };
+  }
+
+  async putObjectLifecyclePolicy(request: { namespaceName: string; bucketName: string; putObjectLifecyclePolicyDetails: { items?: Resource[] } }) {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, 'putObjectLifecyclePolicy');
+    const items = request.putObjectLifecyclePolicyDetails.items || [];
+    const names = new Set(items.map(rule => rule.name));
+    if (names.size !== items.length) {
+      throw serviceError(400, 'InvalidParameter', 'Lifecycle rule names must be unique', 'putObjectLifecyclePolicy');
+    }
+    const policy = { namespace: request.namespaceName, bucketName: request.bucketName, items: clone(items), timeCreated: new Date() };
+    this.state.lifecyclePolicies.set(this.bucketKey(request.namespaceName, request.bucketName), policy);
+    return { objectLifecyclePolicy: clone(policy), opcRequestId: requestId() };
+  }
+
+  async deleteObjectLifecyclePolicy(request: { namespaceName: string; bucketName: string }) {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, 'deleteObjectLifecyclePolicy');
+    this.state.lifecyclePolicies.delete(this.bucketKey(request.namespaceName, request.bucketName));
+    return { opcRequestId: requestId() };
+  }
+
+  async listRetentionRules(request: { namespaceName: string; bucketName: string; page?: string }) {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, 'listRetentionRules');
+    const rules = Array.from(this.state.retentionRules.get(this.bucketKey(request.namespaceName, request.bucketName))?.values() ?? []);
+    const page = paginate(rules, request);
+    return { retentionRuleCollection: { items: page.items }, opcNextPage: page.opcNextPage, opcRequestId: page.opcRequestId };
+  }
+
+  async getRetentionRule(request: { namespaceName: string; bucketName: string; retentionRuleId: string }) {
+    const rule = this.getRetentionRuleOrThrow(request, 'getRetentionRule');
+    return { retentionRule: clone(rule), etag: rule.etag, opcRequestId: requestId() };
+  }
+
+  async createRetentionRule(request: { namespaceName: string; bucketName: string; createRetentionRuleDetails: Resource }) {
+    const bucket = this.getBucketOrThrow(request.namespaceName, request.bucketName, 'createRetentionRule');
+    if (bucket.versioning === 'Enabled') {
+      throw conflict(`Retention rules cannot be added to bucket ${request.bucketName} while versioning is enabled`, 'createRetentionRule');
+    }
+    const details = request.createRetentionRuleDetails;
+    this.checkRuleLock(details.timeRuleLocked, 'createRetentionRule');
+    const key = this.bucketKey(request.namespaceName, request.bucketName);
+    let rules = this.state.retentionRules.get(key);
+    if (!rules) {
+      rules = new Map();
+      this.state.retentionRules.set(key, rules);
+    }
+    const now = new Date();
+    const rule = {
+      id: randomUUID(),
+      displayName: details.displayName || `retention-rule-${rules.size + 1}`,
+      duration: details.duration,
+      timeRuleLocked: details.timeRuleLocked,
+      timeCreated: now,
+      timeModified: now,
+      etag: requestId()
+    };
+    rules.set(rule.id, rule);
+    return { retentionRule: clone(rule), etag: rule.etag, opcRequestId: requestId() };
+  }
+
+  async updateRetentionRule(request: { namespaceName: string; bucketName: string; retentionRuleId: string; ifMatch?: string; updateRetentionRuleDetails: Resource }) {
+    const rule = this.getRetentionRuleOrThrow(request, 'updateRetentionRule');
+    if (request.ifMatch && request.ifMatch !== rule.etag) {
+      throw serviceError(412, 'IfMatchFailed', `Retention rule ${rule.displayName} changed since it was read`, 'updateRetentionRule');
+    }
+    const details = request.updateRetentionRuleDetails;
+    if (isLocked(rule)) {
+      const days = (duration?: Resource) => duration ? duration.timeAmount * (duration.timeUnit === 'YEARS' ? 365 : 1) : Infinity;
+      if (details.duration === undefined || days(details.duration) < days(rule.duration)
+        || (details.timeRuleLocked && new Date(details.timeRuleLocked).getTime() !== new Date(rule.timeRuleLocked).getTime())) {
+        throw conflict(`Retention rule ${rule.displayName} is locked; its duration can only be extended`, 'updateRetentionRule');
+      }
+    } else if (details.timeRuleLocked) {
+      this.checkRuleLock(details.timeRuleLocked, 'updateRetentionRule');
+    }
+    Object.assign(rule, {
+      displayName: details.displayName ?? rule.displayName,
+      duration: details.duration,
+      timeRuleLocked: details.timeRuleLocked ?? rule.timeRuleLocked,
+      timeModified: new Date(),
+      etag: requestId()
+    });
+    return { retentionRule: clone(rule), etag: rule.etag, opcRequestId: requestId() };
+  }
+
+  async deleteRetentionRule(request: { namespaceName: string; bucketName: string; retentionRuleId: string }) {
+    const rule = this.getRetentionRuleOrThrow(request, 'deleteRetentionRule');
+    if (isLocked(rule)) {
+      throw conflict(`Retention rule ${rule.displayName} is locked and cannot be deleted`, 'deleteRetentionRule');
+    }
+    this.state.retentionRules.get(this.bucketKey(request.namespaceName, request.bucketName))!.delete(rule.id);
+    return { opcRequestId: requestId() };
+  }
+
+  private getRetentionRuleOrThrow(request: { namespaceName: string; bucketName: string; retentionRuleId: string }, operationName: string): Resource {
+    this.getBucketOrThrow(request.namespaceName, request.bucketName, operationName);
+    const rule = this.state.retentionRules.get(this.bucketKey(request.namespaceName, request.bucketName))?.get(request.retentionRuleId);
+    if (!rule) {
+      throw notFound('RetentionRule', request.retentionRuleId, operationName);
+    }
+    return rule;
+  }
+
+  // OCI only accepts a lock at least 14 days out, leaving time to delete a rule added by mistake
+  private checkRuleLock(timeRuleLocked: Date | string | undefined, operationName: string): void {
+    if (timeRuleLocked && new Date(timeRuleLocked).getTime() < Date.now() + 14 * 86400 * 1000) {
+      throw serviceError(400, 'InvalidParameter', 'timeRuleLocked must be at least 14 days in the future', operationName);
+    }
+  }
+
+  private getObjectOrThrow(namespaceName: string, bucketName: string, objectName: string, operationName: string, versionId?: string): FakeObject {
+    this.getBucketOrThrow(namespaceName, bucketName, operationName);
+    const object = this.state.findObject(this.bucketKey(namespaceName, bucketName), objectName, versionId);
+    if (!object) {
+      throw serviceError(404, 'ObjectNotFound', `Object ${objectName}${versionId ? ` version ${versionId}` : ''} not found in bucket ${bucketName}`, operationName);
+    }
+    return object;
+  }
+}
+
+// Virtual network
+
+class FakeVirtualNetworkClient {
+  constructor(private state: FakeCloudState) {}
+
+  async listVcns(request: Resource) {
+    return paginate(filterResources(this.state.vcns.values(), request), request);
+  }
+
+  async getVcn(request: { vcnId: string }) {
+    const vcn = lookup(this.state.vcns, 'VCN', request.vcnId, 'getVcn');
+    return { vcn: clone(vcn), etag: vcn.etag, opcRequestId: requestId() };
+  }
+
+  async createVcn(request: { createVcnDetails: Resource }) {
+    const details = request.createVcnDetails;
+    const id = this.state.ocid('vcn');
+    const defaultRouteTableId = this.state.ocid('routetable');
+    const defaultSecurityListId = this.state.ocid('securitylist');
+    const vcn = {
+      id,
+      compartmentId: details.compartmentId,
+      cidrBlock: details.cidrBlock ?? details.cidrBlocks?.[0],
+      cidrBlocks: details.cidrBlocks ?? [details.cidrBlock],
+      displayName: details.displayName || id,
+      dnsLabel: details.dnsLabel,
+      defaultRouteTableId,
+      defaultSecurityListId,
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date(),
+      etag: requestId()
+    };
+    this.state.vcns.set(id, vcn);
+
+    // OCI creates a default route table and security list with every VCN
+    this.state.routeTables.set(defaultRouteTableId, {
+      id: defaultRouteTableId,
+      compartmentId: details.compartmentId,
+      vcnId: id,
+      displayName: `Default Route Table for ${vcn.displayName}`,
+      routeRules: [],
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date()
+    });
+    this.state.securityLists.set(defaultSecurityListId, {
+      id: defaultSecurityListId,
+      compartmentId: details.compartmentId,
+      vcnId: id,
+      displayName: `Default Security List for ${vcn.displayName}`,
+      egressSecurityRules: [{ destination: '0.0.0.0/0', protocol: 'all', isStateless: false }],
+      ingressSecurityRules: [{ source: '0.0.0.0/0', protocol: '6', isStateless: false, tcpOptions: { destinationPortRange: { min: 22, max: 22 } } }],
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date()
+    });
+
+    return { vcn: clone(vcn), etag: vcn.etag, opcRequestId: requestId() };
+  }
+
+  async deleteVcn(request: { vcnId: string }) {
+    const vcn = lookup(this.state.vcns, 'VCN', request.vcnId, 'deleteVcn');
+    const hasSubnets = Array.from(this.state.subnets.values()).some(subnet =>
+      subnet.vcnId === vcn.id && subnet.lifecycleState !== 'TERMINATED'
+    );
+    if (hasSubnets) {
+      throw conflict(`VCN ${vcn.id} still has subnets`, 'deleteVcn');
+    }
+    vcn.lifecycleState = 'TERMINATED';
+    return { opcRequestId: requestId() };
+  }
+
+  async listSubnets(request: Resource) {
+    return paginate(filterResources(this.state.subnets.values(), request), request);
+  }
+
+  async getSubnet(request: { subnetId: string }) {
+    const subnet = lookup(this.state.subnets, 'Subnet', request.subnetId, 'getSubnet');
+    return { subnet: clone(subnet), etag: subnet.etag, opcRequestId: requestId() };
+  }
+
+  async createSubnet(request: { createSubnetDetails: Resource }) {
+    const details = request.createSubnetDetails;
+    const vcn = lookup(this.state.vcns, 'VCN', details.vcnId, 'createSubnet');
+    const id = this.state.ocid('subnet');
+    const subnet = {
+      id,
+      compartmentId: details.compartmentId,
+      vcnId: vcn.id,
+      cidrBlock: details.cidrBlock,
+      availabilityDomain: details.availabilityDomain,
+      displayName: details.displayName || id,
+      dnsLabel: details.dnsLabel,
+      routeTableId: details.routeTableId || vcn.defaultRouteTableId,
+      securityListIds: details.securityListIds || [vcn.defaultSecurityListId],
+      prohibitPublicIpOnVnic: details.prohibitPublicIpOnVnic || false,
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date(),
+      etag: requestId()
+    };
+    this.state.subnets.set(id, subnet);
+    return { subnet: clone(subnet), etag: subnet.etag, opcRequestId: requestId() };
+  }
+
+  async deleteSubnet(request: { subnetId: string }) {
+    const subnet = lookup(this.state.subnets, 'Subnet', request.subnetId, 'deleteSubnet');
+    subnet.lifecycleState = 'TERMINATED';
+    return { opcRequestId: requestId() };
+  }
+
+  async listSecurityLists(request: Resource) {
+    return paginate(filterResources(this.state.securityLists.values(), request), request);
+  }
+
+  async getSecurityList(request: { securityListId: string }) {
+    const securityList = lookup(this.state.securityLists, 'Security list', request.securityListId, 'getSecurityList');
+    return { securityList: clone(securityList), opcRequestId: requestId() };
+  }
+
+  async listRouteTables(request: Resource) {
+    return paginate(filterResources(this.state.routeTables.values(), request), request);
+  }
+
+  async listInternetGateways(request: Resource) {
+    return paginate(filterResources(this.state.internetGateways.values(), request), request);
+  }
+
+  async createInternetGateway(request: { createInternetGatewayDetails: Resource }) {
+    const details = request.createInternetGatewayDetails;
+    lookup(this.state.vcns, 'VCN', details.vcnId, 'createInternetGateway');
+    const id = this.state.ocid('internetgateway');
+    const gateway = {
+      id,
+      compartmentId: details.compartmentId,
+      vcnId: details.vcnId,
+      displayName: details.displayName || id,
+      isEnabled: details.isEnabled !== false,
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date()
+    };
+    this.state.internetGateways.set(id, gateway);
+    return { internetGateway: clone(gateway), opcRequestId: requestId() };
+  }
+
+  async listNatGateways(request: Resource) {
+    return paginate(filterResources(this.state.natGateways.values(), request), request);
+  }
+
+  async listNetworkSecurityGroups(request: Resource) {
+    return paginate(filterResources(this.state.networkSecurityGroups.values(), request), request);
+  }
+
+  async getNetworkSecurityGroup(request: { networkSecurityGroupId: string }) {
+    const nsg = lookup(this.state.networkSecurityGroups, 'Network security group', request.networkSecurityGroupId, 'getNetworkSecurityGroup');
+    return { networkSecurityGroup: clone(nsg), opcRequestId: requestId() };
+  }
+
+  async createNetworkSecurityGroup(request: { createNetworkSecurityGroupDetails: Resource }) {
+    const details = request.createNetworkSecurityGroupDetails;
+    lookup(this.state.vcns, 'VCN', details.vcnId, 'createNetworkSecurityGroup');
+    const id = this.state.ocid('networksecuritygroup');
+    const nsg = {
+      id,
+      compartmentId: details.compartmentId,
+      vcnId: details.vcnId,
+      displayName: details.displayName || id,
+      securityRules: [] as Resource[],
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date()
+    };
+    this.state.networkSecurityGroups.set(id, nsg);
+    const { securityRules, ...summary } = nsg;
+    return { networkSecurityGroup: clone(summary), opcRequestId: requestId() };
+  }
+
+  async addNetworkSecurityGroupSecurityRules(request: Resource) {
+    const nsg = lookup(this.state.networkSecurityGroups, 'Network security group', request.networkSecurityGroupId, 'addNetworkSecurityGroupSecurityRules');
+    const rules = (request.addNetworkSecurityGroupSecurityRulesDetails?.securityRules || []).map((rule: Resource) => ({
+      id: randomUUID().slice(0, 6).toUpperCase(),
+      ...rule,
+      timeCreated: new Date()
+    }));
+    nsg.securityRules.push(...rules);
+    return { addedNetworkSecurityGroupSecurityRules: { securityRules: clone(rules) }, opcRequestId: requestId() };
+  }
+
+  async getVnic(request: { vnicId: string }) {
+    const vnic = lookup(this.state.vnics, 'VNIC', request.vnicId, 'getVnic');
+    // The VNIC reports the addresses of its primary private IP
+    const primary = Array.from(this.state.privateIps.values()).find(privateIp => privateIp.vnicId === vnic.id && privateIp.isPrimary);
+    const publicIp = primary ? this.state.assignedPublicIp(primary.id) : undefined;
+    return { vnic: clone({ ...vnic, privateIp: primary?.ipAddress, publicIp: publicIp?.ipAddress }), opcRequestId: requestId() };
+  }
+
+  async listPrivateIps(request: Resource) {
+    const items = Array.from(this.state.privateIps.values()).filter(privateIp =>
+      (!request.vnicId || privateIp.vnicId === request.vnicId)
+      && (!request.subnetId || privateIp.subnetId === request.subnetId)
+      && (!request.ipAddress || privateIp.ipAddress === request.ipAddress)
+    );
+    return paginate(items, request);
+  }
+
+  async getPrivateIp(request: { privateIpId: string }) {
+    const privateIp = lookup(this.state.privateIps, 'Private IP', request.privateIpId, 'getPrivateIp');
+    return { privateIp: clone(privateIp), opcRequestId: requestId() };
+  }
+
+  async createPrivateIp(request: { createPrivateIpDetails: Resource }) {
+    const details = request.createPrivateIpDetails;
+    const vnic = lookup(this.state.vnics, 'VNIC', details.vnicId, 'createPrivateIp');
+    const secondary = Array.from(this.state.privateIps.values()).filter(privateIp => privateIp.vnicId === vnic.id && !privateIp.isPrimary);
+    if (secondary.length >= 31) {
+      throw serviceError(400, 'LimitExceeded', `VNIC ${vnic.id} has the maximum number of secondary private IPs`, 'createPrivateIp');
+    }
+    const privateIp = this.state.createPrivateIp(vnic, details, false, 'createPrivateIp');
+    return { privateIp: clone(privateIp), opcRequestId: requestId() };
+  }
+
+  async updatePrivateIp(request: { privateIpId: string; updatePrivateIpDetails: Resource }) {
+    const privateIp = lookup(this.state.privateIps, 'Private IP', request.privateIpId, 'updatePrivateIp');
+    const details = request.updatePrivateIpDetails;
+    if (details.vnicId && details.vnicId !== privateIp.vnicId) {
+      const vnic = lookup(this.state.vnics, 'VNIC', details.vnicId, 'updatePrivateIp');
+      if (privateIp.isPrimary) {
+        throw serviceError(400, 'InvalidParameter', 'A primary private IP cannot be moved', 'updatePrivateIp');
+      }
+      if (vnic.subnetId !== privateIp.subnetId) {
+        throw serviceError(400, 'InvalidParameter', `VNIC ${vnic.id} is not in subnet ${privateIp.subnetId}`, 'updatePrivateIp');
+      }
+      privateIp.vnicId = vnic.id;
+    }
+    for (const key of ['displayName', 'hostnameLabel']) {
+      if (details[key] !== undefined) {
+        privateIp[key] = details[key];
+      }
+    }
+    return { privateIp: clone(privateIp), opcRequestId: requestId() };
+  }
+
+  async deletePrivateIp(request: { privateIpId: string }) {
+    const privateIp = lookup(this.state.privateIps, 'Private IP', request.privateIpId, 'deletePrivateIp');
+    if (privateIp.isPrimary) {
+      throw serviceError(400, 'InvalidParameter', 'A primary private IP cannot be deleted', 'deletePrivateIp');
+    }
+    this.state.deletePrivateIp(privateIp);
+    return { opcRequestId: requestId() };
+  }
+
+  async listPublicIps(request: Resource) {
+    const items = Array.from(this.state.publicIps.values()).filter(publicIp =>
+      publicIp.lifecycleState !== 'TERMINATED'
+      && publicIp.compartmentId === request.compartmentId
+      && publicIp.scope === request.scope
+      && (!request.availabilityDomain || publicIp.availabilityDomain === request.availabilityDomain)
+      && (!request.lifetime || publicIp.lifetime === request.lifetime)
+    );
+    return paginate(items, request);
+  }
+
+  async getPublicIp(request: { publicIpId: string }) {
+    const publicIp = lookup(this.state.publicIps, 'Public IP', request.publicIpId, 'getPublicIp');
+    return { publicIp: clone(publicIp), etag: requestId(), opcRequestId: requestId() };
+  }
+
+  async getPublicIpByIpAddress(request: { getPublicIpByIpAddressDetails: { ipAddress: string } }) {
+    const ipAddress = request.getPublicIpByIpAddressDetails.ipAddress;
+    const publicIp = Array.from(this.state.publicIps.values()).find(candidate =>
+      candidate.ipAddress === ipAddress && candidate.lifecycleState !== 'TERMINATED'
+    );
+    if (!publicIp) {
+      throw notFound('Public IP', ipAddress, 'getPublicIpByIpAddress');
+    }
+    return { publicIp: clone(publicIp), opcRequestId: requestId() };
+  }
+
+  async getPublicIpByPrivateIpId(request: { getPublicIpByPrivateIpIdDetails: { privateIpId: string } }) {
+    const privateIpId = request.getPublicIpByPrivateIpIdDetails.privateIpId;
+    const publicIp = this.state.assignedPublicIp(privateIpId);
+    if (!publicIp) {
+      throw notFound('Public IP for private IP', privateIpId, 'getPublicIpByPrivateIpId');
+    }
+    return { publicIp: clone(publicIp), opcRequestId: requestId() };
+  }
+
+  async createPublicIp(request: { createPublicIpDetails: Resource }) {
+    const publicIp = this.state.createPublicIp(request.createPublicIpDetails, 'createPublicIp');
+    return { publicIp: clone(publicIp), opcRequestId: requestId() };
+  }
+
+  async updatePublicIp(request: { publicIpId: string; updatePublicIpDetails: Resource }) {
+    const publicIp = lookup(this.state.publicIps, 'Public IP', request.publicIpId, 'updatePublicIp');
+    const details = request.updatePublicIpDetails;
+    if (details.privateIpId !== undefined && details.privateIpId !== publicIp.assignedEntityId) {
+      if (publicIp.lifetime === 'EPHEMERAL') {
+        throw serviceError(400, 'InvalidParameter', 'Ephemeral public IPs cannot be reassigned', 'updatePublicIp');
+      }
+      if (details.privateIpId === '') {
+        publicIp.assignedEntityId = undefined;
+        publicIp.lifecycleState = 'AVAILABLE';
+      } else {
+        lookup(this.state.privateIps, 'Private IP', details.privateIpId, 'updatePublicIp');
+        if (this.state.assignedPublicIp(details.privateIpId)) {
+          throw conflict(`Private IP ${details.privateIpId} already has a public IP`, 'updatePublicIp');
+        }
+        publicIp.assignedEntityId = details.privateIpId;
+        publicIp.lifecycleState = 'ASSIGNED';
+      }
+    }
+    if (details.displayName !== undefined) {
+      publicIp.displayName = details.displayName;
+    }
+    return { publicIp: clone(publicIp), opcRequestId: requestId() };
+  }
+
+  async deletePublicIp(request: { publicIpId: string }) {
+    const publicIp = lookup(this.state.publicIps, 'Public IP', request.publicIpId, 'deletePublicIp');
+    publicIp.lifecycleState = 'TERMINATED';
+    publicIp.assignedEntityId = undefined;
+    return { opcRequestId: requestId() };
+  }
+}
+
+// Identity
+
+class FakeIdentityClient {
+  constructor(private state: FakeCloudState) {}
+
+  async listCompartments(request: Resource) {
+    return paginate([], request);
+  }
+
+  async listAvailabilityDomains(request: { compartmentId: string }) {
+    const items = ['AD-1', 'AD-2', 'AD-3'].map(name => ({ name, id: `ocid1.availabilitydomain.oc1..fake${name}`, compartmentId: request.compartmentId }));
+    return { items, opcRequestId: requestId() };
+  }
+
+  async listUsers(request: Resource) {
+    return paginate(filterResources(this.state.users.values(), request), request);
+  }
+
+  async getUser(request: { userId: string }) {
+    return { user: clone(lookup(this.state.users, 'User', request.userId, 'getUser')), opcRequestId: requestId() };
+  }
+
+  async createUser(request: { createUserDetails: Resource }) {
+    const user = this.createNamed(this.state.users, 'user', request.createUserDetails, 'createUser');
+    return { user: clone(user), opcRequestId: requestId() };
+  }
+
+  async listGroups(request: Resource) {
+    return paginate(filterResources(this.state.groups.values(), request), request);
+  }
+
+  async getGroup(request: { groupId: string }) {
+    return { group: clone(lookup(this.state.groups, 'Group', request.groupId, 'getGroup')), opcRequestId: requestId() };
+  }
+
+  async createGroup(request: { createGroupDetails: Resource }) {
+    const group = this.createNamed(this.state.groups, 'group', request.createGroupDetails, 'createGroup');
+    return { group: clone(group), opcRequestId: requestId() };
+  }
+
+  async listPolicies(request: Resource) {
+    return paginate(filterResources(this.state.policies.values(), request), request);
+  }
+
+  async getPolicy(request: { policyId: string }) {
+    return { policy: clone(lookup(this.state.policies, 'Policy', request.policyId, 'getPolicy')), opcRequestId: requestId() };
+  }
+
+  async createPolicy(request: { createPolicyDetails: Resource }) {
+    const policy = this.createNamed(this.state.policies, 'policy', request.createPolicyDetails, 'createPolicy');
+    return { policy: clone(policy), opcRequestId: requestId() };
+  }
+
+  async addUserToGroup(request: { addUserToGroupDetails: { userId: string; groupId: string } }) {
+    const { userId, groupId } = request.addUserToGroupDetails;
+    const user = lookup(this.state.users, 'User', userId, 'addUserToGroup');
+    lookup(this.state.groups, 'Group', groupId, 'addUserToGroup');
+    const duplicate = Array.from(this.state.memberships.values()).some(membership =>
+      membership.userId === userId && membership.groupId === groupId
+    );
+    if (duplicate) {
+      throw serviceError(409, 'RelationshipAlreadyExists', `User ${userId} is already a member of group ${groupId}`, 'addUserToGroup');
+    }
+    const id = this.state.ocid('groupmembership');
+    const membership = {
+      id,
+      compartmentId: user.compartmentId,
+      userId,
+      groupId,
+      lifecycleState: 'ACTIVE',
+      timeCreated: new Date()
+    };
+    this.state.memberships.set(id, membership);
+    return { userGroupMembership: clone(membership), opcRequestId: requestId() };
+  }
+
+  async removeUserFromGroup(request: { userGroupMembershipId: string }) {
+    lookup(this.state.memberships, 'Group membership', request.userGroupMembershipId, 'removeUserFromGroup');
+    this.state.memberships.delete(request.userGroupMembershipId);
+    return { opcRequestId: requestId() };
+  }
+
+  private createNamed(map: Map<string, Resource>, resourceType: string, details: Resource, operationName: string): Resource {
+    const duplicate = Array.from(map.values()).some(resource => resource.name === details.name);
+    if (duplicate) {
+      throw conflict(`A ${resourceType} named ${details.name} already exists`, operationName);
+    }
+    const id = this.state.ocid(resourceType);
+    const resource = {
+      id,
+      ...details,
+      lifecycleState: 'ACTIVE',
+      timeCreated: new Date()
+    };
+    map.set(id, resource);
+    return resource;
+  }
+}
+
+// Monitoring and logging
+
+class FakeMonitoringClient {
+  constructor(private state: FakeCloudState) {}
+
+  async listAlarms(request: Resource) {
+    return paginate(filterResources(this.state.alarms.values(), request), request);
+  }
+
+  async getAlarm(request: { alarmId: string }) {
+    const alarm = lookup(this.state.alarms, 'Alarm', request.alarmId, 'getAlarm');
+    return { alarm: clone(alarm), etag: alarm.etag, opcRequestId: requestId() };
+  }
+
+  async createAlarm(request: { createAlarmDetails: Resource }) {
+    const id = this.state.ocid('alarm');
+    const alarm = {
+      id,
+      ...request.createAlarmDetails,
+      lifecycleState: 'ACTIVE',
+      timeCreated: new Date(),
+      timeUpdated: new Date(),
+      etag: requestId()
+    };
+    this.state.alarms.set(id, alarm);
+    return { alarm: clone(alarm), etag: alarm.etag, opcRequestId: requestId() };
+  }
+
+  async updateAlarm(request: { alarmId: string; updateAlarmDetails: Resource }) {
+    const alarm = lookup(this.state.alarms, 'Alarm', request.alarmId, 'updateAlarm');
+    for (const [key, value] of Object.entries(request.updateAlarmDetails)) {
+      if (value !== undefined) {
+        alarm[key] = value;
+      }
+    }
+    alarm.timeUpdated = new Date();
+    alarm.etag = requestId();
+    return { alarm: clone(alarm), etag: alarm.etag, opcRequestId: requestId() };
+  }
+
+  async deleteAlarm(request: { alarmId: string }) {
+    const alarm = lookup(this.state.alarms, 'Alarm', request.alarmId, 'deleteAlarm');
+    alarm.lifecycleState = 'DELETED';
+    return { opcRequestId: requestId() };
+  }
+
+  async listMetrics(request: Resource) {
+    return paginate([], request);
+  }
+
+  async summarizeMetricsData(_request: Resource) {
+    return { items: [], opcRequestId: requestId() };
+  }
+}
+
+class FakeLoggingClient {
+  constructor(private state: FakeCloudState) {}
+
+  async listLogGroups(request: Resource) {
+    return paginate(filterResources(this.state.logGroups.values(), request), request);
+  }
+
+  async getLogGroup(request: { logGroupId: string }) {
+    return { logGroup: clone(lookup(this.state.logGroups, 'Log group', request.logGroupId, 'getLogGroup')), opcRequestId: requestId() };
+  }
+
+  async createLogGroup(request: { createLogGroupDetails: Resource }) {
+    const id = this.state.ocid('loggroup');
+    this.state.logGroups.set(id, {
+      id,
+      ...request.createLogGroupDetails,
+      lifecycleState: 'ACTIVE',
+      timeCreated: new Date()
+    });
+    return { opcWorkRequestId: this.state.ocid('workrequest'), opcRequestId: requestId() };
+  }
+}
+
+// Database
+
+class FakeDatabaseClient {
+  constructor(private state: FakeCloudState) {}
+
+  async listAutonomousDatabases(request: Resource) {
+    return paginate(filterResources(this.state.autonomousDatabases.values(), request), request);
+  }
+
+  async getAutonomousDatabase(request: { autonomousDatabaseId: string }) {
+    const adb = lookup(this.state.autonomousDatabases, 'Autonomous database', request.autonomousDatabaseId, 'getAutonomousDatabase');
+    return { autonomousDatabase: clone(adb), etag: adb.etag, opcRequestId: requestId() };
+  }
+
+  async createAutonomousDatabase(request: { createAutonomousDatabaseDetails: Resource }) {
+    const { adminPassword, ...details } = request.createAutonomousDatabaseDetails;
+    if (details.sourceId) {
+      lookup(this.state.autonomousDatabases, 'Autonomous database', details.sourceId, 'createAutonomousDatabase');
+    }
+    const id = this.state.ocid('autonomousdatabase');
+    const adb = {
+      id,
+      ...details,
+      displayName: details.displayName || details.dbName || id,
+      lifecycleState: 'AVAILABLE',
+      timeCreated: new Date(),
+      etag: requestId()
+    };
+    this.state.autonomousDatabases.set(id, adb);
+    const workRequestId = this.state.recordWorkRequest('Create Autonomous Database', details.compartmentId, 'autonomousDatabase', 'CREATED', id);
+    return { autonomousDatabase: clone(adb), etag: adb.etag, opcRequestId: requestId(), opcWorkRequestId: workRequestId };
+  }
+
+  async startAutonomousDatabase(request: { autonomousDatabaseId: string }) {
+    return this.setAutonomousState(request.autonomousDatabaseId, 'AVAILABLE', 'startAutonomousDatabase');
+  }
+
+  async stopAutonomousDatabase(request: { autonomousDatabaseId: string }) {
+    return this.setAutonomousState(request.autonomousDatabaseId, 'STOPPED', 'stopAutonomousDatabase');
+  }
+
+  async updateAutonomousDatabase(request: { autonomousDatabaseId: string; updateAutonomousDatabaseDetails: Resource }) {
+    const adb = lookup(this.state.autonomousDatabases, 'Autonomous database', request.autonomousDatabaseId, 'updateAutonomousDatabase');
+    for (const [key, value] of Object.entries(request.updateAutonomousDatabaseDetails)) {
+      if (value !== undefined && key !== 'adminPassword') {
+        adb[key] = value;
+      }
+    }
+    adb.etag = requestId();
+    const workRequestId = this.state.recordWorkRequest('Update Autonomous Database', adb.compartmentId, 'autonomousDatabase', 'UPDATED', adb.id);
+    return { autonomousDatabase: clone(adb), etag: adb.etag, opcRequestId: requestId(), opcWorkRequestId: workRequestId };
+  }
+
+  async listDbSystems(request: Resource) {
+    return paginate([], request);
+  }
+
+  async listBackups(request: Resource) {
+    return paginate([], request);
+  }
+
+  private setAutonomousState(autonomousDatabaseId: string, lifecycleState: string, operationName: string) {
+    const adb = lookup(this.state.autonomousDatabases, 'Autonomous database', autonomousDatabaseId, operationName);
+    adb.lifecycleState = lifecycleState;
+    adb.etag = requestId();
+    const operationType = lifecycleState === 'STOPPED' ? 'Stop Autonomous Database' : 'Start Autonomous Database';
+    const workRequestId = this.state.recordWorkRequest(operationType, adb.compartmentId, 'autonomousDatabase', 'UPDATED', adb.id);
+    return { autonomousDatabase: clone(adb), etag: adb.etag, opcRequestId: requestId(), opcWorkRequestId: workRequestId };
+  }
+}
+
+// Work requests
+
+class FakeWorkRequestClient {
+  constructor(private state: FakeCloudState) {}
+
+  async listWorkRequests(request: Resource) {
+    const items = Array.from(this.state.workRequests.values())
+      .map(entry => entry.workRequest)
+      .filter(workRequest => !request.compartmentId || workRequest.compartmentId === request.compartmentId)
+      .filter(workRequest => !request.resourceId || workRequest.resources.some((resource: Resource) => resource.identifier === request.resourceId))
+      .map(({ resources, ...summary }) => summary);
+    return paginate(items, request);
+  }
+
+  async getWorkRequest(request: { workRequestId: string }) {
+    const entry = this.lookup(request.workRequestId, 'getWorkRequest');
+    return { workRequest: clone(entry.workRequest), opcRequestId: requestId() };
+  }
+
+  async listWorkRequestErrors(request: { workRequestId: string; limit?: number; page?: string }) {
+    return paginate(this.lookup(request.workRequestId, 'listWorkRequestErrors').errors, request);
+  }
+
+  async listWorkRequestLogs(request: { workRequestId: string; limit?: number; page?: string }) {
+    return paginate(this.lookup(request.workRequestId, 'listWorkRequestLogs').logs, request);
+  }
+
+  private lookup(workRequestId: string, operationName: string): FakeWorkRequest {
+    const entry = this.state.workRequests.get(workRequestId);
+    if (!entry) {
+      throw notFound('Work request', workRequestId, operationName);
+    }
+    return entry;
+  }
+}
+
+/**
+ * Client whose listed operations always return an empty page
+ */
+class FakeEmptyListClient {
+  constructor(operations: string[]) {
+    for (const operation of operations) {
+      (this as any)[operation] = async (request: Resource) => paginate([], request);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { readFileSync } from 'fs';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { z } from 'zod';
+import { OCIShapeConfigSchema } from '../types/oci.js';
+import { OCIConfigurationError, OCIValidationError } from './errors.js';
+import { expandHome } from './oci-config-file.js';
+
+/**
+ * Named instance launch profiles kept in a local JSON file.
+ *
+ * A profile holds everything needed to launch an instance except its name:
+ * shape, an image or a filter that picks the newest matching platform image,
+ * subnet, NSGs, tags and a cloud-init template whose {{variables}} are filled
+ * in at launch. The file is read on every launch so edits apply right away.
+ *
+ *   {
+ *     "profiles": {
+ *       "web-small": {
+ *         "shape": "VM.Standard.E4.Flex",
+ *         "shapeConfig": { "ocpus": 1, "memoryInGBs": 8 },
+ *         "image": { "operatingSystem": "Oracle Linux", "operatingSystemVersion": "8" },
+ *         "subnetId": "ocid1.subnet.oc1...",
+ *         "userDataTemplateFile": "web.yaml",
+ *         "variables": { "port": "8080" }
+ *       }
+ *     }
+ *   }
+ */
+
+export const DEFAULT_LAUNCH_PROFILES_FILE = join('~', '.oci', 'launch-profiles.json');
+
+export const LaunchProfileSchema = z.object({
+  description: z.string().optional(),
+  compartmentId: z.string().optional(),       // Defaults to the configured compartment
+  availabilityDomain: z.string().optional(),  // Defaults to the region's first availability domain
+  shape: z.string().min(1, "Shape is required"),
+  shapeConfig: OCIShapeConfigSchema.optional(),
+  imageId: z.string().optional(),
+  image: z.object({
+    operatingSystem: z.string().min(1),
+    operatingSystemVersion: z.string().optional(),
+    displayNamePattern: z.string().optional()  // Regular expression the image name must match
+  }).optional(),
+  subnetId: z.string().min(1, "Subnet ID is required"),
+  nsgIds: z.array(z.string()).optional(),
+  assignPublicIp: z.boolean().optional(),
+  sshAuthorizedKeys: z.array(z.string()).optional(),
+  freeformTags: z.record(z.string()).optional(),
+  definedTags: z.record(z.record(z.any())).optional(),
+  userDataTemplate: z.string().optional(),
+  userDataTemplateFile: z.string().optional(),  // Relative paths are resolved against the profiles file
+  variables: z.record(z.string()).optional()    // Template defaults, overridden by the launch's variables
+}).refine(profile => Boolean(profile.imageId) !== Boolean(profile.image), {
+  message: 'Give either imageId or an image filter'
+}).refine(profile => !(profile.userDataTemplate && profile.userDataTemplateFile), {
+  message: 'Give either userDataTemplate or userDataTemplateFile'
+});
+
+const LaunchProfilesFileSchema = z.object({
+  profiles: z.record(LaunchProfileSchema)
+});
+
+export type LaunchProfile = z.infer<typeof LaunchProfileSchema>;
+
+export interface ResolvedLaunchProfile {
+  name: string;
+  filePath: string;
+  profile: LaunchProfile;
+  // Contents of userDataTemplate or userDataTemplateFile
+  userDataTemplate?: string;
+}
+
+export class OCILaunchProfileError extends OCIConfigurationError {
+  constructor(
+    public readonly filePath: string,
+    public readonly profile: string | undefined,
+    detail: string
+  ) {
+    super(
+      `Launch profiles file ${filePath}${profile ? `, profile "${profile}"` : ''}: ${detail}`,
+      'Check the launch profiles file (OCI_LAUNCH_PROFILES_FILE, default ~/.oci/launch-profiles.json).'
+    );
+    this.name = 'OCILaunchProfileError';
+  }
+}
+
+/**
+ * Path of the launch profiles file: OCI_LAUNCH_PROFILES_FILE or the default
+ */
+export function resolveLaunchProfilesPath(): string {
+  return expandHome(process.env.OCI_LAUNCH_PROFILES_FILE || DEFAULT_LAUNCH_PROFILES_FILE);
+}
+
+/**
+ * Read and validate every profile in the launch profiles file
+ */
+export function loadLaunchProfiles(): { filePath: string; profiles: Record<string, LaunchProfile> } {
+  const filePath = resolveLaunchProfilesPath();
+
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new OCILaunchProfileError(filePath, undefined, `cannot read file (${error instanceof Error ? error.message : 'Unknown error'})`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new OCILaunchProfileError(filePath, undefined, `invalid JSON (${error instanceof Error ? error.message : 'Unknown error'})`);
+  }
+
+  const result = LaunchProfilesFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`).join('; ');
+    throw new OCILaunchProfileError(filePath, undefined, issues);
+  }
+  return { filePath, profiles: result.data.profiles };
+}
+
+/**
+ * Look up a profile and read its cloud-init template
+ */
+export function loadLaunchProfile(name: string): ResolvedLaunchProfile {
+  const { filePath, profiles } = loadLaunchProfiles();
+  const profile = profiles[name];
+  if (!profile) {
+    const available = Object.keys(profiles);
+    throw new OCILaunchProfileError(filePath, name, `profile not found (available: ${available.length > 0 ? available.join(', ') : 'none'})`);
+  }
+
+  let userDataTemplate = profile.userDataTemplate;
+  if (profile.userDataTemplateFile) {
+    const templatePath = expandHome(profile.userDataTemplateFile);
+    const absolutePath = isAbsolute(templatePath) ? templatePath : resolve(dirname(filePath), templatePath);
+    try {
+      userDataTemplate = readFileSync(absolutePath, 'utf8');
+    } catch (error) {
+      throw new OCILaunchProfileError(filePath, name, `cannot read userDataTemplateFile ${absolutePath} (${error instanceof Error ? error.message : 'Unknown error'})`);
+    }
+  }
+
+  return { name, filePath, profile, userDataTemplate };
+}
+
+/**
+ * Replace {{name}} placeholders. Every placeholder needs a value, so a typo
+ * in a variable name fails the launch instead of booting a broken instance.
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  const placeholder = /\{\{\s*([A-Za-z_][A-Za-z0-9_.-]*)\s*\}\}/g;
+  const missing = new Set<string>();
+  for (const match of template.matchAll(placeholder)) {
+    if (variables[match[1]!] === undefined) {
+      missing.add(match[1]!);
+    }
+  }
+  if (missing.size > 0) {
+    throw new OCIValidationError(`No value for template variables: ${Array.from(missing).join(', ')}`, 'variables');
+  }
+  return template.replace(placeholder, (_match, name: string) => variables[name]!);
+}
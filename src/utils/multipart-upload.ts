@@ -0,0 +1,226 @@
+import * as oci from 'oci-sdk';
+import { createHash } from 'crypto';
+import { open } from 'fs/promises';
+import { OCIMultipartUploadError, OCIUploadChecksumError, OCIValidationError } from './errors.js';
+import { fetchPages } from './pagination.js';
+
+/**
+ * Multipart uploads of local files to Object Storage.
+ *
+ * The file is cut into fixed-size parts that are uploaded by a small pool of
+ * workers, each part with its MD5 so OCI rejects a corrupted part. Parts are
+ * read into memory one at a time per worker, which keeps them retryable, and
+ * there are no more workers than MAX_BUFFERED_MIB of parts allows.
+ * An existing upload can be resumed: parts already in OCI whose size and MD5
+ * match the local file are kept, the others are uploaded again. After the
+ * commit the multipart MD5 returned by OCI is checked against the local one.
+ */
+
+const MIB = 1024 * 1024;
+
+export const DEFAULT_PART_SIZE_MIB = 128;
+export const MIN_PART_SIZE_MIB = 10;
+// OCI takes parts of up to 50 GiB, but every part in flight is held in memory
+export const MAX_PART_SIZE_MIB = 1024;
+export const MAX_PARTS = 10000;
+export const DEFAULT_CONCURRENCY = 4;
+export const MAX_CONCURRENCY = 16;
+// Parts held in memory at once, across all workers
+export const MAX_BUFFERED_MIB = 1024;
+
+// Files up to this size are uploaded with a single putObject unless multipart is requested
+export const MULTIPART_THRESHOLD_BYTES = DEFAULT_PART_SIZE_MIB * MIB;
+
+export interface MultipartUploadOptions {
+  namespaceName: string;
+  bucketName: string;
+  objectName: string;
+  filePath: string;
+  fileSize: number;
+  contentType: string;
+  partSizeMiB?: number;
+  concurrency?: number;
+  // Resume this upload instead of starting a new one
+  uploadId?: string;
+  // Leave the upload in place when a part or the commit fails, so it can be resumed
+  // (by default only when resuming)
+  keepOnFailure?: boolean;
+}
+
+export interface MultipartUploadResult {
+  uploadId: string;
+  partSize: number;
+  partCount: number;
+  // Parts uploaded at once, after the memory cap
+  concurrency: number;
+  partsUploaded: number;
+  // Parts of a resumed upload that were already complete
+  partsReused: number;
+  etag: string;
+  multipartMd5: string;
+}
+
+interface CompletedPart {
+  partNum: number;
+  etag: string;
+  md5: string;
+}
+
+/**
+ * Part size for a file: the requested one, or the default raised as far as
+ * needed to stay within OCI's 10,000 parts
+ */
+export function planPartSize(fileSize: number, partSizeMiB?: number): number {
+  if (partSizeMiB !== undefined) {
+    const partSize = partSizeMiB * MIB;
+    if (Math.ceil(fileSize / partSize) > MAX_PARTS) {
+      throw new OCIValidationError(
+        `A ${partSizeMiB} MiB part size splits the file into more than ${MAX_PARTS} parts; use at least ${Math.ceil(fileSize / MAX_PARTS / MIB)} MiB`,
+        'partSizeMiB'
+      );
+    }
+    return partSize;
+  }
+  const partSize = Math.max(DEFAULT_PART_SIZE_MIB, Math.ceil(fileSize / MAX_PARTS / MIB)) * MIB;
+  if (partSize > MAX_PART_SIZE_MIB * MIB) {
+    throw new OCIValidationError(`The file is too large for ${MAX_PARTS} parts of at most ${MAX_PART_SIZE_MIB} MiB`, 'localPath');
+  }
+  return partSize;
+}
+
+/**
+ * Parts uploaded at once: the requested number, lowered to the part count
+ * and to as many parts as fit in MAX_BUFFERED_MIB
+ */
+export function planConcurrency(partSize: number, partCount: number, concurrency = DEFAULT_CONCURRENCY): number {
+  return Math.max(Math.min(concurrency, partCount, Math.floor(MAX_BUFFERED_MIB * MIB / partSize)), 1);
+}
+
+export async function uploadMultipart(
+  client: oci.objectstorage.ObjectStorageClient,
+  options: MultipartUploadOptions
+): Promise<MultipartUploadResult> {
+  const { namespaceName, bucketName, objectName } = options;
+  const partSize = planPartSize(options.fileSize, options.partSizeMiB);
+  const partCount = Math.max(Math.ceil(options.fileSize / partSize), 1);
+  const concurrency = planConcurrency(partSize, partCount, options.concurrency);
+  // A resumed upload already holds parts worth keeping
+  const keepOnFailure = options.keepOnFailure ?? options.uploadId !== undefined;
+
+  const existingParts = options.uploadId
+    ? await listUploadedParts(client, namespaceName, bucketName, objectName, options.uploadId)
+    : new Map<number, oci.objectstorage.models.MultipartUploadPartSummary>();
+  const uploadId = options.uploadId ?? (await client.createMultipartUpload({
+    namespaceName,
+    bucketName,
+    createMultipartUploadDetails: { object: objectName, contentType: options.contentType }
+  })).multipartUpload.uploadId;
+
+  const completed: CompletedPart[] = [];
+  let partsReused = 0;
+  let committed: oci.objectstorage.responses.CommitMultipartUploadResponse;
+  try {
+    const file = await open(options.filePath, 'r');
+    try {
+      const pending = Array.from({ length: partCount }, (_, index) => index + 1);
+      let failed = false;
+      const worker = async () => {
+        try {
+          while (!failed && pending.length > 0) {
+            const partNum = pending.shift()!;
+            const offset = (partNum - 1) * partSize;
+            const length = Math.min(partSize, options.fileSize - offset);
+            const body = Buffer.alloc(length);
+            await file.read(body, 0, length, offset);
+            const md5 = createHash('md5').update(body).digest('base64');
+
+            const existing = existingParts.get(partNum);
+            if (existing && existing.size === length && existing.md5 === md5) {
+              completed.push({ partNum, etag: existing.etag, md5 });
+              partsReused++;
+              continue;
+            }
+
+            const response = await client.uploadPart({
+              namespaceName,
+              bucketName,
+              objectName,
+              uploadId,
+              uploadPartNum: partNum,
+              uploadPartBody: body,
+              contentLength: length,
+              contentMD5: md5
+            });
+            completed.push({ partNum, etag: response.eTag, md5 });
+          }
+        } catch (error) {
+          // Stop the other workers from starting new parts
+          failed = true;
+          throw error;
+        }
+      };
+      await Promise.all(Array.from({ length: concurrency }, worker));
+    } finally {
+      await file.close();
+    }
+
+    completed.sort((a, b) => a.partNum - b.partNum);
+    // Parts left over from an earlier attempt with a different part size
+    const leftoverParts = Array.from(existingParts.keys()).filter(partNum => partNum > partCount);
+    committed = await client.commitMultipartUpload({
+      namespaceName,
+      bucketName,
+      objectName,
+      uploadId,
+      commitMultipartUploadDetails: {
+        partsToCommit: completed.map(part => ({ partNum: part.partNum, etag: part.etag })),
+        ...(leftoverParts.length > 0 ? { partsToExclude: leftoverParts } : {})
+      }
+    });
+  } catch (error) {
+    if (!keepOnFailure) {
+      await client.abortMultipartUpload({ namespaceName, bucketName, objectName, uploadId }).catch(() => undefined);
+    }
+    throw new OCIMultipartUploadError(objectName, uploadId, keepOnFailure, error);
+  }
+
+  // OCI's multipart MD5 is the MD5 of the concatenated binary part MD5s, plus the part count
+  const digests = Buffer.concat(completed.map(part => Buffer.from(part.md5, 'base64')));
+  const multipartMd5 = `${createHash('md5').update(digests).digest('base64')}-${completed.length}`;
+  if (committed.opcMultipartMd5 && committed.opcMultipartMd5 !== multipartMd5) {
+    throw new OCIUploadChecksumError(objectName, committed.eTag, committed.opcMultipartMd5, multipartMd5);
+  }
+
+  return {
+    uploadId,
+    partSize,
+    partCount,
+    concurrency,
+    partsUploaded: partCount - partsReused,
+    partsReused,
+    etag: committed.eTag,
+    multipartMd5
+  };
+}
+
+async function listUploadedParts(
+  client: oci.objectstorage.ObjectStorageClient,
+  namespaceName: string,
+  bucketName: string,
+  objectName: string,
+  uploadId: string
+): Promise<Map<number, oci.objectstorage.models.MultipartUploadPartSummary>> {
+  try {
+    const page = await fetchPages(
+      request => client.listMultipartUploadParts(request),
+      { namespaceName, bucketName, objectName, uploadId, limit: 1000 },
+      { fetchAll: true, maxItems: MAX_PARTS }
+    );
+    return new Map(page.items.map(part => [part.partNumber, part]));
+  } catch (error) {
+    if (error instanceof oci.common.OciError && error.statusCode === 404) {
+      throw new OCIValidationError(`No multipart upload ${uploadId} for ${objectName} in bucket ${bucketName}`, 'uploadId');
+    }
+    throw error;
+  }
+}
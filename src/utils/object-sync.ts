@@ -0,0 +1,312 @@
+import * as oci from 'oci-sdk';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { open, readdir, stat } from 'fs/promises';
+import { isAbsolute, join, normalize, relative, sep } from 'path';
+import { pipeline } from 'stream/promises';
+import { OCIValidationError } from './errors.js';
+import { MAX_PARTS, planPartSize } from './multipart-upload.js';
+import { fetchPages } from './pagination.js';
+
+/**
+ * Planning for rsync-style syncs between a local directory and a bucket prefix.
+ *
+ * Files and objects are matched by their path below the directory and the
+ * prefix. A pair is transferred when the sizes differ, when the MD5s differ,
+ * or, where no MD5 can be compared, when the source is newer. Objects
+ * uploaded in parts carry a multipart MD5 ("<md5>-<parts>"); it is compared
+ * against the file hashed with the part size uploads of that file use, and
+ * falls back to the modification time when the part counts do not match.
+ */
+
+// Both sides are listed in full before anything is transferred
+export const MAX_SYNC_ENTRIES = 100000;
+
+export type SyncDirection = 'upload' | 'download';
+
+// Why a file is transferred: missing at the destination, or what differs
+export type SyncReason = 'new' | 'size' | 'checksum' | 'newer';
+
+export interface LocalFile {
+  path: string;
+  size: number;
+  mtime: Date;
+}
+
+export interface RemoteObject {
+  name: string;
+  size: number;
+  md5?: string;
+  etag?: string;
+  timeModified?: Date;
+  archivalState?: string;
+}
+
+export interface SyncTransfer {
+  // Path below the directory and the prefix, with / separators
+  key: string;
+  objectName: string;
+  localPath: string;
+  size: number;
+  reason: SyncReason;
+  etag?: string;
+  timeModified?: Date;
+}
+
+export interface SyncDeletion {
+  key: string;
+  objectName: string;
+  localPath: string;
+  size: number;
+}
+
+export interface SyncSkip {
+  key: string;
+  objectName: string;
+  reason: string;
+}
+
+export interface SyncPlan {
+  transfers: SyncTransfer[];
+  deletions: SyncDeletion[];
+  skipped: SyncSkip[];
+  unchanged: number;
+}
+
+export interface SyncPlanOptions {
+  direction: SyncDirection;
+  namespaceName: string;
+  bucketName: string;
+  prefix: string;
+  localDir: string;
+  delete: boolean;
+}
+
+/**
+ * Object name prefix for a sync: a non-empty prefix is a "directory", so
+ * "site" covers site/index.html but not site-old/index.html
+ */
+export function normalizeSyncPrefix(prefix: string | undefined): string {
+  if (!prefix) {
+    return '';
+  }
+  return prefix.endsWith('/') ? prefix : `${prefix}/`;
+}
+
+export async function planSync(client: oci.objectstorage.ObjectStorageClient, options: SyncPlanOptions): Promise<SyncPlan> {
+  // A download may create the directory; an upload from a missing one would delete everything with `delete`
+  const local = await listLocalFiles(options.localDir, options.direction === 'download');
+  const remote = await listRemoteObjects(client, options.namespaceName, options.bucketName, options.prefix);
+  const plan: SyncPlan = { transfers: [], deletions: [], skipped: [], unchanged: 0 };
+  const objectName = (key: string) => `${options.prefix}${key}`;
+  const localPath = (key: string) => join(options.localDir, ...key.split('/'));
+
+  if (options.direction === 'upload') {
+    for (const [key, file] of local) {
+      const object = remote.get(key);
+      const reason = await compare(file, object, 'upload');
+      if (reason) {
+        plan.transfers.push({ key, objectName: objectName(key), localPath: file.path, size: file.size, reason });
+      } else {
+        plan.unchanged++;
+      }
+    }
+    if (options.delete) {
+      for (const [key, object] of remote) {
+        if (!local.has(key)) {
+          plan.deletions.push({ key, objectName: object.name, localPath: localPath(key), size: object.size });
+        }
+      }
+    }
+  } else {
+    for (const [key, object] of remote) {
+      if (!isSafeKey(key)) {
+        plan.skipped.push({ key, objectName: object.name, reason: 'name does not map to a path inside the directory' });
+        continue;
+      }
+      const file = local.get(key);
+      const reason = await compare(file, object, 'download');
+      if (!reason) {
+        plan.unchanged++;
+      } else if (object.archivalState && object.archivalState !== 'Restored') {
+        plan.skipped.push({ key, objectName: object.name, reason: `archived (${object.archivalState}); restore it first` });
+      } else {
+        plan.transfers.push({
+          key,
+          objectName: object.name,
+          localPath: localPath(key),
+          size: object.size,
+          reason,
+          etag: object.etag,
+          timeModified: object.timeModified
+        });
+      }
+    }
+    if (options.delete) {
+      for (const [key, file] of local) {
+        if (!remote.has(key)) {
+          plan.deletions.push({ key, objectName: objectName(key), localPath: file.path, size: file.size });
+        }
+      }
+    }
+  }
+
+  const byKey = (a: { key: string }, b: { key: string }) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0);
+  plan.transfers.sort(byKey);
+  plan.deletions.sort(byKey);
+  plan.skipped.sort(byKey);
+  return plan;
+}
+
+/**
+ * Regular files below a directory by their relative path. Symbolic links to
+ * files are followed; links to directories are not, so a link loop cannot
+ * make the walk endless.
+ */
+export async function listLocalFiles(root: string, allowMissing = false): Promise<Map<string, LocalFile>> {
+  try {
+    if (!(await stat(root)).isDirectory()) {
+      throw new Error('not a directory');
+    }
+  } catch (error) {
+    if (allowMissing && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return new Map();
+    }
+    throw new OCIValidationError(`Cannot sync ${root}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'localPath');
+  }
+
+  const files = new Map<string, LocalFile>();
+  const pending = [root];
+  while (pending.length > 0) {
+    const dir = pending.pop()!;
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        pending.push(path);
+        continue;
+      }
+      if (!entry.isFile() && !entry.isSymbolicLink()) {
+        continue;
+      }
+      const info = await stat(path).catch(() => undefined);
+      if (!info?.isFile()) {
+        continue;
+      }
+      if (files.size >= MAX_SYNC_ENTRIES) {
+        throw new OCIValidationError(`${root} holds more than ${MAX_SYNC_ENTRIES} files; sync its subdirectories one at a time`, 'localPath');
+      }
+      files.set(relative(root, path).split(sep).join('/'), { path, size: info.size, mtime: info.mtime });
+    }
+  }
+  return files;
+}
+
+/**
+ * Objects below a prefix by their name after the prefix. Zero-byte
+ * "folder" objects ending in / are left out.
+ */
+export async function listRemoteObjects(
+  client: oci.objectstorage.ObjectStorageClient,
+  namespaceName: string,
+  bucketName: string,
+  prefix: string
+): Promise<Map<string, RemoteObject>> {
+  // Object Storage pages by object name: the cursor is `start` / `nextStartWith`
+  const page = await fetchPages(async ({ page, ...request }) => {
+    const response = await client.listObjects({ ...request, start: page });
+    return { items: response.listObjects.objects || [], opcNextPage: response.listObjects.nextStartWith };
+  }, {
+    namespaceName,
+    bucketName,
+    prefix: prefix || undefined,
+    fields: 'name,size,md5,etag,timeModified,archivalState',
+    limit: 1000
+  }, { fetchAll: true, maxItems: MAX_SYNC_ENTRIES });
+  if (page.truncated) {
+    throw new OCIValidationError(`More than ${MAX_SYNC_ENTRIES} objects in ${bucketName}/${prefix}; sync a narrower prefix`, 'prefix');
+  }
+
+  const objects = new Map<string, RemoteObject>();
+  for (const object of page.items) {
+    if (object.name.endsWith('/') && !object.size) {
+      continue;
+    }
+    objects.set(object.name.slice(prefix.length), {
+      name: object.name,
+      size: object.size ?? 0,
+      md5: object.md5,
+      etag: object.etag,
+      timeModified: object.timeModified ? new Date(object.timeModified) : undefined,
+      archivalState: object.archivalState
+    });
+  }
+  return objects;
+}
+
+async function compare(file: LocalFile | undefined, object: RemoteObject | undefined, direction: SyncDirection): Promise<SyncReason | undefined> {
+  if (!file || !object) {
+    return 'new';
+  }
+  if (file.size !== object.size) {
+    return 'size';
+  }
+
+  const localMd5 = object.md5 ? await localMd5For(file, object.md5) : undefined;
+  if (localMd5 !== undefined) {
+    return localMd5 === object.md5 ? undefined : 'checksum';
+  }
+
+  // No MD5 to compare: transfer when the source is newer
+  const localTime = file.mtime.getTime();
+  const remoteTime = object.timeModified?.getTime() ?? 0;
+  const sourceNewer = direction === 'upload' ? localTime > remoteTime : remoteTime > localTime;
+  return sourceNewer ? 'newer' : undefined;
+}
+
+/**
+ * The file's MD5 in the form of the object's: plain, or multipart when the
+ * object was uploaded in parts. Undefined when the part size cannot be
+ * matched.
+ */
+async function localMd5For(file: LocalFile, remoteMd5: string): Promise<string | undefined> {
+  const multipart = remoteMd5.match(/-(\d+)$/);
+  if (!multipart) {
+    const hash = createHash('md5');
+    await pipeline(createReadStream(file.path), hash);
+    return hash.digest('base64');
+  }
+
+  const parts = Number(multipart[1]);
+  let partSize: number;
+  try {
+    partSize = planPartSize(file.size);
+  } catch {
+    return undefined;
+  }
+  if (parts > MAX_PARTS || Math.max(Math.ceil(file.size / partSize), 1) !== parts) {
+    return undefined;
+  }
+
+  const digests: Buffer[] = [];
+  const handle = await open(file.path, 'r');
+  try {
+    for (let offset = 0; offset < file.size; offset += partSize) {
+      const length = Math.min(partSize, file.size - offset);
+      const body = Buffer.alloc(length);
+      await handle.read(body, 0, length, offset);
+      digests.push(createHash('md5').update(body).digest());
+    }
+  } finally {
+    await handle.close();
+  }
+  return `${createHash('md5').update(Buffer.concat(digests)).digest('base64')}-${parts}`;
+}
+
+// Object names are written below the directory only when they cannot climb out of it
+function isSafeKey(key: string): boolean {
+  if (!key || isAbsolute(key) || key.includes('\\') || key.includes('\0')) {
+    return false;
+  }
+  const path = normalize(key.split('/').join(sep));
+  return path !== '..' && !path.startsWith(`..${sep}`) && key.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..');
+}
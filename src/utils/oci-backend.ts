@@ -0,0 +1,166 @@
+import * as oci from 'oci-sdk';
+import { OCIAuthConfigInput, OCITarget } from '../types/oci.js';
+import { recordRetryAfter } from './retry.js';
+
+/**
+ * The set of OCI service clients the tool managers talk to.
+ *
+ * The default implementation wraps the real oci-sdk clients. Alternative
+ * implementations (such as the in-memory fake in fake-backend.ts) can be
+ * injected into OCIClientManager so the MCP surface runs without a tenancy.
+ */
+export interface OCIBackend {
+  readonly name: string;
+
+  // Core clients
+  computeClient: oci.core.ComputeClient;
+  // Instance configurations and instance pools
+  computeManagementClient: oci.core.ComputeManagementClient;
+  virtualNetworkClient: oci.core.VirtualNetworkClient;
+  blockstorageClient: oci.core.BlockstorageClient;
+  objectStorageClient: oci.objectstorage.ObjectStorageClient;
+  identityClient: oci.identity.IdentityClient;
+  // Work requests for compute, block storage, networking and database operations
+  workRequestClient: oci.workrequests.WorkRequestClient;
+
+  // Database clients
+  databaseClient: oci.database.DatabaseClient;
+
+  // Monitoring clients
+  monitoringClient: oci.monitoring.MonitoringClient;
+  loggingClient: oci.logging.LoggingManagementClient;
+
+  // Additional service clients
+  loadBalancerClient: oci.loadbalancer.LoadBalancerClient;
+  networkLoadBalancerClient: oci.networkloadbalancer.NetworkLoadBalancerClient;
+  autoScalingClient: oci.autoscaling.AutoScalingClient;
+  // Run commands inside instances through the Oracle Cloud Agent
+  instanceAgentClient: oci.computeinstanceagent.ComputeInstanceAgentClient;
+
+  /**
+   * Authentication values to fall back on when none are configured.
+   * Backends that do not talk to OCI use this to supply a tenancy and region.
+   */
+  readonly defaultAuthConfig?: OCIAuthConfigInput;
+
+  /** Whether the backend needs a real authentication provider */
+  readonly requiresAuthentication: boolean;
+
+  /**
+   * Backend to use for another profile or region. Backends that build their
+   * clients from credentials leave this out; OCIClientManager then creates
+   * new clients itself.
+   */
+  forTarget?(target: OCITarget): OCIBackend;
+}
+
+/**
+ * Backend backed by the real oci-sdk clients
+ */
+export class SdkOCIBackend implements OCIBackend {
+  public readonly name = 'oci-sdk';
+  public readonly requiresAuthentication = true;
+
+  public computeClient: oci.core.ComputeClient;
+  public computeManagementClient: oci.core.ComputeManagementClient;
+  public virtualNetworkClient: oci.core.VirtualNetworkClient;
+  public blockstorageClient: oci.core.BlockstorageClient;
+  public objectStorageClient: oci.objectstorage.ObjectStorageClient;
+  public identityClient: oci.identity.IdentityClient;
+  public workRequestClient: oci.workrequests.WorkRequestClient;
+  public databaseClient: oci.database.DatabaseClient;
+  public monitoringClient: oci.monitoring.MonitoringClient;
+  public loggingClient: oci.logging.LoggingManagementClient;
+  public loadBalancerClient: oci.loadbalancer.LoadBalancerClient;
+  public networkLoadBalancerClient: oci.networkloadbalancer.NetworkLoadBalancerClient;
+  public autoScalingClient: oci.autoscaling.AutoScalingClient;
+  public instanceAgentClient: oci.computeinstanceagent.ComputeInstanceAgentClient;
+
+  constructor(provider: oci.common.AuthenticationDetailsProvider, region?: string) {
+    const params = { httpClient: new RetryAfterHttpClient(provider) };
+    // Retries and circuit breaking are handled by OCIRetrier, so the SDK's own are disabled
+    const clientConfiguration: oci.common.ClientConfiguration = {
+      retryConfiguration: oci.common.NoRetryConfigurationDetails,
+      circuitBreaker: { noCircuit: true } as oci.common.CircuitBreaker
+    };
+
+    // Core compute and network clients
+    this.computeClient = new oci.core.ComputeClient(params, clientConfiguration);
+    this.computeManagementClient = new oci.core.ComputeManagementClient(params, clientConfiguration);
+    this.virtualNetworkClient = new oci.core.VirtualNetworkClient(params, clientConfiguration);
+    this.blockstorageClient = new oci.core.BlockstorageClient(params, clientConfiguration);
+    this.identityClient = new oci.identity.IdentityClient(params, clientConfiguration);
+    this.workRequestClient = new oci.workrequests.WorkRequestClient(params, clientConfiguration);
+
+    // Storage clients
+    this.objectStorageClient = new oci.objectstorage.ObjectStorageClient(params, clientConfiguration);
+
+    // Database clients
+    this.databaseClient = new oci.database.DatabaseClient(params, clientConfiguration);
+
+    // Monitoring clients
+    this.monitoringClient = new oci.monitoring.MonitoringClient(params, clientConfiguration);
+    this.loggingClient = new oci.logging.LoggingManagementClient(params, clientConfiguration);
+
+    // Load balancer clients
+    this.loadBalancerClient = new oci.loadbalancer.LoadBalancerClient(params, clientConfiguration);
+    this.networkLoadBalancerClient = new oci.networkloadbalancer.NetworkLoadBalancerClient(params, clientConfiguration);
+
+    // Autoscaling of instance pools
+    this.autoScalingClient = new oci.autoscaling.AutoScalingClient(params, clientConfiguration);
+
+    // Oracle Cloud Agent run command
+    this.instanceAgentClient = new oci.computeinstanceagent.ComputeInstanceAgentClient(params, clientConfiguration);
+
+    // An explicit region takes precedence over the one carried by the provider. The clients
+    // only read the provider's region when they sign requests themselves, so it is set here.
+    const providerRegion = oci.common.isRegionProvider(provider) ? provider.getRegion() : undefined;
+    for (const client of this.clients()) {
+      if (region) {
+        client.regionId = region;
+      } else if (providerRegion) {
+        client.region = providerRegion;
+      }
+    }
+  }
+
+  private clients(): Array<{ regionId: string; region: oci.common.Region }> {
+    return [
+      this.computeClient,
+      this.computeManagementClient,
+      this.virtualNetworkClient,
+      this.blockstorageClient,
+      this.objectStorageClient,
+      this.identityClient,
+      this.workRequestClient,
+      this.databaseClient,
+      this.monitoringClient,
+      this.loggingClient,
+      this.loadBalancerClient,
+      this.networkLoadBalancerClient,
+      this.autoScalingClient,
+      this.instanceAgentClient
+    ];
+  }
+}
+
+/**
+ * Signs and sends requests like the SDK's own HTTP client, and records the
+ * retry-after header of failed responses. The SDK builds OciError from the
+ * status and body only, so the header is otherwise lost.
+ */
+class RetryAfterHttpClient implements oci.common.HttpClient {
+  private readonly fetchClient: oci.common.FetchHttpClient;
+
+  constructor(provider: oci.common.AuthenticationDetailsProvider) {
+    this.fetchClient = new oci.common.FetchHttpClient(new oci.common.DefaultRequestSigner(provider));
+  }
+
+  public async send(...args: Parameters<oci.common.HttpClient['send']>): Promise<Response> {
+    const response = await this.fetchClient.send(...args);
+    if (response.status >= 400) {
+      recordRetryAfter(response.headers.get('opc-request-id'), response.headers.get('retry-after'));
+    }
+    return response;
+  }
+}
@@ -1,119 +1,296 @@
 import * as oci from 'oci-sdk';
 import { readFileSync } from 'fs';
-import { OCIAuthConfig, OCIAuthConfigSchema } from '../types/oci';
+import { OCIAuthConfig, OCIAuthConfigInput, OCIAuthConfigSchema, OCIAuthType, OCIRetryPolicy, OCITarget } from '../types/oci.js';
+import { OCIBackend, SdkOCIBackend } from './oci-backend.js';
+import { FakeOCIBackend } from './fake-backend.js';
+import { formatOCIError, OCIConfigurationError, toOCIError } from './errors.js';
+import { OCIRetrier, resolveRetryPolicy } from './retry.js';
+import { DEFAULT_MAX_ITEMS, fetchPages, OCIListCall } from './pagination.js';
+import { configFileKeyFor, expandHome, loadConfigFileProfile, OCIConfigFileError, OCIConfigFileProfile } from './oci-config-file.js';
 
 export class OCIClientManager {
   private authConfig!: OCIAuthConfig;
+  private fileProfile?: OCIConfigFileProfile;
   private provider!: any; // OCI provider type
-  
+  private backend?: OCIBackend;
+  private initialization?: Promise<void>;
+  private tenancyId?: string;
+  private region?: string;
+  private namespace?: string;
+  private readonly retrier: OCIRetrier;
+
+  // Managers for other profiles and regions, keyed by "profile@region"
+  private readonly targets = new Map<string, OCIClientManager>();
+
+  constructor(
+    private readonly requestedConfig: OCIAuthConfigInput = {},
+    private readonly injectedBackend?: OCIBackend,
+    retryPolicy: Partial<OCIRetryPolicy> = {}
+  ) {
+    this.initializeAuthConfig(requestedConfig, injectedBackend);
+    this.retrier = new OCIRetrier(resolveRetryPolicy(retryPolicy));
+    if (injectedBackend) {
+      this.backend = injectedBackend;
+    }
+  }
+
   // Core clients
-  public computeClient!: oci.core.ComputeClient;
-  public virtualNetworkClient!: oci.core.VirtualNetworkClient;
-  public blockstorageClient!: oci.core.BlockstorageClient;
-  public objectStorageClient!: oci.objectstorage.ObjectStorageClient;
-  public identityClient!: oci.identity.IdentityClient;
-  
+  public get computeClient(): oci.core.ComputeClient { return this.client('compute', backend => backend.computeClient); }
+  public get computeManagementClient(): oci.core.ComputeManagementClient { return this.client('computeManagement', backend => backend.computeManagementClient); }
+  public get virtualNetworkClient(): oci.core.VirtualNetworkClient { return this.client('virtualNetwork', backend => backend.virtualNetworkClient); }
+  public get blockstorageClient(): oci.core.BlockstorageClient { return this.client('blockstorage', backend => backend.blockstorageClient); }
+  public get objectStorageClient(): oci.objectstorage.ObjectStorageClient { return this.client('objectStorage', backend => backend.objectStorageClient); }
+  public get identityClient(): oci.identity.IdentityClient { return this.client('identity', backend => backend.identityClient); }
+  public get workRequestClient(): oci.workrequests.WorkRequestClient { return this.client('workRequests', backend => backend.workRequestClient); }
+
   // Database clients
-  public databaseClient!: oci.database.DatabaseClient;
-  
+  public get databaseClient(): oci.database.DatabaseClient { return this.client('database', backend => backend.databaseClient); }
+
   // Monitoring clients
-  public monitoringClient!: oci.monitoring.MonitoringClient;
-  public loggingClient!: oci.logging.LoggingManagementClient;
-  
+  public get monitoringClient(): oci.monitoring.MonitoringClient { return this.client('monitoring', backend => backend.monitoringClient); }
+  public get loggingClient(): oci.logging.LoggingManagementClient { return this.client('logging', backend => backend.loggingClient); }
+
   // Additional service clients
-  public loadBalancerClient!: oci.loadbalancer.LoadBalancerClient;
-  public networkLoadBalancerClient!: oci.networkloadbalancer.NetworkLoadBalancerClient;
+  public get loadBalancerClient(): oci.loadbalancer.LoadBalancerClient { return this.client('loadBalancer', backend => backend.loadBalancerClient); }
+  public get networkLoadBalancerClient(): oci.networkloadbalancer.NetworkLoadBalancerClient { return this.client('networkLoadBalancer', backend => backend.networkLoadBalancerClient); }
+  public get autoScalingClient(): oci.autoscaling.AutoScalingClient { return this.client('autoScaling', backend => backend.autoScalingClient); }
+  public get instanceAgentClient(): oci.computeinstanceagent.ComputeInstanceAgentClient { return this.client('instanceAgent', backend => backend.instanceAgentClient); }
 
-  constructor(config?: Partial<OCIAuthConfig>) {
-    this.initializeAuthConfig(config);
-    this.initializeClients();
+  // Every client call goes through the retry policy and the service's circuit breaker
+  private client<T extends object>(service: string, select: (backend: OCIBackend) => T): T {
+    if (!this.backend) {
+      throw new Error('OCI clients are not initialized yet; await ready() before using them');
+    }
+    return this.retrier.wrap(service, select(this.backend));
   }
 
-  private initializeAuthConfig(config?: Partial<OCIAuthConfig>) {
-    // Try to load from environment variables first
-    const envConfig = {
+  private initializeAuthConfig(config: OCIAuthConfigInput, backend?: OCIBackend) {
+    // Environment variables override values from the config file, unless a
+    // profile was requested explicitly (e.g. per call for another tenancy)
+    const useEnvironment = !config.profile;
+    const envConfig: OCIAuthConfigInput = !useEnvironment ? {} : {
+      authType: process.env.OCI_AUTH_TYPE as OCIAuthType | undefined,
       tenancyId: process.env.OCI_TENANCY_ID,
       userId: process.env.OCI_USER_ID,
       keyFingerprint: process.env.OCI_KEY_FINGERPRINT,
       privateKeyPath: process.env.OCI_PRIVATE_KEY_PATH,
+      passphrase: process.env.OCI_PRIVATE_KEY_PASSPHRASE,
       region: process.env.OCI_REGION,
       compartmentId: process.env.OCI_COMPARTMENT_ID
     };
 
-    // Merge with provided config
-    const mergedConfig = { ...envConfig, ...config };
-    
-    // Filter out undefined values
-    const filteredConfig = Object.fromEntries(
-      Object.entries(mergedConfig).filter(([_, value]) => value !== undefined)
+    // Backends that never reach OCI do not need a signing key or config file
+    const requiresAuthentication = !backend || backend.requiresAuthentication;
+
+    // Principal modes take their identity from the runtime, not from a config file
+    const requestedAuthType = config.authType ?? envConfig.authType;
+    const usesConfigFile = requiresAuthentication
+      && requestedAuthType !== 'instance_principal'
+      && requestedAuthType !== 'resource_principal';
+
+    // Load the ~/.oci/config profile (OCI_CONFIG_FILE / OCI_CLI_PROFILE)
+    const fileProfile = usesConfigFile
+      ? loadConfigFileProfile({ configFile: config.configFile, profile: config.profile })
+      : undefined;
+    const fileConfig = fileProfile
+      ? { ...fileProfile.config, configFile: fileProfile.filePath, profile: fileProfile.profile }
+      : undefined;
+    this.fileProfile = fileProfile;
+
+    // Merge backend defaults < config file < environment < provided config, ignoring undefined values
+    const filteredConfig = [backend?.defaultAuthConfig, fileConfig, envConfig, config].reduce<Record<string, unknown>>(
+      (merged, source) => ({
+        ...merged,
+        ...Object.fromEntries(Object.entries(source || {}).filter(([_, value]) => value !== undefined))
+      }),
+      {}
     );
 
-    // Validate configuration
+    // Profiles carrying a session token default to security token authentication
+    if (!filteredConfig.authType) {
+      filteredConfig.authType = filteredConfig.securityTokenFile ? 'security_token' : 'api_key';
+    }
+
+    // Validate configuration; only the fields the chosen mode needs are required
+    const parsed = OCIAuthConfigSchema.safeParse(filteredConfig);
+    if (!parsed.success) {
+      const source = fileProfile
+        ? ` (profile [${fileProfile.profile}] in ${fileProfile.filePath}${useEnvironment ? ', with environment overrides' : ''})`
+        : '';
+      const issues = parsed.error.issues.map(issue => {
+        const field = issue.path.join('.') || 'config';
+        const fileKey = fileProfile ? configFileKeyFor(field) : undefined;
+        return `${field}${fileKey ? ` (${fileKey})` : ''}: ${issue.message}`;
+      }).join('; ');
+      throw new OCIConfigurationError(`Invalid OCI configuration for ${String(filteredConfig.authType)} authentication${source}: ${issues}`);
+    }
+    this.authConfig = parsed.data;
+    this.tenancyId = this.authConfig.tenancyId;
+    this.region = this.authConfig.region;
+  }
+
+  /**
+   * Create the authentication provider and service clients.
+   *
+   * Instance and resource principals fetch certificates and tokens from the
+   * runtime, so client creation is asynchronous. Call this before using any
+   * client; it resolves immediately once initialized or when a backend was
+   * injected. A failed attempt is retried on the next call.
+   */
+  public async ready(): Promise<this> {
+    if (!this.backend) {
+      this.initialization ??= this.initializeClients().catch(error => {
+        this.initialization = undefined;
+        throw error;
+      });
+      await this.initialization;
+    }
+    return this;
+  }
+
+  private async initializeClients(): Promise<void> {
     try {
-      this.authConfig = OCIAuthConfigSchema.parse(filteredConfig);
+      this.provider = await this.createProvider();
     } catch (error) {
-      throw new Error(`Invalid OCI configuration: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const detail = error instanceof Error ? error.message : 'Unknown error';
+      if (this.fileProfile) {
+        throw new OCIConfigFileError(this.fileProfile.filePath, this.fileProfile.profile, `failed to create OCI authentication provider: ${detail}`);
+      }
+      throw new OCIConfigurationError(`Failed to create OCI ${this.authConfig.authType} authentication provider: ${detail}`);
     }
 
-    // Create authentication provider
     try {
-      const privateKey = readFileSync(this.authConfig.privateKeyPath, 'utf8');
-      
-      this.provider = new oci.common.SimpleAuthenticationDetailsProvider(
-        this.authConfig.tenancyId,
-        this.authConfig.userId,
-        this.authConfig.keyFingerprint,
-        privateKey,
-        null, // passphrase
-        oci.common.Region.fromRegionId(this.authConfig.region)
-      );
+      this.backend = new SdkOCIBackend(this.provider, this.region);
     } catch (error) {
-      throw new Error(`Failed to create OCI authentication provider: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new OCIConfigurationError(`Failed to initialize OCI clients: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private initializeClients() {
-    try {
-      // Core compute and network clients
-      this.computeClient = new oci.core.ComputeClient({ authenticationDetailsProvider: this.provider });
-      this.virtualNetworkClient = new oci.core.VirtualNetworkClient({ authenticationDetailsProvider: this.provider });
-      this.blockstorageClient = new oci.core.BlockstorageClient({ authenticationDetailsProvider: this.provider });
-      this.identityClient = new oci.identity.IdentityClient({ authenticationDetailsProvider: this.provider });
-      
-      // Storage clients
-      this.objectStorageClient = new oci.objectstorage.ObjectStorageClient({ authenticationDetailsProvider: this.provider });
-      
-      // Database clients
-      this.databaseClient = new oci.database.DatabaseClient({ authenticationDetailsProvider: this.provider });
-      
-      // Monitoring clients
-      this.monitoringClient = new oci.monitoring.MonitoringClient({ authenticationDetailsProvider: this.provider });
-      this.loggingClient = new oci.logging.LoggingManagementClient({ authenticationDetailsProvider: this.provider });
-      
-      // Load balancer clients
-      this.loadBalancerClient = new oci.loadbalancer.LoadBalancerClient({ authenticationDetailsProvider: this.provider });
-      this.networkLoadBalancerClient = new oci.networkloadbalancer.NetworkLoadBalancerClient({ authenticationDetailsProvider: this.provider });
-      
-    } catch (error) {
-      throw new Error(`Failed to initialize OCI clients: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  private async createProvider(): Promise<oci.common.AuthenticationDetailsProvider> {
+    const config = this.authConfig;
+
+    switch (config.authType) {
+      case 'api_key': {
+        const privateKey = readFileSync(expandHome(config.privateKeyPath), 'utf8');
+        return new oci.common.SimpleAuthenticationDetailsProvider(
+          config.tenancyId,
+          config.userId,
+          config.keyFingerprint,
+          privateKey,
+          config.passphrase ?? null,
+          oci.common.Region.fromRegionId(config.region)
+        );
+      }
+
+      case 'security_token':
+        // Session tokens (oci session authenticate) are read and refreshed from the config file
+        return new oci.common.SessionAuthDetailProvider(config.configFile, config.profile);
+
+      case 'instance_principal': {
+        const builder = new oci.common.InstancePrincipalsAuthenticationDetailsProviderBuilder();
+        const provider = await builder.build();
+        this.tenancyId ??= builder.tenancyId;
+        this.region ??= provider.getRegion()?.regionId;
+        return provider;
+      }
+
+      case 'resource_principal': {
+        const provider = oci.common.ResourcePrincipalAuthenticationDetailsProvider.builder();
+        const claims = oci.common.ResourcePrincipalAuthenticationDetailsProvider.ClaimKeys;
+        this.tenancyId ??= (await provider.getStringClaim(claims.TENANT_ID_CLAIM_KEY)) ?? undefined;
+        this.region ??= provider.getRegion()?.regionId;
+        return provider;
+      }
+    }
+  }
+
+  /**
+   * Replace the client backend, e.g. to swap in the in-memory fake cloud
+   */
+  public setBackend(backend: OCIBackend): void {
+    this.backend = backend;
+  }
+
+  public getBackend(): OCIBackend | undefined {
+    return this.backend;
+  }
+
+  /**
+   * Client manager for another profile and/or region.
+   *
+   * Returns this manager when the target matches its own profile and region.
+   * Otherwise a manager is created on first use and cached, so repeated calls
+   * for the same (profile, region) pair reuse the same authenticated clients.
+   * A region on its own keeps this manager's credentials; a profile is read
+   * from the config file as written, without OCI_* environment overrides.
+   */
+  public forTarget(target: OCITarget = {}): OCIClientManager {
+    const profile = target.profile && target.profile !== this.getProfile() ? target.profile : undefined;
+    const region = target.region && target.region !== this.region ? target.region : undefined;
+    if (!profile && !region) {
+      return this;
+    }
+
+    const key = `${profile ?? ''}@${region ?? ''}`;
+    let manager = this.targets.get(key);
+    if (!manager) {
+      const config: OCIAuthConfigInput = profile
+        ? { configFile: this.requestedConfig.configFile, profile, region }
+        : { ...this.requestedConfig, region };
+      const backend = this.injectedBackend?.forTarget?.({ profile, region: region ?? this.region }) ?? this.injectedBackend;
+      manager = new OCIClientManager(config, backend, this.retrier.policy);
+      this.targets.set(key, manager);
     }
+    return manager;
+  }
+
+  public getRetryPolicy(): OCIRetryPolicy {
+    return this.retrier.policy;
+  }
+
+  public getAuthType(): OCIAuthType {
+    return this.authConfig.authType;
   }
 
   // Utility methods
   public getDefaultCompartmentId(): string {
-    return this.authConfig.compartmentId || this.authConfig.tenancyId;
+    const compartmentId = this.authConfig.compartmentId || this.tenancyId;
+    if (!compartmentId) {
+      throw new OCIConfigurationError('No default compartment: set OCI_COMPARTMENT_ID or pass compartmentId');
+    }
+    return compartmentId;
   }
 
   public getRegion(): string {
-    return this.authConfig.region;
+    if (!this.region) {
+      throw new OCIConfigurationError('OCI region is not known yet; await ready() or set OCI_REGION');
+    }
+    return this.region;
+  }
+
+  /** Object Storage namespace of the tenancy, looked up on first use */
+  public async getNamespace(): Promise<string> {
+    if (!this.namespace) {
+      const response = await this.objectStorageClient.getNamespace({});
+      this.namespace = response.value;
+    }
+    return this.namespace;
   }
 
   public getTenancyId(): string {
-    return this.authConfig.tenancyId;
+    if (!this.tenancyId) {
+      throw new OCIConfigurationError('OCI tenancy is not known yet; await ready() or set OCI_TENANCY_ID');
+    }
+    return this.tenancyId;
+  }
+
+  public getProfile(): string | undefined {
+    return this.authConfig.profile;
   }
 
   public async testConnection(): Promise<boolean> {
     try {
+      await this.ready();
       const request = {
         compartmentId: this.getTenancyId()
       };
@@ -127,53 +304,47 @@ export class OCIClientManager {
 
   // Helper method to handle OCI API pagination
   public async getAllPages<T>(
-    apiCall: (request: any) => Promise<{ items: T[]; opcNextPage?: string }>,
+    apiCall: OCIListCall<T>,
     request: any,
-    maxItems = 1000
+    maxItems = DEFAULT_MAX_ITEMS
   ): Promise<T[]> {
-    const allItems: T[] = [];
-    let nextPage: string | undefined;
-    
-    do {
-      const requestWithPage = nextPage ? { ...request, page: nextPage } : request;
-      const response = await apiCall(requestWithPage);
-      
-      allItems.push(...response.items);
-      nextPage = response.opcNextPage;
-      
-      // Safety check to prevent infinite loops
-      if (allItems.length >= maxItems) {
-        break;
-      }
-    } while (nextPage);
-    
-    return allItems;
+    const page = await fetchPages(apiCall, request, { fetchAll: true, maxItems });
+    return page.items;
   }
 
   // Error handling helper
   public handleOCIError(error: any): string {
-    if (error.statusCode) {
-      return `OCI API Error (${error.statusCode}): ${error.message || 'Unknown error'}`;
-    }
-    
-    if (error.code) {
-      return `OCI Error (${error.code}): ${error.message || 'Unknown error'}`;
-    }
-    
-    return `OCI Error: ${error.message || error.toString()}`;
+    return formatOCIError(toOCIError(error));
   }
 }
 
 // Singleton instance for reuse
 let ociClientInstance: OCIClientManager | null = null;
 
-export function getOCIClient(config?: Partial<OCIAuthConfig>): OCIClientManager {
+export function getOCIClient(config?: OCIAuthConfigInput, backend?: OCIBackend, retryPolicy?: Partial<OCIRetryPolicy>): OCIClientManager {
   if (!ociClientInstance) {
-    ociClientInstance = new OCIClientManager(config);
+    ociClientInstance = new OCIClientManager(config, backend ?? createBackendFromEnv(), retryPolicy);
   }
   return ociClientInstance;
 }
 
+/**
+ * Select a backend through OCI_BACKEND. "fake" runs every tool against the
+ * in-memory cloud; anything else (or unset) uses the real oci-sdk clients.
+ */
+function createBackendFromEnv(): OCIBackend | undefined {
+  switch (process.env.OCI_BACKEND) {
+    case undefined:
+    case '':
+    case 'oci-sdk':
+      return undefined;
+    case 'fake':
+      return new FakeOCIBackend();
+    default:
+      throw new OCIConfigurationError(`Unknown OCI_BACKEND: ${process.env.OCI_BACKEND} (expected 'oci-sdk' or 'fake')`);
+  }
+}
+
 export function resetOCIClient(): void {
   ociClientInstance = null;
 }
@@ -0,0 +1,172 @@
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { OCIAuthConfigInput } from '../types/oci.js';
+import { OCIConfigurationError } from './errors.js';
+
+/**
+ * Reader for the standard OCI CLI/SDK configuration file (~/.oci/config).
+ *
+ * The file is INI formatted with one section per profile. Keys in the
+ * [DEFAULT] section are inherited by every other profile.
+ */
+
+export const DEFAULT_CONFIG_FILE = join('~', '.oci', 'config');
+export const DEFAULT_PROFILE = 'DEFAULT';
+
+// Config file keys and the OCIAuthConfig fields they populate
+const KEY_MAP: Record<string, keyof OCIAuthConfigInput> = {
+  tenancy: 'tenancyId',
+  user: 'userId',
+  fingerprint: 'keyFingerprint',
+  key_file: 'privateKeyPath',
+  region: 'region',
+  pass_phrase: 'passphrase',
+  security_token_file: 'securityTokenFile'
+};
+
+// Keys holding file paths, which may start with ~
+const PATH_KEYS = new Set(['key_file', 'security_token_file']);
+
+export class OCIConfigFileError extends OCIConfigurationError {
+  constructor(
+    public readonly filePath: string,
+    public readonly profile: string | undefined,
+    detail: string
+  ) {
+    super(`OCI config file ${filePath}${profile ? `, profile [${profile}]` : ''}: ${detail}`);
+    this.name = 'OCIConfigFileError';
+  }
+}
+
+export interface OCIConfigFileOptions {
+  configFile?: string;
+  profile?: string;
+}
+
+export interface OCIConfigFileProfile {
+  filePath: string;
+  profile: string;
+  config: OCIAuthConfigInput;
+}
+
+/**
+ * Name of the config file key that populates an OCIAuthConfig field
+ */
+export function configFileKeyFor(field: string): string | undefined {
+  return Object.keys(KEY_MAP).find(key => KEY_MAP[key] === field);
+}
+
+export function expandHome(path: string): string {
+  if (path === '~') {
+    return homedir();
+  }
+  if (path.startsWith('~/') || path.startsWith('~\\')) {
+    return join(homedir(), path.slice(2));
+  }
+  return path;
+}
+
+/**
+ * Resolve which config file to read. An explicitly requested file (option or
+ * OCI_CONFIG_FILE) is always returned; the default location only if it exists.
+ */
+export function resolveConfigFilePath(configFile?: string): string | undefined {
+  const explicit = configFile || process.env.OCI_CONFIG_FILE;
+  if (explicit) {
+    return expandHome(explicit);
+  }
+
+  const defaultPath = expandHome(DEFAULT_CONFIG_FILE);
+  return existsSync(defaultPath) ? defaultPath : undefined;
+}
+
+/**
+ * Parse INI content into a map of profile name to key/value pairs
+ */
+export function parseConfigFile(content: string, filePath: string): Map<string, Map<string, string>> {
+  const profiles = new Map<string, Map<string, string>>();
+  let current: Map<string, string> | undefined;
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      return;
+    }
+
+    const section = line.match(/^\[(.+)\]$/);
+    if (section) {
+      const name = section[1]!.trim();
+      if (!name) {
+        throw new OCIConfigFileError(filePath, undefined, `empty profile name on line ${index + 1}`);
+      }
+      current = profiles.get(name) ?? new Map();
+      profiles.set(name, current);
+      return;
+    }
+
+    const separator = line.indexOf('=');
+    if (separator <= 0) {
+      throw new OCIConfigFileError(filePath, undefined, `invalid line ${index + 1}: expected "key=value" or "[PROFILE]"`);
+    }
+    if (!current) {
+      throw new OCIConfigFileError(filePath, undefined, `line ${index + 1} appears before any [PROFILE] section`);
+    }
+
+    current.set(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+  });
+
+  return profiles;
+}
+
+/**
+ * Load a profile from the OCI config file and map it onto OCIAuthConfig fields.
+ *
+ * Returns undefined when no file was requested and the default file does not
+ * exist. Throws OCIConfigFileError when the file or profile cannot be read.
+ * Referenced key and token files are checked when the provider is created,
+ * since environment variables may override them.
+ */
+export function loadConfigFileProfile(options: OCIConfigFileOptions = {}): OCIConfigFileProfile | undefined {
+  const filePath = resolveConfigFilePath(options.configFile);
+  const requestedProfile = options.profile || process.env.OCI_CLI_PROFILE;
+  const profile = requestedProfile || DEFAULT_PROFILE;
+
+  if (!filePath) {
+    if (requestedProfile && requestedProfile !== DEFAULT_PROFILE) {
+      throw new OCIConfigFileError(expandHome(DEFAULT_CONFIG_FILE), profile, 'profile requested but the config file does not exist');
+    }
+    return undefined;
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new OCIConfigFileError(filePath, profile, `cannot read file (${error instanceof Error ? error.message : 'Unknown error'})`);
+  }
+
+  const profiles = parseConfigFile(content, filePath);
+  const defaults = profiles.get(DEFAULT_PROFILE);
+  const selected = profiles.get(profile);
+  if (!selected) {
+    const available = Array.from(profiles.keys());
+    throw new OCIConfigFileError(
+      filePath,
+      profile,
+      `profile not found (available: ${available.length > 0 ? available.join(', ') : 'none'})`
+    );
+  }
+
+  const values = new Map([...(defaults ?? []), ...selected]);
+  const config: OCIAuthConfigInput = {};
+  for (const [key, value] of values) {
+    const field = KEY_MAP[key];
+    if (!field || !value) {
+      continue;
+    }
+    (config as Record<string, string>)[field] = PATH_KEYS.has(key) ? expandHome(value) : value;
+  }
+
+  return { filePath, profile, config };
+}
@@ -0,0 +1,60 @@
+import { OCIPagination, OCIResourceListResponse } from '../types/oci.js';
+
+/**
+ * Cursor pagination over OCI list operations.
+ *
+ * OCI list calls return at most `limit` items plus an `opc-next-page` token.
+ * A single call returns one page and hands the token back as `nextPage`;
+ * with `fetchAll` or `maxItems` pages are followed until the list ends or the
+ * item cap is reached. Page sizes are shrunk near the cap so the returned
+ * token always resumes exactly after the last item returned.
+ */
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const DEFAULT_MAX_ITEMS = 1000;
+
+export interface OCIPage<T> {
+  items: T[];
+  nextPage?: string;
+  truncated: boolean;
+}
+
+export type OCIListCall<T> = (request: any) => Promise<{ items: T[]; opcNextPage?: string }>;
+
+export async function fetchPages<T>(apiCall: OCIListCall<T>, request: any, options: OCIPagination = {}): Promise<OCIPage<T>> {
+  const pageSize = request.limit || DEFAULT_PAGE_SIZE;
+  const followPages = options.fetchAll || options.maxItems !== undefined;
+  const maxItems = followPages ? options.maxItems ?? DEFAULT_MAX_ITEMS : pageSize;
+
+  const items: T[] = [];
+  let nextPage = options.page;
+
+  do {
+    const response = await apiCall({
+      ...request,
+      limit: Math.min(pageSize, maxItems - items.length),
+      ...(nextPage ? { page: nextPage } : {})
+    });
+
+    items.push(...response.items);
+    nextPage = response.opcNextPage;
+  } while (followPages && nextPage && items.length < maxItems);
+
+  return { items, nextPage, truncated: Boolean(nextPage) };
+}
+
+/**
+ * Standard list response for a page, e.g. "Found 50 compute instances"
+ */
+export function toListResponse<T extends Record<string, any>>(page: OCIPage<T>, label: string): OCIResourceListResponse {
+  return {
+    success: true,
+    data: page.items,
+    count: page.items.length,
+    nextPage: page.nextPage,
+    truncated: page.truncated,
+    message: page.truncated
+      ? `Found ${page.items.length} ${label} (more results available; pass nextPage as page to continue, or set fetchAll)`
+      : `Found ${page.items.length} ${label}`
+  };
+}
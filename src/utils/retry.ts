@@ -0,0 +1,263 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { OCIErrorDetail, OCIRetryPolicy, OCIRetryPolicySchema } from '../types/oci.js';
+import { OCICircuitOpenError, OCIConfigurationError, toOCIError } from './errors.js';
+
+/**
+ * Retry policy applied to every OCI client call made through OCIClientManager.
+ *
+ * Retryable failures (throttling, IncorrectState, 5xx, network errors) are
+ * retried with exponential backoff and full jitter, waiting for the server's
+ * retry-after instead when one was sent. Operations that create or act on
+ * something get an opc-retry-token so a retried request cannot take effect
+ * twice; the few of those whose requests take no token are retried only when
+ * OCI rejected the attempt. Each service has a circuit breaker that rejects
+ * calls for a cooldown period once too many calls in a row have failed even
+ * after retrying.
+ */
+
+export const DEFAULT_RETRY_POLICY: OCIRetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 20000,
+  circuitBreakerThreshold: 5,
+  circuitBreakerCooldownMs: 30000
+};
+
+const ENV_SETTINGS: Record<keyof OCIRetryPolicy, string> = {
+  maxAttempts: 'OCI_RETRY_MAX_ATTEMPTS',
+  baseDelayMs: 'OCI_RETRY_BASE_DELAY_MS',
+  maxDelayMs: 'OCI_RETRY_MAX_DELAY_MS',
+  circuitBreakerThreshold: 'OCI_CIRCUIT_BREAKER_THRESHOLD',
+  circuitBreakerCooldownMs: 'OCI_CIRCUIT_BREAKER_COOLDOWN_MS'
+};
+
+/**
+ * Resolve the policy from defaults < OCI_RETRY_* / OCI_CIRCUIT_BREAKER_* < explicit settings
+ */
+export function resolveRetryPolicy(overrides: Partial<OCIRetryPolicy> = {}): OCIRetryPolicy {
+  const fromEnv: Partial<OCIRetryPolicy> = {};
+  for (const [field, variable] of Object.entries(ENV_SETTINGS) as Array<[keyof OCIRetryPolicy, string]>) {
+    const value = process.env[variable];
+    if (value !== undefined && value !== '') {
+      fromEnv[field] = Number(value);
+    }
+  }
+
+  const parsed = OCIRetryPolicySchema.safeParse({ ...DEFAULT_RETRY_POLICY, ...fromEnv, ...overrides });
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => {
+      const field = issue.path[0] as keyof OCIRetryPolicy;
+      return `${field} (${ENV_SETTINGS[field]}): ${issue.message}`;
+    }).join('; ');
+    throw new OCIConfigurationError(`Invalid retry policy: ${issues}`);
+  }
+  return parsed.data;
+}
+
+// Retry counts for the tool call in progress
+const retryCounter = new AsyncLocalStorage<{ retries: number }>();
+
+/**
+ * Run a tool call and report how many OCI requests it retried in `retries`.
+ * Nested calls share the outer count.
+ */
+export async function withRetryCount<T extends object>(run: () => Promise<T>): Promise<T & { retries: number }> {
+  const current = retryCounter.getStore();
+  if (current) {
+    return { ...(await run()), retries: current.retries };
+  }
+
+  const counter = { retries: 0 };
+  const result = await retryCounter.run(counter, run);
+  return { ...result, retries: counter.retries };
+}
+
+// POST operations whose requests accept an opc-retry-token
+const RETRY_TOKEN_OPERATIONS = /^(create|launch|attach|copy|export|capture|change\w*Compartment|instanceAction$|addUserToGroup$|(start|stop)InstancePool$)/;
+
+// POST operations that take no opc-retry-token and are not safe to repeat:
+// after a 5xx or a network error OCI may already have acted on the attempt
+const UNREPLAYABLE_OPERATIONS = new Set([
+  'addNetworkSecurityGroupSecurityRules',
+  'commitMultipartUpload',
+  'copyObject',
+  'createBucket',
+  'createMultipartUpload',
+  'createPreauthenticatedRequest',
+  'createRetentionRule',
+  'createVolumeBackupPolicyAssignment'
+]);
+
+// retry-after values seen on failed responses, keyed by opc-request-id.
+// The SDK drops response headers when it builds an OciError, so backends
+// record the header here and the retrier looks it up by request ID.
+const retryAfterByRequestId = new Map<string, number>();
+const MAX_RETRY_AFTER_ENTRIES = 100;
+
+export function recordRetryAfter(opcRequestId: string | null | undefined, header: string | null | undefined): void {
+  if (!opcRequestId || !header) {
+    return;
+  }
+  const seconds = Number(header);
+  const delayMs = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  if (!Number.isFinite(delayMs)) {
+    return;
+  }
+  if (retryAfterByRequestId.size >= MAX_RETRY_AFTER_ENTRIES) {
+    retryAfterByRequestId.delete(retryAfterByRequestId.keys().next().value!);
+  }
+  retryAfterByRequestId.set(opcRequestId, Math.max(0, delayMs));
+}
+
+function takeRetryAfter(opcRequestId: string | undefined): number | undefined {
+  if (!opcRequestId) {
+    return undefined;
+  }
+  const delayMs = retryAfterByRequestId.get(opcRequestId);
+  retryAfterByRequestId.delete(opcRequestId);
+  return delayMs;
+}
+
+class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+
+  constructor(private readonly service: string, private readonly policy: OCIRetryPolicy) {}
+
+  /** Throws while open; after the cooldown lets a single trial call through */
+  public acquire(): void {
+    if (this.consecutiveFailures < this.policy.circuitBreakerThreshold) {
+      return;
+    }
+    if (Date.now() < this.openUntil || this.trialInFlight) {
+      throw new OCICircuitOpenError(this.service, new Date(Math.max(this.openUntil, Date.now())));
+    }
+    this.trialInFlight = true;
+  }
+
+  public success(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  public failure(): void {
+    this.consecutiveFailures += 1;
+    this.trialInFlight = false;
+    if (this.consecutiveFailures >= this.policy.circuitBreakerThreshold) {
+      this.openUntil = Date.now() + this.policy.circuitBreakerCooldownMs;
+    }
+  }
+}
+
+export class OCIRetrier {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly proxies = new WeakMap<object, object>();
+
+  constructor(public readonly policy: OCIRetryPolicy) {}
+
+  /**
+   * Wrap a service client so every method call goes through call()
+   */
+  public wrap<T extends object>(service: string, client: T): T {
+    let proxy = this.proxies.get(client);
+    if (!proxy) {
+      proxy = new Proxy(client, {
+        get: (target, prop, receiver) => {
+          const value = Reflect.get(target, prop, receiver);
+          if (typeof value !== 'function' || typeof prop === 'symbol') {
+            return value;
+          }
+          // Look the method up again on each attempt rather than reusing the first lookup
+          return (...args: any[]) => this.call(service, prop, args, callArgs => {
+            const method = Reflect.get(target, prop, receiver) as (...methodArgs: any[]) => Promise<unknown>;
+            return method.apply(target, callArgs);
+          });
+        }
+      });
+      this.proxies.set(client, proxy);
+    }
+    return proxy as T;
+  }
+
+  public async call<T>(service: string, operation: string, args: any[], invoke: (args: any[]) => Promise<T>): Promise<T> {
+    const breaker = this.breakerFor(service);
+    const callArgs = withRetryToken(operation, args);
+    // Stream bodies are consumed by the first attempt and cannot be replayed
+    const maxAttempts = hasStreamBody(callArgs) ? 1 : this.policy.maxAttempts;
+
+    breaker.acquire();
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await invoke(callArgs);
+        breaker.success();
+        return result;
+      } catch (error) {
+        const detail = toOCIError(error);
+        if (!detail.retryable) {
+          // A non-retryable error still proves the service is answering
+          breaker.success();
+          throw error;
+        }
+
+        const retryAfterMs = takeRetryAfter(detail.opcRequestId);
+        const delayMs = retryAfterMs ?? this.backoff(attempt);
+        if (attempt >= maxAttempts || delayMs > this.policy.maxDelayMs || !mayReplay(operation, detail)) {
+          breaker.failure();
+          throw error;
+        }
+
+        const counter = retryCounter.getStore();
+        if (counter) {
+          counter.retries += 1;
+        }
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  private breakerFor(service: string): CircuitBreaker {
+    let breaker = this.breakers.get(service);
+    if (!breaker) {
+      breaker = new CircuitBreaker(service, this.policy);
+      this.breakers.set(service, breaker);
+    }
+    return breaker;
+  }
+
+  // Exponential backoff with full jitter
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.policy.maxDelayMs, this.policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.floor(Math.random() * ceiling);
+  }
+}
+
+/**
+ * Give requests that accept one an idempotency token that stays the same
+ * across retries, unless the caller supplied one
+ */
+function withRetryToken(operation: string, args: any[]): any[] {
+  const [request, ...rest] = args;
+  if (!RETRY_TOKEN_OPERATIONS.test(operation) || UNREPLAYABLE_OPERATIONS.has(operation)
+    || !request || typeof request !== 'object' || request.opcRetryToken) {
+    return args;
+  }
+  return [{ ...request, opcRetryToken: randomUUID() }, ...rest];
+}
+
+// Throttled (429) and conflicting (409) attempts were turned away before OCI acted on them
+function mayReplay(operation: string, detail: OCIErrorDetail): boolean {
+  return !UNREPLAYABLE_OPERATIONS.has(operation) || detail.statusCode === 429 || detail.statusCode === 409;
+}
+
+function hasStreamBody(args: any[]): boolean {
+  const [request] = args;
+  return Boolean(request && typeof request === 'object'
+    && Object.values(request).some(value => value instanceof Readable || value instanceof ReadableStream));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
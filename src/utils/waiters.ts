@@ -0,0 +1,411 @@
+import * as oci from 'oci-sdk';
+import { OCIOperationResponse, OCIWait } from '../types/oci.js';
+import { OCIClientManager } from './oci-client.js';
+import { OCIValidationError, OCIWaitError } from './errors.js';
+
+/**
+ * Optional waiting for a lifecycle state after create and lifecycle actions.
+ *
+ * Polling is done by the oci-sdk waiters on the (retrying) clients of the
+ * call's target, with exponential backoff capped at 30 seconds and never
+ * sleeping past the deadline. Waits end early when the resource enters a
+ * failure state it cannot leave, such as a FAULTY volume.
+ */
+
+export const DEFAULT_WAIT_TIMEOUT_SECONDS = 1200;
+const MAX_POLL_INTERVAL_SECONDS = 30;
+
+export type WaitableResource =
+  | 'instance'
+  | 'instance-pool'
+  | 'image'
+  | 'console-history'
+  | 'console-connection'
+  | 'volume'
+  | 'volume-attachment'
+  | 'vnic-attachment'
+  | 'public-ip'
+  | 'volume-backup'
+  | 'volume-group'
+  | 'volume-group-backup'
+  | 'boot-volume'
+  | 'boot-volume-backup'
+  | 'autonomous-database';
+
+interface WaitableKind {
+  label: string;
+  states: string[];
+  // States that end the wait unless they are the requested one
+  failureStates: string[];
+  waitFor(ociClient: OCIClientManager, resourceId: string, states: string[], config: oci.common.WaiterConfiguration): Promise<Record<string, any> | null>;
+}
+
+const WAITABLE: Record<WaitableResource, WaitableKind> = {
+  'instance': {
+    label: 'Instance',
+    states: lifecycleStates(oci.core.models.Instance.LifecycleState),
+    failureStates: ['TERMINATED'],
+    async waitFor(ociClient, instanceId, states, config) {
+      const waiter = new oci.core.ComputeWaiter(ociClient.computeClient, ociClient.workRequestClient, config);
+      const response = await waiter.forInstance({ instanceId }, ...states as oci.core.models.Instance.LifecycleState[]);
+      return response?.instance ?? null;
+    }
+  },
+  'instance-pool': {
+    label: 'Instance pool',
+    states: lifecycleStates(oci.core.models.InstancePool.LifecycleState),
+    failureStates: ['TERMINATED'],
+    async waitFor(ociClient, instancePoolId, states, config) {
+      const waiter = new oci.core.ComputeManagementWaiter(ociClient.computeManagementClient, ociClient.workRequestClient, config);
+      const response = await waiter.forInstancePool({ instancePoolId }, ...states as oci.core.models.InstancePool.LifecycleState[]);
+      return response?.instancePool ?? null;
+    }
+  },
+  'image': {
+    label: 'Image',
+    states: lifecycleStates(oci.core.models.Image.LifecycleState),
+    failureStates: ['DISABLED', 'DELETED'],
+    async waitFor(ociClient, imageId, states, config) {
+      const waiter = new oci.core.ComputeWaiter(ociClient.computeClient, ociClient.workRequestClient, config);
+      const response = await waiter.forImage({ imageId }, ...states as oci.core.models.Image.LifecycleState[]);
+      return response?.image ?? null;
+    }
+  },
+  'console-history': {
+    label: 'Console history',
+    states: lifecycleStates(oci.core.models.ConsoleHistory.LifecycleState),
+    failureStates: ['FAILED'],
+    async waitFor(ociClient, instanceConsoleHistoryId, states, config) {
+      const waiter = new oci.core.ComputeWaiter(ociClient.computeClient, ociClient.workRequestClient, config);
+      const response = await waiter.forConsoleHistory({ instanceConsoleHistoryId }, ...states as oci.core.models.ConsoleHistory.LifecycleState[]);
+      return response?.consoleHistory ?? null;
+    }
+  },
+  'console-connection': {
+    label: 'Console connection',
+    states: lifecycleStates(oci.core.models.InstanceConsoleConnection.LifecycleState),
+    failureStates: ['FAILED', 'DELETED'],
+    async waitFor(ociClient, instanceConsoleConnectionId, states, config) {
+      const waiter = new oci.core.ComputeWaiter(ociClient.computeClient, ociClient.workRequestClient, config);
+      const response = await waiter.forInstanceConsoleConnection(
+        { instanceConsoleConnectionId },
+        ...states as oci.core.models.InstanceConsoleConnection.LifecycleState[]
+      );
+      return response?.instanceConsoleConnection ?? null;
+    }
+  },
+  'volume': {
+    label: 'Volume',
+    states: lifecycleStates(oci.core.models.Volume.LifecycleState),
+    failureStates: ['FAULTY', 'TERMINATED'],
+    async waitFor(ociClient, volumeId, states, config) {
+      const waiter = new oci.core.BlockstorageWaiter(ociClient.blockstorageClient, ociClient.workRequestClient, config);
+      const response = await waiter.forVolume({ volumeId }, ...states as oci.core.models.Volume.LifecycleState[]);
+      return response?.volume ?? null;
+    }
+  },
+  'volume-attachment': {
+    label: 'Volume attachment',
+    states: lifecycleStates(oci.core.models.VolumeAttachment.LifecycleState),
+    failureStates: ['DETACHED'],
+    async waitFor(ociClient, volumeAttachmentId, states, config) {
+      const waiter = new oci.core.ComputeWaiter(ociClient.computeClient, ociClient.workRequestClient, config);
+      const response = await waiter.forVolumeAttachment({ volumeAttachmentId }, ...states as oci.core.models.VolumeAttachment.LifecycleState[]);
+      return response?.volumeAttachment ?? null;
+    }
+  },
+  'vnic-attachment': {
+    label: 'VNIC attachment',
+    states: lifecycleStates(oci.core.models.VnicAttachment.LifecycleState),
+    failureStates: ['DETACHED'],
+    async waitFor(ociClient, vnicAttachmentId, states, config) {
+      const waiter = new oci.core.ComputeWaiter(ociClient.computeClient, ociClient.workRequestClient, config);
+      const response = await waiter.forVnicAttachment({ vnicAttachmentId }, ...states as oci.core.models.VnicAttachment.LifecycleState[]);
+      return response?.vnicAttachment ?? null;
+    }
+  },
+  'public-ip': {
+    label: 'Public IP',
+    states: lifecycleStates(oci.core.models.PublicIp.LifecycleState),
+    failureStates: ['TERMINATED'],
+    async waitFor(ociClient, publicIpId, states, config) {
+      const waiter = new oci.core.VirtualNetworkWaiter(ociClient.virtualNetworkClient, ociClient.workRequestClient, config);
+      const response = await waiter.forPublicIp({ publicIpId }, ...states as oci.core.models.PublicIp.LifecycleState[]);
+      return response?.publicIp ?? null;
+    }
+  },
+  'volume-backup': {
+    label: 'Volume backup',
+    states: lifecycleStates(oci.core.models.VolumeBackup.LifecycleState),
+    failureStates: ['FAULTY', 'TERMINATED'],
+    async waitFor(ociClient, volumeBackupId, states, config) {
+      const waiter = new oci.core.BlockstorageWaiter(ociClient.blockstorageClient, ociClient.workRequestClient, config);
+      const response = await waiter.forVolumeBackup({ volumeBackupId }, ...states as oci.core.models.VolumeBackup.LifecycleState[]);
+      return response?.volumeBackup ?? null;
+    }
+  },
+  'volume-group': {
+    label: 'Volume group',
+    states: lifecycleStates(oci.core.models.VolumeGroup.LifecycleState),
+    failureStates: ['FAULTY', 'TERMINATED'],
+    async waitFor(ociClient, volumeGroupId, states, config) {
+      const waiter = new oci.core.BlockstorageWaiter(ociClient.blockstorageClient, ociClient.workRequestClient, config);
+      const response = await waiter.forVolumeGroup({ volumeGroupId }, ...states as oci.core.models.VolumeGroup.LifecycleState[]);
+      return response?.volumeGroup ?? null;
+    }
+  },
+  'volume-group-backup': {
+    label: 'Volume group backup',
+    states: lifecycleStates(oci.core.models.VolumeGroupBackup.LifecycleState),
+    failureStates: ['FAULTY', 'TERMINATED'],
+    async waitFor(ociClient, volumeGroupBackupId, states, config) {
+      const waiter = new oci.core.BlockstorageWaiter(ociClient.blockstorageClient, ociClient.workRequestClient, config);
+      const response = await waiter.forVolumeGroupBackup(
+        { volumeGroupBackupId },
+        ...states as oci.core.models.VolumeGroupBackup.LifecycleState[]
+      );
+      return response?.volumeGroupBackup ?? null;
+    }
+  },
+  'boot-volume': {
+    label: 'Boot volume',
+    states: lifecycleStates(oci.core.models.BootVolume.LifecycleState),
+    failureStates: ['FAULTY', 'TERMINATED'],
+    async waitFor(ociClient, bootVolumeId, states, config) {
+      const waiter = new oci.core.BlockstorageWaiter(ociClient.blockstorageClient, ociClient.workRequestClient, config);
+      const response = await waiter.forBootVolume({ bootVolumeId }, ...states as oci.core.models.BootVolume.LifecycleState[]);
+      return response?.bootVolume ?? null;
+    }
+  },
+  'boot-volume-backup': {
+    label: 'Boot volume backup',
+    states: lifecycleStates(oci.core.models.BootVolumeBackup.LifecycleState),
+    failureStates: ['FAULTY', 'TERMINATED'],
+    async waitFor(ociClient, bootVolumeBackupId, states, config) {
+      const waiter = new oci.core.BlockstorageWaiter(ociClient.blockstorageClient, ociClient.workRequestClient, config);
+      const response = await waiter.forBootVolumeBackup({ bootVolumeBackupId }, ...states as oci.core.models.BootVolumeBackup.LifecycleState[]);
+      return response?.bootVolumeBackup ?? null;
+    }
+  },
+  'autonomous-database': {
+    label: 'Autonomous database',
+    states: lifecycleStates(oci.database.models.AutonomousDatabase.LifecycleState),
+    failureStates: ['RESTORE_FAILED', 'TERMINATED'],
+    async waitFor(ociClient, autonomousDatabaseId, states, config) {
+      const waiter = new oci.database.DatabaseWaiter(ociClient.databaseClient, ociClient.workRequestClient, config);
+      const response = await waiter.forAutonomousDatabase(
+        { autonomousDatabaseId },
+        ...states as oci.database.models.AutonomousDatabase.LifecycleState[]
+      );
+      return response?.autonomousDatabase ?? null;
+    }
+  }
+};
+
+export interface WaitPlan {
+  resource: WaitableResource;
+  targetState: string;
+  timeoutSeconds: number;
+  startedAt: number;
+}
+
+/**
+ * Validate waitForState before the action is sent. Returns undefined when
+ * the caller did not ask to wait.
+ */
+export function planWait(resource: WaitableResource, options: OCIWait): WaitPlan | undefined {
+  if (!options.waitForState) {
+    if (options.waitTimeoutSeconds !== undefined) {
+      throw new OCIValidationError('waitTimeoutSeconds requires waitForState', 'waitTimeoutSeconds');
+    }
+    return undefined;
+  }
+
+  const kind = WAITABLE[resource];
+  if (!kind.states.includes(options.waitForState)) {
+    throw new OCIValidationError(
+      `Unknown ${kind.label.toLowerCase()} state "${options.waitForState}"; expected one of ${kind.states.join(', ')}`,
+      'waitForState'
+    );
+  }
+
+  return {
+    resource,
+    targetState: options.waitForState,
+    timeoutSeconds: options.waitTimeoutSeconds ?? DEFAULT_WAIT_TIMEOUT_SECONDS,
+    startedAt: Date.now()
+  };
+}
+
+/**
+ * Reject waitForState on actions that have nothing to wait for
+ */
+export function rejectWait(action: string, options: OCIWait): void {
+  if (options.waitForState || options.waitTimeoutSeconds !== undefined) {
+    throw new OCIValidationError(`waitForState is not supported for ${action}`, 'waitForState');
+  }
+}
+
+/**
+ * Wait for the planned state and fold the final snapshot and elapsed time
+ * into the operation response. Without a plan the response is returned as is.
+ */
+export async function completeOperation(
+  ociClient: OCIClientManager,
+  plan: WaitPlan | undefined,
+  resourceId: string,
+  response: OCIOperationResponse
+): Promise<OCIOperationResponse> {
+  if (!plan) {
+    return response;
+  }
+
+  const snapshot = await waitForState(ociClient, plan, resourceId);
+  const elapsedMs = Date.now() - plan.startedAt;
+  return {
+    ...response,
+    data: snapshot ?? response.data,
+    message: `${response.message}; reached ${plan.targetState} after ${(elapsedMs / 1000).toFixed(1)}s`,
+    finalState: plan.targetState,
+    elapsedMs
+  };
+}
+
+async function waitForState(ociClient: OCIClientManager, plan: WaitPlan, resourceId: string): Promise<Record<string, any> | null> {
+  const kind = WAITABLE[plan.resource];
+  const poll = pollUntil(plan.startedAt + plan.timeoutSeconds * 1000);
+  const states = [plan.targetState, ...kind.failureStates.filter(state => state !== plan.targetState)];
+
+  let snapshot: Record<string, any> | null;
+  try {
+    snapshot = await kind.waitFor(ociClient, resourceId, states, poll.config);
+  } catch (error) {
+    // Deleted resources eventually disappear instead of staying TERMINATED (DELETED for images, DETACHED for attachments)
+    if (error instanceof oci.common.OciError && error.statusCode === 404 && ['TERMINATED', 'DELETED', 'DETACHED'].includes(plan.targetState)) {
+      return null;
+    }
+    // Failed polls (service, network, circuit breaker) are reported as they are
+    if (!poll.expired()) {
+      throw error;
+    }
+    const lastState = await currentState(kind, ociClient, resourceId);
+    throw new OCIWaitError(
+      `${kind.label} ${resourceId} did not reach ${plan.targetState} within ${plan.timeoutSeconds}s` +
+      (lastState ? ` (currently ${lastState})` : ''),
+      true,
+      lastState
+    );
+  }
+
+  const reached = snapshot?.lifecycleState;
+  if (snapshot && reached !== plan.targetState) {
+    throw new OCIWaitError(
+      `${kind.label} ${resourceId} entered ${reached} while waiting for ${plan.targetState}`,
+      false,
+      reached
+    );
+  }
+  return snapshot;
+}
+
+// A run command execution ends in one of these whatever the script's exit code
+const COMMAND_EXECUTION_END_STATES = [
+  oci.computeinstanceagent.models.InstanceAgentCommandExecution.LifecycleState.Succeeded,
+  oci.computeinstanceagent.models.InstanceAgentCommandExecution.LifecycleState.Failed,
+  oci.computeinstanceagent.models.InstanceAgentCommandExecution.LifecycleState.TimedOut,
+  oci.computeinstanceagent.models.InstanceAgentCommandExecution.LifecycleState.Canceled
+];
+
+/**
+ * Poll Oracle Cloud Agent run command executions until each has ended or the
+ * timeout passes. Executions still pending at the deadline are returned as
+ * last seen rather than failing the call, since the command keeps running.
+ */
+export async function waitForCommandExecutions(
+  ociClient: OCIClientManager,
+  executions: Array<{ instanceAgentCommandId: string; instanceId: string }>,
+  timeoutSeconds: number
+): Promise<oci.computeinstanceagent.models.InstanceAgentCommandExecution[]> {
+  const deadline = Date.now() + timeoutSeconds * 1000;
+
+  return Promise.all(executions.map(async request => {
+    const poll = pollUntil(deadline);
+    const waiter = new oci.computeinstanceagent.ComputeInstanceAgentWaiter(ociClient.instanceAgentClient, poll.config);
+    try {
+      const response = await waiter.forInstanceAgentCommandExecution(request, ...COMMAND_EXECUTION_END_STATES);
+      if (response) {
+        return response.instanceAgentCommandExecution;
+      }
+    } catch (error) {
+      if (!poll.expired()) {
+        throw error;
+      }
+    }
+    const response = await ociClient.instanceAgentClient.getInstanceAgentCommandExecution(request);
+    return response.instanceAgentCommandExecution;
+  }));
+}
+
+/**
+ * Poll an Object Storage work request, such as an object copy, until it has
+ * finished. Work requests that fail or are canceled are reported as errors.
+ */
+export async function waitForObjectStorageWorkRequest(
+  ociClient: OCIClientManager,
+  workRequestId: string,
+  timeoutSeconds: number
+): Promise<oci.objectstorage.models.WorkRequest> {
+  const poll = pollUntil(Date.now() + timeoutSeconds * 1000);
+  const waiter = new oci.objectstorage.ObjectStorageWaiter(ociClient.objectStorageClient, poll.config);
+  let workRequest: oci.objectstorage.models.WorkRequest;
+  try {
+    workRequest = (await waiter.forWorkRequest({ workRequestId })).workRequest;
+  } catch (error) {
+    if (!poll.expired()) {
+      throw error;
+    }
+    throw new OCIWaitError(`Object Storage work request ${workRequestId} did not finish within ${timeoutSeconds}s`, true);
+  }
+
+  if (workRequest.status !== oci.objectstorage.models.WorkRequest.Status.Completed) {
+    throw new OCIWaitError(`Object Storage work request ${workRequestId} ended ${workRequest.status}`, false, workRequest.status);
+  }
+  return workRequest;
+}
+
+interface Poll {
+  config: oci.common.WaiterConfiguration;
+  // Whether the deadline ended the wait. The SDK waiter then gives up with a
+  // plain Error, which this tells apart from a failure of the polling itself.
+  expired(): boolean;
+}
+
+// Exponential backoff capped at MAX_POLL_INTERVAL_SECONDS, never sleeping past the deadline
+function pollUntil(deadline: number): Poll {
+  let expired = false;
+  return {
+    config: {
+      terminationStrategy: { shouldTerminate: () => (expired = Date.now() >= deadline) },
+      delayStrategy: {
+        delay: context => Math.max(0, Math.min(2 ** context.attemptCount, MAX_POLL_INTERVAL_SECONDS, (deadline - Date.now()) / 1000))
+      }
+    },
+    expired: () => expired
+  };
+}
+
+async function currentState(kind: WaitableKind, ociClient: OCIClientManager, resourceId: string): Promise<string | undefined> {
+  try {
+    // A single poll: every state counts as reached
+    const snapshot = await kind.waitFor(ociClient, resourceId, kind.states, {
+      terminationStrategy: new oci.common.MaxAttemptsTerminationStrategy(1)
+    });
+    return snapshot?.lifecycleState;
+  } catch {
+    return undefined;
+  }
+}
+
+function lifecycleStates(states: Record<string, string>): string[] {
+  return Object.values(states).filter(state => state !== 'UNKNOWN_VALUE');
+}
@@ -20,7 +20,8 @@ const server = spawn('node', [serverPath], {
   stdio: ['pipe', 'pipe', 'pipe'],
   env: {
     ...process.env,
-    // 테스트용 환경변수
+    // 테스트용 환경변수 (인메모리 가짜 OCI 백엔드 사용 - 테넌시/네트워크 불필요)
+    OCI_BACKEND: 'fake',
     OCI_TENANCY_ID: 'ocid1.tenancy.oc1..test',
     OCI_USER_ID: 'ocid1.user.oc1..test',
     OCI_KEY_FINGERPRINT: 'aa:bb:cc:dd:ee:ff:gg:hh:ii:jj:kk:ll:mm:nn:oo:pp',
@@ -88,20 +89,37 @@ setTimeout(() => {
       });
       
       setTimeout(() => {
-        // 4. OCI 도구 호출 (storage 버킷 목록)
+        // 4. OCI 도구 호출 (storage 버킷 생성)
         sendMessage("tools/call", {
           name: "oci-manage",
           arguments: {
             service: "storage",
-            action: "list",
-            resourceType: "buckets",
-            compartmentId: "ocid1.compartment.oc1..test"
+            action: "create",
+            resourceType: "bucket",
+            parameters: {
+              name: "test-bucket",
+              namespace: "fakenamespace",
+              compartmentId: "ocid1.compartment.oc1..test"
+            }
           }
         });
-        
+
         setTimeout(() => {
-          console.log('\n✅ 테스트 완료!');
-          server.kill();
+          // 5. OCI 도구 호출 (storage 버킷 목록)
+          sendMessage("tools/call", {
+            name: "oci-manage",
+            arguments: {
+              service: "storage",
+              action: "list",
+              resourceType: "buckets",
+              compartmentId: "ocid1.compartment.oc1..test"
+            }
+          });
+
+          setTimeout(() => {
+            console.log('\n✅ 테스트 완료!');
+            server.kill();
+          }, 3000);
         }, 3000);
       }, 3000);
     }, 3000);
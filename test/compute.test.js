@@ -0,0 +1,359 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { COMPARTMENT_ID, createSubnet, createVolume, fakeCloud, launchInstance, ok } from './helpers.js';
+
+test('create reports the missing field of the requested resource type', async () => {
+  const cloud = fakeCloud();
+
+  const instance = await cloud.compute({
+    action: 'create',
+    resourceType: 'instance',
+    data: { availabilityDomain: 'AD-1', compartmentId: COMPARTMENT_ID, shape: 'VM.Standard.E4.Flex' }
+  });
+  assert.equal(instance.success, false);
+  assert.equal(instance.error.type, 'validation');
+  assert.deepEqual(instance.error.issues.map(issue => issue.path), ['data.imageId']);
+
+  const configuration = await cloud.compute({
+    action: 'create',
+    resourceType: 'instance-configuration',
+    data: { compartmentId: COMPARTMENT_ID, instanceId: 5 }
+  });
+  assert.equal(configuration.success, false);
+  assert.match(configuration.message, /data\.instanceId: Expected string/);
+});
+
+test('flexible shapes are checked against the shape limits before launch and resize', async () => {
+  const cloud = fakeCloud();
+  const [imageId] = cloud.state.images.keys();
+
+  const tooLarge = await cloud.compute({
+    action: 'create',
+    resourceType: 'instance',
+    data: {
+      availabilityDomain: 'AD-1', compartmentId: COMPARTMENT_ID, imageId,
+      shape: 'VM.Standard.E4.Flex', shapeConfig: { ocpus: 65 }
+    }
+  });
+  assert.equal(tooLarge.success, false);
+  assert.equal(tooLarge.error.type, 'validation');
+  assert.equal(cloud.state.instances.size, 0);
+
+  const noBaseline = await cloud.compute({
+    action: 'create',
+    resourceType: 'instance',
+    data: {
+      availabilityDomain: 'AD-1', compartmentId: COMPARTMENT_ID, imageId,
+      shape: 'VM.Standard.A1.Flex', shapeConfig: { ocpus: 1, baselineOcpuUtilization: 'BASELINE_1_2' }
+    }
+  });
+  assert.equal(noBaseline.success, false);
+  assert.match(noBaseline.message, /does not support burstable baseline/);
+
+  const instance = await launchInstance(cloud);
+  ok(await cloud.compute({
+    action: 'resize', resourceType: 'instance', resourceId: instance.id,
+    shapeConfig: { ocpus: 4, memoryInGBs: 32 }
+  }));
+  const { shapeConfig } = cloud.state.instances.get(instance.id);
+  assert.equal(shapeConfig.ocpus, 4);
+  assert.equal(shapeConfig.memoryInGBs, 32);
+});
+
+test('user data is base64-encoded into the instance metadata and capped at the metadata limit', async () => {
+  const cloud = fakeCloud();
+
+  const instance = await launchInstance(cloud, { userData: '#cloud-config\npackages: [nginx]\n' });
+  const metadata = cloud.state.instances.get(instance.id).metadata;
+  assert.equal(Buffer.from(metadata.user_data, 'base64').toString('utf8'), '#cloud-config\npackages: [nginx]\n');
+
+  const tooLarge = await cloud.compute({
+    action: 'create',
+    resourceType: 'instance',
+    data: {
+      availabilityDomain: 'AD-1', compartmentId: COMPARTMENT_ID, imageId: instance.imageId,
+      shape: 'VM.Standard.E4.Flex', userData: 'x'.repeat(32000)
+    }
+  });
+  assert.equal(tooLarge.success, false);
+  assert.equal(tooLarge.error.type, 'validation');
+});
+
+test('launch profiles fill in the launch and render the cloud-init template', async t => {
+  const cloud = fakeCloud();
+  const subnet = await createSubnet(cloud);
+  const dir = mkdtempSync(join(tmpdir(), 'oci-launch-profiles-'));
+  const file = join(dir, 'launch-profiles.json');
+  writeFileSync(file, JSON.stringify({
+    profiles: {
+      'web-small': {
+        shape: 'VM.Standard.E4.Flex',
+        shapeConfig: { ocpus: 1, memoryInGBs: 8 },
+        image: { operatingSystem: 'Oracle Linux', operatingSystemVersion: '8' },
+        compartmentId: COMPARTMENT_ID,
+        subnetId: subnet.id,
+        userDataTemplate: 'listen {{port}} on {{displayName}}',
+        variables: { port: '8080' }
+      }
+    }
+  }));
+  process.env.OCI_LAUNCH_PROFILES_FILE = file;
+  t.after(() => delete process.env.OCI_LAUNCH_PROFILES_FILE);
+
+  const instance = ok(await cloud.compute({
+    action: 'create',
+    resourceType: 'instance',
+    data: { profile: 'web-small', displayName: 'web-07', variables: { port: '8443' } }
+  }));
+  const launched = cloud.state.instances.get(instance.id);
+  assert.equal(launched.shape, 'VM.Standard.E4.Flex');
+  assert.equal(launched.shapeConfig.memoryInGBs, 8);
+  assert.equal(Buffer.from(launched.metadata.user_data, 'base64').toString('utf8'), 'listen 8443 on web-07');
+
+  const unknown = await cloud.compute({
+    action: 'create', resourceType: 'instance', data: { profile: 'missing', displayName: 'x' }
+  });
+  assert.equal(unknown.success, false);
+  assert.equal(unknown.error.type, 'configuration');
+});
+
+test('boot volumes can be backed up, restored and swapped into an instance', async () => {
+  const cloud = fakeCloud();
+  const instance = await launchInstance(cloud);
+  const [original] = cloud.state.bootVolumes.values();
+
+  const backup = ok(await cloud.compute({
+    action: 'backup-boot-volume', resourceType: 'boot-volume', resourceId: original.id, backupType: 'FULL'
+  }));
+  const restored = ok(await cloud.compute({
+    action: 'restore-boot-volume', resourceType: 'boot-volume-backup', resourceId: backup.id,
+    availabilityDomain: 'AD-1', waitForState: 'AVAILABLE'
+  }));
+  assert.equal(restored.lifecycleState, 'AVAILABLE');
+
+  const otherDomain = ok(await cloud.compute({
+    action: 'restore-boot-volume', resourceType: 'boot-volume-backup', resourceId: backup.id, availabilityDomain: 'AD-2'
+  }));
+  const wrongDomain = await cloud.compute({
+    action: 'replace-boot-volume', resourceType: 'instance', resourceId: instance.id, bootVolumeId: otherDomain.id
+  });
+  assert.equal(wrongDomain.success, false);
+  assert.equal(wrongDomain.error.type, 'validation');
+
+  ok(await cloud.compute({
+    action: 'replace-boot-volume', resourceType: 'instance', resourceId: instance.id,
+    bootVolumeId: restored.id, waitForState: 'RUNNING'
+  }));
+  const attachments = [...cloud.state.bootVolumeAttachments.values()]
+    .filter(attachment => attachment.instanceId === instance.id && attachment.lifecycleState === 'ATTACHED');
+  assert.deepEqual(attachments.map(attachment => attachment.bootVolumeId), [restored.id]);
+  assert.ok(cloud.state.bootVolumes.has(original.id), 'the previous boot volume is preserved');
+});
+
+test('volume backups, backup policies and volume groups', async () => {
+  const cloud = fakeCloud();
+  const volume = await createVolume(cloud);
+
+  const backup = ok(await cloud.compute({ action: 'backup-volume', resourceType: 'volume', resourceId: volume.id }));
+  const restored = ok(await cloud.compute({
+    action: 'restore-volume', resourceType: 'volume-backup', resourceId: backup.id, availabilityDomain: 'AD-2', sizeInGBs: 100
+  }));
+  assert.equal(restored.sizeInGBs, 100);
+  assert.equal(restored.availabilityDomain, 'AD-2');
+
+  const shrink = await cloud.compute({ action: 'update-volume', resourceType: 'volume', resourceId: restored.id, sizeInGBs: 60 });
+  assert.equal(shrink.success, false);
+  assert.equal(shrink.error.type, 'validation');
+
+  ok(await cloud.compute({ action: 'assign-backup-policy', resourceType: 'volume', resourceId: volume.id, backupPolicy: 'gold' }));
+  const [assignment] = cloud.state.backupPolicyAssignments.values();
+  assert.equal(assignment.assetId, volume.id);
+  assert.equal(cloud.state.backupPolicies.get(assignment.policyId).displayName, 'gold');
+
+  const group = ok(await cloud.compute({
+    action: 'create', resourceType: 'volume-group',
+    data: { availabilityDomain: 'AD-1', compartmentId: COMPARTMENT_ID, volumeIds: [volume.id] }
+  }));
+  assert.deepEqual(group.volumeIds, [volume.id]);
+});
+
+test('custom images are created from instances and exported to Object Storage', async () => {
+  const cloud = fakeCloud();
+  const instance = await launchInstance(cloud);
+  ok(await cloud.storage({ action: 'create', resourceType: 'bucket', data: { name: 'images', compartmentId: COMPARTMENT_ID } }));
+
+  const image = ok(await cloud.compute({
+    action: 'create-image', resourceType: 'instance', resourceId: instance.id, displayName: 'golden', waitForState: 'AVAILABLE'
+  }));
+  assert.equal(image.displayName, 'golden');
+
+  ok(await cloud.compute({
+    action: 'export-image', resourceType: 'image', resourceId: image.id,
+    bucketName: 'images', objectName: 'golden.oci', waitForState: 'AVAILABLE'
+  }));
+  const objects = cloud.state.objects.get('fakenamespace/images');
+  assert.ok(objects?.has('golden.oci'), 'the exported image is written to the bucket');
+
+  const missingTarget = await cloud.compute({ action: 'export-image', resourceType: 'image', resourceId: image.id });
+  assert.equal(missingTarget.success, false);
+  assert.equal(missingTarget.error.type, 'validation');
+});
+
+test('exported images are imported back and their shape compatibility is managed', async () => {
+  const cloud = fakeCloud();
+  const instance = await launchInstance(cloud);
+  ok(await cloud.storage({ action: 'create', resourceType: 'bucket', data: { name: 'images', compartmentId: COMPARTMENT_ID } }));
+  const image = ok(await cloud.compute({
+    action: 'create-image', resourceType: 'instance', resourceId: instance.id, displayName: 'golden', waitForState: 'AVAILABLE'
+  }));
+  ok(await cloud.compute({
+    action: 'export-image', resourceType: 'image', resourceId: image.id,
+    bucketName: 'images', objectName: 'golden.oci', waitForState: 'AVAILABLE'
+  }));
+
+  const imported = ok(await cloud.compute({
+    action: 'import-image', resourceType: 'image', compartmentId: COMPARTMENT_ID,
+    displayName: 'imported', bucketName: 'images', objectName: 'golden.oci', waitForState: 'AVAILABLE'
+  }));
+  assert.equal(imported.displayName, 'imported');
+  assert.equal(imported.lifecycleState, 'AVAILABLE');
+
+  const missingObject = await cloud.compute({
+    action: 'import-image', resourceType: 'image', compartmentId: COMPARTMENT_ID, bucketName: 'images', objectName: 'missing.oci'
+  });
+  assert.equal(missingObject.error.statusCode, 404);
+
+  ok(await cloud.compute({ action: 'add-image-shape', resourceType: 'image', resourceId: image.id, shape: 'VM.Standard.A1.Flex' }));
+  const shapes = ok(await cloud.compute({ action: 'list', resourceType: 'image-shapes', imageId: image.id }));
+  assert.ok(shapes.some(entry => entry.shape === 'VM.Standard.A1.Flex'));
+
+  const withoutImage = await cloud.compute({ action: 'list', resourceType: 'image-shapes' });
+  assert.equal(withoutImage.error.type, 'validation');
+});
+
+test('serial console history is captured and trimmed to the last lines', async () => {
+  const cloud = fakeCloud();
+  const instance = await launchInstance(cloud);
+
+  const history = ok(await cloud.compute({
+    action: 'capture-console-history', resourceType: 'instance', resourceId: instance.id, tailLines: 2
+  }));
+  assert.equal(history.content.split('\n').length, 2);
+  assert.match(history.content, /test-instance login: $/);
+  assert.equal(history.truncated, true);
+  assert.ok(history.returnedBytes < history.totalBytes);
+});
+
+test('console connections take an OpenSSH key and allow one active connection per instance', async () => {
+  const cloud = fakeCloud();
+  const instance = await launchInstance(cloud);
+  const publicKey = 'ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIGk test@host';
+
+  const badKey = await cloud.compute({ action: 'create-console-connection', resourceType: 'instance', resourceId: instance.id, publicKey: 'not a key' });
+  assert.equal(badKey.error.type, 'validation');
+  assert.match(badKey.message, /OpenSSH public key/);
+
+  const connection = ok(await cloud.compute({ action: 'create-console-connection', resourceType: 'instance', resourceId: instance.id, publicKey }));
+  assert.equal(connection.instanceId, instance.id);
+  assert.match(connection.connectionString, /^ssh -o ProxyCommand=/);
+
+  const second = await cloud.compute({ action: 'create-console-connection', resourceType: 'instance', resourceId: instance.id, publicKey });
+  assert.equal(second.error.type, 'validation');
+  assert.match(second.message, /already has console connection/);
+
+  ok(await cloud.compute({ action: 'delete-console-connection', resourceType: 'console-connection', resourceId: connection.id }));
+  ok(await cloud.compute({ action: 'create-console-connection', resourceType: 'instance', resourceId: instance.id, publicKey }));
+});
+
+test('instance pools are created from instance configurations and resized', async () => {
+  const cloud = fakeCloud();
+  const instance = await launchInstance(cloud);
+  const [subnetId] = cloud.state.subnets.keys();
+
+  const configuration = ok(await cloud.compute({
+    action: 'create', resourceType: 'instance-configuration',
+    data: { compartmentId: COMPARTMENT_ID, instanceId: instance.id }
+  }));
+  const pool = ok(await cloud.compute({
+    action: 'create', resourceType: 'instance-pool',
+    data: {
+      compartmentId: COMPARTMENT_ID, instanceConfigurationId: configuration.id, size: 2,
+      placementConfigurations: [{ availabilityDomain: 'AD-1', primarySubnetId: subnetId }]
+    }
+  }));
+  assert.equal(cloud.state.instancePoolMembers.get(pool.id).length, 2);
+
+  ok(await cloud.compute({ action: 'resize-pool', resourceType: 'instance-pool', resourceId: pool.id, size: 3 }));
+  assert.equal(cloud.state.instancePoolMembers.get(pool.id).length, 3);
+
+  const autoscaling = await cloud.compute({
+    action: 'create', resourceType: 'autoscaling-configuration',
+    data: { compartmentId: COMPARTMENT_ID, instancePoolId: pool.id, policies: [] }
+  });
+  assert.equal(autoscaling.success, false);
+  assert.deepEqual(autoscaling.error.issues.map(issue => issue.path), ['data.policies']);
+});
+
+test('run-command returns stdout, stderr and the exit code of each instance', async () => {
+  const cloud = fakeCloud();
+  const instance = await launchInstance(cloud);
+
+  const result = ok(await cloud.compute({
+    action: 'run-command', resourceType: 'instance', resourceId: instance.id,
+    script: 'echo hello\necho oops >&2\nexit 3'
+  }));
+  assert.equal(result.results.length, 1);
+  assert.equal(result.results[0].exitCode, 3);
+  assert.equal(result.results[0].stdout.trim(), 'hello');
+  assert.equal(result.results[0].stderr.trim(), 'oops');
+
+  const [command] = cloud.state.instanceAgentCommands.values();
+  assert.match(command.content.source.text, /bash "\$script_file" 2>"\$stderr_file" <\/dev\/null/);
+});
+
+test('iSCSI attachments return the iscsiadm commands that log in and out', async () => {
+  const cloud = fakeCloud();
+  const instance = await launchInstance(cloud);
+  const volume = await createVolume(cloud);
+
+  const attachment = ok(await cloud.compute({
+    action: 'attach-volume', resourceType: 'volume', resourceId: volume.id,
+    instanceId: instance.id, useChap: true, waitForState: 'ATTACHED'
+  }));
+  assert.equal(attachment.attachmentType, 'iscsi');
+  assert.ok(attachment.iscsiCommands.attach.some(command => command.includes(`-T ${attachment.iqn}`) && command.endsWith(' -l')));
+  assert.ok(attachment.iscsiCommands.attach.some(command => command.includes('node.session.auth.authmethod -v CHAP')));
+  assert.ok(attachment.iscsiCommands.detach.some(command => command.endsWith(' -u')));
+
+  const paravirtualized = await cloud.compute({
+    action: 'attach-volume', resourceType: 'volume', resourceId: volume.id,
+    instanceId: instance.id, attachmentType: 'paravirtualized', useChap: true
+  });
+  assert.equal(paravirtualized.success, false);
+  assert.equal(paravirtualized.error.issues[0].path, 'useChap');
+});
+
+test('secondary VNICs are attached and the primary VNIC cannot be detached', async () => {
+  const cloud = fakeCloud();
+  const instance = await launchInstance(cloud);
+  const [subnetId] = cloud.state.subnets.keys();
+
+  const attached = ok(await cloud.compute({
+    action: 'attach-vnic', resourceType: 'instance', resourceId: instance.id,
+    subnetId, hostnameLabel: 'backend', waitForState: 'ATTACHED'
+  }));
+  assert.equal(attached.vnic.hostnameLabel, 'backend');
+
+  const vnics = ok(await cloud.compute({ action: 'list', resourceType: 'vnics', instanceId: instance.id }));
+  assert.equal(vnics.length, 2);
+  assert.equal(vnics[0].isPrimary, true);
+
+  const primary = [...cloud.state.vnicAttachments.values()]
+    .find(attachment => attachment.instanceId === instance.id && attachment.vnicId === vnics[0].id);
+  const detachPrimary = await cloud.compute({ action: 'detach-vnic', resourceType: 'vnic-attachment', resourceId: primary.id });
+  assert.equal(detachPrimary.success, false);
+  assert.equal(detachPrimary.error.type, 'validation');
+});
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  OCIConfigurationError,
+  OCIMultipartUploadError,
+  OCIUploadChecksumError,
+  OCIValidationError,
+  toErrorResponse,
+  toOCIError
+} from '../dist/utils/errors.js';
+import { COMPARTMENT_ID, fakeCloud, serviceError } from './helpers.js';
+
+test('invalid tool input reports the issues of the closest action schema', async () => {
+  const cloud = fakeCloud();
+
+  const response = await cloud.storage({ action: 'get', resourceType: 'bucket' });
+  assert.equal(response.success, false);
+  assert.equal(response.error.type, 'validation');
+  assert.equal(response.error.retryable, false);
+  assert.deepEqual(response.error.issues, [{ path: 'resourceId', message: 'Required' }]);
+  assert.equal(response.message, 'Invalid input: resourceId: Required');
+});
+
+test('OCI service errors keep their status, code and request ID with a hint', async () => {
+  const cloud = fakeCloud();
+  cloud.state.injectFault({ operation: 'listVcns', statusCode: 404, serviceCode: 'NotAuthorizedOrNotFound' });
+
+  const response = await cloud.storage({ action: 'list', resourceType: 'vcns', compartmentId: COMPARTMENT_ID });
+  assert.equal(response.success, false);
+  assert.equal(response.error.type, 'service');
+  assert.equal(response.error.statusCode, 404);
+  assert.equal(response.error.serviceCode, 'NotAuthorizedOrNotFound');
+  assert.ok(response.error.opcRequestId);
+  assert.equal(response.error.retryable, false);
+  assert.match(response.error.hint, /IAM policies/);
+  assert.match(response.message, /^OCI API Error \(404 NotAuthorizedOrNotFound\): /);
+
+  // Conflicts are retryable only while the resource is changing state
+  assert.equal(toOCIError(serviceError(409, 'IncorrectState')).retryable, true);
+  assert.equal(toOCIError(serviceError(409, 'Conflict')).retryable, false);
+  assert.equal(toOCIError(serviceError(503, 'ServiceUnavailable')).retryable, true);
+});
+
+test('errors outside OCI are classified by their cause', () => {
+  const validation = toOCIError(new OCIValidationError('bucketName is required', 'bucketName'));
+  assert.equal(validation.type, 'validation');
+  assert.deepEqual(validation.issues, [{ path: 'bucketName', message: 'bucketName is required' }]);
+
+  const configuration = toErrorResponse(new OCIConfigurationError('OCI_REGION is not set'));
+  assert.equal(configuration.error.type, 'configuration');
+  assert.equal(configuration.message, 'OCI configuration error: OCI_REGION is not set');
+  assert.ok(configuration.error.hint);
+
+  const refused = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:443'), { code: 'ECONNREFUSED' });
+  const network = toOCIError(refused);
+  assert.equal(network.type, 'network');
+  assert.equal(network.retryable, true);
+
+  const internal = toOCIError(new TypeError('Cannot read properties of undefined'));
+  assert.equal(internal.type, 'internal');
+  assert.equal(internal.retryable, false);
+});
+
+test('upload failures are classified with how to recover', () => {
+  const checksum = toOCIError(new OCIUploadChecksumError('big.bin', 'etag-1', 'remote==-3', 'local==-3'));
+  assert.equal(checksum.type, 'service');
+  assert.equal(checksum.serviceCode, 'ChecksumMismatch');
+  assert.equal(checksum.retryable, true);
+  assert.match(checksum.hint, /ETag etag-1/);
+
+  const kept = toOCIError(new OCIMultipartUploadError('big.bin', 'upload-1', true, serviceError(503, 'ServiceUnavailable')));
+  assert.equal(kept.statusCode, 503);
+  assert.match(kept.message, /^Multipart upload upload-1 of big.bin failed and was kept for resuming: /);
+  assert.match(kept.hint, /Resume with uploadId upload-1/);
+});
@@ -0,0 +1,165 @@
+/**
+ * Shared setup for the test suite: each test gets its own in-memory OCI
+ * cloud (see src/utils/fake-backend.ts) and the tool managers bound to it,
+ * or an MCP client connected to one of the servers running on the fake.
+ * Run `npm run build` first; the tests exercise the compiled dist/ output.
+ */
+
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import * as oci from 'oci-sdk';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { OCIClientManager } from '../dist/utils/oci-client.js';
+import { FakeOCIBackend } from '../dist/utils/fake-backend.js';
+import { toErrorResponse } from '../dist/utils/errors.js';
+import { ComputeManager, ComputeToolInputSchema } from '../dist/tools/compute.js';
+import { StorageNetworkManager, StorageNetworkToolInputSchema } from '../dist/tools/storage-network.js';
+import { DatabaseAnalyticsManager, DatabaseAnalyticsToolInputSchema } from '../dist/tools/database-analytics.js';
+import { MonitoringSecurityManager, MonitoringSecurityToolInputSchema } from '../dist/tools/monitoring-security.js';
+import { WorkRequestManager, WorkRequestToolInputSchema } from '../dist/tools/work-requests.js';
+
+export const COMPARTMENT_ID = 'ocid1.compartment.oc1..test';
+
+// An OCI config file with complete, incomplete, inheriting and session token profiles
+export const CONFIG = `
+# Profiles inherit the values of [DEFAULT]
+[DEFAULT]
+tenancy=ocid1.tenancy.oc1..default
+region=us-phoenix-1
+
+[DEV]
+user=ocid1.user.oc1..dev
+fingerprint=aa:bb:cc
+key_file=~/keys/dev.pem
+region = eu-frankfurt-1
+
+[BROKEN]
+user=ocid1.user.oc1..broken
+
+[SESSION]
+fingerprint=dd:ee:ff
+key_file=/keys/session.pem
+security_token_file=/keys/token
+`;
+
+/** Write an OCI config file to a new temporary directory and return its path */
+export function writeConfig(content = CONFIG) {
+  const path = join(mkdtempSync(join(tmpdir(), 'oci-config-')), 'config');
+  writeFileSync(path, content);
+  return path;
+}
+
+/**
+ * A fresh fake cloud. Tool helpers validate their input the way the MCP
+ * servers do and return the manager's response, or the validation failure
+ * as an error response.
+ */
+export function fakeCloud(options = {}, retryPolicy = {}) {
+  const backend = new FakeOCIBackend(options);
+  // Retries back off for a millisecond instead of half a second
+  const client = new OCIClientManager({}, backend, { baseDelayMs: 1, maxDelayMs: 1000, ...retryPolicy });
+  const tool = (manager, schema) => async input => {
+    const parsed = schema.safeParse(input);
+    return parsed.success ? manager.execute(parsed.data) : toErrorResponse(parsed.error);
+  };
+
+  return {
+    backend,
+    state: backend.state,
+    client,
+    compute: tool(new ComputeManager(client), ComputeToolInputSchema),
+    storage: tool(new StorageNetworkManager(client), StorageNetworkToolInputSchema),
+    database: tool(new DatabaseAnalyticsManager(client), DatabaseAnalyticsToolInputSchema),
+    monitoring: tool(new MonitoringSecurityManager(client), MonitoringSecurityToolInputSchema),
+    workRequests: tool(new WorkRequestManager(client), WorkRequestToolInputSchema)
+  };
+}
+
+/**
+ * Start a server from dist/ (index.js or simple-index.js) on the fake
+ * backend and connect an MCP client to it over stdio. Close the client to
+ * stop the server.
+ */
+export async function connectServer(entry, env = {}) {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [fileURLToPath(new URL(`../dist/${entry}`, import.meta.url))],
+    // Only the default inherited variables reach the server, so no OCI_* settings leak in
+    env: { OCI_BACKEND: 'fake', ...env },
+    stderr: 'ignore'
+  });
+  const client = new Client({ name: 'oci-mcp-server-tests', version: '1.0.0' });
+  await client.connect(transport);
+  return client;
+}
+
+/** Call a tool and parse the JSON response it returns as text */
+export async function callTool(client, name, args) {
+  const result = await client.callTool({ name, arguments: args });
+  return { isError: result.isError === true, response: JSON.parse(result.content[0].text) };
+}
+
+/** An error as the SDK raises it for a failed OCI request */
+export function serviceError(statusCode, serviceCode) {
+  return new oci.common.OciError(statusCode, serviceCode, `${serviceCode} failure`, 'request-id', 'Test', 'test', '', '', '');
+}
+
+/** The response's data, failing the test with the response's message when the call did not succeed */
+export function ok(response) {
+  if (!response.success) {
+    throw new Error(`Expected success, got: ${response.message}`);
+  }
+  return response.data;
+}
+
+/** Launch an instance from the first seeded image, in a new VCN and subnet */
+export async function launchInstance(cloud, data = {}) {
+  const subnet = await createSubnet(cloud);
+  const [imageId] = cloud.state.images.keys();
+  return ok(await cloud.compute({
+    action: 'create',
+    resourceType: 'instance',
+    data: {
+      availabilityDomain: 'AD-1',
+      compartmentId: COMPARTMENT_ID,
+      shape: 'VM.Standard.E4.Flex',
+      shapeConfig: { ocpus: 1 },
+      imageId,
+      subnetId: subnet.id,
+      displayName: 'test-instance',
+      ...data
+    }
+  }));
+}
+
+export async function createSubnet(cloud) {
+  const vcn = ok(await cloud.storage({
+    action: 'create',
+    resourceType: 'vcn',
+    data: { compartmentId: COMPARTMENT_ID, cidrBlock: '10.0.0.0/16', displayName: 'test-vcn' }
+  }));
+  return ok(await cloud.storage({
+    action: 'create',
+    resourceType: 'subnet',
+    data: { compartmentId: COMPARTMENT_ID, vcnId: vcn.id, cidrBlock: '10.0.1.0/24', displayName: 'test-subnet' }
+  }));
+}
+
+export async function createVolume(cloud, data = {}) {
+  return ok(await cloud.compute({
+    action: 'create',
+    resourceType: 'volume',
+    data: { availabilityDomain: 'AD-1', compartmentId: COMPARTMENT_ID, sizeInGBs: 50, ...data }
+  }));
+}
+
+export async function createBucket(cloud, name = 'test-bucket', data = {}) {
+  return ok(await cloud.storage({
+    action: 'create',
+    resourceType: 'bucket',
+    data: { name, compartmentId: COMPARTMENT_ID, ...data }
+  }));
+}
@@ -0,0 +1,111 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { callTool, COMPARTMENT_ID, connectServer } from './helpers.js';
+
+let client;
+
+before(async () => {
+  client = await connectServer('index.js');
+});
+
+after(async () => {
+  await client?.close();
+});
+
+test('the server registers one tool per service area', async () => {
+  const { tools } = await client.listTools();
+
+  assert.deepEqual(tools.map(tool => tool.name), [
+    'oci-compute',
+    'oci-storage-network',
+    'oci-database-analytics',
+    'oci-monitoring-security',
+    'oci-work-requests'
+  ]);
+  for (const tool of tools) {
+    assert.equal(tool.inputSchema.type, 'object');
+    assert.ok(tool.inputSchema.properties.action.enum.includes('list'));
+  }
+});
+
+test('tools run end to end against the fake backend', async () => {
+  const vcn = await callTool(client, 'oci-storage-network', {
+    action: 'create',
+    resourceType: 'vcn',
+    data: { compartmentId: COMPARTMENT_ID, cidrBlock: '10.0.0.0/16', displayName: 'e2e-vcn' }
+  });
+  assert.equal(vcn.isError, false);
+  assert.equal(vcn.response.success, true);
+
+  const subnet = await callTool(client, 'oci-storage-network', {
+    action: 'create',
+    resourceType: 'subnet',
+    data: { compartmentId: COMPARTMENT_ID, vcnId: vcn.response.data.id, cidrBlock: '10.0.1.0/24' }
+  });
+  const images = await callTool(client, 'oci-compute', { action: 'list', resourceType: 'images', compartmentId: COMPARTMENT_ID });
+  assert.ok(images.response.count > 0);
+
+  const launch = await callTool(client, 'oci-compute', {
+    action: 'create',
+    resourceType: 'instance',
+    data: {
+      availabilityDomain: 'AD-1',
+      compartmentId: COMPARTMENT_ID,
+      shape: 'VM.Standard.E4.Flex',
+      shapeConfig: { ocpus: 1 },
+      imageId: images.response.data[0].id,
+      subnetId: subnet.response.data.id,
+      displayName: 'e2e-instance'
+    }
+  });
+  assert.equal(launch.isError, false);
+  assert.ok(launch.response.workRequestId);
+
+  const instance = await callTool(client, 'oci-compute', { action: 'get', resourceType: 'instance', resourceId: launch.response.data.id });
+  assert.equal(instance.response.data.displayName, 'e2e-instance');
+  assert.equal(instance.response.data.lifecycleState, 'RUNNING');
+
+  const workRequest = await callTool(client, 'oci-work-requests', {
+    action: 'get',
+    resourceType: 'work-request',
+    resourceId: launch.response.workRequestId
+  });
+  assert.equal(workRequest.response.data.operationType, 'LaunchInstance');
+});
+
+test('input that fails the schema is an InvalidParams protocol error carrying the validation detail', async () => {
+  await assert.rejects(
+    client.callTool({ name: 'oci-compute', arguments: { action: 'get', resourceType: 'instance' } }),
+    error => {
+      assert.ok(error instanceof McpError);
+      assert.equal(error.code, ErrorCode.InvalidParams);
+      assert.match(error.message, /Invalid compute tool input: /);
+      assert.equal(error.data.type, 'validation');
+      assert.ok(error.data.issues.length > 0);
+      return true;
+    }
+  );
+});
+
+test('failures reported by OCI come back as tool results flagged isError', async () => {
+  const missing = await callTool(client, 'oci-compute', {
+    action: 'get',
+    resourceType: 'instance',
+    resourceId: 'ocid1.instance.oc1.us-ashburn-1.missing'
+  });
+
+  assert.equal(missing.isError, true);
+  assert.equal(missing.response.success, false);
+  assert.equal(missing.response.error.type, 'service');
+  assert.equal(missing.response.error.statusCode, 404);
+  assert.equal(missing.response.error.retryable, false);
+});
+
+test('unknown tools are rejected with MethodNotFound', async () => {
+  await assert.rejects(client.callTool({ name: 'oci-unknown', arguments: {} }), error => {
+    assert.ok(error instanceof McpError);
+    assert.equal(error.code, ErrorCode.MethodNotFound);
+    return true;
+  });
+});
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { COMPARTMENT_ID, fakeCloud, ok } from './helpers.js';
+
+test('creating a log group returns the log group and its work request', async () => {
+  const cloud = fakeCloud();
+
+  const response = await cloud.monitoring({
+    action: 'create',
+    resourceType: 'log-group',
+    data: { compartmentId: COMPARTMENT_ID, displayName: 'app-logs' }
+  });
+  assert.equal(response.success, true);
+  assert.equal(response.data.displayName, 'app-logs');
+  assert.equal(response.data.lifecycleState, 'ACTIVE');
+  assert.equal(response.operationId, response.data.id);
+  assert.ok(response.workRequestId);
+
+  const groups = ok(await cloud.monitoring({ action: 'list', resourceType: 'log-groups', compartmentId: COMPARTMENT_ID }));
+  assert.deepEqual(groups.map(group => group.id), [response.data.id]);
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OCIClientManager } from '../dist/utils/oci-client.js';
+import { OCIConfigFileError } from '../dist/utils/oci-config-file.js';
+import { OCIConfigurationError } from '../dist/utils/errors.js';
+import { COMPARTMENT_ID, createBucket, createVolume, fakeCloud, ok, writeConfig } from './helpers.js';
+
+test('an incomplete profile names the missing config file keys', () => {
+  const configFile = writeConfig();
+
+  assert.throws(() => new OCIClientManager({ configFile, profile: 'BROKEN' }), error => {
+    assert.ok(error instanceof OCIConfigurationError);
+    assert.match(error.message, /profile \[BROKEN\]/);
+    assert.match(error.message, /keyFingerprint \(fingerprint\)/);
+    assert.match(error.message, /privateKeyPath \(key_file\)/);
+    return true;
+  });
+});
+
+test('the authentication mode follows the profile unless one is requested', () => {
+  const configFile = writeConfig();
+
+  const session = new OCIClientManager({ configFile, profile: 'SESSION' });
+  assert.equal(session.getAuthType(), 'security_token');
+  assert.equal(session.getRegion(), 'us-phoenix-1');
+
+  // Principals take their identity from the runtime and need no config file at all
+  const principal = new OCIClientManager({ authType: 'instance_principal', configFile: join(tmpdir(), 'missing-oci-config') });
+  assert.equal(principal.getAuthType(), 'instance_principal');
+  assert.throws(() => principal.getRegion(), /region is not known yet/);
+});
+
+test('a profile whose key file cannot be read fails when the clients are created', async () => {
+  const client = new OCIClientManager({ configFile: writeConfig(), profile: 'DEV' });
+
+  await assert.rejects(client.ready(), error => {
+    assert.ok(error instanceof OCIConfigFileError);
+    assert.match(error.message, /failed to create OCI authentication provider/);
+    return true;
+  });
+});
+
+test('calls for another region or profile run against that target only', async () => {
+  const cloud = fakeCloud();
+
+  const volume = await createVolume(cloud);
+  const remote = ok(await cloud.compute({
+    action: 'create',
+    resourceType: 'volume',
+    region: 'eu-frankfurt-1',
+    data: { availabilityDomain: 'AD-1', compartmentId: COMPARTMENT_ID, sizeInGBs: 50 }
+  }));
+  assert.match(remote.id, /\.eu-frankfurt-1\./);
+
+  const list = async region => ok(await cloud.compute({ action: 'list', resourceType: 'volumes', compartmentId: COMPARTMENT_ID, region }))
+    .map(item => item.id);
+  assert.deepEqual(await list(undefined), [volume.id]);
+  assert.deepEqual(await list('eu-frankfurt-1'), [remote.id]);
+
+  // Another profile is another tenancy, with its own Object Storage namespace
+  await createBucket(cloud, 'home');
+  const bucket = ok(await cloud.storage({
+    action: 'create',
+    resourceType: 'bucket',
+    profile: 'OTHER',
+    data: { name: 'away', compartmentId: COMPARTMENT_ID }
+  }));
+  assert.equal(bucket.namespace, 'fakeother');
+  const buckets = ok(await cloud.storage({ action: 'list', resourceType: 'buckets', compartmentId: COMPARTMENT_ID }));
+  assert.deepEqual(buckets.map(item => item.name), ['home']);
+});
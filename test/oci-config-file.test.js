@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { homedir } from 'os';
+import { join } from 'path';
+import { loadConfigFileProfile, OCIConfigFileError } from '../dist/utils/oci-config-file.js';
+import { writeConfig } from './helpers.js';
+
+test('config file profiles inherit DEFAULT and map onto the auth config', () => {
+  const configFile = writeConfig();
+
+  const profile = loadConfigFileProfile({ configFile, profile: 'DEV' });
+  assert.equal(profile.profile, 'DEV');
+  assert.deepEqual(profile.config, {
+    tenancyId: 'ocid1.tenancy.oc1..default',
+    userId: 'ocid1.user.oc1..dev',
+    keyFingerprint: 'aa:bb:cc',
+    privateKeyPath: join(homedir(), 'keys', 'dev.pem'),
+    region: 'eu-frankfurt-1'
+  });
+
+  assert.throws(() => loadConfigFileProfile({ configFile, profile: 'PROD' }), error => {
+    assert.ok(error instanceof OCIConfigFileError);
+    assert.match(error.message, /profile \[PROD\]: profile not found \(available: DEFAULT, DEV, BROKEN, SESSION\)/);
+    return true;
+  });
+  assert.throws(() => loadConfigFileProfile({ configFile: writeConfig('user=x\n') }), /line 1 appears before any \[PROFILE\] section/);
+});
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { COMPARTMENT_ID, createVolume, fakeCloud } from './helpers.js';
+
+test('lists return one page with a token to continue, or follow pages up to a cap', async () => {
+  const cloud = fakeCloud();
+  const ids = [];
+  for (let i = 0; i < 5; i++) {
+    ids.push((await createVolume(cloud, { displayName: `volume-${i}` })).id);
+  }
+  const list = options => cloud.compute({ action: 'list', resourceType: 'volumes', compartmentId: COMPARTMENT_ID, ...options });
+
+  const first = await list({ limit: 2 });
+  assert.deepEqual(first.data.map(item => item.id), ids.slice(0, 2));
+  assert.equal(first.truncated, true);
+  assert.ok(first.nextPage);
+  assert.match(first.message, /pass nextPage as page to continue/);
+
+  const second = await list({ limit: 2, page: first.nextPage });
+  assert.deepEqual(second.data.map(item => item.id), ids.slice(2, 4));
+
+  const all = await list({ limit: 2, fetchAll: true });
+  assert.deepEqual(all.data.map(item => item.id), ids);
+  assert.equal(all.count, 5);
+  assert.equal(all.truncated, false);
+  assert.equal(all.nextPage, undefined);
+
+  // The token after a capped read resumes right after the last item returned
+  const capped = await list({ limit: 2, maxItems: 3 });
+  assert.deepEqual(capped.data.map(item => item.id), ids.slice(0, 3));
+  assert.equal(capped.truncated, true);
+  const rest = await list({ limit: 2, page: capped.nextPage });
+  assert.deepEqual(rest.data.map(item => item.id), ids.slice(3));
+
+  const empty = await list({ page: '' });
+  assert.equal(empty.success, false);
+  assert.equal(empty.error.type, 'validation');
+});
@@ -0,0 +1,154 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync } from 'crypto';
+import { createServer } from 'http';
+import * as oci from 'oci-sdk';
+import { OCIConfigurationError } from '../dist/utils/errors.js';
+import { OCIRetrier, resolveRetryPolicy } from '../dist/utils/retry.js';
+import { OCIClientManager } from '../dist/utils/oci-client.js';
+import { SdkOCIBackend } from '../dist/utils/oci-backend.js';
+import { COMPARTMENT_ID, createBucket, fakeCloud, ok, serviceError } from './helpers.js';
+
+test('transient failures are retried and counted in the response', async () => {
+  const cloud = fakeCloud();
+  cloud.state.injectFault({ operation: 'listVcns', statusCode: 503, serviceCode: 'ServiceUnavailable', times: 2 });
+
+  const response = await cloud.storage({ action: 'list', resourceType: 'vcns', compartmentId: COMPARTMENT_ID });
+  assert.equal(response.success, true);
+  assert.equal(response.retries, 2);
+
+  cloud.state.injectFault({ operation: 'listVcns', statusCode: 404, serviceCode: 'NotAuthorizedOrNotFound' });
+  const notFound = await cloud.storage({ action: 'list', resourceType: 'vcns', compartmentId: COMPARTMENT_ID });
+  assert.equal(notFound.success, false);
+  assert.equal(notFound.retries, 0);
+  assert.equal(notFound.error.retryable, false);
+  assert.match(notFound.error.hint, /IAM policies/);
+});
+
+test('requests without a retry token are replayed only when OCI turned them away', async () => {
+  const cloud = fakeCloud();
+
+  cloud.state.injectFault({ operation: 'createBucket', statusCode: 503, serviceCode: 'ServiceUnavailable' });
+  const failed = await cloud.storage({ action: 'create', resourceType: 'bucket', data: { name: 'once', compartmentId: COMPARTMENT_ID } });
+  assert.equal(failed.success, false);
+  assert.equal(failed.retries, 0);
+  assert.equal(failed.error.statusCode, 503);
+  assert.equal(failed.error.retryable, true);
+
+  cloud.state.injectFault({ operation: 'createBucket', statusCode: 429, serviceCode: 'TooManyRequests' });
+  const throttled = await cloud.storage({ action: 'create', resourceType: 'bucket', data: { name: 'once', compartmentId: COMPARTMENT_ID } });
+  assert.equal(throttled.success, true);
+  assert.equal(throttled.retries, 1);
+});
+
+test('retried creates carry the same retry token on every attempt', async () => {
+  const retrier = new OCIRetrier(resolveRetryPolicy({ baseDelayMs: 1 }));
+  const tokens = [];
+
+  await retrier.call('compute', 'launchInstance', [{ launchInstanceDetails: {} }], async ([request]) => {
+    tokens.push(request.opcRetryToken);
+    if (tokens.length < 3) {
+      throw serviceError(500, 'InternalServerError');
+    }
+    return {};
+  });
+  assert.equal(tokens.length, 3);
+  assert.ok(tokens[0]);
+  assert.equal(new Set(tokens).size, 1);
+
+  // A caller's own token is kept, and operations that take none are left alone
+  const seen = [];
+  await retrier.call('compute', 'launchInstance', [{ opcRetryToken: 'mine' }], async ([request]) => seen.push(request.opcRetryToken));
+  await retrier.call('objectStorage', 'createBucket', [{}], async ([request]) => seen.push(request.opcRetryToken));
+  assert.deepEqual(seen, ['mine', undefined]);
+});
+
+test('a retry-after longer than the maximum delay fails the call instead of waiting', async () => {
+  const cloud = fakeCloud();
+  cloud.state.injectFault({ operation: 'listVcns', statusCode: 429, serviceCode: 'TooManyRequests', retryAfterSeconds: 60 });
+
+  const response = await cloud.storage({ action: 'list', resourceType: 'vcns', compartmentId: COMPARTMENT_ID });
+  assert.equal(response.success, false);
+  assert.equal(response.retries, 0);
+  assert.equal(response.error.statusCode, 429);
+});
+
+test('signed requests to OCI honor the retry-after header of throttled responses', async t => {
+  // Answers each request with the next status, sending retry-after with the 429s
+  const replies = [[429, '0.05'], [200], [429, '60']];
+  const requests = [];
+  const server = createServer((request, response) => {
+    requests.push(request.headers);
+    const [status, retryAfter] = replies.shift();
+    response.writeHead(status, {
+      'content-type': 'application/json',
+      'opc-request-id': `request-${requests.length}`,
+      ...(retryAfter ? { 'retry-after': retryAfter } : {})
+    });
+    response.end(status === 200 ? '[]' : JSON.stringify({ code: 'TooManyRequests', message: 'Throttled' }));
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => server.close());
+
+  const { privateKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' }
+  });
+  const provider = new oci.common.SimpleAuthenticationDetailsProvider(
+    'ocid1.tenancy.oc1..test', 'ocid1.user.oc1..test', 'aa:bb', privateKey, null, oci.common.Region.US_ASHBURN_1
+  );
+  const backend = new SdkOCIBackend(provider);
+  backend.virtualNetworkClient.endpoint = `http://127.0.0.1:${server.address().port}`;
+  const client = new OCIClientManager({
+    tenancyId: 'ocid1.tenancy.oc1..test', userId: 'ocid1.user.oc1..test', keyFingerprint: 'aa:bb', privateKeyPath: '/dev/null', region: 'us-ashburn-1'
+  }, backend, { baseDelayMs: 1, maxDelayMs: 1000 });
+  const list = () => client.virtualNetworkClient.listVcns({ compartmentId: COMPARTMENT_ID });
+
+  // A short retry-after is waited out
+  const started = Date.now();
+  await list();
+  assert.ok(Date.now() - started >= 40);
+  assert.equal(requests.length, 2);
+  assert.match(requests[0].authorization, /^Signature /);
+
+  // A retry-after beyond maxDelayMs fails the call without retrying
+  await assert.rejects(list(), error => error.statusCode === 429);
+  assert.equal(requests.length, 3);
+});
+
+test('the circuit breaker rejects calls to a service that keeps failing', async () => {
+  const cloud = fakeCloud({}, { maxAttempts: 1, circuitBreakerThreshold: 2, circuitBreakerCooldownMs: 60000 });
+  cloud.state.injectFault({ operation: 'listVcns', statusCode: 503, serviceCode: 'ServiceUnavailable', times: 2 });
+
+  for (let i = 0; i < 2; i++) {
+    const response = await cloud.storage({ action: 'list', resourceType: 'vcns', compartmentId: COMPARTMENT_ID });
+    assert.equal(response.error.statusCode, 503);
+  }
+
+  const open = await cloud.storage({ action: 'list', resourceType: 'vcns', compartmentId: COMPARTMENT_ID });
+  assert.equal(open.success, false);
+  assert.equal(open.error.serviceCode, 'CircuitOpen');
+  assert.equal(open.error.retryable, true);
+
+  // Other services have their own breaker
+  await createBucket(cloud);
+  ok(await cloud.storage({ action: 'list', resourceType: 'buckets', compartmentId: COMPARTMENT_ID }));
+});
+
+test('retry policy settings from the environment are validated', t => {
+  t.after(() => {
+    delete process.env.OCI_RETRY_MAX_ATTEMPTS;
+  });
+
+  process.env.OCI_RETRY_MAX_ATTEMPTS = '7';
+  assert.equal(resolveRetryPolicy().maxAttempts, 7);
+  assert.equal(resolveRetryPolicy({ maxAttempts: 2 }).maxAttempts, 2);
+
+  process.env.OCI_RETRY_MAX_ATTEMPTS = '0';
+  assert.throws(() => resolveRetryPolicy(), error => {
+    assert.ok(error instanceof OCIConfigurationError);
+    assert.match(error.message, /maxAttempts \(OCI_RETRY_MAX_ATTEMPTS\)/);
+    return true;
+  });
+});
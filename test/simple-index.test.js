@@ -0,0 +1,125 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { callTool, COMPARTMENT_ID, connectServer } from './helpers.js';
+
+let client;
+
+before(async () => {
+  client = await connectServer('simple-index.js');
+});
+
+after(async () => {
+  await client?.close();
+});
+
+const manage = args => callTool(client, 'oci-manage', args);
+
+async function createVcn(displayName) {
+  const vcn = await manage({
+    service: 'network',
+    action: 'create',
+    resourceType: 'vcn',
+    parameters: { compartmentId: COMPARTMENT_ID, cidrBlock: '10.0.0.0/16', displayName }
+  });
+  assert.equal(vcn.isError, false, vcn.response.message);
+  return vcn.response.data;
+}
+
+test('the server registers the single oci-manage tool', async () => {
+  const { tools } = await client.listTools();
+
+  assert.deepEqual(tools.map(tool => tool.name), ['oci-manage']);
+  assert.deepEqual(tools[0].inputSchema.required, ['service', 'action', 'resourceType']);
+});
+
+test('generic actions are routed to the action of the resource type', async () => {
+  const alarm = await manage({
+    service: 'monitoring',
+    action: 'create',
+    resourceType: 'alarm',
+    compartmentId: COMPARTMENT_ID,
+    parameters: {
+      displayName: 'cpu-high',
+      metricCompartmentId: COMPARTMENT_ID,
+      namespace: 'oci_computeagent',
+      query: 'CpuUtilization[1m].mean() > 90',
+      severity: 'CRITICAL',
+      destinations: ['ocid1.onstopic.oc1..test']
+    }
+  });
+  assert.equal(alarm.isError, false, alarm.response.message);
+
+  // update -> update-alarm, with parameters merged into the request
+  const updated = await manage({ service: 'monitoring', action: 'update', resourceType: 'alarm', resourceId: alarm.response.data.id, parameters: { severity: 'WARNING' } });
+  assert.equal(updated.response.data.severity, 'WARNING');
+
+  // delete -> delete-bucket; service-specific actions pass through unchanged
+  const bucket = await manage({ service: 'storage', action: 'create', resourceType: 'bucket', compartmentId: COMPARTMENT_ID, parameters: { name: 'routed' } });
+  const upload = await manage({
+    service: 'storage',
+    action: 'upload-object',
+    resourceType: 'object',
+    parameters: { bucketName: bucket.response.data.name, objectName: 'a.txt', objectContent: 'routed' }
+  });
+  assert.equal(upload.isError, false, upload.response.message);
+  const objects = await manage({ service: 'storage', action: 'list', resourceType: 'objects', parameters: { bucketName: 'routed' } });
+  assert.deepEqual(objects.response.data.map(object => object.name), ['a.txt']);
+
+  await manage({ service: 'storage', action: 'delete', resourceType: 'object', parameters: { bucketName: 'routed', objectName: 'a.txt' } });
+  const deleted = await manage({ service: 'storage', action: 'delete', resourceType: 'bucket', parameters: { bucketName: 'routed' } });
+  assert.equal(deleted.isError, false, deleted.response.message);
+  const buckets = await manage({ service: 'storage', action: 'list', resourceType: 'buckets', compartmentId: COMPARTMENT_ID });
+  assert.ok(!buckets.response.data.some(item => item.name === 'routed'));
+});
+
+test('bad arguments are InvalidParams errors and service failures are flagged isError', async () => {
+  const invalid = (args, pattern) => assert.rejects(client.callTool({ name: 'oci-manage', arguments: args }), error => {
+    assert.ok(error instanceof McpError);
+    assert.equal(error.code, ErrorCode.InvalidParams);
+    assert.match(error.message, pattern);
+    return true;
+  });
+
+  await invalid({ service: 'storage' }, /Missing required parameters: service, action, resourceType/);
+  await invalid({ service: 'dns', action: 'list', resourceType: 'zones' }, /Unsupported service: dns/);
+  await invalid({ service: 'storage', action: 'get', resourceType: 'bucket' }, /Invalid storage input for action 'get' on 'bucket': resourceId: Required/);
+
+  const missing = await manage({ service: 'compute', action: 'get', resourceType: 'instance', resourceId: 'ocid1.instance.oc1.us-ashburn-1.missing' });
+  assert.equal(missing.isError, true);
+  assert.equal(missing.response.error.statusCode, 404);
+});
+
+test('arguments left out at the top level keep their value from parameters', async () => {
+  const vcn = await createVcn('from-parameters');
+
+  const fromParameters = await manage({ service: 'network', action: 'get', resourceType: 'vcn', parameters: { resourceId: vcn.id } });
+  assert.equal(fromParameters.isError, false, fromParameters.response.message);
+  assert.equal(fromParameters.response.data.displayName, 'from-parameters');
+
+  // Given at both levels, the top-level argument wins
+  const other = await createVcn('top-level');
+  const both = await manage({ service: 'network', action: 'get', resourceType: 'vcn', resourceId: other.id, parameters: { resourceId: vcn.id } });
+  assert.equal(both.response.data.displayName, 'top-level');
+});
+
+test('create takes its compartment from the top level unless parameters name one', async () => {
+  const bucket = await manage({
+    service: 'storage',
+    action: 'create',
+    resourceType: 'bucket',
+    compartmentId: COMPARTMENT_ID,
+    parameters: { name: 'top-level-compartment' }
+  });
+  assert.equal(bucket.isError, false, bucket.response.message);
+  assert.equal(bucket.response.data.compartmentId, COMPARTMENT_ID);
+
+  const own = await manage({
+    service: 'storage',
+    action: 'create',
+    resourceType: 'bucket',
+    compartmentId: COMPARTMENT_ID,
+    parameters: { name: 'own-compartment', compartmentId: 'ocid1.compartment.oc1..other' }
+  });
+  assert.equal(own.response.data.compartmentId, 'ocid1.compartment.oc1..other');
+});
@@ -0,0 +1,313 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { planConcurrency } from '../dist/utils/multipart-upload.js';
+import { COMPARTMENT_ID, createBucket, createSubnet, fakeCloud, launchInstance, ok, serviceError } from './helpers.js';
+
+function tempDir() {
+  return mkdtempSync(join(tmpdir(), 'oci-storage-test-'));
+}
+
+test('create checks data against the schema of its resource type and defaults the namespace', async () => {
+  const cloud = fakeCloud();
+
+  const bucket = await createBucket(cloud, 'no-namespace');
+  assert.equal(bucket.namespace, 'fakenamespace');
+
+  const noName = await cloud.storage({ action: 'create', resourceType: 'bucket', data: { compartmentId: COMPARTMENT_ID } });
+  assert.equal(noName.success, false);
+  assert.deepEqual(noName.error.issues.map(issue => issue.path), ['data.name']);
+
+  const noCidr = await cloud.storage({ action: 'create', resourceType: 'vcn', data: { compartmentId: COMPARTMENT_ID } });
+  assert.equal(noCidr.success, false);
+  assert.deepEqual(noCidr.error.issues.map(issue => issue.path), ['data.cidrBlock']);
+  assert.equal(cloud.state.vcns.size, 0);
+});
+
+test('private IPs are added to VNICs and reserved public IPs are assigned to them', async () => {
+  const cloud = fakeCloud();
+  const instance = await launchInstance(cloud);
+  const [vnic] = ok(await cloud.compute({ action: 'list', resourceType: 'vnics', instanceId: instance.id }));
+
+  const privateIp = ok(await cloud.storage({ action: 'add-private-ip', resourceType: 'vnic', resourceId: vnic.id, hostnameLabel: 'extra' }));
+  assert.equal(privateIp.vnicId, vnic.id);
+  assert.equal(privateIp.isPrimary, false);
+
+  const publicIp = ok(await cloud.storage({
+    action: 'create', resourceType: 'public-ip',
+    data: { compartmentId: COMPARTMENT_ID, displayName: 'frontend', privateIpId: privateIp.id }
+  }));
+  assert.equal(publicIp.lifetime, 'RESERVED');
+  assert.equal(publicIp.assignedEntityId, privateIp.id);
+
+  const taken = await cloud.storage({
+    action: 'create', resourceType: 'public-ip', data: { compartmentId: COMPARTMENT_ID, privateIpId: privateIp.id }
+  });
+  assert.equal(taken.success, false);
+
+  const [primary] = [...cloud.state.privateIps.values()].filter(ip => ip.vnicId === vnic.id && ip.isPrimary);
+  const deletePrimary = await cloud.storage({ action: 'delete-private-ip', resourceType: 'private-ip', resourceId: primary.id });
+  assert.equal(deletePrimary.success, false);
+  assert.equal(deletePrimary.error.type, 'validation');
+});
+
+test('objects round-trip as text and binary, and ranged reads return the requested bytes', async () => {
+  const cloud = fakeCloud();
+  await createBucket(cloud);
+
+  ok(await cloud.storage({
+    action: 'upload-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'hello.txt', objectContent: 'hello world'
+  }));
+  const text = ok(await cloud.storage({ action: 'download-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'hello.txt' }));
+  assert.equal(text.content, 'hello world');
+
+  const binary = Buffer.from([0, 255, 1, 254, 2, 253]);
+  ok(await cloud.storage({
+    action: 'upload-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'data.bin',
+    objectContent: binary.toString('base64'), encoding: 'base64', contentType: 'application/octet-stream'
+  }));
+  const downloaded = ok(await cloud.storage({ action: 'download-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'data.bin' }));
+  assert.equal(downloaded.encoding, 'base64');
+  assert.deepEqual(Buffer.from(downloaded.content, 'base64'), binary);
+
+  const range = ok(await cloud.storage({
+    action: 'download-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'hello.txt',
+    rangeStart: 6, rangeEnd: 10, encoding: 'text'
+  }));
+  assert.equal(range.content, 'world');
+
+  const dir = tempDir();
+  const path = join(dir, 'hello.txt');
+  ok(await cloud.storage({
+    action: 'download-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'hello.txt', localPath: path
+  }));
+  assert.equal(readFileSync(path, 'utf8'), 'hello world');
+  const exists = await cloud.storage({
+    action: 'download-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'hello.txt', localPath: path
+  });
+  assert.equal(exists.success, false);
+  assert.equal(exists.error.type, 'validation');
+});
+
+test('multipart uploads send the file in parts, and a failed upload can be resumed', async () => {
+  const cloud = fakeCloud();
+  await createBucket(cloud);
+  const path = join(tempDir(), 'large.bin');
+  // Three parts of the smallest part size
+  const content = Buffer.alloc(25 * 1024 * 1024);
+  for (let offset = 0; offset < content.length; offset += 4096) {
+    content[offset] = offset % 251;
+  }
+  writeFileSync(path, content);
+
+  cloud.state.injectFault({ operation: 'uploadPart', statusCode: 400, serviceCode: 'InvalidParameter', times: 1 });
+  const failed = await cloud.storage({
+    action: 'upload-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'large.bin',
+    localPath: path, multipart: true, partSizeMiB: 10, concurrency: 1, keepOnFailure: true
+  });
+  assert.equal(failed.success, false);
+  assert.match(failed.error.hint, /Resume with uploadId/);
+  const [upload] = cloud.state.multipartUploads.values();
+
+  // A resumed upload that fails again is kept without asking
+  cloud.state.injectFault({ operation: 'uploadPart', statusCode: 400, serviceCode: 'InvalidParameter', times: 1 });
+  const failedAgain = await cloud.storage({
+    action: 'upload-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'large.bin',
+    localPath: path, multipart: true, partSizeMiB: 10, concurrency: 1, uploadId: upload.uploadId
+  });
+  assert.match(failedAgain.error.hint, /Resume with uploadId/);
+  assert.ok(cloud.state.multipartUploads.has(upload.uploadId));
+
+  const resumed = ok(await cloud.storage({
+    action: 'upload-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'large.bin',
+    localPath: path, multipart: true, partSizeMiB: 10, uploadId: upload.uploadId
+  }));
+  assert.equal(resumed.partCount, 3);
+  assert.equal(resumed.concurrency, 3);
+  const stored = cloud.state.objects.get('fakenamespace/test-bucket').get('large.bin');
+  assert.equal(createHash('md5').update(stored.body).digest('hex'), createHash('md5').update(content).digest('hex'));
+  assert.equal(cloud.state.multipartUploads.size, 0);
+});
+
+test('multipart uploads keep the parts in flight within the memory budget', () => {
+  const mib = 1024 * 1024;
+  assert.equal(planConcurrency(128 * mib, 100), 4);
+  assert.equal(planConcurrency(64 * mib, 100, 16), 16);
+  assert.equal(planConcurrency(256 * mib, 100, 16), 4);
+  assert.equal(planConcurrency(1024 * mib, 100, 16), 1);
+  assert.equal(planConcurrency(10 * mib, 2, 16), 2);
+});
+
+test('a multipart upload whose commit fails is aborted unless kept', async () => {
+  const cloud = fakeCloud();
+  await createBucket(cloud);
+  const path = join(tempDir(), 'commit.bin');
+  writeFileSync(path, Buffer.alloc(11 * 1024 * 1024, 1));
+  const upload = { action: 'upload-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'commit.bin', localPath: path, multipart: true, partSizeMiB: 10 };
+
+  cloud.state.injectFault({ operation: 'commitMultipartUpload', statusCode: 400, serviceCode: 'InvalidParameter' });
+  const aborted = await cloud.storage(upload);
+  assert.equal(aborted.success, false);
+  assert.equal(aborted.error.statusCode, 400);
+  assert.match(aborted.message, /Multipart upload \S+ of commit.bin failed and was aborted: /);
+  assert.equal(cloud.state.multipartUploads.size, 0);
+
+  cloud.state.injectFault({ operation: 'commitMultipartUpload', statusCode: 400, serviceCode: 'InvalidParameter' });
+  const kept = await cloud.storage({ ...upload, keepOnFailure: true });
+  const [pending] = cloud.state.multipartUploads.values();
+  assert.match(kept.error.hint, new RegExp(`Resume with uploadId ${pending.uploadId}`));
+});
+
+test('pre-authenticated requests are scoped to an object and need an expiry', async () => {
+  const cloud = fakeCloud();
+  await createBucket(cloud);
+
+  const noExpiry = await cloud.storage({
+    action: 'create-par', resourceType: 'preauthenticated-request', bucketName: 'test-bucket', objectName: 'report.pdf'
+  });
+  assert.equal(noExpiry.success, false);
+  assert.equal(noExpiry.error.type, 'validation');
+
+  const par = ok(await cloud.storage({
+    action: 'create-par', resourceType: 'preauthenticated-request', bucketName: 'test-bucket',
+    objectName: 'report.pdf', expiresInHours: 24
+  }));
+  assert.equal(par.objectName, 'report.pdf');
+  assert.equal(par.accessType, 'ObjectRead');
+  assert.equal(par.scope, 'object');
+  assert.match(par.url, /^https:\/\/objectstorage\.us-ashburn-1\.oraclecloud\.com\/p\/.+\/o\/report\.pdf$/);
+
+  ok(await cloud.storage({ action: 'delete-par', resourceType: 'preauthenticated-request', bucketName: 'test-bucket', resourceId: par.id }));
+  assert.equal(cloud.state.preauthenticatedRequests.size, 0);
+});
+
+test('versioning keeps previous versions that can be restored', async () => {
+  const cloud = fakeCloud();
+  await createBucket(cloud);
+  ok(await cloud.storage({ action: 'set-versioning', resourceType: 'bucket', bucketName: 'test-bucket', versioning: 'Enabled' }));
+
+  for (const content of ['first', 'second']) {
+    ok(await cloud.storage({
+      action: 'upload-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'notes.txt', objectContent: content
+    }));
+  }
+  // Newest first
+  const versions = ok(await cloud.storage({ action: 'list', resourceType: 'object-versions', bucketName: 'test-bucket', objectName: 'notes.txt' }));
+  assert.deepEqual(versions.map(version => version.size), [6, 5]);
+
+  const previous = versions[1];
+  const restored = ok(await cloud.storage({
+    action: 'restore-object-version', resourceType: 'object', bucketName: 'test-bucket', objectName: 'notes.txt', versionId: previous.versionId
+  }));
+  const current = ok(await cloud.storage({ action: 'download-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'notes.txt' }));
+  assert.equal(current.content, 'first');
+  assert.equal(current.versionId, restored.versionId);
+
+  // The version is copied within OCI rather than downloaded and uploaded again
+  const [copy] = cloud.state.objectStorageWorkRequests.values();
+  assert.equal(copy.operationType, 'COPY_OBJECT');
+  assert.equal(copy.resources[0].identifier, restored.versionId);
+});
+
+test('lifecycle policies are stored as rules and retention rules block deletes', async () => {
+  const cloud = fakeCloud();
+  await createBucket(cloud);
+
+  ok(await cloud.storage({
+    action: 'put-lifecycle-policy', resourceType: 'lifecycle-policy', bucketName: 'test-bucket',
+    rules: [{ name: 'archive-logs', action: 'ARCHIVE', timeAmount: 30, inclusionPatterns: ['*.log'] }]
+  }));
+  const policy = ok(await cloud.storage({ action: 'get', resourceType: 'lifecycle-policy', resourceId: 'test-bucket' }));
+  assert.equal(policy.rules.length, 1);
+  assert.equal(policy.rules[0].name, 'archive-logs');
+
+  ok(await cloud.storage({
+    action: 'upload-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'audit.log', objectContent: 'entry'
+  }));
+  ok(await cloud.storage({
+    action: 'create-retention-rule', resourceType: 'retention-rule', bucketName: 'test-bucket', timeAmount: 7, timeUnit: 'DAYS'
+  }));
+  const deleted = await cloud.storage({ action: 'delete-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'audit.log' });
+  assert.equal(deleted.success, false);
+  assert.equal(deleted.error.type, 'service');
+  assert.ok(cloud.state.objects.get('fakenamespace/test-bucket').has('audit.log'));
+});
+
+test('sync plans a dry run, uploads changes and deletes only when asked', async () => {
+  const cloud = fakeCloud();
+  await createBucket(cloud);
+  const dir = tempDir();
+  mkdirSync(join(dir, 'css'));
+  writeFileSync(join(dir, 'index.html'), '<h1>hi</h1>');
+  writeFileSync(join(dir, 'css', 'site.css'), 'h1 { color: red }');
+  ok(await cloud.storage({
+    action: 'upload-object', resourceType: 'object', bucketName: 'test-bucket', objectName: 'site/stale.html', objectContent: 'old'
+  }));
+
+  const plan = ok(await cloud.storage({
+    action: 'sync', resourceType: 'objects', bucketName: 'test-bucket', prefix: 'site', localPath: dir, delete: true
+  }));
+  assert.deepEqual(plan.transfers.map(transfer => transfer.objectName), ['site/css/site.css', 'site/index.html']);
+  assert.deepEqual(plan.deletions.map(deletion => deletion.objectName), ['site/stale.html']);
+  assert.equal(cloud.state.objects.get('fakenamespace/test-bucket').size, 1, 'a dry run changes nothing');
+
+  ok(await cloud.storage({
+    action: 'sync', resourceType: 'objects', bucketName: 'test-bucket', prefix: 'site', localPath: dir, delete: true, dryRun: false
+  }));
+  assert.deepEqual([...cloud.state.objects.get('fakenamespace/test-bucket').keys()].sort(), ['site/css/site.css', 'site/index.html']);
+
+  const again = ok(await cloud.storage({ action: 'sync', resourceType: 'objects', bucketName: 'test-bucket', prefix: 'site', localPath: dir }));
+  assert.equal(again.transfers.length, 0);
+
+  const download = join(tempDir(), 'copy');
+  ok(await cloud.storage({
+    action: 'sync', resourceType: 'objects', bucketName: 'test-bucket', prefix: 'site', localPath: download, direction: 'download', dryRun: false
+  }));
+  assert.equal(readFileSync(join(download, 'css', 'site.css'), 'utf8'), 'h1 { color: red }');
+
+  const missing = await cloud.storage({
+    action: 'sync', resourceType: 'objects', bucketName: 'test-bucket', prefix: 'site', localPath: join(dir, 'missing'), delete: true, dryRun: false
+  });
+  assert.equal(missing.success, false);
+  assert.equal(cloud.state.objects.get('fakenamespace/test-bucket').size, 2);
+  assert.ok(!existsSync(join(dir, 'missing')));
+});
+
+test('a failed sync transfer waits for the transfers in flight before it reports', async () => {
+  const cloud = fakeCloud();
+  await createBucket(cloud);
+  const dir = tempDir();
+  writeFileSync(join(dir, 'a.txt'), 'fails');
+  writeFileSync(join(dir, 'b.txt'), 'slow');
+
+  // a.txt fails at once while b.txt is still being uploaded
+  const objectStorage = cloud.backend.objectStorageClient;
+  cloud.backend.objectStorageClient = new Proxy(objectStorage, {
+    get: (target, prop) => prop === 'putObject'
+      ? async request => {
+        if (request.objectName === 'site/a.txt') {
+          throw serviceError(400, 'InvalidParameter');
+        }
+        await new Promise(resolve => setTimeout(resolve, 50));
+        return target.putObject(request);
+      }
+      : Reflect.get(target, prop)
+  });
+
+  const response = await cloud.storage({
+    action: 'sync', resourceType: 'objects', bucketName: 'test-bucket', prefix: 'site', localPath: dir, dryRun: false, concurrency: 2
+  });
+  assert.equal(response.success, false);
+  assert.match(response.message, /Sync stopped at a\.txt after 1 of 2 transfers/);
+  assert.ok(cloud.state.objects.get('fakenamespace/test-bucket').has('site/b.txt'));
+});
+
+test('subnets are created inside their VCN', async () => {
+  const cloud = fakeCloud();
+  const subnet = await createSubnet(cloud);
+  const subnets = ok(await cloud.storage({ action: 'list', resourceType: 'subnets', compartmentId: COMPARTMENT_ID, vcnId: subnet.vcnId }));
+  assert.deepEqual(subnets.map(item => item.id), [subnet.id]);
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeCloud, launchInstance } from './helpers.js';
+
+test('lifecycle actions wait for the requested state', async () => {
+  const cloud = fakeCloud();
+  const instance = await launchInstance(cloud);
+
+  const stopped = await cloud.compute({ action: 'stop', resourceType: 'instance', resourceId: instance.id, waitForState: 'stopped' });
+  assert.equal(stopped.success, true);
+  assert.equal(stopped.finalState, 'STOPPED');
+  assert.equal(stopped.data.lifecycleState, 'STOPPED');
+  assert.equal(typeof stopped.elapsedMs, 'number');
+  assert.match(stopped.message, /reached STOPPED after/);
+
+  // Unknown states and stray timeouts are rejected before the action is sent
+  const unknown = await cloud.compute({ action: 'start', resourceType: 'instance', resourceId: instance.id, waitForState: 'UP' });
+  assert.equal(unknown.success, false);
+  assert.match(unknown.message, /Unknown instance state "UP"/);
+  const timeoutOnly = await cloud.compute({ action: 'start', resourceType: 'instance', resourceId: instance.id, waitTimeoutSeconds: 60 });
+  assert.equal(timeoutOnly.success, false);
+  assert.match(timeoutOnly.message, /waitTimeoutSeconds requires waitForState/);
+  assert.equal(cloud.state.instances.get(instance.id).lifecycleState, 'STOPPED');
+
+  const terminated = await cloud.compute({ action: 'terminate', resourceType: 'instance', resourceId: instance.id, waitForState: 'TERMINATED' });
+  assert.equal(terminated.success, true);
+  assert.equal(terminated.finalState, 'TERMINATED');
+});
+
+test('a wait that runs out of time reports the state the resource is in', async () => {
+  const cloud = fakeCloud();
+  const instance = await launchInstance(cloud);
+
+  // The fake stops instances at once, so STOPPING is never observed
+  const response = await cloud.compute({
+    action: 'stop',
+    resourceType: 'instance',
+    resourceId: instance.id,
+    waitForState: 'STOPPING',
+    waitTimeoutSeconds: 1
+  });
+  assert.equal(response.success, false);
+  assert.equal(response.error.serviceCode, 'WaitTimeout');
+  assert.match(response.message, /did not reach STOPPING within 1s \(currently STOPPED\)/);
+});
+
+test('a poll that fails is reported as that failure, not as a timeout', async () => {
+  const cloud = fakeCloud({}, { maxAttempts: 1 });
+  const instance = await launchInstance(cloud);
+
+  // Polls of the instance fail as if the connection dropped
+  const compute = cloud.backend.computeClient;
+  cloud.backend.computeClient = new Proxy(compute, {
+    get: (target, prop) => prop === 'getInstance'
+      ? async () => { throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }); }
+      : Reflect.get(target, prop)
+  });
+
+  const response = await cloud.compute({ action: 'stop', resourceType: 'instance', resourceId: instance.id, waitForState: 'STOPPED' });
+  assert.equal(response.success, false);
+  assert.equal(response.error.type, 'network');
+  assert.equal(response.message, 'OCI network error: socket hang up');
+  assert.equal(cloud.state.instances.get(instance.id).lifecycleState, 'STOPPED');
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { COMPARTMENT_ID, fakeCloud, launchInstance, ok } from './helpers.js';
+
+test('work requests of an operation are listed with their logs', async () => {
+  const cloud = fakeCloud();
+  const instance = await launchInstance(cloud);
+
+  const stop = ok(await cloud.compute({ action: 'stop', resourceType: 'instance', resourceId: instance.id }));
+  assert.equal(stop.lifecycleState, 'STOPPED');
+
+  const requests = ok(await cloud.workRequests({
+    action: 'list',
+    resourceType: 'work-requests',
+    compartmentId: COMPARTMENT_ID,
+    resourceId: instance.id
+  }));
+  const launch = requests.find(request => request.operationType === 'LaunchInstance');
+  assert.ok(launch);
+  assert.equal(launch.status, 'SUCCEEDED');
+
+  const detail = ok(await cloud.workRequests({ action: 'get', resourceType: 'work-request', resourceId: launch.id }));
+  assert.equal(detail.id, launch.id);
+  assert.equal(detail.percentComplete, 100);
+
+  const logs = ok(await cloud.workRequests({ action: 'list', resourceType: 'work-request-logs', workRequestId: launch.id }));
+  assert.deepEqual(logs.map(entry => entry.message), ['LaunchInstance accepted', 'LaunchInstance succeeded']);
+
+  const missing = await cloud.workRequests({ action: 'list', resourceType: 'work-request-logs' });
+  assert.equal(missing.success, false);
+  assert.equal(missing.error.type, 'validation');
+});